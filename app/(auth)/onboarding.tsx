@@ -13,6 +13,13 @@ import { Button } from "@/components/ui/button";
 import { Text } from "@/components/ui/text";
 import { H1, H2 } from "@/components/ui/typography";
 import { useAuth } from "@/context/supabase-provider";
+import { SKILL_ASSESSMENT_CONFIG } from "@/constants/skill-assessment";
+import {
+  SkillAssessmentAnswers,
+  isAssessmentComplete,
+  seedRatingFromAssessment,
+} from "@/lib/skill-assessment";
+import { ProvisionalRatingService } from "@/services/provisional-rating.service";
 
 // 1. Add 'number' to the FormData interface
 interface FormData {
@@ -40,6 +47,9 @@ export default function EditProfile() {
     court_playing_side: "",
     number: "", // 2. Initialize 'number' in the state
   });
+  const [assessment, setAssessment] = useState<SkillAssessmentAnswers>({});
+  // The self-assessment seeds a player once, before any rated match
+  const [canSeedRating, setCanSeedRating] = useState(false);
 
   useEffect(() => {
     if (profile) {
@@ -53,14 +63,49 @@ export default function EditProfile() {
         court_playing_side: profile.court_playing_side || "",
         number: profile.number || "", // 3. Populate 'number' from the profile
       });
+      setAssessment(profile.skill_assessment || {});
     }
   }, [profile]);
 
+  const hasSeededRating =
+    !!profile?.skill_assessment &&
+    Object.keys(profile.skill_assessment).length > 0;
+
+  useEffect(() => {
+    if (!profile?.id || hasSeededRating) {
+      setCanSeedRating(false);
+      return;
+    }
+
+    // If the count can't be checked, never risk overwriting a real rating
+    ProvisionalRatingService.getRatedMatchCount(profile.id)
+      .then((count) => setCanSeedRating(count === 0))
+      .catch((error) => {
+        console.error("Error checking rated matches:", error);
+        setCanSeedRating(false);
+      });
+  }, [profile?.id, hasSeededRating]);
+
   const handleSave = async () => {
     try {
       setSaving(true);
+      // Seed the starting rating from the self-assessment
+      const ratingSeed =
+        canSeedRating && isAssessmentComplete(assessment)
+          ? seedRatingFromAssessment(assessment)
+          : null;
+
       // The entire formData object, including the number, will be saved
-      await saveProfile(formData);
+      await saveProfile({
+        ...formData,
+        age: formData.age ? parseInt(formData.age, 10) : null,
+        ...(ratingSeed && {
+          skill_assessment: assessment,
+          glicko_rating: ratingSeed.rating.toString(),
+          glicko_rd: ratingSeed.rd.toString(),
+          glicko_vol: ratingSeed.vol.toString(),
+        }),
+      });
       router.back();
     } catch (error) {
       console.error("Error saving profile:", error);
@@ -140,6 +185,43 @@ export default function EditProfile() {
     </View>
   );
 
+  const renderAssessmentQuestion = (
+    question: (typeof SKILL_ASSESSMENT_CONFIG.QUESTIONS)[number],
+  ) => (
+    <View key={question.id} className="mb-6">
+      <Text className="text-sm font-medium mb-2 text-muted-foreground">
+        {question.title}
+      </Text>
+      <View className="gap-2">
+        {question.options.map((option) => {
+          const selected = assessment[question.id] === option.value;
+          return (
+            <TouchableOpacity
+              key={option.value}
+              className={`px-4 py-3 rounded-xl border-2 ${
+                selected ? "bg-primary border-primary" : "bg-card border-border"
+              }`}
+              onPress={() =>
+                setAssessment((prev) => ({
+                  ...prev,
+                  [question.id]: option.value,
+                }))
+              }
+            >
+              <Text
+                className={`font-medium ${
+                  selected ? "text-primary-foreground" : "text-foreground"
+                }`}
+              >
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+
   if (!profile) {
     return (
       <View className="flex-1 bg-background items-center justify-center">
@@ -235,6 +317,18 @@ export default function EditProfile() {
           )}
         </View>
 
+        {/* Skill Assessment Section */}
+        {canSeedRating && (
+          <View className="mb-8">
+            <H1 className="mb-2">Skill Assessment</H1>
+            <Text className="text-sm text-muted-foreground mb-6">
+              Your answers set your starting rating so your first matches are
+              fair for everyone.
+            </Text>
+            {SKILL_ASSESSMENT_CONFIG.QUESTIONS.map(renderAssessmentQuestion)}
+          </View>
+        )}
+
         {/* Save Button */}
         <Button
           className="w-full mb-8"
@@ -1,5 +1,15 @@
 import React from "react";
-import { View, ScrollView, TouchableOpacity, TextInput, Alert, ToastAndroid, Platform, Image, BackHandler } from "react-native";
+import {
+  View,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ToastAndroid,
+  Platform,
+  Image,
+  BackHandler,
+} from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { useRouter } from "expo-router";
 import * as Haptics from "expo-haptics";
@@ -17,6 +27,15 @@ import { SlideContainer } from "@/components/create-match/SlideContainer";
 import { CourtSelectionModal } from "@/components/create-match/CourtSelectionModal";
 import { ValidationInfoCard } from "@/components/create-match/ValidationInfoCard";
 import { PlayerSelectionModal } from "@/components/create-match/PlayerSelectionModal";
+import { MatchPredictionCard } from "@/components/MatchPredictionCard";
+import { RatingWeightSelector } from "@/components/RatingWeightSelector";
+import { MatchFormatSelector } from "@/components/MatchFormatSelector";
+import { ScorePasteInput } from "@/components/ScorePasteInput";
+import { MatchEndingSelector } from "@/components/MatchEndingSelector";
+import {
+  SuperTiebreakToggle,
+  TiebreakInput,
+} from "@/components/create-match/TiebreakInput";
 
 // Custom hook
 import { useCreateMatchState } from "@/hooks/useCreateMatchState";
@@ -24,11 +43,18 @@ import { useCreateMatchState } from "@/hooks/useCreateMatchState";
 // Types and constants
 import { WizardStep, StepConfig } from "@/types/create-match";
 import { VALIDATION_CONFIG, PREDEFINED_COURTS } from "@/constants/create-match";
+import {
+  formatSetScore,
+  validateSet,
+  validateSuperTiebreak,
+} from "@/lib/padel-scoring";
+import { formatMatchFormat } from "@/lib/match-format";
+import { getMatchEnding } from "@/lib/match-ending";
 
 export default function CreateMatchWizardRefactored() {
   const router = useRouter();
   const { colorScheme } = useColorScheme();
-  
+
   // Back button handler to prevent accidental navigation
   useFocusEffect(
     React.useCallback(() => {
@@ -39,33 +65,36 @@ export default function CreateMatchWizardRefactored() {
           [
             {
               text: "Cancel",
-              style: "cancel"
+              style: "cancel",
             },
             {
               text: "Exit",
               style: "destructive",
-              onPress: () => router.back()
-            }
-          ]
+              onPress: () => router.back(),
+            },
+          ],
         );
         return true; // Prevent default back behavior
       };
 
-      const subscription = BackHandler.addEventListener('hardwareBackPress', onBackPress);
+      const subscription = BackHandler.addEventListener(
+        "hardwareBackPress",
+        onBackPress,
+      );
 
       return () => subscription.remove();
-    }, [router])
+    }, [router]),
   );
-  
+
   // Debug state for tracking actions
   const [debugLog, setDebugLog] = React.useState<string[]>([]);
   const [lastButtonPress, setLastButtonPress] = React.useState<string>("Never");
-  
+
   const addDebugLog = (message: string) => {
     const timestamp = new Date().toLocaleTimeString();
-    setDebugLog(prev => [`${timestamp}: ${message}`, ...prev.slice(0, 4)]); // Keep last 5 logs
+    setDebugLog((prev) => [`${timestamp}: ${message}`, ...prev.slice(0, 4)]); // Keep last 5 logs
   };
-  
+
   const {
     // State
     currentStep,
@@ -86,10 +115,15 @@ export default function CreateMatchWizardRefactored() {
     isPublicMatch,
     matchDescription,
     useQuickValidation,
+    ratingWeight,
+    matchFormat,
     set1Score,
     set2Score,
     set3Score,
     showSet3,
+    superTiebreak,
+    endReason,
+    endingWinnerTeam,
     profile,
 
     // Computed
@@ -98,6 +132,9 @@ export default function CreateMatchWizardRefactored() {
     isSet1Valid,
     isSet2Valid,
     isSet3Valid,
+    scoreValidation,
+    scoringRules,
+    maxSets,
 
     // Actions
     goToNextStep,
@@ -105,6 +142,9 @@ export default function CreateMatchWizardRefactored() {
     goToStep,
     handleDateChange,
     handleScoreChange,
+    handleTiebreakChange,
+    handleEndReasonChange,
+    applyParsedScore,
     createMatch,
 
     // Refs
@@ -126,23 +166,27 @@ export default function CreateMatchWizardRefactored() {
     setSelectedFriends,
     setRefreshing,
     setShowSet3,
+    setSuperTiebreak,
     setFriends,
+    setRatingWeight,
+    setMatchFormat,
+    setEndingWinnerTeam,
   } = useCreateMatchState();
 
   // Define our custom step sequence since we combined location and time
   const customStepSequence = [
     WizardStep.LOCATION_SETTINGS, // Step 1: Location & Time
-    WizardStep.PLAYER_SELECTION,  // Step 2: Players
+    WizardStep.PLAYER_SELECTION, // Step 2: Players
     ...(isPastMatch ? [WizardStep.SCORE_ENTRY] : []), // Step 3: Scores (if past match)
-    WizardStep.REVIEW_SUBMIT,     // Step 4: Review
+    WizardStep.REVIEW_SUBMIT, // Step 4: Review
   ];
-  
+
   // Log initial state and fetch friends
   React.useEffect(() => {
     addDebugLog(`🚀 Component initialized - isPastMatch: ${isPastMatch}`);
-    addDebugLog(`📋 Step sequence: [${customStepSequence.join(', ')}]`);
+    addDebugLog(`📋 Step sequence: [${customStepSequence.join(", ")}]`);
     addDebugLog(`📍 Starting at step: ${currentStep}`);
-    
+
     // Fetch friends when component mounts
     fetchFriends();
   }, []);
@@ -182,43 +226,46 @@ export default function CreateMatchWizardRefactored() {
   // Custom navigation functions that use our step sequence
   const goToNextStepCustom = async () => {
     const validation = validateCurrentStep();
-    
+
     if (!validation.isValid) {
       // Error haptic feedback
       await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
       Alert.alert(
         "Please Complete Required Fields",
         validation.errors.join("\n"),
-        [{ text: "OK" }]
+        [{ text: "OK" }],
       );
       return;
     }
-    
+
     // Success haptic feedback for advancing
     await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    
+
     const currentIndex = customStepSequence.indexOf(currentStep);
     const nextStep = customStepSequence[currentIndex + 1];
-    
+
     if (nextStep) {
       // Mark current step as completed
       setCompletedSteps((prev) => new Set([...prev, currentStep]));
-      
+
       // Move to next step
       setCurrentStep(nextStep);
       setSlideDirection("forward");
-      
+
       // Show success toast
       const stepNames = {
         [WizardStep.LOCATION_SETTINGS]: "Location & Time",
         [WizardStep.MATCH_TYPE_TIME]: "Match Type & Time",
-        [WizardStep.PLAYER_SELECTION]: "Player Selection", 
+        [WizardStep.PLAYER_SELECTION]: "Player Selection",
         [WizardStep.SCORE_ENTRY]: "Score Entry",
-        [WizardStep.REVIEW_SUBMIT]: "Review & Submit"
+        [WizardStep.REVIEW_SUBMIT]: "Review & Submit",
       };
-      
-      if (Platform.OS === 'android') {
-        ToastAndroid.show(`✅ Moving to ${stepNames[nextStep]}`, ToastAndroid.SHORT);
+
+      if (Platform.OS === "android") {
+        ToastAndroid.show(
+          `✅ Moving to ${stepNames[nextStep]}`,
+          ToastAndroid.SHORT,
+        );
       }
     }
   };
@@ -226,10 +273,10 @@ export default function CreateMatchWizardRefactored() {
   const goToPreviousStepCustom = async () => {
     // Light haptic feedback for navigation
     await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    
+
     const currentIndex = customStepSequence.indexOf(currentStep);
     const prevStep = customStepSequence[currentIndex - 1];
-    
+
     if (prevStep) {
       setCurrentStep(prevStep);
       setSlideDirection("backward");
@@ -239,75 +286,56 @@ export default function CreateMatchWizardRefactored() {
   // Validation functions
   const canNavigateToStep = (step: WizardStep): boolean => {
     // Check if step exists in our custom sequence
-    return customStepSequence.includes(step) && (completedSteps.has(step) || step === currentStep);
+    return (
+      customStepSequence.includes(step) &&
+      (completedSteps.has(step) || step === currentStep)
+    );
   };
 
   const validateCurrentStep = () => {
     const errors = [];
-    
+
     switch (currentStep) {
       case WizardStep.LOCATION_SETTINGS:
         // Ensure court is selected (check both selectedCourt and that it has required properties)
         if (!selectedCourt || !selectedCourt.name) {
           errors.push("Please select a court");
         }
-        
+
         // Ensure date is selected
         if (!selectedDate) {
           errors.push("Please select a date");
         }
-        
+
         // Ensure at least one time slot is selected
         if (selectedTimes.length === 0) {
           errors.push("Please select at least one time slot");
         }
         break;
-        
+
       case WizardStep.PLAYER_SELECTION:
         // Validate that we have exactly 4 players (including current user)
         if (selectedPlayers.length !== 3) {
-          errors.push("Please select exactly 3 other players (4 total including you)");
+          errors.push(
+            "Please select exactly 3 other players (4 total including you)",
+          );
         }
         break;
-        
+
       case WizardStep.SCORE_ENTRY:
         // Validate scores if it's a past match
         if (isPastMatch) {
-          // Check Set 1
-          if (set1Score.team1 === 0 && set1Score.team2 === 0) {
-            errors.push("Please enter scores for Set 1");
-          } else if (!isValidPadelScore(set1Score.team1, set1Score.team2)) {
-            errors.push("Set 1 scores are not valid for Padel");
-          }
-          
-          // Check Set 2
-          if (set2Score.team1 === 0 && set2Score.team2 === 0) {
-            errors.push("Please enter scores for Set 2");
-          } else if (!isValidPadelScore(set2Score.team1, set2Score.team2)) {
-            errors.push("Set 2 scores are not valid for Padel");
-          }
-          
-          // Check Set 3 if visible
-          if (showSet3) {
-            if (set3Score.team1 === 0 && set3Score.team2 === 0) {
-              errors.push("Please enter scores for Set 3");
-            } else if (!isValidPadelScore(set3Score.team1, set3Score.team2)) {
-              errors.push("Set 3 scores are not valid for Padel");
-            }
-          }
+          // Sets must be valid padel scores and decide the match
+          errors.push(...scoreValidation.errors);
         }
         break;
-        
+
       case WizardStep.REVIEW_SUBMIT:
         // All previous validations should pass
         const locationValid = selectedCourt && selectedCourt.name;
         const playersValid = selectedPlayers.length === 3;
-        const scoresValid = !isPastMatch || (
-          isValidPadelScore(set1Score.team1, set1Score.team2) &&
-          isValidPadelScore(set2Score.team1, set2Score.team2) &&
-          (!showSet3 || isValidPadelScore(set3Score.team1, set3Score.team2))
-        );
-        
+        const scoresValid = !isPastMatch || scoreValidation.isValid;
+
         if (!locationValid) {
           errors.push("Please complete location selection");
         }
@@ -319,10 +347,10 @@ export default function CreateMatchWizardRefactored() {
         }
         break;
     }
-    
+
     return {
       isValid: errors.length === 0,
-      errors
+      errors,
     };
   };
 
@@ -330,7 +358,7 @@ export default function CreateMatchWizardRefactored() {
   const fetchFriends = async () => {
     try {
       setRefreshing(true);
-      
+
       if (!profile?.friends_list || !Array.isArray(profile.friends_list)) {
         setFriends([]);
         return;
@@ -339,7 +367,7 @@ export default function CreateMatchWizardRefactored() {
       const { data, error } = await supabase
         .from("profiles")
         .select(
-          "id, email, full_name, age, preferred_hand, court_playing_side, glicko_rating, avatar_url"
+          "id, email, full_name, age, preferred_hand, court_playing_side, glicko_rating, glicko_rd, glicko_vol, avatar_url",
         )
         .in("id", profile.friends_list);
 
@@ -358,23 +386,23 @@ export default function CreateMatchWizardRefactored() {
     const slots = [];
     const now = new Date();
     const selectedDateObj = new Date(selectedDate);
-    
+
     // Check if selected date is today
     const isToday = selectedDateObj.toDateString() === now.toDateString();
-    
+
     if (isToday) {
       // For today, only show times up to 1 hour before now
       const maxHour = Math.max(0, now.getHours() - 1);
       for (let hour = 0; hour <= maxHour; hour++) {
-        slots.push(`${hour.toString().padStart(2, '0')}:00`);
+        slots.push(`${hour.toString().padStart(2, "0")}:00`);
       }
     } else {
       // For past dates, show all hours
       for (let hour = 0; hour <= 23; hour++) {
-        slots.push(`${hour.toString().padStart(2, '0')}:00`);
+        slots.push(`${hour.toString().padStart(2, "0")}:00`);
       }
     }
-    
+
     return slots;
   };
 
@@ -382,12 +410,12 @@ export default function CreateMatchWizardRefactored() {
   const generateDates = () => {
     const dates = [];
     const today = new Date();
-    
+
     // Start with today (index 0), then yesterday (index 1), then go back in time
     for (let i = 0; i <= 30; i++) {
       const date = new Date(today);
       date.setDate(today.getDate() - i);
-      
+
       let label;
       if (i === 0) {
         label = "Today";
@@ -400,16 +428,16 @@ export default function CreateMatchWizardRefactored() {
       } else if (i === 30) {
         label = "1 month ago";
       } else {
-        label = date.toLocaleDateString('en-US', { 
-          weekday: 'short', 
-          day: 'numeric' 
+        label = date.toLocaleDateString("en-US", {
+          weekday: "short",
+          day: "numeric",
         });
       }
-      
+
       dates.push({
         label,
         date,
-        value: date.toISOString().split('T')[0]
+        value: date.toISOString().split("T")[0],
       });
     }
     return dates;
@@ -419,29 +447,29 @@ export default function CreateMatchWizardRefactored() {
   const [selectedTimes, setSelectedTimes] = React.useState<string[]>([]);
   const [selectedDate, setSelectedDate] = React.useState(dateOptions[0].value);
   const [showSuccessScreen, setShowSuccessScreen] = React.useState(false);
-  
+
   // Generate time slots based on selected date
   const timeSlots = React.useMemo(() => {
     const slots = [];
     const now = new Date();
     const selectedDateObj = new Date(selectedDate);
-    
+
     // Check if selected date is today
     const isToday = selectedDateObj.toDateString() === now.toDateString();
-    
+
     if (isToday) {
       // For today, only show times up to 1 hour before now
       const maxHour = Math.max(0, now.getHours() - 1);
       for (let hour = 0; hour <= maxHour; hour++) {
-        slots.push(`${hour.toString().padStart(2, '0')}:00`);
+        slots.push(`${hour.toString().padStart(2, "0")}:00`);
       }
     } else {
       // For past dates, show all hours
       for (let hour = 0; hour <= 23; hour++) {
-        slots.push(`${hour.toString().padStart(2, '0')}:00`);
+        slots.push(`${hour.toString().padStart(2, "0")}:00`);
       }
     }
-    
+
     return slots;
   }, [selectedDate]);
 
@@ -449,7 +477,9 @@ export default function CreateMatchWizardRefactored() {
   React.useEffect(() => {
     if (!selectedCourt && PREDEFINED_COURTS.length > 0) {
       // Find "The Padel Lab" as default court, or use first available court
-      const defaultCourt = PREDEFINED_COURTS.find(court => court.name === "The Padel Lab") || PREDEFINED_COURTS[0];
+      const defaultCourt =
+        PREDEFINED_COURTS.find((court) => court.name === "The Padel Lab") ||
+        PREDEFINED_COURTS[0];
       if (defaultCourt) {
         setSelectedCourt(defaultCourt);
       }
@@ -461,15 +491,15 @@ export default function CreateMatchWizardRefactored() {
     try {
       // Trigger haptic feedback on button press
       await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-      
+
       await createMatch();
-      
+
       // Success haptic feedback
       await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      
+
       // Show success screen
       setShowSuccessScreen(true);
-      
+
       // Navigate back after showing success screen for 2 seconds
       setTimeout(() => {
         router.back();
@@ -482,25 +512,21 @@ export default function CreateMatchWizardRefactored() {
     }
   };
 
-  // Padel score validation
-  const VALID_PADEL_SCORES = [
-    { team1: 6, team2: 0 }, { team1: 6, team2: 1 }, { team1: 6, team2: 2 },
-    { team1: 6, team2: 3 }, { team1: 6, team2: 4 }, { team1: 7, team2: 5 },
-    { team1: 7, team2: 6 }, { team1: 0, team2: 6 }, { team1: 1, team2: 6 },
-    { team1: 2, team2: 6 }, { team1: 3, team2: 6 }, { team1: 4, team2: 6 },
-    { team1: 5, team2: 7 }, { team1: 6, team2: 7 },
-  ];
-
-  const isValidPadelScore = (team1: number, team2: number): boolean => {
-    return VALID_PADEL_SCORES.some(
-      (score) => score.team1 === team1 && score.team2 === team2,
-    );
+  // Padel score validation for the chosen format, the third set may be a super tiebreak
+  const isValidPadelScore = (
+    team1: number,
+    team2: number,
+    setNum = 1,
+  ): boolean => {
+    return setNum === 3 && superTiebreak
+      ? validateSuperTiebreak({ team1, team2 }, scoringRules).isValid
+      : validateSet({ team1, team2 }, scoringRules).isValid;
   };
 
   // Handle time selection (consecutive)
   const handleTimeSelection = (time: string) => {
     const timeIndex = timeSlots.indexOf(time);
-    
+
     if (selectedTimes.includes(time)) {
       // If clicking on a selected time, remove it and all times after it
       const currentIndex = selectedTimes.indexOf(time);
@@ -511,7 +537,9 @@ export default function CreateMatchWizardRefactored() {
         setSelectedTimes([time]);
       } else {
         // Check if the new time is consecutive
-        const lastSelectedIndex = timeSlots.indexOf(selectedTimes[selectedTimes.length - 1]);
+        const lastSelectedIndex = timeSlots.indexOf(
+          selectedTimes[selectedTimes.length - 1],
+        );
         if (timeIndex === lastSelectedIndex + 1) {
           // Add consecutive time
           setSelectedTimes([...selectedTimes, time]);
@@ -538,7 +566,9 @@ export default function CreateMatchWizardRefactored() {
               <View
                 key={step}
                 className={`flex-1 h-1 mx-2 rounded-full ${
-                  index <= currentIndex ? 'bg-primary' : 'bg-gray-300 dark:bg-gray-600'
+                  index <= currentIndex
+                    ? "bg-primary"
+                    : "bg-gray-300 dark:bg-gray-600"
                 }`}
               />
             );
@@ -551,12 +581,15 @@ export default function CreateMatchWizardRefactored() {
           showsVerticalScrollIndicator={false}
         >
           <View className="px-6">
-            <Text className="text-2xl font-bold mb-2 text-primary">📍 Location & Time</Text>
+            <Text className="text-2xl font-bold mb-2 text-primary">
+              📍 Location & Time
+            </Text>
             <Text className="text-gray-600 dark:text-gray-300 mb-6 text-base">
               Select the padel club and the time your match took place.
             </Text>
             <Text className="text-sm text-gray-500 dark:text-gray-400 mb-4 italic">
-              Fields marked with <Text className="text-red-500">*</Text> are required
+              Fields marked with <Text className="text-red-500">*</Text> are
+              required
             </Text>
 
             {/* Court Selection */}
@@ -564,14 +597,18 @@ export default function CreateMatchWizardRefactored() {
               <Text className="text-base font-semibold mb-3 text-gray-900 dark:text-gray-100">
                 Court <Text className="text-red-500">*</Text>
               </Text>
-              <TouchableOpacity 
-                onPress={() => setShowCourtModal(true)} 
+              <TouchableOpacity
+                onPress={() => setShowCourtModal(true)}
                 className="bg-gray-50 dark:bg-gray-700 rounded-2xl p-4 flex-row items-center justify-between border border-gray-200 dark:border-gray-600"
               >
                 <Text className="text-gray-900 dark:text-gray-100 font-medium text-base">
                   {selectedCourt ? selectedCourt.name : "Select a court"}
                 </Text>
-                <Ionicons name="search" size={20} color={colorScheme === "dark" ? "#9ca3af" : "#6b7280"} />
+                <Ionicons
+                  name="search"
+                  size={20}
+                  color={colorScheme === "dark" ? "#9ca3af" : "#6b7280"}
+                />
               </TouchableOpacity>
             </View>
 
@@ -587,14 +624,18 @@ export default function CreateMatchWizardRefactored() {
                       key={dateOption.value}
                       onPress={() => setSelectedDate(dateOption.value)}
                       className={`px-6 py-6 rounded-xl border-2 min-w-[100px] ${
-                        selectedDate === dateOption.value 
-                          ? 'bg-primary border-primary' 
-                          : 'bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600'
+                        selectedDate === dateOption.value
+                          ? "bg-primary border-primary"
+                          : "bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600"
                       }`}
                     >
-                      <Text className={`font-medium text-center ${
-                        selectedDate === dateOption.value ? 'text-white' : 'text-gray-900 dark:text-gray-100'
-                      }`}>
+                      <Text
+                        className={`font-medium text-center ${
+                          selectedDate === dateOption.value
+                            ? "text-white"
+                            : "text-gray-900 dark:text-gray-100"
+                        }`}
+                      >
                         {dateOption.label}
                       </Text>
                     </TouchableOpacity>
@@ -615,14 +656,16 @@ export default function CreateMatchWizardRefactored() {
                     onPress={() => handleTimeSelection(time)}
                     className={`px-3 py-3 rounded-lg border-2 ${
                       selectedTimes.includes(time)
-                        ? 'bg-primary border-primary'
-                        : 'bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600'
+                        ? "bg-primary border-primary"
+                        : "bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600"
                     }`}
-                    style={{ width: '22%' }}
+                    style={{ width: "22%" }}
                   >
                     <Text
                       className={`text-center text-sm font-medium ${
-                        selectedTimes.includes(time) ? 'text-white' : 'text-gray-900 dark:text-gray-100'
+                        selectedTimes.includes(time)
+                          ? "text-white"
+                          : "text-gray-900 dark:text-gray-100"
                       }`}
                     >
                       {time}
@@ -630,12 +673,14 @@ export default function CreateMatchWizardRefactored() {
                   </TouchableOpacity>
                 ))}
               </View>
-              
+
               {selectedTimes.length > 0 && (
                 <View className="mt-4 p-3 bg-primary/5 dark:bg-primary/10 rounded-lg border border-primary/20 dark:border-primary/30">
                   <Text className="text-primary dark:text-primary font-medium">
-                    Selected: {selectedTimes[0]} - {selectedTimes[selectedTimes.length - 1]} 
-                    ({selectedTimes.length} hour{selectedTimes.length > 1 ? 's' : ''})
+                    Selected: {selectedTimes[0]} -{" "}
+                    {selectedTimes[selectedTimes.length - 1]}(
+                    {selectedTimes.length} hour
+                    {selectedTimes.length > 1 ? "s" : ""})
                   </Text>
                 </View>
               )}
@@ -644,12 +689,22 @@ export default function CreateMatchWizardRefactored() {
             {/* Validation Summary */}
             {(() => {
               const validation = validateCurrentStep();
-              if (!validation.isValid && currentStep === WizardStep.LOCATION_SETTINGS) {
+              if (
+                !validation.isValid &&
+                currentStep === WizardStep.LOCATION_SETTINGS
+              ) {
                 return (
                   <View className="mt-4 p-4 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800">
-                    <Text className="text-red-800 dark:text-red-200 font-medium mb-2">Please complete the following:</Text>
+                    <Text className="text-red-800 dark:text-red-200 font-medium mb-2">
+                      Please complete the following:
+                    </Text>
                     {validation.errors.map((error, index) => (
-                      <Text key={index} className="text-red-700 dark:text-red-300 text-sm">• {error}</Text>
+                      <Text
+                        key={index}
+                        className="text-red-700 dark:text-red-300 text-sm"
+                      >
+                        • {error}
+                      </Text>
                     ))}
                   </View>
                 );
@@ -662,8 +717,6 @@ export default function CreateMatchWizardRefactored() {
     </SlideContainer>
   );
 
-
-
   const renderPlayerStep = () => (
     <SlideContainer
       isActive={currentStep === WizardStep.PLAYER_SELECTION}
@@ -678,7 +731,9 @@ export default function CreateMatchWizardRefactored() {
               <View
                 key={step}
                 className={`flex-1 h-1 mx-2 rounded-full ${
-                  index <= currentIndex ? 'bg-primary' : 'bg-gray-300 dark:bg-gray-600'
+                  index <= currentIndex
+                    ? "bg-primary"
+                    : "bg-gray-300 dark:bg-gray-600"
                 }`}
               />
             );
@@ -691,9 +746,12 @@ export default function CreateMatchWizardRefactored() {
           showsVerticalScrollIndicator={false}
         >
           <View className="px-6">
-            <Text className="text-2xl font-bold mb-2 text-purple-600">👥 Players</Text>
+            <Text className="text-2xl font-bold mb-2 text-purple-600">
+              👥 Players
+            </Text>
             <Text className="text-gray-600 dark:text-gray-300 mb-6 text-base">
-              Select 3 other players for your match (4 players total including you)
+              Select 3 other players for your match (4 players total including
+              you)
             </Text>
             {selectedPlayers.length > 0 && (
               <Text className="text-sm text-primary mb-4 italic">
@@ -704,8 +762,12 @@ export default function CreateMatchWizardRefactored() {
             {/* Team Layout */}
             <View className="mb-6 p-4 border border-gray-200 dark:border-gray-700 rounded-2xl bg-white dark:bg-gray-800">
               <View className="flex-row justify-between mb-6">
-                <Text className="text-base font-semibold text-primary">Team 1</Text>
-                <Text className="text-base font-semibold text-purple-600">Team 2</Text>
+                <Text className="text-base font-semibold text-primary">
+                  Team 1
+                </Text>
+                <Text className="text-base font-semibold text-purple-600">
+                  Team 2
+                </Text>
               </View>
 
               {/* Players Grid */}
@@ -724,18 +786,23 @@ export default function CreateMatchWizardRefactored() {
                       ) : (
                         <View className="w-12 h-12 rounded-full bg-primary items-center justify-center">
                           <Text className="text-white font-bold text-sm">
-                            {profile?.full_name?.charAt(0).toUpperCase() || 'U'}
+                            {profile?.full_name?.charAt(0).toUpperCase() || "U"}
                           </Text>
                         </View>
                       )}
                     </View>
-                    <Text className="text-sm font-medium text-gray-900 dark:text-gray-100" numberOfLines={1}>
-                      {profile?.full_name || 'You'}
+                    <Text
+                      className="text-sm font-medium text-gray-900 dark:text-gray-100"
+                      numberOfLines={1}
+                    >
+                      {profile?.full_name || "You"}
                     </Text>
                     <View className="flex-row items-center">
-                      <Text className="text-xs text-gray-600 dark:text-gray-400">★</Text>
+                      <Text className="text-xs text-gray-600 dark:text-gray-400">
+                        ★
+                      </Text>
                       <Text className="text-xs text-gray-600 dark:text-gray-400 ml-1">
-                        {profile?.glicko_rating?.toFixed(1) || '-'}
+                        {profile?.glicko_rating?.toFixed(1) || "-"}
                       </Text>
                     </View>
                   </View>
@@ -743,9 +810,11 @@ export default function CreateMatchWizardRefactored() {
                   {/* Team 1 - Position 2 */}
                   <View className="w-20 items-center">
                     {selectedPlayers[0] ? (
-                      <TouchableOpacity 
+                      <TouchableOpacity
                         onPress={() => {
-                          const newPlayers = selectedPlayers.filter((_, index) => index !== 0);
+                          const newPlayers = selectedPlayers.filter(
+                            (_, index) => index !== 0,
+                          );
                           setSelectedPlayers(newPlayers);
                           setSelectedFriends(newPlayers.map((p) => p.id));
                         }}
@@ -763,29 +832,39 @@ export default function CreateMatchWizardRefactored() {
                         ) : (
                           <View className="w-12 h-12 rounded-full bg-primary items-center justify-center">
                             <Text className="text-white font-bold text-sm">
-                              {selectedPlayers[0].full_name?.split(' ')[0]?.charAt(0).toUpperCase() || 'P'}
+                              {selectedPlayers[0].full_name
+                                ?.split(" ")[0]
+                                ?.charAt(0)
+                                .toUpperCase() || "P"}
                             </Text>
                           </View>
                         )}
                         <View className="absolute -top-1 -right-1 w-5 h-5 bg-red-500 rounded-full items-center justify-center">
-                          <Text className="text-white text-xs font-bold">×</Text>
+                          <Text className="text-white text-xs font-bold">
+                            ×
+                          </Text>
                         </View>
                       </TouchableOpacity>
                     ) : (
-                      <TouchableOpacity 
+                      <TouchableOpacity
                         onPress={() => setShowPlayerModal(true)}
                         className="w-16 h-16 rounded-full border-2 border-dashed border-gray-400 items-center justify-center mb-2"
                       >
                         <Text className="text-gray-400 text-2xl">+</Text>
                       </TouchableOpacity>
                     )}
-                    <Text className="text-sm font-medium text-gray-900 dark:text-gray-100" numberOfLines={1}>
-                      {selectedPlayers[0]?.full_name?.split(' ')[0] || 'P2'}
+                    <Text
+                      className="text-sm font-medium text-gray-900 dark:text-gray-100"
+                      numberOfLines={1}
+                    >
+                      {selectedPlayers[0]?.full_name?.split(" ")[0] || "P2"}
                     </Text>
                     <View className="flex-row items-center">
-                      <Text className="text-xs text-gray-600 dark:text-gray-400">★</Text>
+                      <Text className="text-xs text-gray-600 dark:text-gray-400">
+                        ★
+                      </Text>
                       <Text className="text-xs text-gray-600 dark:text-gray-400 ml-1">
-                        {selectedPlayers[0]?.glicko_rating?.toFixed(1) || '-'}
+                        {selectedPlayers[0]?.glicko_rating?.toFixed(1) || "-"}
                       </Text>
                     </View>
                   </View>
@@ -799,9 +878,11 @@ export default function CreateMatchWizardRefactored() {
                   {/* Team 2 - Position 3 */}
                   <View className="w-20 items-center">
                     {selectedPlayers[1] ? (
-                      <TouchableOpacity 
+                      <TouchableOpacity
                         onPress={() => {
-                          const newPlayers = selectedPlayers.filter((_, index) => index !== 1);
+                          const newPlayers = selectedPlayers.filter(
+                            (_, index) => index !== 1,
+                          );
                           setSelectedPlayers(newPlayers);
                           setSelectedFriends(newPlayers.map((p) => p.id));
                         }}
@@ -819,29 +900,39 @@ export default function CreateMatchWizardRefactored() {
                         ) : (
                           <View className="w-12 h-12 rounded-full bg-yellow-600 items-center justify-center">
                             <Text className="text-white font-bold text-sm">
-                              {selectedPlayers[1].full_name?.split(' ')[0]?.charAt(0).toUpperCase() || 'P'}
+                              {selectedPlayers[1].full_name
+                                ?.split(" ")[0]
+                                ?.charAt(0)
+                                .toUpperCase() || "P"}
                             </Text>
                           </View>
                         )}
                         <View className="absolute -top-1 -right-1 w-5 h-5 bg-red-500 rounded-full items-center justify-center">
-                          <Text className="text-white text-xs font-bold">×</Text>
+                          <Text className="text-white text-xs font-bold">
+                            ×
+                          </Text>
                         </View>
                       </TouchableOpacity>
                     ) : (
-                      <TouchableOpacity 
+                      <TouchableOpacity
                         onPress={() => setShowPlayerModal(true)}
                         className="w-16 h-16 rounded-full border-2 border-dashed border-gray-400 items-center justify-center mb-2"
                       >
                         <Text className="text-gray-400 text-2xl">+</Text>
                       </TouchableOpacity>
                     )}
-                    <Text className="text-sm font-medium text-gray-900 dark:text-gray-100" numberOfLines={1}>
-                      {selectedPlayers[1]?.full_name?.split(' ')[0] || 'P3'}
+                    <Text
+                      className="text-sm font-medium text-gray-900 dark:text-gray-100"
+                      numberOfLines={1}
+                    >
+                      {selectedPlayers[1]?.full_name?.split(" ")[0] || "P3"}
                     </Text>
                     <View className="flex-row items-center">
-                      <Text className="text-xs text-gray-600 dark:text-gray-400">★</Text>
+                      <Text className="text-xs text-gray-600 dark:text-gray-400">
+                        ★
+                      </Text>
                       <Text className="text-xs text-gray-600 dark:text-gray-400 ml-1">
-                        {selectedPlayers[1]?.glicko_rating?.toFixed(1) || '-'}
+                        {selectedPlayers[1]?.glicko_rating?.toFixed(1) || "-"}
                       </Text>
                     </View>
                   </View>
@@ -849,9 +940,11 @@ export default function CreateMatchWizardRefactored() {
                   {/* Team 2 - Position 4 */}
                   <View className="w-20 items-center">
                     {selectedPlayers[2] ? (
-                      <TouchableOpacity 
+                      <TouchableOpacity
                         onPress={() => {
-                          const newPlayers = selectedPlayers.filter((_, index) => index !== 2);
+                          const newPlayers = selectedPlayers.filter(
+                            (_, index) => index !== 2,
+                          );
                           setSelectedPlayers(newPlayers);
                           setSelectedFriends(newPlayers.map((p) => p.id));
                         }}
@@ -869,36 +962,44 @@ export default function CreateMatchWizardRefactored() {
                         ) : (
                           <View className="w-12 h-12 rounded-full bg-yellow-600 items-center justify-center">
                             <Text className="text-white font-bold text-sm">
-                              {selectedPlayers[2].full_name?.split(' ')[0]?.charAt(0).toUpperCase() || 'P'}
+                              {selectedPlayers[2].full_name
+                                ?.split(" ")[0]
+                                ?.charAt(0)
+                                .toUpperCase() || "P"}
                             </Text>
                           </View>
                         )}
                         <View className="absolute -top-1 -right-1 w-5 h-5 bg-red-500 rounded-full items-center justify-center">
-                          <Text className="text-white text-xs font-bold">×</Text>
+                          <Text className="text-white text-xs font-bold">
+                            ×
+                          </Text>
                         </View>
                       </TouchableOpacity>
                     ) : (
-                      <TouchableOpacity 
+                      <TouchableOpacity
                         onPress={() => setShowPlayerModal(true)}
                         className="w-16 h-16 rounded-full border-2 border-dashed border-gray-400 items-center justify-center mb-2"
                       >
                         <Text className="text-gray-400 text-2xl">+</Text>
                       </TouchableOpacity>
                     )}
-                    <Text className="text-sm font-medium text-gray-900 dark:text-gray-100" numberOfLines={1}>
-                      {selectedPlayers[2]?.full_name?.split(' ')[0] || 'P4'}
+                    <Text
+                      className="text-sm font-medium text-gray-900 dark:text-gray-100"
+                      numberOfLines={1}
+                    >
+                      {selectedPlayers[2]?.full_name?.split(" ")[0] || "P4"}
                     </Text>
                     <View className="flex-row items-center">
-                      <Text className="text-xs text-gray-600 dark:text-gray-400">★</Text>
+                      <Text className="text-xs text-gray-600 dark:text-gray-400">
+                        ★
+                      </Text>
                       <Text className="text-xs text-gray-600 dark:text-gray-400 ml-1">
-                        {selectedPlayers[2]?.glicko_rating?.toFixed(1) || '-'}
+                        {selectedPlayers[2]?.glicko_rating?.toFixed(1) || "-"}
                       </Text>
                     </View>
                   </View>
                 </View>
               </View>
-
-
             </View>
           </View>
         </ScrollView>
@@ -914,238 +1015,449 @@ export default function CreateMatchWizardRefactored() {
         isActive={currentStep === WizardStep.SCORE_ENTRY}
         direction={slideDirection}
       >
-                    <View className="flex-1 bg-white dark:bg-gray-900 rounded-t-3xl">
-        {/* Progress Dots */}
-        <View className="flex-row justify-center pt-6 pb-4 px-8">
-          {customStepSequence.map((step, index) => {
-            const currentIndex = customStepSequence.indexOf(currentStep);
-            return (
-              <View
-                key={step}
-                className={`flex-1 h-1 mx-2 rounded-full ${
-                  index <= currentIndex ? 'bg-primary' : 'bg-gray-300 dark:bg-gray-600'
-                }`}
+        <View className="flex-1 bg-white dark:bg-gray-900 rounded-t-3xl">
+          {/* Progress Dots */}
+          <View className="flex-row justify-center pt-6 pb-4 px-8">
+            {customStepSequence.map((step, index) => {
+              const currentIndex = customStepSequence.indexOf(currentStep);
+              return (
+                <View
+                  key={step}
+                  className={`flex-1 h-1 mx-2 rounded-full ${
+                    index <= currentIndex
+                      ? "bg-primary"
+                      : "bg-gray-300 dark:bg-gray-600"
+                  }`}
+                />
+              );
+            })}
+          </View>
+
+          <ScrollView
+            className="flex-1"
+            contentContainerStyle={{ paddingBottom: 100 }}
+            showsVerticalScrollIndicator={false}
+          >
+            <View className="px-6">
+              <Text className="text-xl font-bold mb-2 text-gray-900 dark:text-gray-100">
+                Match Scores
+              </Text>
+              <Text className="text-gray-600 dark:text-gray-300 mb-6 text-sm">
+                Enter the scores for each set
+              </Text>
+
+              {/* Format decides which scores are valid */}
+              <View className="mb-6">
+                <Text className="text-base font-semibold mb-3 text-gray-900 dark:text-gray-100">
+                  Match Format
+                </Text>
+                <MatchFormatSelector
+                  value={matchFormat}
+                  onChange={(format) => {
+                    setMatchFormat(format);
+                    if (format.id !== matchFormat.id) {
+                      setShowSet3(false);
+                      setSuperTiebreak(false);
+                    }
+                  }}
+                />
+              </View>
+
+              {/* Retirements, walkovers and abandoned matches */}
+              <View className="mb-6">
+                <Text className="text-base font-semibold mb-3 text-gray-900 dark:text-gray-100">
+                  How did it end?
+                </Text>
+                <MatchEndingSelector
+                  value={endReason}
+                  onChange={handleEndReasonChange}
+                  winnerTeam={endingWinnerTeam}
+                  onWinnerChange={setEndingWinnerTeam}
+                />
+              </View>
+
+              <ScorePasteInput
+                rules={scoringRules}
+                onApply={applyParsedScore}
+                allowWalkover
               />
-            );
-          })}
-        </View>
 
-        <ScrollView
-          className="flex-1"
-          contentContainerStyle={{ paddingBottom: 100 }}
-          showsVerticalScrollIndicator={false}
-        >
-          <View className="px-6">
-            <Text className="text-xl font-bold mb-2 text-gray-900 dark:text-gray-100">Match Scores</Text>
-            <Text className="text-gray-600 dark:text-gray-300 mb-6 text-sm">
-              Enter the scores for each set
-            </Text>
+              {/* Match Card Style Score Input */}
+              {getMatchEnding(endReason).score !== "none" && (
+                <View className="mb-6 p-4 border border-gray-200 dark:border-gray-700 rounded-2xl bg-white dark:bg-gray-800">
+                  <View className="flex-row">
+                    {/* Team Names Section */}
+                    <View className="flex-1 mr-6">
+                      {/* Team 1 Players */}
+                      <View className="h-20 justify-center">
+                        <View className="flex-row items-center mb-2">
+                          <View className="w-10 h-10 rounded-full bg-primary/10 border-2 border-primary items-center justify-center mr-3">
+                            <Text className="text-primary font-bold text-xs">
+                              J
+                            </Text>
+                          </View>
+                          <Text className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+                            You
+                          </Text>
+                        </View>
 
-            {/* Match Card Style Score Input */}
-            <View className="mb-6 p-4 border border-gray-200 dark:border-gray-700 rounded-2xl bg-white dark:bg-gray-800">
-  <View className="flex-row">
-    {/* Team Names Section */}
-    <View className="flex-1 mr-6">
-      {/* Team 1 Players */}
-      <View className="h-20 justify-center">
-        <View className="flex-row items-center mb-2">
-          <View className="w-10 h-10 rounded-full bg-primary/10 border-2 border-primary items-center justify-center mr-3">
-            <Text className="text-primary font-bold text-xs">J</Text>
-          </View>
-          <Text className="text-sm font-semibold text-gray-900 dark:text-gray-100">You</Text>
-        </View>
-        
-        {selectedPlayers.length > 0 && (
-          <View className="flex-row items-center">
-            <View className="w-10 h-10 rounded-full bg-yellow-100 border-2 border-yellow-500 items-center justify-center mr-3">
-              <Text className="text-yellow-800 font-bold text-xs">
-                {selectedPlayers[0]?.full_name?.charAt(0) || 'P'}
-              </Text>
-            </View>
-            <Text className="text-sm font-semibold text-gray-900 dark:text-gray-100">
-              {selectedPlayers[0]?.full_name?.split(' ')[0] || 'Player'}
-            </Text>
-          </View>
-        )}
-      </View>
+                        {selectedPlayers.length > 0 && (
+                          <View className="flex-row items-center">
+                            <View className="w-10 h-10 rounded-full bg-yellow-100 border-2 border-yellow-500 items-center justify-center mr-3">
+                              <Text className="text-yellow-800 font-bold text-xs">
+                                {selectedPlayers[0]?.full_name?.charAt(0) ||
+                                  "P"}
+                              </Text>
+                            </View>
+                            <Text className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+                              {selectedPlayers[0]?.full_name?.split(" ")[0] ||
+                                "Player"}
+                            </Text>
+                          </View>
+                        )}
+                      </View>
 
-      {/* Divider */}
-      <View className="h-px bg-gray-300 dark:bg-gray-600 my-2" />
+                      {/* Divider */}
+                      <View className="h-px bg-gray-300 dark:bg-gray-600 my-2" />
+
+                      {/* Team 2 Players */}
+                      <View className="h-20 justify-center">
+                        {selectedPlayers.length > 1 && (
+                          <View className="flex-row items-center mb-2">
+                            <View className="w-10 h-10 rounded-full bg-gray-300 border-2 border-gray-400 items-center justify-center mr-3">
+                              <Text className="text-white font-bold text-xs">
+                                {selectedPlayers[1]?.full_name?.charAt(0) ||
+                                  "P"}
+                              </Text>
+                            </View>
+                            <Text className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+                              {selectedPlayers[1]?.full_name?.split(" ")[0] ||
+                                "Player"}
+                            </Text>
+                          </View>
+                        )}
 
-      {/* Team 2 Players */}
-      <View className="h-20 justify-center">
-        {selectedPlayers.length > 1 && (
-          <View className="flex-row items-center mb-2">
-            <View className="w-10 h-10 rounded-full bg-gray-300 border-2 border-gray-400 items-center justify-center mr-3">
-              <Text className="text-white font-bold text-xs">
-                {selectedPlayers[1]?.full_name?.charAt(0) || 'P'}
-              </Text>
-            </View>
-            <Text className="text-sm font-semibold text-gray-900 dark:text-gray-100">
-              {selectedPlayers[1]?.full_name?.split(' ')[0] || 'Player'}
-            </Text>
-          </View>
-        )}
-        
-        {selectedPlayers.length > 2 && (
-          <View className="flex-row items-center">
-            <View className="w-10 h-10 rounded-full bg-purple-100 border-2 border-purple-500 items-center justify-center mr-3">
-              <Text className="text-purple-800 font-bold text-xs">
-                {selectedPlayers[2]?.full_name?.charAt(0) || 'P'}
-              </Text>
-            </View>
-            <Text className="text-sm font-semibold text-gray-900 dark:text-gray-100">
-              {selectedPlayers[2]?.full_name?.split(' ')[0] || 'Player'}
-            </Text>
-          </View>
-        )}
-      </View>
-    </View>
+                        {selectedPlayers.length > 2 && (
+                          <View className="flex-row items-center">
+                            <View className="w-10 h-10 rounded-full bg-purple-100 border-2 border-purple-500 items-center justify-center mr-3">
+                              <Text className="text-purple-800 font-bold text-xs">
+                                {selectedPlayers[2]?.full_name?.charAt(0) ||
+                                  "P"}
+                              </Text>
+                            </View>
+                            <Text className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+                              {selectedPlayers[2]?.full_name?.split(" ")[0] ||
+                                "Player"}
+                            </Text>
+                          </View>
+                        )}
+                      </View>
+                    </View>
 
-    {/* Score Section */}
-    <View className="flex-shrink-0">
-      {/* Team 1 Scores */}
-      <View className="h-20 flex-row items-center">
-        {[1, 2, 3].map((setNum) => (
-          <TextInput
-            className={`w-14 h-14 border rounded-xl bg-white dark:bg-gray-800 text-center text-xl font-bold ${
-              setNum === 1 && set1Score.team1 > 0 && set1Score.team2 > 0 
-                ? isValidPadelScore(set1Score.team1, set1Score.team2)
-                  ? 'border-green-500 bg-green-50'
-                  : 'border-red-500 bg-red-50'
-                : setNum === 2 && set2Score.team1 > 0 && set2Score.team2 > 0 
-                  ? isValidPadelScore(set2Score.team1, set2Score.team2)
-                    ? 'border-green-500 bg-green-50'
-                    : 'border-red-500 bg-red-50'
-                  : setNum === 3 && set3Score.team1 > 0 && set3Score.team2 > 0 
-                    ? isValidPadelScore(set3Score.team1, set3Score.team2)
-                      ? 'border-green-500 bg-green-50'
-                      : 'border-red-500 bg-red-50'
-                    : setNum === 3 && !showSet3
-                      ? 'border-gray-200 bg-gray-50'
-                      : 'border-gray-300'
-            }`}
-            keyboardType="number-pad"
-            maxLength={1}
-            placeholder="-"
-            placeholderTextColor="#9ca3af"
-            editable={setNum === 3 ? showSet3 : true}
-            value={
-              setNum === 1 ? (set1Score.team1 > 0 ? set1Score.team1.toString() : "") :
-              setNum === 2 ? (set2Score.team1 > 0 ? set2Score.team1.toString() : "") :
-              (set3Score.team1 > 0 ? set3Score.team1.toString() : "")
-            }
-            onChangeText={(text) => {
-              const setName = setNum === 1 ? "set1" : setNum === 2 ? "set2" : "set3";
-              handleScoreChange(setName as "set1" | "set2" | "set3", "team1", text);
-              
-              // Auto-advance logic: go to next set for same team, then to next team
-              if (text) {
-                if (setNum === 1) {
-                  // From Set 1 Team 1, go to Set 2 Team 1
-                  setTimeout(() => team1Set2Ref?.current?.focus(), 50);
-                } else if (setNum === 2) {
-                  if (showSet3) {
-                    // From Set 2 Team 1, go to Set 3 Team 1
-                    setTimeout(() => team1Set3Ref.current?.focus(), 50);
-                  } else {
-                    // From Set 2 Team 1, go to Set 1 Team 2 (next team)
-                    setTimeout(() => team2Set1Ref.current?.focus(), 50);
-                  }
-                } else if (setNum === 3) {
-                  // From Set 3 Team 1, go to Set 1 Team 2 (next team)
-                  setTimeout(() => team2Set1Ref.current?.focus(), 50);
-                }
-              }
-            }}
-            ref={setNum === 1 ? team1Set1Ref : setNum === 2 ? team1Set2Ref : team1Set3Ref}
-            key={setNum}
-            style={{ marginRight: setNum === 3 ? 0 : 12 }}
-          />
-        ))}
-      </View>
+                    {/* Score Section */}
+                    <View className="flex-shrink-0">
+                      {/* Team 1 Scores */}
+                      <View className="h-20 flex-row items-center">
+                        {[1, 2, 3].map((setNum) => (
+                          <TextInput
+                            className={`w-14 h-14 border rounded-xl bg-white dark:bg-gray-800 text-center text-xl font-bold ${
+                              setNum === 1 &&
+                              set1Score.team1 > 0 &&
+                              set1Score.team2 > 0
+                                ? isValidPadelScore(
+                                    set1Score.team1,
+                                    set1Score.team2,
+                                  )
+                                  ? "border-green-500 bg-green-50"
+                                  : "border-red-500 bg-red-50"
+                                : setNum === 2 &&
+                                    set2Score.team1 > 0 &&
+                                    set2Score.team2 > 0
+                                  ? isValidPadelScore(
+                                      set2Score.team1,
+                                      set2Score.team2,
+                                    )
+                                    ? "border-green-500 bg-green-50"
+                                    : "border-red-500 bg-red-50"
+                                  : setNum === 3 &&
+                                      set3Score.team1 > 0 &&
+                                      set3Score.team2 > 0
+                                    ? isValidPadelScore(
+                                        set3Score.team1,
+                                        set3Score.team2,
+                                        3,
+                                      )
+                                      ? "border-green-500 bg-green-50"
+                                      : "border-red-500 bg-red-50"
+                                    : (setNum === 3 && !showSet3) ||
+                                        setNum > maxSets
+                                      ? "border-gray-200 bg-gray-50"
+                                      : "border-gray-300"
+                            }`}
+                            keyboardType="number-pad"
+                            maxLength={setNum === 3 && superTiebreak ? 2 : 1}
+                            placeholder="-"
+                            placeholderTextColor="#9ca3af"
+                            editable={
+                              setNum === 3 ? showSet3 : setNum <= maxSets
+                            }
+                            value={
+                              setNum === 1
+                                ? set1Score.team1 > 0
+                                  ? set1Score.team1.toString()
+                                  : ""
+                                : setNum === 2
+                                  ? set2Score.team1 > 0
+                                    ? set2Score.team1.toString()
+                                    : ""
+                                  : set3Score.team1 > 0
+                                    ? set3Score.team1.toString()
+                                    : ""
+                            }
+                            onChangeText={(text) => {
+                              const setName =
+                                setNum === 1
+                                  ? "set1"
+                                  : setNum === 2
+                                    ? "set2"
+                                    : "set3";
+                              handleScoreChange(
+                                setName as "set1" | "set2" | "set3",
+                                "team1",
+                                text,
+                              );
+
+                              // Auto-advance logic: go to next set for same team, then to next team
+                              if (text) {
+                                if (setNum === 1 && maxSets === 1) {
+                                  // Single set formats go straight to Team 2
+                                  setTimeout(
+                                    () => team2Set1Ref.current?.focus(),
+                                    50,
+                                  );
+                                } else if (setNum === 1) {
+                                  // From Set 1 Team 1, go to Set 2 Team 1
+                                  setTimeout(
+                                    () => team1Set2Ref?.current?.focus(),
+                                    50,
+                                  );
+                                } else if (setNum === 2) {
+                                  if (showSet3) {
+                                    // From Set 2 Team 1, go to Set 3 Team 1
+                                    setTimeout(
+                                      () => team1Set3Ref.current?.focus(),
+                                      50,
+                                    );
+                                  } else {
+                                    // From Set 2 Team 1, go to Set 1 Team 2 (next team)
+                                    setTimeout(
+                                      () => team2Set1Ref.current?.focus(),
+                                      50,
+                                    );
+                                  }
+                                } else if (setNum === 3) {
+                                  // From Set 3 Team 1, go to Set 1 Team 2 (next team)
+                                  setTimeout(
+                                    () => team2Set1Ref.current?.focus(),
+                                    50,
+                                  );
+                                }
+                              }
+                            }}
+                            ref={
+                              setNum === 1
+                                ? team1Set1Ref
+                                : setNum === 2
+                                  ? team1Set2Ref
+                                  : team1Set3Ref
+                            }
+                            key={setNum}
+                            style={{ marginRight: setNum === 3 ? 0 : 12 }}
+                          />
+                        ))}
+                      </View>
 
-      {/* Score Divider - Single continuous line aligned with team divider */}
-      <View className="h-px bg-gray-300 dark:bg-gray-600 my-2" />
-
-      {/* Team 2 Scores */}
-      <View className="h-20 flex-row items-center">
-        {[1, 2, 3].map((setNum) => (
-          <TextInput
-            className={`w-14 h-14 border rounded-xl bg-white dark:bg-gray-800 text-center text-xl font-bold ${
-              setNum === 1 && set1Score.team1 > 0 && set1Score.team2 > 0 
-                ? isValidPadelScore(set1Score.team1, set1Score.team2)
-                  ? 'border-green-500 bg-green-50'
-                  : 'border-red-500 bg-red-50'
-                : setNum === 2 && set2Score.team1 > 0 && set2Score.team2 > 0 
-                  ? isValidPadelScore(set2Score.team1, set2Score.team2)
-                    ? 'border-green-500 bg-green-50'
-                    : 'border-red-500 bg-red-50'
-                  : setNum === 3 && set3Score.team1 > 0 && set3Score.team2 > 0 
-                    ? isValidPadelScore(set3Score.team1, set3Score.team2)
-                      ? 'border-green-500 bg-green-50'
-                      : 'border-red-500 bg-red-50'
-                    : setNum === 3 && !showSet3
-                      ? 'border-gray-200 bg-gray-50'
-                      : 'border-gray-300'
-            }`}
-            keyboardType="number-pad"
-            maxLength={1}
-            placeholder="-"
-            placeholderTextColor="#9ca3af"
-            editable={setNum === 3 ? showSet3 : true}
-            value={
-              setNum === 1 ? (set1Score.team2 > 0 ? set1Score.team2.toString() : "") :
-              setNum === 2 ? (set2Score.team2 > 0 ? set2Score.team2.toString() : "") :
-              (set3Score.team2 > 0 ? set3Score.team2.toString() : "")
-            }
-            onChangeText={(text) => {
-              const setName = setNum === 1 ? "set1" : setNum === 2 ? "set2" : "set3";
-              handleScoreChange(setName as "set1" | "set2" | "set3", "team2", text);
-              
-              // Check if we need to enable Set 3 after completing Set 2
-              if (setNum === 2 && text) {
-                const set1Valid = isValidPadelScore(set1Score.team1, set1Score.team2);
-                const newSet2Score = parseInt(text) || 0;
-                const set2Valid = isValidPadelScore(set2Score.team1, newSet2Score);
-                
-                if (set1Valid && set2Valid) {
-                  const team1SetsWon = (set1Score.team1 > set1Score.team2 ? 1 : 0) + 
-                                      (set2Score.team1 > newSet2Score ? 1 : 0);
-                  const team2SetsWon = (set1Score.team2 > set1Score.team1 ? 1 : 0) + 
-                                      (newSet2Score > set2Score.team1 ? 1 : 0);
-                  
-                  if (team1SetsWon === 1 && team2SetsWon === 1) {
-                    setShowSet3(true);
-                    // Auto-focus on Set 3 Team 1
-                    setTimeout(() => team1Set3Ref?.current?.focus(), 100);
-                  }
-                }
-              }
-              
-              // Auto-advance logic for Team 2: go to next set for same team
-              if (text) {
-                if (setNum === 1) {
-                  // From Set 1 Team 2, go to Set 2 Team 2
-                  setTimeout(() => team2Set2Ref.current?.focus(), 50);
-                } else if (setNum === 2 && showSet3) {
-                  // From Set 2 Team 2, go to Set 3 Team 2
-                  setTimeout(() => team2Set3Ref.current?.focus(), 50);
-                }
-              }
-            }}
-            ref={setNum === 1 ? team2Set1Ref : setNum === 2 ? team2Set2Ref : team2Set3Ref}
-            key={setNum}
-            style={{ marginRight: setNum === 3 ? 0 : 12 }}
-          />
-        ))}
-      </View>
-    </View>
-  </View>
-</View>
-          </View>
-        </ScrollView>
-      </View>
+                      {/* Score Divider - Single continuous line aligned with team divider */}
+                      <View className="h-px bg-gray-300 dark:bg-gray-600 my-2" />
+
+                      {/* Team 2 Scores */}
+                      <View className="h-20 flex-row items-center">
+                        {[1, 2, 3].map((setNum) => (
+                          <TextInput
+                            className={`w-14 h-14 border rounded-xl bg-white dark:bg-gray-800 text-center text-xl font-bold ${
+                              setNum === 1 &&
+                              set1Score.team1 > 0 &&
+                              set1Score.team2 > 0
+                                ? isValidPadelScore(
+                                    set1Score.team1,
+                                    set1Score.team2,
+                                  )
+                                  ? "border-green-500 bg-green-50"
+                                  : "border-red-500 bg-red-50"
+                                : setNum === 2 &&
+                                    set2Score.team1 > 0 &&
+                                    set2Score.team2 > 0
+                                  ? isValidPadelScore(
+                                      set2Score.team1,
+                                      set2Score.team2,
+                                    )
+                                    ? "border-green-500 bg-green-50"
+                                    : "border-red-500 bg-red-50"
+                                  : setNum === 3 &&
+                                      set3Score.team1 > 0 &&
+                                      set3Score.team2 > 0
+                                    ? isValidPadelScore(
+                                        set3Score.team1,
+                                        set3Score.team2,
+                                        3,
+                                      )
+                                      ? "border-green-500 bg-green-50"
+                                      : "border-red-500 bg-red-50"
+                                    : (setNum === 3 && !showSet3) ||
+                                        setNum > maxSets
+                                      ? "border-gray-200 bg-gray-50"
+                                      : "border-gray-300"
+                            }`}
+                            keyboardType="number-pad"
+                            maxLength={setNum === 3 && superTiebreak ? 2 : 1}
+                            placeholder="-"
+                            placeholderTextColor="#9ca3af"
+                            editable={
+                              setNum === 3 ? showSet3 : setNum <= maxSets
+                            }
+                            value={
+                              setNum === 1
+                                ? set1Score.team2 > 0
+                                  ? set1Score.team2.toString()
+                                  : ""
+                                : setNum === 2
+                                  ? set2Score.team2 > 0
+                                    ? set2Score.team2.toString()
+                                    : ""
+                                  : set3Score.team2 > 0
+                                    ? set3Score.team2.toString()
+                                    : ""
+                            }
+                            onChangeText={(text) => {
+                              const setName =
+                                setNum === 1
+                                  ? "set1"
+                                  : setNum === 2
+                                    ? "set2"
+                                    : "set3";
+                              handleScoreChange(
+                                setName as "set1" | "set2" | "set3",
+                                "team2",
+                                text,
+                              );
+
+                              // Check if we need to enable Set 3 after completing Set 2
+                              if (setNum === 2 && text) {
+                                const set1Valid = isValidPadelScore(
+                                  set1Score.team1,
+                                  set1Score.team2,
+                                );
+                                const newSet2Score = parseInt(text) || 0;
+                                const set2Valid = isValidPadelScore(
+                                  set2Score.team1,
+                                  newSet2Score,
+                                );
+
+                                if (set1Valid && set2Valid) {
+                                  const team1SetsWon =
+                                    (set1Score.team1 > set1Score.team2
+                                      ? 1
+                                      : 0) +
+                                    (set2Score.team1 > newSet2Score ? 1 : 0);
+                                  const team2SetsWon =
+                                    (set1Score.team2 > set1Score.team1
+                                      ? 1
+                                      : 0) +
+                                    (newSet2Score > set2Score.team1 ? 1 : 0);
+
+                                  if (
+                                    team1SetsWon === 1 &&
+                                    team2SetsWon === 1
+                                  ) {
+                                    setShowSet3(true);
+                                    // Auto-focus on Set 3 Team 1
+                                    setTimeout(
+                                      () => team1Set3Ref?.current?.focus(),
+                                      100,
+                                    );
+                                  }
+                                }
+                              }
+
+                              // Auto-advance logic for Team 2: go to next set for same team
+                              if (text) {
+                                if (setNum === 1 && maxSets > 1) {
+                                  // From Set 1 Team 2, go to Set 2 Team 2
+                                  setTimeout(
+                                    () => team2Set2Ref.current?.focus(),
+                                    50,
+                                  );
+                                } else if (setNum === 2 && showSet3) {
+                                  // From Set 2 Team 2, go to Set 3 Team 2
+                                  setTimeout(
+                                    () => team2Set3Ref.current?.focus(),
+                                    50,
+                                  );
+                                }
+                              }
+                            }}
+                            ref={
+                              setNum === 1
+                                ? team2Set1Ref
+                                : setNum === 2
+                                  ? team2Set2Ref
+                                  : team2Set3Ref
+                            }
+                            key={setNum}
+                            style={{ marginRight: setNum === 3 ? 0 : 12 }}
+                          />
+                        ))}
+                      </View>
+                    </View>
+                  </View>
+                </View>
+              )}
+
+              {/* Deciding set format */}
+              {showSet3 && (
+                <View className="mt-4">
+                  <SuperTiebreakToggle
+                    value={superTiebreak}
+                    onChange={setSuperTiebreak}
+                  />
+                </View>
+              )}
+
+              {/* Tiebreak points for sets won 7-6 */}
+              {(
+                [
+                  ["set1", set1Score],
+                  ["set2", set2Score],
+                  ["set3", set3Score],
+                ] as const
+              ).map(([setName, score], index) =>
+                index < maxSets &&
+                (index < 2 || (showSet3 && !superTiebreak)) &&
+                validateSet(score, scoringRules).isTiebreakSet ? (
+                  <TiebreakInput
+                    key={setName}
+                    setNumber={index + 1}
+                    value={score.tiebreak}
+                    target={scoringRules.tiebreakPoints}
+                    onChange={(tiebreak) =>
+                      handleTiebreakChange(setName, tiebreak)
+                    }
+                  />
+                ) : null,
+              )}
+            </View>
+          </ScrollView>
+        </View>
       </SlideContainer>
     );
   };
@@ -1164,7 +1476,9 @@ export default function CreateMatchWizardRefactored() {
               <View
                 key={step}
                 className={`flex-1 h-1 mx-2 rounded-full ${
-                  index <= currentIndex ? 'bg-primary' : 'bg-gray-300 dark:bg-gray-600'
+                  index <= currentIndex
+                    ? "bg-primary"
+                    : "bg-gray-300 dark:bg-gray-600"
                 }`}
               />
             );
@@ -1177,7 +1491,9 @@ export default function CreateMatchWizardRefactored() {
           showsVerticalScrollIndicator={false}
         >
           <View className="px-6">
-            <Text className="text-xl font-bold mb-2 text-gray-900 dark:text-gray-100">Review & Submit</Text>
+            <Text className="text-xl font-bold mb-2 text-gray-900 dark:text-gray-100">
+              Review & Submit
+            </Text>
             <Text className="text-gray-600 dark:text-gray-300 mb-6 text-sm">
               Review your match details before submitting
             </Text>
@@ -1188,19 +1504,25 @@ export default function CreateMatchWizardRefactored() {
               <View className="flex-row items-center justify-between mb-3">
                 <View className="flex-1">
                   <Text className="text-sm text-gray-600 dark:text-gray-300">
-                    {startDateTime.toLocaleDateString('en-US', { 
-                      weekday: 'short', 
-                      month: 'short', 
-                      day: 'numeric' 
-                    })} at {startDateTime.toLocaleTimeString('en-US', { 
-                      hour: 'numeric', 
-                      minute: '2-digit',
-                      hour12: true 
+                    {startDateTime.toLocaleDateString("en-US", {
+                      weekday: "short",
+                      month: "short",
+                      day: "numeric",
+                    })}{" "}
+                    at{" "}
+                    {startDateTime.toLocaleTimeString("en-US", {
+                      hour: "numeric",
+                      minute: "2-digit",
+                      hour12: true,
                     })}
                   </Text>
                   {selectedCourt && (
                     <View className="flex-row items-center mt-1">
-                      <Ionicons name="location-outline" size={14} color={colorScheme === "dark" ? "#9ca3af" : "#666"} />
+                      <Ionicons
+                        name="location-outline"
+                        size={14}
+                        color={colorScheme === "dark" ? "#9ca3af" : "#666"}
+                      />
                       <Text className="text-xs text-gray-600 dark:text-gray-300 ml-1">
                         {selectedCourt.name}
                       </Text>
@@ -1220,38 +1542,49 @@ export default function CreateMatchWizardRefactored() {
               <View className="space-y-3">
                 {/* Team 1 */}
                 <View>
-                  <Text className="text-xs text-gray-500 dark:text-gray-400 mb-1">TEAM 1</Text>
+                  <Text className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+                    TEAM 1
+                  </Text>
                   <View className="flex-row items-center gap-2">
                     <View className="flex-row -space-x-2">
                       {/* Current User Avatar */}
                       <View className="w-8 h-8 rounded-full bg-primary/10 border-2 border-primary items-center justify-center">
-                        <Text className="text-primary font-bold text-xs">J</Text>
+                        <Text className="text-primary font-bold text-xs">
+                          J
+                        </Text>
                       </View>
                       {/* Second Player Avatar */}
                       {selectedPlayers.length > 0 && (
                         <View className="w-8 h-8 rounded-full bg-primary/10 border-2 border-primary items-center justify-center">
                           <Text className="text-primary font-bold text-xs">
-                            {selectedPlayers[0]?.full_name?.charAt(0) || 'P'}
+                            {selectedPlayers[0]?.full_name?.charAt(0) || "P"}
                           </Text>
                         </View>
                       )}
                     </View>
-                    <Text className="text-sm flex-1 text-gray-900 dark:text-gray-100" numberOfLines={1}>
-                      You{selectedPlayers.length > 0 && ` & ${selectedPlayers[0]?.full_name?.split(' ')[0] || 'Player'}`}
+                    <Text
+                      className="text-sm flex-1 text-gray-900 dark:text-gray-100"
+                      numberOfLines={1}
+                    >
+                      You
+                      {selectedPlayers.length > 0 &&
+                        ` & ${selectedPlayers[0]?.full_name?.split(" ")[0] || "Player"}`}
                     </Text>
                   </View>
                 </View>
 
                 {/* Team 2 */}
                 <View>
-                  <Text className="text-xs text-gray-500 dark:text-gray-400 mb-1">TEAM 2</Text>
+                  <Text className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+                    TEAM 2
+                  </Text>
                   <View className="flex-row items-center gap-2">
                     <View className="flex-row -space-x-2">
                       {/* Third Player Avatar */}
                       {selectedPlayers.length > 1 && (
                         <View className="w-8 h-8 rounded-full bg-gray-300 border-2 border-white items-center justify-center">
                           <Text className="text-white font-bold text-xs">
-                            {selectedPlayers[1]?.full_name?.charAt(0) || 'P'}
+                            {selectedPlayers[1]?.full_name?.charAt(0) || "P"}
                           </Text>
                         </View>
                       )}
@@ -1259,45 +1592,107 @@ export default function CreateMatchWizardRefactored() {
                       {selectedPlayers.length > 2 && (
                         <View className="w-8 h-8 rounded-full bg-purple-100 border-2 border-white items-center justify-center">
                           <Text className="text-purple-800 font-bold text-xs">
-                            {selectedPlayers[2]?.full_name?.charAt(0) || 'P'}
+                            {selectedPlayers[2]?.full_name?.charAt(0) || "P"}
                           </Text>
                         </View>
                       )}
                     </View>
-                    <Text className="text-sm flex-1 text-gray-900 dark:text-gray-100" numberOfLines={1}>
-                      {selectedPlayers.length > 1 
-                        ? `${selectedPlayers[1]?.full_name?.split(' ')[0] || 'Player'}${selectedPlayers.length > 2 ? ` & ${selectedPlayers[2]?.full_name?.split(' ')[0] || 'Player'}` : ''}`
-                        : "TBD"
-                      }
+                    <Text
+                      className="text-sm flex-1 text-gray-900 dark:text-gray-100"
+                      numberOfLines={1}
+                    >
+                      {selectedPlayers.length > 1
+                        ? `${selectedPlayers[1]?.full_name?.split(" ")[0] || "Player"}${selectedPlayers.length > 2 ? ` & ${selectedPlayers[2]?.full_name?.split(" ")[0] || "Player"}` : ""}`
+                        : "TBD"}
                     </Text>
                   </View>
                 </View>
               </View>
 
               {/* Scores */}
-              {isPastMatch && (set1Score.team1 > 0 || set1Score.team2 > 0 || set2Score.team1 > 0 || set2Score.team2 > 0) && (
-                <View className="mt-3 pt-3 border-t border-gray-200">
-                  <View className="flex-row items-center justify-between">
-                    <View className="flex-row items-center gap-3">
-                      <Text className="text-xs text-gray-500">Score:</Text>
-                      <View className="flex-row items-center gap-2">
-                        <Text className="text-sm font-medium">
-                          {set1Score.team1}-{set1Score.team2}
-                        </Text>
-                        <Text className="text-sm font-medium">
-                          {set2Score.team1}-{set2Score.team2}
-                        </Text>
-                        {showSet3 && set3Score.team1 > 0 && set3Score.team2 > 0 && (
-                          <Text className="text-sm font-medium">
-                            {set3Score.team1}-{set3Score.team2}
-                          </Text>
-                        )}
+              {isPastMatch &&
+                (endReason !== "completed" ||
+                  set1Score.team1 > 0 ||
+                  set1Score.team2 > 0 ||
+                  set2Score.team1 > 0 ||
+                  set2Score.team2 > 0) && (
+                  <View className="mt-3 pt-3 border-t border-gray-200">
+                    <View className="flex-row items-center justify-between">
+                      <View className="flex-row items-center gap-3">
+                        <Text className="text-xs text-gray-500">Score:</Text>
+                        <View className="flex-row items-center gap-2">
+                          {endReason !== "walkover" && (
+                            <Text className="text-sm font-medium">
+                              {formatSetScore(set1Score)}
+                            </Text>
+                          )}
+                          {endReason !== "walkover" && maxSets > 1 && (
+                            <Text className="text-sm font-medium">
+                              {formatSetScore(set2Score)}
+                            </Text>
+                          )}
+                          {showSet3 &&
+                            set3Score.team1 + set3Score.team2 > 0 && (
+                              <Text className="text-sm font-medium">
+                                {formatSetScore(set3Score, superTiebreak)}
+                              </Text>
+                            )}
+                          {endReason !== "completed" && (
+                            <Text className="text-sm font-medium text-primary">
+                              {getMatchEnding(endReason).label}
+                            </Text>
+                          )}
+                        </View>
                       </View>
                     </View>
                   </View>
-                </View>
-              )}
+                )}
+
+              <View className="flex-row items-center mt-3">
+                <Ionicons
+                  name="tennisball-outline"
+                  size={14}
+                  color={colorScheme === "dark" ? "#9ca3af" : "#666"}
+                />
+                <Text className="text-xs text-gray-600 dark:text-gray-300 ml-1">
+                  {formatMatchFormat(matchFormat)}
+                </Text>
+              </View>
+            </View>
+
+            {/* Future matches pick their format here, past matches on the score step */}
+            {!isPastMatch && (
+              <View className="mb-6">
+                <Text className="text-base font-semibold mb-3 text-gray-900 dark:text-gray-100">
+                  Match Format
+                </Text>
+                <MatchFormatSelector
+                  value={matchFormat}
+                  onChange={setMatchFormat}
+                />
+              </View>
+            )}
+
+            {/* How much the match counts towards ratings */}
+            <View className="mb-6">
+              <Text className="text-base font-semibold mb-3 text-gray-900 dark:text-gray-100">
+                Rating Weight
+              </Text>
+              <RatingWeightSelector
+                value={ratingWeight}
+                onChange={setRatingWeight}
+              />
             </View>
+
+            {/* Win probability and rating swings */}
+            {profile && (
+              <MatchPredictionCard
+                team1={[profile, selectedPlayers[0]]}
+                team2={[selectedPlayers[1], selectedPlayers[2]]}
+                highlightPlayerId={profile.id}
+                ratingWeight={ratingWeight}
+              />
+            )}
           </View>
         </ScrollView>
       </View>
@@ -1308,91 +1703,139 @@ export default function CreateMatchWizardRefactored() {
   const renderDebugPanel = () => {
     const currentStepValidation = validateCurrentStep();
     const currentStepIndex = customStepSequence.indexOf(currentStep);
-    
+
     return (
       <View className="bg-yellow-100 border-2 border-yellow-500 rounded-lg p-4 mx-4 mb-4">
-        <Text className="text-yellow-800 font-bold text-lg mb-2">🐛 DEBUG INFO</Text>
-        
+        <Text className="text-yellow-800 font-bold text-lg mb-2">
+          🐛 DEBUG INFO
+        </Text>
+
         {/* Current Step Info */}
         <View className="mb-3">
-          <Text className="text-yellow-800 font-semibold">📍 Current Step:</Text>
-          <Text className="text-yellow-700">ID: {currentStep} | Index: {currentStepIndex}</Text>
-          <Text className="text-yellow-700">Sequence: [{customStepSequence.join(', ')}]</Text>
+          <Text className="text-yellow-800 font-semibold">
+            📍 Current Step:
+          </Text>
+          <Text className="text-yellow-700">
+            ID: {currentStep} | Index: {currentStepIndex}
+          </Text>
+          <Text className="text-yellow-700">
+            Sequence: [{customStepSequence.join(", ")}]
+          </Text>
         </View>
-        
+
         {/* State Values */}
         <View className="mb-3">
-          <Text className="text-yellow-800 font-semibold">🏗️ State Values:</Text>
-          <Text className="text-yellow-700">Court: {selectedCourt?.name || 'NULL'}</Text>
-          <Text className="text-yellow-700">Times: [{selectedTimes.join(', ')}]</Text>
-          <Text className="text-yellow-700">Players: {selectedPlayers.length}/3</Text>
-          <Text className="text-yellow-700">isPastMatch: {isPastMatch.toString()}</Text>
+          <Text className="text-yellow-800 font-semibold">
+            🏗️ State Values:
+          </Text>
+          <Text className="text-yellow-700">
+            Court: {selectedCourt?.name || "NULL"}
+          </Text>
+          <Text className="text-yellow-700">
+            Times: [{selectedTimes.join(", ")}]
+          </Text>
+          <Text className="text-yellow-700">
+            Players: {selectedPlayers.length}/3
+          </Text>
+          <Text className="text-yellow-700">
+            isPastMatch: {isPastMatch.toString()}
+          </Text>
         </View>
-        
+
         {/* Validation Results */}
         <View className="mb-3">
           <Text className="text-yellow-800 font-semibold">✅ Validation:</Text>
-          <Text className="text-yellow-700">Is Valid: {currentStepValidation.isValid.toString()}</Text>
-          <Text className="text-yellow-700">Errors: {currentStepValidation.errors.length > 0 ? currentStepValidation.errors.join(', ') : 'None'}</Text>
+          <Text className="text-yellow-700">
+            Is Valid: {currentStepValidation.isValid.toString()}
+          </Text>
+          <Text className="text-yellow-700">
+            Errors:{" "}
+            {currentStepValidation.errors.length > 0
+              ? currentStepValidation.errors.join(", ")
+              : "None"}
+          </Text>
         </View>
-        
+
         {/* Navigation State */}
         <View className="mb-3">
           <Text className="text-yellow-800 font-semibold">🎮 Navigation:</Text>
-          <Text className="text-yellow-700">Can Proceed: {currentStepValidation.isValid.toString()}</Text>
-          <Text className="text-yellow-700">Is Last Step: {(currentStepIndex === customStepSequence.length - 1).toString()}</Text>
-          <Text className="text-yellow-700">Next Step: {customStepSequence[currentStepIndex + 1] || 'None'}</Text>
+          <Text className="text-yellow-700">
+            Can Proceed: {currentStepValidation.isValid.toString()}
+          </Text>
+          <Text className="text-yellow-700">
+            Is Last Step:{" "}
+            {(currentStepIndex === customStepSequence.length - 1).toString()}
+          </Text>
+          <Text className="text-yellow-700">
+            Next Step: {customStepSequence[currentStepIndex + 1] || "None"}
+          </Text>
         </View>
-        
+
         {/* Button State */}
         <View className="mb-3">
-          <Text className="text-yellow-800 font-semibold">🔘 Button State:</Text>
-          <Text className="text-yellow-700">Next Button Disabled: {(!currentStepValidation.isValid).toString()}</Text>
-          <Text className="text-yellow-700">Next Button Color: {currentStepValidation.isValid ? 'Blue' : 'Gray'}</Text>
-          <Text className="text-yellow-700">Last Button Press: {lastButtonPress}</Text>
+          <Text className="text-yellow-800 font-semibold">
+            🔘 Button State:
+          </Text>
+          <Text className="text-yellow-700">
+            Next Button Disabled: {(!currentStepValidation.isValid).toString()}
+          </Text>
+          <Text className="text-yellow-700">
+            Next Button Color: {currentStepValidation.isValid ? "Blue" : "Gray"}
+          </Text>
+          <Text className="text-yellow-700">
+            Last Button Press: {lastButtonPress}
+          </Text>
         </View>
-        
+
         {/* Debug Actions */}
         <View className="mb-3">
-          <Text className="text-yellow-800 font-semibold">🧪 Debug Actions:</Text>
-          <TouchableOpacity 
+          <Text className="text-yellow-800 font-semibold">
+            🧪 Debug Actions:
+          </Text>
+          <TouchableOpacity
             onPress={() => {
               const validation = validateCurrentStep();
               Alert.alert(
                 "🔍 Manual Validation Test",
-                `Step: ${currentStep}\nValid: ${validation.isValid}\nErrors: ${validation.errors.join(', ') || 'None'}`
+                `Step: ${currentStep}\nValid: ${validation.isValid}\nErrors: ${validation.errors.join(", ") || "None"}`,
               );
             }}
             className="bg-yellow-600 px-3 py-2 rounded mt-2"
           >
-            <Text className="text-white text-center font-semibold">Test Validation</Text>
+            <Text className="text-white text-center font-semibold">
+              Test Validation
+            </Text>
           </TouchableOpacity>
-          
-          <TouchableOpacity 
+
+          <TouchableOpacity
             onPress={() => {
               const currentIndex = customStepSequence.indexOf(currentStep);
               const nextStep = customStepSequence[currentIndex + 1];
               Alert.alert(
                 "➡️ Next Step Test",
-                `Current: ${currentStep} (index ${currentIndex})\nNext: ${nextStep || 'None'}\nSequence: [${customStepSequence.join(', ')}]`
+                `Current: ${currentStep} (index ${currentIndex})\nNext: ${nextStep || "None"}\nSequence: [${customStepSequence.join(", ")}]`,
               );
             }}
             className="bg-primary px-3 py-2 rounded mt-2"
           >
-            <Text className="text-white text-center font-semibold">Test Next Step</Text>
+            <Text className="text-white text-center font-semibold">
+              Test Next Step
+            </Text>
           </TouchableOpacity>
-          
-          <TouchableOpacity 
+
+          <TouchableOpacity
             onPress={() => {
               addDebugLog("🧪 Manual test of goToNextStepCustom");
               goToNextStepCustom();
             }}
             className="bg-green-600 px-3 py-2 rounded mt-2"
           >
-            <Text className="text-white text-center font-semibold">Test Navigation Function</Text>
+            <Text className="text-white text-center font-semibold">
+              Test Navigation Function
+            </Text>
           </TouchableOpacity>
         </View>
-        
+
         {/* Debug Log */}
         <View>
           <Text className="text-yellow-800 font-semibold">📝 Debug Log:</Text>
@@ -1402,7 +1845,9 @@ export default function CreateMatchWizardRefactored() {
             </Text>
           ))}
           {debugLog.length === 0 && (
-            <Text className="text-yellow-700 text-xs italic">No actions yet...</Text>
+            <Text className="text-yellow-700 text-xs italic">
+              No actions yet...
+            </Text>
           )}
         </View>
       </View>
@@ -1413,7 +1858,8 @@ export default function CreateMatchWizardRefactored() {
   const renderNavigationControls = () => {
     const currentStepValidation = validateCurrentStep();
     const canProceed = currentStepValidation.isValid;
-    const isLastStep = customStepSequence.indexOf(currentStep) === customStepSequence.length - 1;
+    const isLastStep =
+      customStepSequence.indexOf(currentStep) === customStepSequence.length - 1;
 
     return (
       <View className="absolute bottom-0 left-0 right-0 p-6 bg-white dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700">
@@ -1434,7 +1880,7 @@ export default function CreateMatchWizardRefactored() {
               onPress={goToNextStepCustom}
               disabled={!canProceed}
               className={`flex-1 py-4 rounded-full flex-row items-center justify-center ${
-                !canProceed ? 'bg-gray-400' : 'bg-primary'
+                !canProceed ? "bg-gray-400" : "bg-primary"
               }`}
               activeOpacity={0.8}
             >
@@ -1448,7 +1894,7 @@ export default function CreateMatchWizardRefactored() {
               onPress={handleCreateMatch}
               disabled={loading || !canProceed}
               className={`flex-1 py-4 rounded-full flex-row items-center justify-center ${
-                loading || !canProceed ? 'bg-gray-400' : 'bg-green-600'
+                loading || !canProceed ? "bg-gray-400" : "bg-green-600"
               }`}
               activeOpacity={0.8}
             >
@@ -1470,20 +1916,22 @@ export default function CreateMatchWizardRefactored() {
       <View className="w-24 h-24 bg-green-500 rounded-full items-center justify-center mb-6">
         <Ionicons name="checkmark" size={48} color="white" />
       </View>
-      
+
       {/* Success Text */}
       <Text className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-2 text-center">
         Match Created Successfully!
       </Text>
-      
+
       <Text className="text-gray-600 dark:text-gray-300 text-center text-base">
         Your match has been recorded and all players have been notified.
       </Text>
-      
+
       {/* Loading indicator */}
       <View className="mt-8 flex-row items-center">
         <View className="w-2 h-2 bg-primary rounded-full mr-2 animate-pulse" />
-        <Text className="text-gray-500 dark:text-gray-400 text-sm">Returning to matches...</Text>
+        <Text className="text-gray-500 dark:text-gray-400 text-sm">
+          Returning to matches...
+        </Text>
       </View>
     </View>
   );
@@ -1509,14 +1957,14 @@ export default function CreateMatchWizardRefactored() {
               [
                 {
                   text: "Cancel",
-                  style: "cancel"
+                  style: "cancel",
                 },
                 {
                   text: "Exit",
                   style: "destructive",
-                  onPress: () => router.back()
-                }
-              ]
+                  onPress: () => router.back(),
+                },
+              ],
             );
           }}
           className="flex-row items-center"
@@ -1524,9 +1972,7 @@ export default function CreateMatchWizardRefactored() {
           <Ionicons name="close" size={24} color="white" />
           <Text className="text-white font-semibold ml-2">Exit</Text>
         </TouchableOpacity>
-        
         <Text className="text-white font-semibold text-lg">Create Match</Text>
-        
         <View className="w-16" /> {/* Spacer for centering */}
       </View>
 
@@ -1544,7 +1990,7 @@ export default function CreateMatchWizardRefactored() {
       <View className="flex-1 relative">
         {/* Debug Panel - Always visible */}
         {renderDebugPanel()}
-        
+
         {renderLocationStep()}
         {renderPlayerStep()}
         {renderScoreStep()}
@@ -1581,4 +2027,3 @@ export default function CreateMatchWizardRefactored() {
     </SafeAreaView>
   );
 }
-
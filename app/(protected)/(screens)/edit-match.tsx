@@ -24,6 +24,31 @@ import {
   SetScoreInput,
   SetScore,
 } from "@/components/create-match/SetScoreInput";
+import { SuperTiebreakToggle } from "@/components/create-match/TiebreakInput";
+import { MatchFormatSelector } from "@/components/MatchFormatSelector";
+import { MatchEndingSelector } from "@/components/MatchEndingSelector";
+import { RatingWeightSelector } from "@/components/RatingWeightSelector";
+import { MatchRatingWeight } from "@/constants/rating";
+import { MatchFormat } from "@/constants/scoring";
+import { MatchEndReason } from "@/constants/match-ending";
+import { getRatingWeight } from "@/lib/rating-weight";
+import {
+  getMatchSets,
+  isSetPlayed,
+  toMatchScoreColumns,
+} from "@/lib/padel-scoring";
+import {
+  getMatchEndReason,
+  getMatchEnding,
+  validateMatchEnding,
+} from "@/lib/match-ending";
+import {
+  allowsSuperTiebreak,
+  getMatchFormat,
+  getMaxSets,
+  getScoringRules,
+  toMatchFormatColumns,
+} from "@/lib/match-format";
 
 // Match Status Enum
 export enum MatchStatus {
@@ -47,13 +72,25 @@ interface EditableMatch {
   court: string | null;
   is_public: boolean;
   description: string | null;
+  rating_weight: MatchRatingWeight | null;
+  validation_status: string | null;
   team1_score_set1: number | null;
   team2_score_set1: number | null;
   team1_score_set2: number | null;
   team2_score_set2: number | null;
   team1_score_set3: number | null;
   team2_score_set3: number | null;
+  team1_tiebreak_set1: number | null;
+  team2_tiebreak_set1: number | null;
+  team1_tiebreak_set2: number | null;
+  team2_tiebreak_set2: number | null;
+  team1_tiebreak_set3: number | null;
+  team2_tiebreak_set3: number | null;
+  super_tiebreak: boolean | null;
+  match_format: string | null;
+  deuce_rule: string | null;
   winner_team: number | null;
+  end_reason: MatchEndReason | null;
   completed_at: string | null;
   created_at: string;
   player1?: any;
@@ -100,6 +137,7 @@ const calculateEditPermissions = (match: EditableMatch, userId: string) => {
     canEditLocation: hoursSinceCompletion < 24,
     canEditVisibility: isFuture && minutesUntilStart > 30,
     canEditDescription: hoursSinceCompletion < 24,
+    canEditRatingWeight: hoursSinceCompletion < 24,
     canEditScores:
       isPast &&
       hoursSinceCompletion < 2 &&
@@ -145,6 +183,8 @@ export default function EditMatchScreen() {
   const [court, setCourt] = useState("");
   const [isPublicMatch, setIsPublicMatch] = useState(false);
   const [matchDescription, setMatchDescription] = useState("");
+  const [ratingWeight, setRatingWeight] =
+    useState<MatchRatingWeight>("standard");
 
   // Score state
   const [set1Score, setSet1Score] = useState<SetScore>({ team1: 0, team2: 0 });
@@ -154,6 +194,19 @@ export default function EditMatchScreen() {
   const [isSet2Valid, setIsSet2Valid] = useState(false);
   const [isSet3Valid, setIsSet3Valid] = useState(false);
   const [showSet3, setShowSet3] = useState(false);
+  const [superTiebreak, setSuperTiebreak] = useState(false);
+  const [matchFormat, setMatchFormat] = useState<MatchFormat>(
+    getMatchFormat(null),
+  );
+  const [endReason, setEndReason] = useState<MatchEndReason>("completed");
+  const [endingWinnerTeam, setEndingWinnerTeam] = useState<0 | 1 | 2>(0);
+
+  const scoringRules = getScoringRules(matchFormat);
+  const maxSets = getMaxSets(matchFormat);
+  const isSuperTiebreak = superTiebreak && allowsSuperTiebreak(matchFormat);
+  const enteredSets = (
+    showSet3 ? [set1Score, set2Score, set3Score] : [set1Score, set2Score]
+  ).slice(0, maxSets);
 
   // Calculate edit permissions
   const editPermissions = useMemo(() => {
@@ -266,32 +319,52 @@ export default function EditMatchScreen() {
     setCourt(match.court || "");
     setIsPublicMatch(match.is_public);
     setMatchDescription(match.description || "");
+    setRatingWeight(getRatingWeight(match.rating_weight));
 
     // Initialize scores if they exist
-    if (match.team1_score_set1 !== null) {
-      setSet1Score({
-        team1: match.team1_score_set1,
-        team2: match.team2_score_set1 || 0,
-      });
+    const [set1, set2, set3] = getMatchSets(match);
+
+    if (set1) {
+      setSet1Score(set1);
       setIsSet1Valid(true);
     }
 
-    if (match.team1_score_set2 !== null) {
-      setSet2Score({
-        team1: match.team1_score_set2,
-        team2: match.team2_score_set2 || 0,
-      });
+    if (set2) {
+      setSet2Score(set2);
       setIsSet2Valid(true);
     }
 
-    if (match.team1_score_set3 !== null) {
-      setSet3Score({
-        team1: match.team1_score_set3,
-        team2: match.team2_score_set3 || 0,
-      });
+    if (set3) {
+      setSet3Score(set3);
       setIsSet3Valid(true);
       setShowSet3(true);
     }
+
+    setSuperTiebreak(!!match.super_tiebreak);
+    setMatchFormat(getMatchFormat(match));
+
+    // A match that ended early keeps the winner it was given
+    const reason = getMatchEndReason(match.end_reason);
+    setEndReason(reason);
+    setEndingWinnerTeam(
+      reason !== "completed" &&
+        (match.winner_team === 1 || match.winner_team === 2)
+        ? match.winner_team
+        : 0,
+    );
+  };
+
+  const handleEndReasonChange = (reason: MatchEndReason) => {
+    setEndReason(reason);
+    setEndingWinnerTeam(0);
+
+    if (getMatchEnding(reason).score === "none") {
+      const empty: SetScore = { team1: 0, team2: 0 };
+      setSet1Score(empty);
+      setSet2Score(empty);
+      setSet3Score(empty);
+      setShowSet3(false);
+    }
   };
 
   // Update selected players when friends change
@@ -341,14 +414,27 @@ export default function EditMatchScreen() {
     }
 
     // Validate scores if editable
-    if (editPermissions.canEditScores) {
-      if (!isSet1Valid || !isSet2Valid) {
-        errors.push("Please enter valid scores for both sets");
+    if (editPermissions.canEditScores && endReason !== "completed") {
+      // A match that ended early may stop mid-set or have no score at all
+      errors.push(...getScoreValidation().errors);
+    } else if (editPermissions.canEditScores) {
+      const setsValid = maxSets > 1 ? isSet1Valid && isSet2Valid : isSet1Valid;
+
+      if (!setsValid) {
+        errors.push(
+          maxSets > 1
+            ? "Please enter valid scores for both sets"
+            : "Please enter a valid score for the set",
+        );
       }
 
       if (showSet3 && !isSet3Valid) {
         errors.push("Please enter a valid score for the third set");
       }
+
+      if (setsValid && (!showSet3 || isSet3Valid)) {
+        errors.push(...getScoreValidation().errors);
+      }
     }
 
     // Validate public match requirements
@@ -391,33 +477,31 @@ export default function EditMatchScreen() {
     if (court !== (match.court || "")) return true;
     if (isPublicMatch !== match.is_public) return true;
     if (matchDescription !== (match.description || "")) return true;
+    if (ratingWeight !== getRatingWeight(match.rating_weight)) return true;
 
     // Check scores
     if (match.team1_score_set1 !== set1Score.team1) return true;
     if (match.team2_score_set1 !== set1Score.team2) return true;
     if (match.team1_score_set2 !== set2Score.team1) return true;
     if (match.team2_score_set2 !== set2Score.team2) return true;
+    if (superTiebreak !== !!match.super_tiebreak) return true;
+    if (matchFormat.id !== getMatchFormat(match).id) return true;
+    if (matchFormat.deuce !== getMatchFormat(match).deuce) return true;
+    if (endReason !== getMatchEndReason(match.end_reason)) return true;
+    if (
+      endReason !== "completed" &&
+      endingWinnerTeam !== (match.winner_team ?? 0)
+    )
+      return true;
 
     return false;
   };
 
-  const determineWinnerTeam = (): number => {
-    let team1Sets = 0;
-    let team2Sets = 0;
-
-    if (set1Score.team1 > set1Score.team2) team1Sets++;
-    else if (set1Score.team2 > set1Score.team1) team2Sets++;
-
-    if (set2Score.team1 > set2Score.team2) team1Sets++;
-    else if (set2Score.team2 > set2Score.team1) team2Sets++;
-
-    if (showSet3) {
-      if (set3Score.team1 > set3Score.team2) team1Sets++;
-      else if (set3Score.team2 > set3Score.team1) team2Sets++;
-    }
-
-    return team1Sets > team2Sets ? 1 : team2Sets > team1Sets ? 2 : 0;
-  };
+  const getScoreValidation = () =>
+    validateMatchEnding(endReason, enteredSets, scoringRules, {
+      superTiebreak: isSuperTiebreak,
+      winnerTeam: endingWinnerTeam,
+    });
 
   const saveChanges = async () => {
     try {
@@ -498,6 +582,21 @@ export default function EditMatchScreen() {
         }
       }
 
+      // Check for rating weight changes. Once the match is validated the
+      // other players have to approve the new weight before it applies.
+      let requestedWeight: MatchRatingWeight | null = null;
+      if (editPermissions?.canEditRatingWeight) {
+        if (ratingWeight !== getRatingWeight(match.rating_weight)) {
+          if (match.validation_status === "validated") {
+            requestedWeight = ratingWeight;
+            editedFields.push("Rating weight (needs your approval)");
+          } else {
+            updateData.rating_weight = ratingWeight;
+            editedFields.push("Rating weight");
+          }
+        }
+      }
+
       // Check for player changes
       if (editPermissions?.canEditPlayers) {
         const currentPlayerIds = [
@@ -519,44 +618,34 @@ export default function EditMatchScreen() {
       // Check for score changes
       if (editPermissions?.canEditScores) {
         const scoreUpdates: any = {};
-
-        if (set1Score.team1 !== (match.team1_score_set1 || 0)) {
-          scoreUpdates.team1_score_set1 = set1Score.team1;
-          editedFields.push("Scores");
-        }
-
-        if (set1Score.team2 !== (match.team2_score_set1 || 0)) {
-          scoreUpdates.team2_score_set1 = set1Score.team2;
-          editedFields.push("Scores");
-        }
-
-        if (set2Score.team1 !== (match.team1_score_set2 || 0)) {
-          scoreUpdates.team1_score_set2 = set2Score.team1;
-          editedFields.push("Scores");
-        }
-
-        if (set2Score.team2 !== (match.team2_score_set2 || 0)) {
-          scoreUpdates.team2_score_set2 = set2Score.team2;
+        const scoreColumns = {
+          ...toMatchScoreColumns(enteredSets, {
+            superTiebreak: isSuperTiebreak,
+          }),
+          ...toMatchFormatColumns(matchFormat),
+        };
+
+        // Tiebreak points, the super tiebreak flag and the format are saved
+        // with the games, the format decides which scores are valid
+        const scoresChanged =
+          (Object.keys(scoreColumns) as (keyof typeof scoreColumns)[]).some(
+            (column) => scoreColumns[column] !== (match[column] ?? null),
+          ) ||
+          endReason !== getMatchEndReason(match.end_reason) ||
+          (endReason !== "completed" &&
+            endingWinnerTeam !== (match.winner_team ?? 0));
+
+        // The set scores themselves are written through the event log below
+        if (scoresChanged) {
+          Object.assign(scoreUpdates, toMatchFormatColumns(matchFormat));
           editedFields.push("Scores");
         }
 
-        if (showSet3) {
-          if (set3Score.team1 !== (match.team1_score_set3 || 0)) {
-            scoreUpdates.team1_score_set3 = set3Score.team1;
-            editedFields.push("Scores");
-          }
-
-          if (set3Score.team2 !== (match.team2_score_set3 || 0)) {
-            scoreUpdates.team2_score_set3 = set3Score.team2;
-            editedFields.push("Scores");
-          }
-        }
-
         Object.assign(updateData, scoreUpdates);
       }
 
       // Only proceed if there are actual changes
-      if (Object.keys(updateData).length === 0) {
+      if (Object.keys(updateData).length === 0 && !requestedWeight) {
         Alert.alert("No Changes", "No changes detected to save");
         return;
       }
@@ -577,6 +666,62 @@ export default function EditMatchScreen() {
         throw error;
       }
 
+      const scoresEdited = uniqueEditedFields.includes("Scores");
+      if (scoresEdited) {
+        const { MatchEventService } = await import(
+          "@/services/match-event.service"
+        );
+
+        const scoreCorrection = await MatchEventService.recordCorrection(
+          match.id,
+          enteredSets.filter(isSetPlayed),
+          isSuperTiebreak,
+          session.user.id,
+          "Score edited",
+          {
+            endReason,
+            winnerTeam: getScoreValidation().winnerTeam,
+          },
+        );
+
+        if (!scoreCorrection.success) {
+          throw new Error(scoreCorrection.message);
+        }
+      }
+
+      if (requestedWeight) {
+        const { RatingWeightChangeService } = await import(
+          "@/services/rating-weight-change.service"
+        );
+
+        const request = await RatingWeightChangeService.requestChange(
+          match.id,
+          requestedWeight,
+          session.user.id,
+        );
+
+        if (!request.success) {
+          throw new Error(request.error || request.message);
+        }
+      }
+
+      // Re-rate the match and everything played after it on the new score
+      // or weight
+      if (scoresEdited || updateData.rating_weight !== undefined) {
+        const { RatingCorrectionService } = await import(
+          "@/services/rating-correction.service"
+        );
+
+        const correction = await RatingCorrectionService.correctFromMatch(
+          match.id,
+          "edited",
+        );
+
+        if (!correction.success) {
+          console.error("Rating correction failed:", correction.error);
+        }
+      }
+
       // Send notification to other players about the match edit
       if (profile?.full_name && uniqueEditedFields.length > 0) {
         const allPlayerIds = [
@@ -850,7 +995,8 @@ export default function EditMatchScreen() {
 
         {/* Match Settings */}
         {(editPermissions?.canEditVisibility ||
-          editPermissions?.canEditDescription) && (
+          editPermissions?.canEditDescription ||
+          editPermissions?.canEditRatingWeight) && (
           <View className="mb-6 p-4 rounded-xl bg-card border border-border/30">
             <H3 className="mb-4">Match Settings</H3>
 
@@ -903,6 +1049,24 @@ export default function EditMatchScreen() {
                 />
               </View>
             )}
+
+            {editPermissions.canEditRatingWeight && (
+              <View className="mt-4">
+                <Text className="text-sm font-medium mb-2 text-muted-foreground">
+                  Rating Weight
+                </Text>
+                <RatingWeightSelector
+                  value={ratingWeight}
+                  onChange={setRatingWeight}
+                />
+                {match?.validation_status === "validated" && (
+                  <Text className="text-xs text-muted-foreground mt-2">
+                    This match is validated. A new weight applies once the other
+                    players approve it.
+                  </Text>
+                )}
+              </View>
+            )}
           </View>
         )}
 
@@ -911,27 +1075,65 @@ export default function EditMatchScreen() {
           <View className="mb-6 p-4 rounded-xl bg-card border border-border/30">
             <H3 className="mb-4">Match Scores</H3>
 
-            <SetScoreInput
-              setNumber={1}
-              value={set1Score}
-              onChange={setSet1Score}
-              onValidate={setIsSet1Valid}
-            />
-
-            <SetScoreInput
-              setNumber={2}
-              value={set2Score}
-              onChange={setSet2Score}
-              onValidate={setIsSet2Valid}
-            />
+            <View className="mb-6">
+              <MatchFormatSelector
+                value={matchFormat}
+                onChange={setMatchFormat}
+              />
+            </View>
 
-            {showSet3 && (
-              <SetScoreInput
-                setNumber={3}
-                value={set3Score}
-                onChange={setSet3Score}
-                onValidate={setIsSet3Valid}
+            <View className="mb-6">
+              <Text className="text-base font-semibold mb-3">
+                How did it end?
+              </Text>
+              <MatchEndingSelector
+                value={endReason}
+                onChange={handleEndReasonChange}
+                winnerTeam={endingWinnerTeam}
+                onWinnerChange={setEndingWinnerTeam}
               />
+            </View>
+
+            {getMatchEnding(endReason).score !== "none" && (
+              <>
+                <SetScoreInput
+                  key={`set-1-${matchFormat.id}`}
+                  setNumber={1}
+                  value={set1Score}
+                  onChange={setSet1Score}
+                  onValidate={setIsSet1Valid}
+                  rules={scoringRules}
+                />
+
+                {maxSets > 1 && (
+                  <SetScoreInput
+                    key={`set-2-${matchFormat.id}`}
+                    setNumber={2}
+                    value={set2Score}
+                    onChange={setSet2Score}
+                    onValidate={setIsSet2Valid}
+                    rules={scoringRules}
+                  />
+                )}
+
+                {showSet3 && maxSets > 2 && (
+                  <>
+                    <SuperTiebreakToggle
+                      value={superTiebreak}
+                      onChange={setSuperTiebreak}
+                    />
+                    <SetScoreInput
+                      key={`set-3-${matchFormat.id}-${superTiebreak}`}
+                      setNumber={3}
+                      value={set3Score}
+                      onChange={setSet3Score}
+                      onValidate={setIsSet3Valid}
+                      rules={scoringRules}
+                      superTiebreak={superTiebreak}
+                    />
+                  </>
+                )}
+              </>
             )}
           </View>
         )}
@@ -20,6 +20,13 @@ import { SafeAreaView } from "@/components/safe-area-view";
 import { useAuth } from "@/context/supabase-provider";
 import { supabase } from "@/config/supabase";
 import { NotificationHelpers } from "@/services/notificationHelpers";
+import { RatingHistoryChart } from "@/components/RatingHistoryChart";
+import { getTierDisplay, resolveRatingTier } from "@/lib/rating-tiers";
+import { formatChemistryDelta, getPairChemistry } from "@/lib/pair-rating";
+import { PairRating, PairRatingService } from "@/services/pair-rating.service";
+import { countsInRecord, getMatchEnding } from "@/lib/match-ending";
+import { formatRating } from "@/lib/glicko";
+import { ProvisionalRatingService } from "@/services/provisional-rating.service";
 
 interface FriendProfile {
   id: string;
@@ -33,6 +40,7 @@ interface FriendProfile {
   glicko_rating: string | null;
   glicko_rd: string | null;
   glicko_vol: string | null;
+  rating_tier: string | null;
   court_playing_side: string | null;
   avatar_url: string | null;
 }
@@ -55,6 +63,7 @@ interface MatchData {
   start_time: string;
   end_time: string | null;
   winner_team: number;
+  end_reason: string | null;
   player1: { id: string; full_name: string | null; email: string };
   player2: { id: string; full_name: string | null; email: string };
   player3: { id: string; full_name: string | null; email: string };
@@ -355,6 +364,8 @@ export default function FriendProfileScreen() {
     FriendshipStatus.LOADING,
   );
   const [sendingRequest, setSendingRequest] = useState(false);
+  const [pairRating, setPairRating] = useState<PairRating | null>(null);
+  const [isProvisional, setIsProvisional] = useState(false);
 
   const { session, profile: currentUserProfile } = useAuth();
 
@@ -372,9 +383,20 @@ export default function FriendProfileScreen() {
     if (profileId && session?.user?.id) {
       fetchMatchHistory(profileId as string, session.user.id);
       fetchFriendStatistics(profileId as string); // NEW: Fetch friend's overall stats
+      fetchPairRating(profileId as string, session.user.id);
     }
   }, [profileId, session]);
 
+  // Persisted rating of the user and this player as partners
+  const fetchPairRating = async (friendId: string, currentUserId: string) => {
+    try {
+      setPairRating(await PairRatingService.getPair(currentUserId, friendId));
+    } catch (error) {
+      console.error("Error fetching pair rating:", error);
+      setPairRating(null);
+    }
+  };
+
   // NEW: Fetch friend's overall statistics
   const fetchFriendStatistics = async (friendId: string) => {
     try {
@@ -436,15 +458,9 @@ export default function FriendProfileScreen() {
     const olderResults: boolean[] = [];
 
     // Filter completed matches and sort by date
+    // Walkovers and abandoned matches stay out of the record
     const completedMatches = matches
-      .filter((match) => {
-        return (
-          match.team1_score_set1 !== null &&
-          match.team1_score_set1 !== undefined &&
-          match.team2_score_set1 !== null &&
-          match.team2_score_set1 !== undefined
-        );
-      })
+      .filter((match) => countsInRecord(match))
       .sort((a, b) => {
         const dateA = new Date(
           a.completed_at || a.end_time || a.start_time,
@@ -828,6 +844,13 @@ export default function FriendProfileScreen() {
 
       if (error) throw error;
       setProfile(data);
+
+      // Placement players get their rating marked as provisional
+      ProvisionalRatingService.getPlacementStatus(data)
+        .then((status) => setIsProvisional(status.provisional))
+        .catch((placementError) =>
+          console.error("Error fetching placement status:", placementError),
+        );
     } catch (error) {
       console.error("Error fetching friend profile:", error);
     } finally {
@@ -895,7 +918,7 @@ export default function FriendProfileScreen() {
     let rivalSetsLost = 0;
     const recentForm: ("W" | "L")[] = [];
 
-    matches.forEach((match) => {
+    matches.filter(countsInRecord).forEach((match) => {
       const isUserInTeam1 =
         match.player1_id === currentUserId ||
         match.player2_id === currentUserId;
@@ -1014,6 +1037,7 @@ export default function FriendProfileScreen() {
       if (session?.user?.id) {
         fetchMatchHistory(profileId as string, session.user.id);
         fetchFriendStatistics(profileId as string);
+        fetchPairRating(profileId as string, session.user.id);
       }
     }
   };
@@ -1056,24 +1080,10 @@ export default function FriendProfileScreen() {
 
     const rating = getRatingFromProfile();
 
-    // Rating level classification system
-    const getRatingLevel = (rating: number | null) => {
-      if (!rating)
-        return { level: "Unrated", color: "#6b7280", bgColor: "#f3f4f6" };
-      if (rating >= 2100)
-        return { level: "Elite", color: "#7c2d12", bgColor: "#fbbf24" };
-      if (rating >= 1900)
-        return { level: "Expert", color: "#7c3aed", bgColor: "#c4b5fd" };
-      if (rating >= 1700)
-        return { level: "Advanced", color: "#059669", bgColor: "#6ee7b7" };
-      if (rating >= 1500)
-        return { level: "Intermediate", color: "#2563eb", bgColor: "#93c5fd" };
-      if (rating >= 1300)
-        return { level: "Beginner", color: "#dc2626", bgColor: "#fca5a5" };
-      return { level: "Novice", color: "#6b7280", bgColor: "#d1d5db" };
-    };
-
-    const ratingLevel = getRatingLevel(rating);
+    // Tier held by the player, with demotion hysteresis applied
+    const ratingLevel = getTierDisplay(
+      rating ? resolveRatingTier(rating, profile?.rating_tier) : null,
+    );
 
     // Trend calculation for visual indicator
     const getTrendIndicator = () => {
@@ -1142,7 +1152,7 @@ export default function FriendProfileScreen() {
                   className="text-2xl font-bold"
                   style={{ color: ratingLevel.color }}
                 >
-                  {rating || "-"}
+                  {rating ? formatRating(rating, isProvisional) : "-"}
                 </Text>
                 <Text
                   className="text-xs font-medium"
@@ -1742,6 +1752,65 @@ export default function FriendProfileScreen() {
             {partnershipRecord.setsLost}
           </Text>
         </View>
+
+        {renderPairChemistry()}
+      </View>
+    );
+  };
+
+  /**
+   * Pair rating and chemistry, the pair rating compared to the average of
+   * both individual ratings
+   */
+  const renderPairChemistry = () => {
+    if (!pairRating) return null;
+
+    const chemistry = getPairChemistry(
+      pairRating.rating,
+      [
+        parseFloat(currentUserProfile?.glicko_rating || "1500"),
+        parseFloat(profile?.glicko_rating || "1500"),
+      ],
+      pairRating.matches_played,
+    );
+
+    return (
+      <View className="pt-4 mt-4 border-t border-blue-200">
+        <View className="flex-row justify-between items-center">
+          <View>
+            <Text className="text-xs text-gray-600">Pair Rating</Text>
+            <Text className="text-xl font-bold text-primary">
+              {Math.round(pairRating.rating)}
+            </Text>
+          </View>
+
+          {chemistry ? (
+            <View className="items-end">
+              <Text className="text-xs text-gray-600">Chemistry</Text>
+              <View className="flex-row items-center">
+                <Ionicons
+                  name="flash"
+                  size={14}
+                  color={chemistry.color}
+                  style={{ marginRight: 4 }}
+                />
+                <Text
+                  className="text-xl font-bold"
+                  style={{ color: chemistry.color }}
+                >
+                  {formatChemistryDelta(chemistry.delta)}
+                </Text>
+              </View>
+              <Text className="text-xs" style={{ color: chemistry.color }}>
+                {chemistry.label}
+              </Text>
+            </View>
+          ) : (
+            <Text className="text-xs text-gray-500 text-right flex-1 ml-4">
+              Chemistry shows after a few more rated matches together
+            </Text>
+          )}
+        </View>
       </View>
     );
   };
@@ -1908,8 +1977,11 @@ export default function FriendProfileScreen() {
       (!isUserInTeam1 && match.winner_team === 2);
 
     // Calculate score to display
+    const ending = getMatchEnding(match.end_reason);
     let scoreDisplay = "";
-    if (isUserInTeam1) {
+    if (match.team1_score_set1 === null) {
+      scoreDisplay = ending.shortLabel;
+    } else if (isUserInTeam1) {
       scoreDisplay = `${match.team1_score_set1}-${match.team2_score_set1}`;
       if (match.team1_score_set2 !== null)
         scoreDisplay += `, ${match.team1_score_set2}-${match.team2_score_set2}`;
@@ -1922,6 +1994,9 @@ export default function FriendProfileScreen() {
       if (match.team1_score_set3 !== null)
         scoreDisplay += `, ${match.team2_score_set3}-${match.team1_score_set3}`;
     }
+    if (match.team1_score_set1 !== null && ending.shortLabel) {
+      scoreDisplay += ` ${ending.shortLabel}`;
+    }
 
     return (
       <TouchableOpacity
@@ -1968,15 +2043,27 @@ export default function FriendProfileScreen() {
           <View className="items-end">
             <View
               className={`px-2 py-1 rounded-full ${
-                userWon ? "bg-green-100" : "bg-red-100"
+                !ending.hasWinner
+                  ? "bg-gray-100"
+                  : userWon
+                    ? "bg-green-100"
+                    : "bg-red-100"
               }`}
             >
               <Text
                 className={`text-xs font-bold ${
-                  userWon ? "text-green-700" : "text-red-700"
+                  !ending.hasWinner
+                    ? "text-gray-600"
+                    : userWon
+                      ? "text-green-700"
+                      : "text-red-700"
                 }`}
               >
-                {userWon ? "WIN" : "LOSS"}
+                {!ending.hasWinner
+                  ? ending.label.toUpperCase()
+                  : userWon
+                    ? "WIN"
+                    : "LOSS"}
               </Text>
             </View>
             <Text className="text-xs mt-1 text-muted-foreground">
@@ -2064,6 +2151,22 @@ export default function FriendProfileScreen() {
           {/* NEW: Friend's Performance Overview */}
           {renderFriendPerformanceOverview()}
 
+          {/* Rating history, matches only open for friends */}
+          <View className="mb-6">
+            <RatingHistoryChart
+              playerId={profile.id}
+              onMatchPress={
+                friendshipStatus === FriendshipStatus.FRIENDS
+                  ? (matchId) =>
+                      router.push({
+                        pathname: "/(protected)/(screens)/match-details",
+                        params: { matchId },
+                      })
+                  : undefined
+              }
+            />
+          </View>
+
           {/* Friendship Status and Action Button */}
           {renderFriendshipButton()}
 
@@ -0,0 +1,243 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  ActivityIndicator,
+  Alert,
+  TextInput,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { router } from "expo-router";
+import { formatDistanceToNow } from "date-fns";
+
+import { SafeAreaView } from "@/components/safe-area-view";
+import { Text } from "@/components/ui/text";
+import { H1 } from "@/components/ui/typography";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/context/supabase-provider";
+import { useColorScheme } from "@/lib/useColorScheme";
+import { IntegrityFlagType, IntegritySeverity } from "@/lib/integrity";
+import {
+  IntegrityReviewItem,
+  IntegrityReviewStatus,
+  IntegrityService,
+} from "@/services/integrity.service";
+
+const FLAG_LABELS: Record<IntegrityFlagType, string> = {
+  repeated_lineup: "Repeated line-up",
+  lopsided_transfer: "Lopsided rating transfer",
+  sandbagging: "Possible sandbagging",
+};
+
+const SEVERITY_STYLES: Record<IntegritySeverity, string> = {
+  high: "bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300",
+  medium:
+    "bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300",
+  low: "bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300",
+};
+
+const STATUS_TABS: { id: IntegrityReviewStatus; label: string }[] = [
+  { id: "open", label: "Open" },
+  { id: "confirmed", label: "Confirmed" },
+  { id: "dismissed", label: "Dismissed" },
+];
+
+export default function IntegrityReview() {
+  const { profile } = useAuth();
+  const { isDarkColorScheme } = useColorScheme();
+  const [status, setStatus] = useState<IntegrityReviewStatus>("open");
+  const [items, setItems] = useState<IntegrityReviewItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [resolving, setResolving] = useState<string | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    try {
+      setItems(await IntegrityService.getReviewQueue(status));
+    } catch (error) {
+      console.error("Error loading review queue:", error);
+      Alert.alert("Error", "Failed to load the review queue");
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadQueue();
+  }, [loadQueue]);
+
+  const resolve = async (
+    item: IntegrityReviewItem,
+    resolution: Exclude<IntegrityReviewStatus, "open">,
+  ) => {
+    if (!profile?.id) return;
+
+    setResolving(item.id);
+    const result = await IntegrityService.resolveFlag(
+      item.id,
+      resolution,
+      profile.id,
+      notes[item.id],
+    );
+    setResolving(null);
+
+    if (!result.success) {
+      Alert.alert("Error", result.message);
+      return;
+    }
+
+    setItems((prev) => prev.filter((other) => other.id !== item.id));
+  };
+
+  const renderItem = (item: IntegrityReviewItem) => (
+    <View
+      key={item.id}
+      className="mb-4 p-4 rounded-xl bg-card border border-border/30"
+    >
+      <View className="flex-row items-center justify-between mb-2">
+        <Text className="font-semibold">{FLAG_LABELS[item.flag_type]}</Text>
+        <View
+          className={`px-2 py-1 rounded-full ${SEVERITY_STYLES[item.severity]}`}
+        >
+          <Text className="text-xs font-medium capitalize">
+            {item.severity}
+          </Text>
+        </View>
+      </View>
+
+      <Text className="text-sm mb-2">{item.summary}</Text>
+      <Text className="text-xs text-muted-foreground mb-3">
+        {item.player_ids.length} player(s) · {item.match_ids.length} match(es) ·
+        last seen{" "}
+        {formatDistanceToNow(new Date(item.last_seen_at), { addSuffix: true })}
+      </Text>
+
+      <View className="flex-row flex-wrap gap-2 mb-3">
+        {item.match_ids.map((matchId, index) => (
+          <TouchableOpacity
+            key={matchId}
+            className="px-2 py-1 rounded-lg border border-border"
+            onPress={() =>
+              router.push({
+                pathname: "/(protected)/(screens)/match-details",
+                params: { matchId },
+              })
+            }
+          >
+            <Text className="text-xs text-primary">Match {index + 1}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {item.status === "open" ? (
+        <>
+          <TextInput
+            className="border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 mb-3 text-sm text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-800"
+            placeholder="Review note (optional)"
+            placeholderTextColor="#9ca3af"
+            value={notes[item.id] ?? ""}
+            onChangeText={(text) =>
+              setNotes((prev) => ({ ...prev, [item.id]: text }))
+            }
+          />
+          <View className="flex-row gap-3">
+            <Button
+              variant="outline"
+              className="flex-1"
+              disabled={resolving === item.id}
+              onPress={() => resolve(item, "dismissed")}
+            >
+              <Text>Dismiss</Text>
+            </Button>
+            <Button
+              variant="destructive"
+              className="flex-1"
+              disabled={resolving === item.id}
+              onPress={() => resolve(item, "confirmed")}
+            >
+              <Text className="text-white">Confirm</Text>
+            </Button>
+          </View>
+        </>
+      ) : (
+        item.review_note && (
+          <Text className="text-xs text-muted-foreground">
+            Note: {item.review_note}
+          </Text>
+        )
+      )}
+    </View>
+  );
+
+  return (
+    <SafeAreaView>
+      <View className="flex-1">
+        <View className="flex-row items-center p-4 border-b border-gray-200 dark:border-gray-700">
+          <TouchableOpacity onPress={() => router.back()} className="mr-3">
+            <Ionicons
+              name="arrow-back"
+              size={24}
+              color={isDarkColorScheme ? "#fff" : "#000"}
+            />
+          </TouchableOpacity>
+          <H1>Integrity Review</H1>
+        </View>
+
+        <View className="flex-row gap-2 px-4 pt-4">
+          {STATUS_TABS.map((tab) => (
+            <TouchableOpacity
+              key={tab.id}
+              onPress={() => setStatus(tab.id)}
+              className={`px-3 py-2 rounded-full border ${status === tab.id ? "border-primary bg-primary/10" : "border-border"}`}
+            >
+              <Text
+                className={`text-sm ${status === tab.id ? "text-primary font-medium" : ""}`}
+              >
+                {tab.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {loading ? (
+          <View className="flex-1 items-center justify-center">
+            <ActivityIndicator size="large" />
+          </View>
+        ) : (
+          <ScrollView
+            className="flex-1 p-4"
+            refreshControl={
+              <RefreshControl
+                refreshing={refreshing}
+                onRefresh={() => {
+                  setRefreshing(true);
+                  loadQueue();
+                }}
+              />
+            }
+          >
+            {items.length === 0 ? (
+              <View className="items-center p-8 mt-12">
+                <Ionicons
+                  name="shield-checkmark-outline"
+                  size={64}
+                  color="#888"
+                />
+                <Text className="text-lg font-medium mt-4">
+                  Nothing to review
+                </Text>
+              </View>
+            ) : (
+              items.map(renderItem)
+            )}
+          </ScrollView>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
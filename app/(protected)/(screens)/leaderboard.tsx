@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import {
   View,
   ScrollView,
@@ -16,13 +16,25 @@ import { Button } from "@/components/ui/button";
 import { useAuth } from "@/context/supabase-provider";
 import { supabase } from "@/config/supabase";
 import { SafeAreaView } from "@/components/safe-area-view";
+import { RatingUncertaintyBadge } from "@/components/RatingUncertaintyBadge";
+import { ProvisionalRatingBadge } from "@/components/ProvisionalRatingBadge";
+import { RatingLadderSelector } from "@/components/RatingLadderSelector";
+import { RatingLadderId } from "@/constants/rating";
+import { formatRating, isProvisionalRating } from "@/lib/glicko";
+import { formatChemistryDelta } from "@/lib/pair-rating";
+import { LadderRatingService } from "@/services/ladder-rating.service";
+import { LeaderboardService } from "@/services/leaderboard.service";
+import { PairRanking, PairRatingService } from "@/services/pair-rating.service";
+import { ProvisionalRatingService } from "@/services/provisional-rating.service";
 
 interface UserRanking {
   id: string;
   full_name: string | null;
   email: string;
   glicko_rating: string;
+  glicko_rd: string | null;
   avatar_url: string | null;
+  is_provisional?: boolean;
 }
 
 interface LeaderboardAvatarProps {
@@ -230,21 +242,56 @@ export default function Leaderboard() {
   const [friendsPage, setFriendsPage] = useState(0);
   const [hasMoreGlobalUsers, setHasMoreGlobalUsers] = useState(true);
   const [hasMoreFriendUsers, setHasMoreFriendUsers] = useState(true);
-  const [viewType, setViewType] = useState<"global" | "friends">("global");
+  const [pairRankings, setPairRankings] = useState<PairRanking[]>([]);
+  const [pairsPage, setPairsPage] = useState(0);
+  const [hasMorePairs, setHasMorePairs] = useState(true);
+  const [viewType, setViewType] = useState<"global" | "friends" | "pairs">(
+    "global",
+  );
+  const [ladder, setLadder] = useState<RatingLadderId>("overall");
   const { session, profile } = useAuth();
   const USERS_PER_PAGE = 20;
 
-  useEffect(() => {
-    if (session?.user?.id) {
-      // Initial data loading
-      if (globalRankings.length === 0) {
-        fetchGlobalRankings(0);
-      }
-      if (friendsRankings.length === 0) {
-        fetchFriendsRankings(0);
-      }
+  // One page of a category ladder, placement is judged on that ladder
+  const fetchLadderPage = async (
+    pageIndex: number,
+    playerIds?: string[],
+  ): Promise<UserRanking[]> => {
+    const rankings = await LadderRatingService.getLadderRankings(
+      ladder as Exclude<RatingLadderId, "overall">,
+      pageIndex,
+      USERS_PER_PAGE,
+      playerIds,
+    );
+    return rankings.map((ranking) => ({
+      ...ranking,
+      is_provisional: isProvisionalRating(
+        ranking.glicko_rd,
+        ranking.rated_matches,
+      ),
+    }));
+  };
+
+  // Flag players still in their placement phase. When their matches can't
+  // be counted the rankings still load, flagged on RD alone.
+  const markProvisionalPlayers = async (
+    users: UserRanking[],
+  ): Promise<UserRanking[]> => {
+    try {
+      const provisionalIds =
+        await ProvisionalRatingService.getProvisionalPlayerIds(users);
+      return users.map((user) => ({
+        ...user,
+        is_provisional: provisionalIds.has(user.id),
+      }));
+    } catch (error) {
+      console.warn("Provisional ratings unavailable:", error);
+      return users.map((user) => ({
+        ...user,
+        is_provisional: isProvisionalRating(user.glicko_rd),
+      }));
     }
-  }, [session]);
+  };
 
   const fetchGlobalRankings = async (
     pageIndex: number,
@@ -256,24 +303,23 @@ export default function Leaderboard() {
         setRefreshing(true);
       }
 
-      const { data, error } = await supabase
-        .from("profiles")
-        .select("id, full_name, email, glicko_rating, avatar_url")
-        .order("glicko_rating", { ascending: false })
-        .range(
-          pageIndex * USERS_PER_PAGE,
-          (pageIndex + 1) * USERS_PER_PAGE - 1,
-        );
+      let rankings: UserRanking[];
 
-      if (error) throw error;
+      if (ladder !== "overall") {
+        rankings = await fetchLadderPage(pageIndex);
+      } else {
+        rankings = await markProvisionalPlayers(
+          await LeaderboardService.getRankings(pageIndex, USERS_PER_PAGE),
+        );
+      }
 
       if (pageIndex === 0 || shouldRefresh) {
-        setGlobalRankings(data || []);
+        setGlobalRankings(rankings);
       } else {
-        setGlobalRankings((prev) => [...prev, ...(data || [])]);
+        setGlobalRankings((prev) => [...prev, ...rankings]);
       }
 
-      setHasMoreGlobalUsers(data && data.length === USERS_PER_PAGE);
+      setHasMoreGlobalUsers(rankings.length === USERS_PER_PAGE);
       setGlobalPage(pageIndex);
     } catch (error) {
       console.error("Error fetching global rankings:", error);
@@ -299,15 +345,19 @@ export default function Leaderboard() {
         profile.friends_list.length === 0
       ) {
         // If no friends, just show the current user
-        if (session?.user?.id) {
+        if (session?.user?.id && ladder !== "overall") {
+          setFriendsRankings(await fetchLadderPage(0, [session.user.id]));
+        } else if (session?.user?.id) {
           const { data, error } = await supabase
             .from("profiles")
-            .select("id, full_name, email, glicko_rating, avatar_url")
+            .select(
+              "id, full_name, email, glicko_rating, glicko_rd, avatar_url",
+            )
             .eq("id", session.user.id)
             .single();
 
           if (error) throw error;
-          setFriendsRankings(data ? [data] : []);
+          setFriendsRankings(data ? await markProvisionalPlayers([data]) : []);
         } else {
           setFriendsRankings([]);
         }
@@ -319,25 +369,27 @@ export default function Leaderboard() {
       const userAndFriends = [...profile.friends_list];
       if (session?.user?.id) userAndFriends.push(session.user.id);
 
-      const { data, error } = await supabase
-        .from("profiles")
-        .select("id, full_name, email, glicko_rating, avatar_url")
-        .in("id", userAndFriends)
-        .order("glicko_rating", { ascending: false })
-        .range(
-          pageIndex * USERS_PER_PAGE,
-          (pageIndex + 1) * USERS_PER_PAGE - 1,
-        );
+      let rankings: UserRanking[];
 
-      if (error) throw error;
+      if (ladder !== "overall") {
+        rankings = await fetchLadderPage(pageIndex, userAndFriends);
+      } else {
+        rankings = await markProvisionalPlayers(
+          await LeaderboardService.getRankings(
+            pageIndex,
+            USERS_PER_PAGE,
+            userAndFriends,
+          ),
+        );
+      }
 
       if (pageIndex === 0 || shouldRefresh) {
-        setFriendsRankings(data || []);
+        setFriendsRankings(rankings);
       } else {
-        setFriendsRankings((prev) => [...prev, ...(data || [])]);
+        setFriendsRankings((prev) => [...prev, ...rankings]);
       }
 
-      setHasMoreFriendUsers(data && data.length === USERS_PER_PAGE);
+      setHasMoreFriendUsers(rankings.length === USERS_PER_PAGE);
       setFriendsPage(pageIndex);
     } catch (error) {
       console.error("Error fetching friends rankings:", error);
@@ -347,6 +399,65 @@ export default function Leaderboard() {
     }
   };
 
+  // Best partnerships, pairs with a few matches together only
+  const fetchPairRankings = async (
+    pageIndex: number,
+    shouldRefresh = false,
+  ) => {
+    try {
+      setLoading(true);
+      if (shouldRefresh) {
+        setRefreshing(true);
+      }
+
+      const rankings = await PairRatingService.getPairRankings(
+        pageIndex,
+        USERS_PER_PAGE,
+      );
+
+      if (pageIndex === 0 || shouldRefresh) {
+        setPairRankings(rankings);
+      } else {
+        setPairRankings((prev) => [...prev, ...rankings]);
+      }
+
+      setHasMorePairs(rankings.length === USERS_PER_PAGE);
+      setPairsPage(pageIndex);
+    } catch (error) {
+      console.error("Error fetching pair rankings:", error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  // Latest loaders, so the effects below only run when the user or the
+  // ladder changes
+  const loadersRef = useRef({
+    fetchGlobalRankings,
+    fetchFriendsRankings,
+    fetchPairRankings,
+  });
+  loadersRef.current = {
+    fetchGlobalRankings,
+    fetchFriendsRankings,
+    fetchPairRankings,
+  };
+  const userId = session?.user?.id;
+
+  // Load both player views on open and again when switching ladders
+  useEffect(() => {
+    if (!userId) return;
+    loadersRef.current.fetchGlobalRankings(0);
+    loadersRef.current.fetchFriendsRankings(0);
+  }, [userId, ladder]);
+
+  // Partnerships are the same on every ladder
+  useEffect(() => {
+    if (!userId) return;
+    loadersRef.current.fetchPairRankings(0);
+  }, [userId]);
+
   const loadMoreUsers = () => {
     if (loading) return;
 
@@ -354,14 +465,18 @@ export default function Leaderboard() {
       fetchGlobalRankings(globalPage + 1);
     } else if (viewType === "friends" && hasMoreFriendUsers) {
       fetchFriendsRankings(friendsPage + 1);
+    } else if (viewType === "pairs" && hasMorePairs) {
+      fetchPairRankings(pairsPage + 1);
     }
   };
 
   const onRefresh = () => {
     if (viewType === "global") {
       fetchGlobalRankings(0, true);
-    } else {
+    } else if (viewType === "friends") {
       fetchFriendsRankings(0, true);
+    } else {
+      fetchPairRankings(0, true);
     }
   };
 
@@ -483,15 +598,108 @@ export default function Leaderboard() {
               style={{ marginRight: 4 }}
             />
             <Text className="text-xl font-bold text-primary">
-              {parseInt(user.glicko_rating, 10).toString() || "1500"}
+              {formatRating(user.glicko_rating, user.is_provisional)}
             </Text>
           </View>
           <Text className="text-xs text-muted-foreground">Rating</Text>
+          <View className="mt-1">
+            {user.is_provisional ? (
+              <ProvisionalRatingBadge />
+            ) : (
+              <RatingUncertaintyBadge rd={user.glicko_rd} />
+            )}
+          </View>
         </View>
       </TouchableOpacity>
     );
   };
 
+  /**
+   * Partnership Ranking Card
+   * Both players side by side with the pair rating and its chemistry
+   */
+  const renderPairRankingCard = (pair: PairRanking, index: number) => {
+    const calculatedRank = pairsPage * USERS_PER_PAGE + index + 1;
+    const includesCurrentUser =
+      pair.player1.id === session?.user?.id ||
+      pair.player2.id === session?.user?.id;
+    const nameOf = (player: PairRanking["player1"]) =>
+      player.full_name || player.email.split("@")[0];
+
+    return (
+      <View
+        key={`${pair.player1_id}-${pair.player2_id}`}
+        className={`flex-row items-center p-4 mb-2 rounded-xl border ${
+          includesCurrentUser
+            ? "bg-primary/10 dark:bg-primary/20 border-primary/30"
+            : "bg-card border-border/30"
+        }`}
+        style={{
+          shadowColor: "#000",
+          shadowOffset: { width: 0, height: 1 },
+          shadowOpacity: 0.1,
+          shadowRadius: 2,
+          elevation: 2,
+        }}
+      >
+        <View className="mr-3 w-8 items-center">
+          <Text className="font-bold text-muted-foreground text-center text-base">
+            {calculatedRank}
+          </Text>
+        </View>
+
+        <View className="flex-row mr-1">
+          <LeaderboardAvatar
+            user={{ ...pair.player1, glicko_rating: "", glicko_rd: null }}
+            rank={calculatedRank}
+            isCurrentUser={pair.player1.id === session?.user?.id}
+            size="sm"
+          />
+          <View style={{ marginLeft: -24 }}>
+            <LeaderboardAvatar
+              user={{ ...pair.player2, glicko_rating: "", glicko_rd: null }}
+              rank={calculatedRank}
+              isCurrentUser={pair.player2.id === session?.user?.id}
+              size="sm"
+            />
+          </View>
+        </View>
+
+        <View className="flex-1">
+          <Text className="font-medium text-foreground" numberOfLines={1}>
+            {nameOf(pair.player1)} & {nameOf(pair.player2)}
+          </Text>
+          <Text className="text-sm text-muted-foreground">
+            {pair.wins}W - {pair.losses}L together
+          </Text>
+        </View>
+
+        <View className="items-end">
+          <Text className="text-xl font-bold text-primary">
+            {Math.round(pair.rating)}
+          </Text>
+          <Text className="text-xs text-muted-foreground">Pair Rating</Text>
+          {pair.chemistry && (
+            <View className="flex-row items-center mt-1">
+              <Ionicons
+                name="flash"
+                size={12}
+                color={pair.chemistry.color}
+                style={{ marginRight: 2 }}
+              />
+              <Text
+                className="text-xs font-medium"
+                style={{ color: pair.chemistry.color }}
+              >
+                {formatChemistryDelta(pair.chemistry.delta)}
+              </Text>
+            </View>
+          )}
+        </View>
+      </View>
+    );
+  };
+
   /**
    * Enhanced Empty State Renderer with Context-Aware Messaging
    * Provides appropriate guidance based on current view type
@@ -511,12 +719,18 @@ export default function Leaderboard() {
         <Ionicons name="podium-outline" size={48} color="#888" />
       </View>
       <Text className="text-lg font-medium mt-2 mb-2 text-foreground">
-        {viewType === "friends" ? "No friends found" : "No players found"}
+        {viewType === "friends"
+          ? "No friends found"
+          : viewType === "pairs"
+            ? "No partnerships yet"
+            : "No players found"}
       </Text>
       <Text className="text-muted-foreground text-center leading-5">
         {viewType === "friends"
           ? "Add friends to see their rankings and compete together!"
-          : "Be the first to climb the leaderboard by playing matches!"}
+          : viewType === "pairs"
+            ? "Play a few matches with the same partner to rank as a pair!"
+            : "Be the first to climb the leaderboard by playing matches!"}
       </Text>
 
       {viewType === "friends" && (
@@ -536,7 +750,13 @@ export default function Leaderboard() {
   const currentRankings =
     viewType === "global" ? globalRankings : friendsRankings;
   const hasMoreUsers =
-    viewType === "global" ? hasMoreGlobalUsers : hasMoreFriendUsers;
+    viewType === "global"
+      ? hasMoreGlobalUsers
+      : viewType === "friends"
+        ? hasMoreFriendUsers
+        : hasMorePairs;
+  const currentCount =
+    viewType === "pairs" ? pairRankings.length : currentRankings.length;
 
   return (
     <SafeAreaView className="flex-1 bg-background">
@@ -545,7 +765,12 @@ export default function Leaderboard() {
           <Ionicons name="arrow-back" size={24} color="#2148ce" />
         </TouchableOpacity>
         <H1 className="flex-1 text-center">Leaderboard</H1>
-        <View style={{ width: 40 }} />
+        <TouchableOpacity
+          onPress={() => router.push("/(protected)/(screens)/rating-simulator")}
+          className="p-2"
+        >
+          <Ionicons name="flask-outline" size={24} color="#2148ce" />
+        </TouchableOpacity>
       </View>
       {/* Enhanced Tab Navigation with Visual Feedback */}
       <View className="flex-row border-b border-border bg-background">
@@ -588,8 +813,35 @@ export default function Leaderboard() {
             </Text>
           </View>
         </TouchableOpacity>
+
+        <TouchableOpacity
+          className={`flex-1 py-3 ${viewType === "pairs" ? "border-b-2 border-primary" : ""}`}
+          onPress={() => setViewType("pairs")}
+          activeOpacity={0.7}
+        >
+          <View className="flex-row justify-center items-center">
+            <Ionicons
+              name="people-circle"
+              size={16}
+              color={viewType === "pairs" ? "#2148ce" : "#888"}
+              style={{ marginRight: 6 }}
+            />
+            <Text
+              className={`text-center font-medium ${viewType === "pairs" ? "text-primary" : "text-muted-foreground"}`}
+            >
+              Pairs
+            </Text>
+          </View>
+        </TouchableOpacity>
       </View>
 
+      {/* Rating ladder selector, pair ratings have a single ladder */}
+      {viewType !== "pairs" && (
+        <View className="px-4 py-2 border-b border-border">
+          <RatingLadderSelector value={ladder} onChange={setLadder} />
+        </View>
+      )}
+
       {/* Enhanced Content Area with Optimized Scrolling */}
       <ScrollView
         className="p-6"
@@ -606,7 +858,7 @@ export default function Leaderboard() {
         contentContainerStyle={{ paddingBottom: 20 }}
       >
         {/* Loading State Management */}
-        {loading && currentRankings.length === 0 ? (
+        {loading && currentCount === 0 ? (
           <View className="items-center justify-center py-12">
             <ActivityIndicator size="large" color="#2148ce" />
             <Text className="text-muted-foreground mt-4">
@@ -616,14 +868,18 @@ export default function Leaderboard() {
         ) : (
           <>
             {/* Rankings Display or Empty State */}
-            {currentRankings.length > 0
-              ? currentRankings.map((user, index) =>
-                  renderUserRankingCard(user, index),
-                )
-              : renderEmptyState()}
+            {currentCount === 0
+              ? renderEmptyState()
+              : viewType === "pairs"
+                ? pairRankings.map((pair, index) =>
+                    renderPairRankingCard(pair, index),
+                  )
+                : currentRankings.map((user, index) =>
+                    renderUserRankingCard(user, index),
+                  )}
 
             {/* Pagination Loading Indicator */}
-            {loading && currentRankings.length > 0 && (
+            {loading && currentCount > 0 && (
               <View className="py-4 items-center">
                 <ActivityIndicator size="small" color="#2148ce" />
                 <Text className="text-muted-foreground text-sm mt-2">
@@ -633,7 +889,7 @@ export default function Leaderboard() {
             )}
 
             {/* End of Results Indicator */}
-            {!hasMoreUsers && currentRankings.length > 0 && (
+            {!hasMoreUsers && currentCount > 0 && (
               <View className="py-4 items-center">
                 <Text className="text-muted-foreground text-sm">
                   You've reached the end of the rankings
@@ -0,0 +1,237 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  View,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { router, useLocalSearchParams } from "expo-router";
+
+import { Text } from "@/components/ui/text";
+import { H1 } from "@/components/ui/typography";
+import { SafeAreaView } from "@/components/safe-area-view";
+import PadelCourt from "@/components/match-details/padel-court";
+import LiveScoreboard from "@/components/match-details/live-scoreboard";
+import MatchEventLog from "@/components/match-details/match-event-log";
+import { useAuth } from "@/context/supabase-provider";
+import { supabase } from "@/config/supabase";
+import { useLiveMatch } from "@/hooks/useLiveMatch";
+import { getServer } from "@/lib/live-scoring";
+import { canSpectateMatch } from "@/lib/live-spectator";
+import {
+  StoredMatchFormat,
+  formatMatchFormat,
+  getMatchFormat,
+} from "@/lib/match-format";
+import { formatSetScore } from "@/lib/padel-scoring";
+
+interface SpectatorPlayer {
+  id: string;
+  full_name: string | null;
+  email: string;
+  glicko_rating: string | null;
+  avatar_url: string | null;
+}
+
+interface SpectatedMatch extends StoredMatchFormat {
+  id: string;
+  is_public: boolean | null;
+  player1_id: string | null;
+  player2_id: string | null;
+  player3_id: string | null;
+  player4_id: string | null;
+  region: string | null;
+  court: string | null;
+  player1: SpectatorPlayer | null;
+  player2: SpectatorPlayer | null;
+  player3: SpectatorPlayer | null;
+  player4: SpectatorPlayer | null;
+}
+
+const CONNECTION_LABELS = {
+  connecting: { label: "Connecting", color: "#9ca3af" },
+  live: { label: "Live", color: "#ef4444" },
+  reconnecting: { label: "Reconnecting", color: "#f59e0b" },
+};
+
+/**
+ * Read-only view of a match being scored live. The score follows the match
+ * event log over realtime.
+ */
+export default function LiveMatchScreen() {
+  const { matchId } = useLocalSearchParams<{ matchId: string }>();
+  const { session, profile } = useAuth();
+  const [match, setMatch] = useState<SpectatedMatch | null>(null);
+  const [loadingMatch, setLoadingMatch] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    if (!matchId) return;
+
+    supabase
+      .from("matches")
+      .select(
+        `
+        id, is_public, region, court, match_format, deuce_rule,
+        player1_id, player2_id, player3_id, player4_id,
+        player1:profiles!player1_id(id, full_name, email, glicko_rating, avatar_url),
+        player2:profiles!player2_id(id, full_name, email, glicko_rating, avatar_url),
+        player3:profiles!player3_id(id, full_name, email, glicko_rating, avatar_url),
+        player4:profiles!player4_id(id, full_name, email, glicko_rating, avatar_url)
+      `,
+      )
+      .eq("id", matchId)
+      .single()
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("Error fetching live match:", error);
+        }
+        setMatch(data as unknown as SpectatedMatch | null);
+        setLoadingMatch(false);
+      });
+  }, [matchId]);
+
+  const format = useMemo(
+    () => (match ? getMatchFormat(match) : undefined),
+    [match],
+  );
+  const { events, projection, connection, loading, error, refresh } =
+    useLiveMatch(matchId as string, format);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await refresh();
+    setRefreshing(false);
+  };
+
+  const renderBody = () => {
+    if (loadingMatch || loading) {
+      return (
+        <View className="items-center py-12">
+          <ActivityIndicator size="large" color="#2148ce" />
+        </View>
+      );
+    }
+
+    if (
+      !match ||
+      !canSpectateMatch(match, session?.user?.id, profile?.friends_list)
+    ) {
+      return (
+        <View className="items-center py-12">
+          <Ionicons name="lock-closed-outline" size={40} color="#9ca3af" />
+          <Text className="text-muted-foreground text-center mt-3">
+            Only friends of the players can follow this match
+          </Text>
+        </View>
+      );
+    }
+
+    if (!match.player1 || !match.player2 || !match.player3 || !match.player4) {
+      return (
+        <Text className="text-muted-foreground text-center py-12">
+          This match is still looking for players
+        </Text>
+      );
+    }
+
+    const players = {
+      1: match.player1,
+      2: match.player2,
+      3: match.player3,
+      4: match.player4,
+    };
+    const live = projection.live;
+
+    return (
+      <>
+        {live ? (
+          <LiveScoreboard state={live} players={players} />
+        ) : projection.sets.length > 0 ? (
+          // Entered or corrected by hand, there is no point score to show
+          <Text className="text-base font-semibold text-center mb-3">
+            {projection.sets
+              .map((set, index) =>
+                formatSetScore(
+                  set,
+                  projection.superTiebreak &&
+                    index === projection.sets.length - 1,
+                ),
+              )
+              .join(" ")}
+          </Text>
+        ) : (
+          <Text className="text-muted-foreground text-center mb-3">
+            Live scoring has not started yet
+          </Text>
+        )}
+
+        <PadelCourt
+          player1={players[1]}
+          player2={players[2]}
+          player3={players[3]}
+          player4={players[4]}
+          highlightTeam={projection.winnerTeam || undefined}
+          server={live && !live.winnerTeam ? getServer(live) : null}
+        />
+
+        <MatchEventLog events={events} />
+      </>
+    );
+  };
+
+  const status = CONNECTION_LABELS[connection];
+
+  return (
+    <SafeAreaView className="flex-1 bg-background">
+      <View className="flex-row items-center p-4 border-b border-border">
+        <TouchableOpacity onPress={() => router.back()} className="p-2">
+          <Ionicons name="arrow-back" size={24} color="#2148ce" />
+        </TouchableOpacity>
+        <H1 className="flex-1 text-center">Live Score</H1>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView
+        className="p-6"
+        contentContainerStyle={{ paddingBottom: 40 }}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+        }
+      >
+        <View className="flex-row items-center justify-between mb-4">
+          <Text className="text-xs text-muted-foreground">
+            {match
+              ? [
+                  format && formatMatchFormat(format),
+                  match.court || match.region,
+                ]
+                  .filter(Boolean)
+                  .join(" · ")
+              : ""}
+          </Text>
+          <View className="flex-row items-center">
+            <View
+              className="w-2 h-2 rounded-full mr-1"
+              style={{ backgroundColor: status.color }}
+            />
+            <Text
+              className="text-xs font-medium"
+              style={{ color: status.color }}
+            >
+              {status.label}
+            </Text>
+          </View>
+        </View>
+
+        {error && (
+          <Text className="text-xs text-red-500 text-center mb-3">{error}</Text>
+        )}
+
+        {renderBody()}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
@@ -12,14 +12,58 @@ import {
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { useLocalSearchParams, router } from "expo-router";
+import * as Linking from "expo-linking";
 import { format } from "date-fns";
 import { MatchConfirmationSectionV2 } from "@/components/MatchConfirmationSection";
+import { MatchPredictionCard } from "@/components/MatchPredictionCard";
+import RatingBreakdownCard from "@/components/match-details/rating-breakdown-card";
+import RatingWeightChangeCard from "@/components/match-details/rating-weight-change-card";
+import LiveScoringPanel from "@/components/match-details/live-scoring-panel";
+import MatchEventLog from "@/components/match-details/match-event-log";
+import PlayerStatsCard from "@/components/match-details/player-stats-card";
+import { RatingWeightBadge } from "@/components/RatingWeightBadge";
+import { ScorePasteInput } from "@/components/ScorePasteInput";
+import { SetScoreInput } from "@/components/create-match/SetScoreInput";
+import { SuperTiebreakToggle } from "@/components/create-match/TiebreakInput";
+import { MatchEndingSelector } from "@/components/MatchEndingSelector";
+import { MatchEndReason } from "@/constants/match-ending";
+import { getRatingWeight } from "@/lib/rating-weight";
 import { Text } from "@/components/ui/text";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/context/supabase-provider";
 import { supabase } from "@/config/supabase";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useMatchConfirmationV2 } from "@/hooks/useMatchConfirmation";
+import { StoredRatingChange } from "@/lib/rating-correction";
+import {
+  SetScore,
+  formatSetScore,
+  getMatchSets,
+  isSetPlayed,
+  validateMatchScore,
+} from "@/lib/padel-scoring";
+import {
+  formatMatchFormat,
+  getMatchFormat,
+  getMaxSets,
+  getScoringRules,
+} from "@/lib/match-format";
+import {
+  MatchEvent,
+  describeMatchEvent,
+  projectMatchEvents,
+} from "@/lib/match-events";
+import { getMatchShotStats } from "@/lib/shot-stats";
+import {
+  getMatchEndReason,
+  getMatchEnding,
+  hasMatchResult,
+  isRatedResult,
+  validateMatchEnding,
+} from "@/lib/match-ending";
+import { MatchEventService } from "@/services/match-event.service";
+import { ProvisionalRatingService } from "@/services/provisional-rating.service";
+import { formatRating } from "@/lib/glicko";
 
 // Simplified enums and interfaces
 export enum MatchStatus {
@@ -34,6 +78,8 @@ interface PlayerDetail {
   full_name: string | null;
   email: string;
   glicko_rating: string | null;
+  glicko_rd: string | null;
+  glicko_vol: string | null;
   avatar_url: string | null;
 }
 
@@ -54,20 +100,34 @@ interface MatchDetail {
   team2_score_set2: number | null;
   team1_score_set3: number | null;
   team2_score_set3: number | null;
+  team1_tiebreak_set1: number | null;
+  team2_tiebreak_set1: number | null;
+  team1_tiebreak_set2: number | null;
+  team2_tiebreak_set2: number | null;
+  team1_tiebreak_set3: number | null;
+  team2_tiebreak_set3: number | null;
+  super_tiebreak: boolean | null;
+  match_format: string | null;
+  deuce_rule: string | null;
   winner_team: number | null;
+  end_reason: string | null;
   is_public: boolean;
   description: string | null;
+  rating_weight: string | null;
   player1: PlayerDetail;
   player2: PlayerDetail | null;
   player3: PlayerDetail | null;
   player4: PlayerDetail | null;
 }
 
-interface ScoreSet {
-  team1: number;
-  team2: number;
+// Rating periods leave the per-match rows as previews, even once applied
+interface MatchRatingChange extends StoredRatingChange {
+  is_provisional: boolean;
+  rating_period_id: string | null;
 }
 
+type ScoreSet = SetScore;
+
 // Enhanced Avatar Component with Navigation
 interface AvatarProps {
   player: PlayerDetail | null;
@@ -278,12 +338,22 @@ export default function CleanMatchDetails() {
   const [refreshing, setRefreshing] = useState(false);
   const [saving, setSaving] = useState(false);
   const [editingScores, setEditingScores] = useState(mode === "score-entry");
+  const [liveScoring, setLiveScoring] = useState(false);
 
   // Score state
   const [set1Score, setSet1Score] = useState<ScoreSet>({ team1: 0, team2: 0 });
   const [set2Score, setSet2Score] = useState<ScoreSet>({ team1: 0, team2: 0 });
   const [set3Score, setSet3Score] = useState<ScoreSet>({ team1: 0, team2: 0 });
   const [showSet3, setShowSet3] = useState(false);
+  const [superTiebreak, setSuperTiebreak] = useState(false);
+  const [endReason, setEndReason] = useState<MatchEndReason>("completed");
+  const [endingWinnerTeam, setEndingWinnerTeam] = useState<0 | 1 | 2>(0);
+  const [ratingChanges, setRatingChanges] = useState<MatchRatingChange[]>([]);
+  const [matchEvents, setMatchEvents] = useState<MatchEvent[]>([]);
+  // Players whose rating is still provisional, shown with a "?"
+  const [provisionalIds, setProvisionalIds] = useState<Set<string>>(new Set());
+  // Moment in the match log a report points at
+  const [reportedEvent, setReportedEvent] = useState<MatchEvent | null>(null);
 
   const { session, profile } = useAuth();
 
@@ -321,9 +391,11 @@ export default function CleanMatchDetails() {
         isCreator: false,
         isFuture: false,
         hasScores: false,
+        endReason: "completed" as MatchEndReason,
         needsScores: false,
         canJoin: false,
         canEnterScores: false,
+        canScoreLive: false,
         userWon: null as boolean | null,
         team1Sets: 0,
         team2Sets: 0,
@@ -339,8 +411,9 @@ export default function CleanMatchDetails() {
     const isCreator = userId === match.player1_id;
     const isFuture = startTime > now;
     const isPast = endTime ? endTime < now : startTime < now;
-    const hasScores =
-      match.team1_score_set1 !== null && match.team2_score_set1 !== null;
+    // A walkover has a result without any set scores
+    const hasScores = hasMatchResult(match);
+    const endReason = getMatchEndReason(match.end_reason);
     const needsScores =
       isPast && !hasScores && match.status !== MatchStatus.CANCELLED;
 
@@ -357,6 +430,13 @@ export default function CleanMatchDetails() {
       !match.player2_id || !match.player3_id || !match.player4_id;
     const canJoin = isFuture && !userParticipating && hasOpenSlots;
     const canEnterScores = isCreator && needsScores;
+    // Live scoring starts once the match has begun and all four are in
+    const canScoreLive =
+      isCreator &&
+      !isFuture &&
+      !hasScores &&
+      !hasOpenSlots &&
+      match.status !== MatchStatus.CANCELLED;
 
     // Calculate sets
     let team1Sets = 0,
@@ -364,21 +444,22 @@ export default function CleanMatchDetails() {
       winnerTeam = 0;
 
     if (hasScores) {
-      // Non-null assertion is safe here because hasScores guarantees both values are present
-      if (match.team1_score_set1! > match.team2_score_set1!) team1Sets++;
-      else if (match.team2_score_set1! > match.team1_score_set1!) team2Sets++;
+      const sets = getMatchSets(match);
 
-      if (match.team1_score_set2 !== null && match.team2_score_set2 !== null) {
-        if (match.team1_score_set2! > match.team2_score_set2!) team1Sets++;
-        else if (match.team2_score_set2! > match.team1_score_set2!) team2Sets++;
-      }
-
-      if (match.team1_score_set3 !== null && match.team2_score_set3 !== null) {
-        if (match.team1_score_set3! > match.team2_score_set3!) team1Sets++;
-        else if (match.team2_score_set3! > match.team1_score_set3!) team2Sets++;
-      }
+      sets.forEach((set) => {
+        if (set.team1 > set.team2) team1Sets++;
+        else if (set.team2 > set.team1) team2Sets++;
+      });
 
-      winnerTeam = team1Sets > team2Sets ? 1 : team2Sets > team1Sets ? 2 : 0;
+      // Trust the stored winner, older matches may not be valid padel scores.
+      // A match that ended early only has the stored one.
+      winnerTeam =
+        match.winner_team ??
+        (endReason === "completed"
+          ? validateMatchScore(sets, getScoringRules(getMatchFormat(match)), {
+              superTiebreak: !!match.super_tiebreak,
+            }).winnerTeam
+          : 0);
     }
 
     const userWon: boolean | null =
@@ -390,9 +471,11 @@ export default function CleanMatchDetails() {
       isCreator,
       isFuture,
       hasScores,
+      endReason,
       needsScores,
       canJoin,
       canEnterScores,
+      canScoreLive,
       userWon,
       team1Sets,
       team2Sets,
@@ -400,6 +483,17 @@ export default function CleanMatchDetails() {
     };
   }, [match, session?.user?.id]);
 
+  // Someone is scoring the match point by point right now
+  const isLiveNow = useMemo(() => {
+    const { live, endReason } = projectMatchEvents(matchEvents);
+    return (
+      !!live &&
+      !live.winnerTeam &&
+      endReason === "completed" &&
+      !matchState.hasScores
+    );
+  }, [matchEvents, matchState.hasScores]);
+
   useEffect(() => {
     if (matchId) {
       fetchMatchDetails(matchId as string);
@@ -409,20 +503,13 @@ export default function CleanMatchDetails() {
   // Initialize scores when match data loads
   useEffect(() => {
     if (match && matchState.hasScores) {
-      setSet1Score({
-        team1: match.team1_score_set1 || 0,
-        team2: match.team2_score_set1 || 0,
-      });
-      setSet2Score({
-        team1: match.team1_score_set2 || 0,
-        team2: match.team2_score_set2 || 0,
-      });
+      const [set1, set2, set3] = getMatchSets(match);
+      setSet1Score(set1 ?? { team1: 0, team2: 0 });
+      setSet2Score(set2 ?? { team1: 0, team2: 0 });
+      setSuperTiebreak(!!match.super_tiebreak);
 
-      if (match.team1_score_set3 !== null && match.team2_score_set3 !== null) {
-        setSet3Score({
-          team1: match.team1_score_set3,
-          team2: match.team2_score_set3,
-        });
+      if (set3) {
+        setSet3Score(set3);
         setShowSet3(true);
       }
     }
@@ -454,10 +541,10 @@ export default function CleanMatchDetails() {
         .select(
           `
           *,
-          player1:profiles!player1_id(id, full_name, email, glicko_rating, avatar_url),
-          player2:profiles!player2_id(id, full_name, email, glicko_rating, avatar_url),
-          player3:profiles!player3_id(id, full_name, email, glicko_rating, avatar_url),
-          player4:profiles!player4_id(id, full_name, email, glicko_rating, avatar_url)
+          player1:profiles!player1_id(id, full_name, email, glicko_rating, glicko_rd, glicko_vol, avatar_url),
+          player2:profiles!player2_id(id, full_name, email, glicko_rating, glicko_rd, glicko_vol, avatar_url),
+          player3:profiles!player3_id(id, full_name, email, glicko_rating, glicko_rd, glicko_vol, avatar_url),
+          player4:profiles!player4_id(id, full_name, email, glicko_rating, glicko_rd, glicko_vol, avatar_url)
         `,
         )
         .eq("id", id)
@@ -465,6 +552,40 @@ export default function CleanMatchDetails() {
 
       if (error) throw error;
       setMatch(data);
+
+      // Rating changes behind the breakdown card
+      const { data: changes, error: changesError } = await supabase
+        .from("match_rating_changes")
+        .select(
+          "match_id, player_id, rating_before, rd_before, vol_before, rating_after, rd_after, vol_after, is_provisional, rating_period_id",
+        )
+        .eq("match_id", id)
+        .eq("is_reverted", false);
+
+      if (changesError) {
+        console.error("Error fetching rating changes:", changesError);
+      }
+      setRatingChanges(changes || []);
+
+      // Placement players get their rating marked as provisional
+      try {
+        setProvisionalIds(
+          await ProvisionalRatingService.getProvisionalPlayerIds(
+            [data.player1, data.player2, data.player3, data.player4].filter(
+              (player): player is PlayerDetail => !!player,
+            ),
+          ),
+        );
+      } catch (provisionalError) {
+        console.error("Error fetching provisional ratings:", provisionalError);
+      }
+
+      // Points, corrections and undos behind the score
+      try {
+        setMatchEvents(await MatchEventService.getEvents(id));
+      } catch (eventsError) {
+        console.error("Error fetching match events:", eventsError);
+      }
     } catch (error) {
       console.error("Error fetching match details:", error);
       Alert.alert("Error", "Failed to load match details");
@@ -525,35 +646,39 @@ export default function CleanMatchDetails() {
       return;
     }
 
-    // Calculate winner
-    let team1Sets = 0,
-      team2Sets = 0;
-
-    if (set1Score.team1 > set1Score.team2) team1Sets++;
-    else if (set1Score.team2 > set1Score.team1) team2Sets++;
-
-    if (set2Score.team1 > set2Score.team2) team1Sets++;
-    else if (set2Score.team2 > set2Score.team1) team2Sets++;
+    const matchFormat = getMatchFormat(match);
+    const enteredSets = (
+      showSet3 ? [set1Score, set2Score, set3Score] : [set1Score, set2Score]
+    ).slice(0, getMaxSets(matchFormat));
+    const scoreValidation = validateMatchEnding(
+      endReason,
+      enteredSets,
+      getScoringRules(matchFormat),
+      { superTiebreak, winnerTeam: endingWinnerTeam },
+    );
 
-    if (showSet3) {
-      if (set3Score.team1 > set3Score.team2) team1Sets++;
-      else if (set3Score.team2 > set3Score.team1) team2Sets++;
+    if (!scoreValidation.isValid) {
+      Alert.alert("Invalid Score", scoreValidation.errors.join("\n"));
+      return;
     }
 
-    const winnerTeam =
-      team1Sets > team2Sets ? 1 : team2Sets > team1Sets ? 2 : 0;
+    const winnerTeam = scoreValidation.winnerTeam;
 
     try {
       setSaving(true);
 
+      // The score goes through the event log so the entry stays on record
+      const correction = await MatchEventService.recordCorrection(
+        match.id,
+        enteredSets.filter(isSetPlayed),
+        superTiebreak,
+        session.user.id,
+        "Score entered",
+        { endReason, winnerTeam },
+      );
+      if (!correction.success) throw new Error(correction.message);
+
       const updateData = {
-        team1_score_set1: set1Score.team1,
-        team2_score_set1: set1Score.team2,
-        team1_score_set2: set2Score.team1,
-        team2_score_set2: set2Score.team2,
-        team1_score_set3: showSet3 ? set3Score.team1 : null,
-        team2_score_set3: showSet3 ? set3Score.team2 : null,
-        winner_team: winnerTeam,
         status: "4", // COMPLETED
         completed_at: new Date().toISOString(),
       };
@@ -570,7 +695,9 @@ export default function CleanMatchDetails() {
 
       Alert.alert(
         "Match Completed!",
-        `Scores saved successfully. ${winnerTeam === matchState.userTeam ? "Congratulations!" : "Better luck next time!"}`,
+        winnerTeam
+          ? `Scores saved successfully. ${winnerTeam === matchState.userTeam ? "Congratulations!" : "Better luck next time!"}`
+          : "Scores saved successfully.",
       );
     } catch (error) {
       console.error("Error saving scores:", error);
@@ -628,6 +755,17 @@ export default function CleanMatchDetails() {
         match.player4?.full_name || "Player 4",
       ];
 
+      // Anyone with the link can follow a public match while it is scored
+      if (isLiveNow && match.is_public) {
+        const link = Linking.createURL("/live-match", {
+          queryParams: { matchId: match.id },
+        });
+        await Share.share({
+          message: `🔴 Live Padel Match\n\nTeam 1: ${playerNames[0]} & ${playerNames[1]}\nTeam 2: ${playerNames[2]} & ${playerNames[3]}\n\nFollow the score: ${link}`,
+        });
+        return;
+      }
+
       const message = matchState.isFuture
         ? `🎾 Padel Match\n\n📅 ${format(new Date(match.start_time), "PPP 'at' p")}\n📍 ${match.region || "TBD"}\n\nTeam 1: ${playerNames[0]} & ${playerNames[1]}\nTeam 2: ${playerNames[2]} & ${playerNames[3]}`
         : `🏆 Padel Match Result\n\nFinal Score: ${matchState.team1Sets}-${matchState.team2Sets}\nWinner: Team ${matchState.winnerTeam}\n\nTeam 1: ${playerNames[0]} & ${playerNames[1]}\nTeam 2: ${playerNames[2]} & ${playerNames[3]}`;
@@ -646,67 +784,16 @@ export default function CleanMatchDetails() {
     return format(new Date(dateString), "h:mm a");
   };
 
-  const renderScoreInput = (
-    setNumber: number,
-    score: ScoreSet,
-    onChange: (score: ScoreSet) => void,
-  ) => {
-    return (
-      <View className="mb-4">
-        <Text className="text-sm font-medium mb-2">Set {setNumber}</Text>
-        <View className="flex-row items-center justify-center">
-          <View className="flex-row items-center bg-card dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
-            <TouchableOpacity
-              onPress={() =>
-                onChange({ ...score, team1: Math.max(0, score.team1 - 1) })
-              }
-              className="p-3"
-            >
-              <Ionicons name="remove" size={20} color="#666" />
-            </TouchableOpacity>
-
-            <Text className="text-xl font-bold w-12 text-center">
-              {score.team1}
-            </Text>
-
-            <TouchableOpacity
-              onPress={() =>
-                onChange({ ...score, team1: Math.min(7, score.team1 + 1) })
-              }
-              className="p-3"
-            >
-              <Ionicons name="add" size={20} color="#666" />
-            </TouchableOpacity>
-          </View>
-
-          <Text className="text-xl mx-4 text-gray-500">-</Text>
+  const formatPlayerRating = (player: PlayerDetail) =>
+    formatRating(player.glicko_rating, provisionalIds.has(player.id));
 
-          <View className="flex-row items-center bg-card dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
-            <TouchableOpacity
-              onPress={() =>
-                onChange({ ...score, team2: Math.max(0, score.team2 - 1) })
-              }
-              className="p-3"
-            >
-              <Ionicons name="remove" size={20} color="#666" />
-            </TouchableOpacity>
+  // Tiebreak points shown next to the games, e.g. 6⁵ in a 7-6 set
+  const renderTiebreakPoints = (setNumber: 1 | 2 | 3, team: 1 | 2) => {
+    if (!match) return null;
+    const points = match[`team${team}_tiebreak_set${setNumber}`];
+    if (points === null || points === undefined) return null;
 
-            <Text className="text-xl font-bold w-12 text-center">
-              {score.team2}
-            </Text>
-
-            <TouchableOpacity
-              onPress={() =>
-                onChange({ ...score, team2: Math.min(7, score.team2 + 1) })
-              }
-              className="p-3"
-            >
-              <Ionicons name="add" size={20} color="#666" />
-            </TouchableOpacity>
-          </View>
-        </View>
-      </View>
-    );
+    return <Text className="text-xs text-gray-500"> {points}</Text>;
   };
 
   const renderSetScore = (
@@ -798,6 +885,9 @@ export default function CleanMatchDetails() {
     );
   }
 
+  const scoringRules = getScoringRules(getMatchFormat(match));
+  const maxSets = getMaxSets(getMatchFormat(match));
+
   return (
     <View className="flex-1 bg-white">
       {/* Blue Header with Safe Area */}
@@ -869,32 +959,145 @@ export default function CleanMatchDetails() {
           </View>
         </View>
 
+        {/* Point-by-point scoring while the match is played */}
+        {liveScoring && matchState.canScoreLive && session?.user?.id && (
+          <LiveScoringPanel
+            match={{
+              ...match,
+              player2: match.player2!,
+              player3: match.player3!,
+              player4: match.player4!,
+            }}
+            userId={session.user.id}
+            onClose={() => {
+              setLiveScoring(false);
+              fetchMatchDetails(match.id);
+            }}
+            onFinished={() => {
+              setLiveScoring(false);
+              fetchMatchDetails(match.id);
+            }}
+          />
+        )}
+
+        {/* Quick score entry for a played match without a result */}
+        {editingScores && matchState.canEnterScores && !liveScoring && (
+          <View className="bg-white dark:bg-gray-800 rounded-xl p-4 mb-6 border border-gray-200 dark:border-gray-700">
+            <Text className="text-lg font-semibold mb-1">Enter Score</Text>
+            <View className="mb-3">
+              <MatchEndingSelector
+                value={endReason}
+                onChange={(reason) => {
+                  setEndReason(reason);
+                  setEndingWinnerTeam(0);
+                }}
+                winnerTeam={endingWinnerTeam}
+                onWinnerChange={setEndingWinnerTeam}
+              />
+            </View>
+            <ScorePasteInput
+              rules={scoringRules}
+              allowWalkover
+              onApply={(parsed) => {
+                const [set1, set2, set3] = parsed.sets;
+                setEndReason(parsed.walkover ? "walkover" : "completed");
+                setEndingWinnerTeam(0);
+                setSet1Score(set1 ?? { team1: 0, team2: 0 });
+                setSet2Score(set2 ?? { team1: 0, team2: 0 });
+                setSet3Score(set3 ?? { team1: 0, team2: 0 });
+                setShowSet3(!!set3);
+                setSuperTiebreak(parsed.superTiebreak);
+              }}
+            />
+            {getMatchEnding(endReason).score !== "none" && (
+              <View className="mt-4">
+                <SetScoreInput
+                  setNumber={1}
+                  value={set1Score}
+                  onChange={setSet1Score}
+                  rules={scoringRules}
+                />
+                {maxSets > 1 && (
+                  <SetScoreInput
+                    setNumber={2}
+                    value={set2Score}
+                    onChange={setSet2Score}
+                    rules={scoringRules}
+                  />
+                )}
+                {showSet3 && maxSets > 2 && (
+                  <>
+                    <SuperTiebreakToggle
+                      value={superTiebreak}
+                      onChange={setSuperTiebreak}
+                    />
+                    <SetScoreInput
+                      key={`set-3-${superTiebreak}`}
+                      setNumber={3}
+                      value={set3Score}
+                      onChange={setSet3Score}
+                      rules={scoringRules}
+                      superTiebreak={superTiebreak}
+                    />
+                  </>
+                )}
+              </View>
+            )}
+            {(endReason !== "completed" ||
+              set1Score.team1 + set1Score.team2 > 0) && (
+              <>
+                <Text className="text-base font-medium text-center my-3">
+                  {(showSet3
+                    ? [set1Score, set2Score, set3Score]
+                    : [set1Score, set2Score]
+                  )
+                    .slice(0, maxSets)
+                    .map((set, index) =>
+                      formatSetScore(set, superTiebreak && index === 2),
+                    )
+                    .join(" ")}{" "}
+                  {getMatchEnding(endReason).shortLabel}
+                </Text>
+                <Button onPress={saveScores} disabled={saving}>
+                  {saving ? (
+                    <ActivityIndicator size="small" color="#fff" />
+                  ) : (
+                    <Text className="text-white font-medium">Save Score</Text>
+                  )}
+                </Button>
+              </>
+            )}
+          </View>
+        )}
+
         {/* Match Breakdown Section */}
         {matchState.hasScores && (
           <View className="bg-white dark:bg-gray-800 rounded-xl p-4 mb-6 border border-gray-200 dark:border-gray-700">
-                    {/* Header with label and status */}
-        <View className="flex-row items-center justify-between mb-3">
-          <Text className="text-base text-gray-900">
-            Match Breakdown
-          </Text>
-              <View className={`px-3 py-1 rounded-full ${
-                match.all_confirmed
-                  ? "bg-green-100"
-                  : "bg-orange-100"
-              }`}>
-                <Text className={`text-sm font-medium ${
-                  match.all_confirmed
-                    ? "text-green-700"
-                    : "text-orange-700"
-                }`}>
+            {/* Header with label and status */}
+            <View className="flex-row items-center justify-between mb-3">
+              <Text className="text-base text-gray-900">
+                Match Breakdown
+                {matchState.endReason !== "completed" &&
+                  ` · ${getMatchEnding(matchState.endReason).label}`}
+              </Text>
+              <View
+                className={`px-3 py-1 rounded-full ${
+                  match.all_confirmed ? "bg-green-100" : "bg-orange-100"
+                }`}
+              >
+                <Text
+                  className={`text-sm font-medium ${
+                    match.all_confirmed ? "text-green-700" : "text-orange-700"
+                  }`}
+                >
                   {match.all_confirmed ? "Confirmed" : "Not Confirmed"}
                 </Text>
               </View>
             </View>
-            
+
             {/* Separator Line */}
             <View className="h-px bg-gray-200 mb-4" />
-            
+
             {/* Score Layout - Match Card Style */}
             <View>
               {/* Team 1 - Names with scores vertically centered */}
@@ -942,6 +1145,7 @@ export default function CleanMatchDetails() {
                         : "text-gray-400"
                     }`}>
                       {match.team1_score_set1 ?? "-"}
+                      {renderTiebreakPoints(1, 1)}
                     </Text>
                   </View>
                   <View className="w-12 items-center">
@@ -953,6 +1157,7 @@ export default function CleanMatchDetails() {
                         : "text-gray-400"
                     }`}>
                       {match.team1_score_set2 ?? "-"}
+                      {renderTiebreakPoints(2, 1)}
                     </Text>
                   </View>
                   <View className="w-12 items-center">
@@ -964,6 +1169,7 @@ export default function CleanMatchDetails() {
                         : "text-gray-400"
                     }`}>
                       {match.team1_score_set3 ?? "-"}
+                      {renderTiebreakPoints(3, 1)}
                     </Text>
                   </View>
                 </View>
@@ -1033,6 +1239,7 @@ export default function CleanMatchDetails() {
                           : "text-gray-400"
                       }`}>
                         {match.team2_score_set1 ?? "-"}
+                        {renderTiebreakPoints(1, 2)}
                       </Text>
                     </View>
                     <View className="w-12 items-center">
@@ -1044,6 +1251,7 @@ export default function CleanMatchDetails() {
                           : "text-gray-400"
                       }`}>
                         {match.team2_score_set2 ?? "-"}
+                        {renderTiebreakPoints(2, 2)}
                       </Text>
                     </View>
                     <View className="w-12 items-center">
@@ -1055,6 +1263,7 @@ export default function CleanMatchDetails() {
                           : "text-gray-400"
                       }`}>
                         {match.team2_score_set3 ?? "-"}
+                        {renderTiebreakPoints(3, 2)}
                       </Text>
                     </View>
                   </View>
@@ -1114,7 +1323,7 @@ export default function CleanMatchDetails() {
                   </Text>
                   {match.player1?.glicko_rating && (
                     <Text className="text-xs text-gray-500 text-center">
-                      {Math.round(parseFloat(match.player1.glicko_rating))}
+                      {formatPlayerRating(match.player1)}
                     </Text>
                   )}
                 </TouchableOpacity>
@@ -1150,7 +1359,7 @@ export default function CleanMatchDetails() {
                     </Text>
                     {match.player2?.glicko_rating && (
                       <Text className="text-xs text-gray-500 text-center">
-                        {Math.round(parseFloat(match.player2.glicko_rating))}
+                        {formatPlayerRating(match.player2)}
                       </Text>
                     )}
                   </TouchableOpacity>
@@ -1204,7 +1413,7 @@ export default function CleanMatchDetails() {
                     </Text>
                     {match.player3?.glicko_rating && (
                       <Text className="text-xs text-gray-500 text-center">
-                        {Math.round(parseFloat(match.player3.glicko_rating))}
+                        {formatPlayerRating(match.player3)}
                       </Text>
                     )}
                   </TouchableOpacity>
@@ -1249,7 +1458,7 @@ export default function CleanMatchDetails() {
                     </Text>
                     {match.player4?.glicko_rating && (
                       <Text className="text-xs text-gray-500 text-center">
-                        {Math.round(parseFloat(match.player4.glicko_rating))}
+                        {formatPlayerRating(match.player4)}
                       </Text>
                     )}
                   </TouchableOpacity>
@@ -1281,39 +1490,208 @@ export default function CleanMatchDetails() {
           </View>
         )}
 
-        {match.team1_score_set1 !== null && (
-          <MatchConfirmationSectionV2
+        {/* Pre-match prediction for scheduled matches */}
+        {matchState.isFuture && !matchState.hasScores && (
+          <MatchPredictionCard
+            team1={[match.player1, match.player2]}
+            team2={[match.player3, match.player4]}
+            highlightPlayerId={session?.user?.id}
+            ratingWeight={getRatingWeight(match.rating_weight)}
+          />
+        )}
+
+        {matchState.hasScores &&
+          getMatchEnding(matchState.endReason).needsConfirmation && (
+            <MatchConfirmationSectionV2
+              matchId={match.id}
+              players={[
+                {
+                  id: match.player1_id!,
+                  full_name: match.player1?.full_name ?? null,
+                  email: match.player1?.email ?? "",
+                },
+                {
+                  id: match.player2_id!,
+                  full_name: match.player2?.full_name ?? null,
+                  email: match.player2?.email ?? "",
+                },
+                {
+                  id: match.player3_id!,
+                  full_name: match.player3?.full_name ?? null,
+                  email: match.player3?.email ?? "",
+                },
+                {
+                  id: match.player4_id!,
+                  full_name: match.player4?.full_name ?? null,
+                  email: match.player4?.email ?? "",
+                },
+              ].filter((p) => p.id)}
+              reportedEvent={
+                reportedEvent
+                  ? {
+                      sequence: reportedEvent.sequence,
+                      label: describeMatchEvent(reportedEvent),
+                    }
+                  : null
+              }
+              onUpdate={() => {
+                // Refresh match details after confirmation changes
+                fetchMatchDetails(matchId as string);
+              }}
+            />
+          )}
+
+        {/* Winners and errors per player, when points were tagged */}
+        {(() => {
+          const shotStats = getMatchShotStats(matchEvents);
+          const players = [
+            match.player1,
+            match.player2,
+            match.player3,
+            match.player4,
+          ];
+          if (!Object.values(shotStats).some((stats) => stats.tagged > 0)) {
+            return null;
+          }
+
+          return (
+            <View className="mb-6">
+              <Text className="text-base font-semibold text-gray-900 dark:text-gray-100 mb-3">
+                Player Stats
+              </Text>
+              {([1, 2, 3, 4] as const).map((slot) => {
+                const player = players[slot - 1];
+                if (!player) return null;
+
+                return (
+                  <PlayerStatsCard
+                    key={slot}
+                    player={player}
+                    position={slot <= 2 ? "Team 1" : "Team 2"}
+                    teamColor={slot <= 2 ? "#2148ce" : "#ef4444"}
+                    shotStats={shotStats[slot]}
+                  />
+                );
+              })}
+            </View>
+          );
+        })()}
+
+        {/* How the score came about */}
+        {!liveScoring && (
+          <MatchEventLog
+            events={matchEvents}
+            selectedSequence={reportedEvent?.sequence}
+            onSelectEvent={matchState.hasScores ? setReportedEvent : undefined}
+          />
+        )}
+
+        {/* Matches that ended early and what that meant for ratings */}
+        {matchState.hasScores && matchState.endReason !== "completed" && (
+          <View className="flex-row items-center justify-between mb-4">
+            <Text className="text-sm text-gray-600 dark:text-gray-300">
+              Ended
+            </Text>
+            <Text className="text-sm font-medium text-gray-900 dark:text-gray-100">
+              {getMatchEnding(matchState.endReason).label}
+              {match && !isRatedResult(match) && " · Not rated"}
+            </Text>
+          </View>
+        )}
+
+        {/* Whether the match counted towards ratings */}
+        {matchState.hasScores && (
+          <View className="flex-row items-center justify-between mb-4">
+            <Text className="text-sm text-gray-600 dark:text-gray-300">
+              Rating weight
+            </Text>
+            <RatingWeightBadge
+              weight={match.rating_weight}
+              ratingChange={(() => {
+                const change = ratingChanges.find(
+                  (row) => row.player_id === session?.user?.id,
+                );
+                return change && !change.is_provisional
+                  ? change.rating_after - change.rating_before
+                  : null;
+              })()}
+            />
+          </View>
+        )}
+
+        {/* Rating weight change waiting for the players to approve */}
+        {matchState.hasScores && (
+          <RatingWeightChangeCard
             matchId={match.id}
+            playerIds={[
+              match.player1_id,
+              match.player2_id,
+              match.player3_id,
+              match.player4_id,
+            ].filter((id): id is string => !!id)}
+            currentUserId={session?.user?.id}
+            onApplied={() => fetchMatchDetails(match.id)}
+          />
+        )}
+
+        {/* Format the match was played with */}
+        <View className="flex-row items-center justify-between mb-4">
+          <Text className="text-sm text-gray-600 dark:text-gray-300">
+            Format
+          </Text>
+          <Text className="text-sm font-medium text-gray-900 dark:text-gray-100">
+            {formatMatchFormat(getMatchFormat(match))}
+          </Text>
+        </View>
+
+        {/* Why each player's rating moved */}
+        {matchState.hasScores && ratingChanges.length > 0 && (
+          <RatingBreakdownCard
+            match={match}
             players={[
-              {
-                id: match.player1_id!,
-                full_name: match.player1?.full_name ?? null,
-                email: match.player1?.email ?? "",
-              },
-              {
-                id: match.player2_id!,
-                full_name: match.player2?.full_name ?? null,
-                email: match.player2?.email ?? "",
-              },
-              {
-                id: match.player3_id!,
-                full_name: match.player3?.full_name ?? null,
-                email: match.player3?.email ?? "",
-              },
-              {
-                id: match.player4_id!,
-                full_name: match.player4?.full_name ?? null,
-                email: match.player4?.email ?? "",
-              },
-            ].filter((p) => p.id)}
-            onUpdate={() => {
-              // Refresh match details after confirmation changes
-              fetchMatchDetails(matchId as string);
-            }}
+              match.player1,
+              match.player2,
+              match.player3,
+              match.player4,
+            ].filter((player): player is PlayerDetail => !!player)}
+            changes={ratingChanges}
+            initialPlayerId={session?.user?.id}
+            preview={
+              ratingChanges.some((row) => row.is_provisional)
+                ? ratingChanges.some((row) => row.rating_period_id)
+                  ? "period-closed"
+                  : "period-open"
+                : undefined
+            }
           />
         )}
         {/* Action Buttons */}
         <View className="gap-3">
+          {matchState.canScoreLive && !liveScoring && (
+            <Button
+              onPress={() => setLiveScoring(true)}
+              variant="outline"
+              className="w-full"
+            >
+              <Text className="font-medium">Score Live</Text>
+            </Button>
+          )}
+
+          {isLiveNow && !liveScoring && (
+            <Button
+              onPress={() =>
+                router.push({
+                  pathname: "/(protected)/(screens)/live-match",
+                  params: { matchId: match.id },
+                })
+              }
+              variant="outline"
+              className="w-full"
+            >
+              <Text className="font-medium">Watch Live</Text>
+            </Button>
+          )}
+
           {matchState.canJoin && (
             <Button onPress={joinMatch} disabled={saving} className="w-full">
               {saving ? (
@@ -16,6 +16,8 @@ import { Button } from "@/components/ui/button";
 import { useAuth } from "@/context/supabase-provider";
 import { supabase } from "@/config/supabase";
 import { SafeAreaView } from "@/components/safe-area-view";
+import { RatingWeightBadge } from "@/components/RatingWeightBadge";
+import { getMatchEnding, hasMatchResult } from "@/lib/match-ending";
 
 // Simplified match status
 export enum MatchStatus {
@@ -42,10 +44,12 @@ interface MatchData {
   start_time: string;
   end_time: string | null;
   winner_team: number | null;
+  end_reason: string | null;
   region: string | null;
   court: string | null;
   is_public: boolean;
   description: string | null;
+  rating_weight: string | null;
   player1: {
     id: string;
     full_name: string | null;
@@ -79,6 +83,7 @@ interface MatchData {
   userWon?: boolean;
   setScores?: string;
   opponents?: any[];
+  ratingChange?: number | null;
 }
 
 type FilterType = "all" | "upcoming" | "completed" | "attention";
@@ -209,6 +214,19 @@ export default function CleanMatchHistory() {
 
       if (error) throw error;
 
+      // The user's own rating change per match, shown next to the weight.
+      // Matches rated in a rating period only have previews, so none is shown.
+      const { data: ratingChanges } = await supabase
+        .from("match_rating_changes")
+        .select("match_id, rating_before, rating_after")
+        .eq("player_id", session?.user?.id)
+        .eq("is_reverted", false)
+        .eq("is_provisional", false)
+        .in(
+          "match_id",
+          (data || []).map((match) => match.id),
+        );
+
       const processedData: MatchData[] = (data || []).map((match) => {
         const userId = session?.user?.id;
         const startTime = new Date(match.start_time);
@@ -219,8 +237,8 @@ export default function CleanMatchHistory() {
           match.player1_id === userId || match.player2_id === userId;
         const isFuture = startTime > now;
         const isPast = endTime ? endTime < now : startTime < now;
-        const hasScores =
-          match.team1_score_set1 !== null && match.team2_score_set1 !== null;
+        const hasScores = hasMatchResult(match);
+        const ending = getMatchEnding(match.end_reason);
         const isCompleted = hasScores && isPast;
         const needsScores =
           isPast && !hasScores && match.status !== MatchStatus.CANCELLED;
@@ -264,7 +282,7 @@ export default function CleanMatchHistory() {
             userWon =
               (isTeam1 && match.winner_team === 1) ||
               (!isTeam1 && match.winner_team === 2);
-          } else {
+          } else if (ending.hasWinner) {
             userWon =
               (isTeam1 && team1Sets > team2Sets) ||
               (!isTeam1 && team2Sets > team1Sets);
@@ -303,6 +321,11 @@ export default function CleanMatchHistory() {
               setScores += `, ${userSet3}-${oppSet3}`;
             }
           }
+
+          // A match that ended early is marked after its score, or instead of
+          // it when no sets were played
+          if (match.team1_score_set1 === null) setScores = ending.shortLabel;
+          else if (ending.shortLabel) setScores += ` ${ending.shortLabel}`;
         }
 
         return {
@@ -314,6 +337,12 @@ export default function CleanMatchHistory() {
           userWon,
           setScores,
           opponents,
+          ratingChange: (() => {
+            const change = ratingChanges?.find(
+              (row) => row.match_id === match.id,
+            );
+            return change ? change.rating_after - change.rating_before : null;
+          })(),
         };
       });
 
@@ -387,6 +416,7 @@ export default function CleanMatchHistory() {
       hour: "numeric",
       minute: "2-digit",
     });
+    const hasWinner = getMatchEnding(match.end_reason).hasWinner;
 
     return (
       <TouchableOpacity
@@ -417,9 +447,11 @@ export default function CleanMatchHistory() {
                 match.isFuture
                   ? "bg-blue-500"
                   : match.isCompleted
-                    ? match.userWon
-                      ? "bg-green-500"
-                      : "bg-red-500"
+                    ? !hasWinner
+                      ? "bg-gray-400"
+                      : match.userWon
+                        ? "bg-green-500"
+                        : "bg-red-500"
                     : "bg-orange-500"
               }`}
             />
@@ -483,13 +515,19 @@ export default function CleanMatchHistory() {
           <View className="items-center px-4">
             {match.setScores ? (
               <View className="items-center">
-                <Text
-                  className={`text-lg font-bold ${
-                    match.userWon ? "text-green-600" : "text-red-600"
-                  }`}
-                >
-                  {match.userWon ? "W" : "L"}
-                </Text>
+                {hasWinner ? (
+                  <Text
+                    className={`text-lg font-bold ${
+                      match.userWon ? "text-green-600" : "text-red-600"
+                    }`}
+                  >
+                    {match.userWon ? "W" : "L"}
+                  </Text>
+                ) : (
+                  <Text className="text-sm font-bold text-gray-500">
+                    Abandoned
+                  </Text>
+                )}
                 <Text className="text-xs text-gray-500 dark:text-gray-400">
                   {match.setScores}
                 </Text>
@@ -530,6 +568,16 @@ export default function CleanMatchHistory() {
           </View>
         </View>
 
+        {/* Rating weight */}
+        {match.isCompleted && (
+          <View className="flex-row mt-3">
+            <RatingWeightBadge
+              weight={match.rating_weight}
+              ratingChange={match.ratingChange}
+            />
+          </View>
+        )}
+
         {/* Status */}
         {(match.needsScores || match.isFuture) && (
           <View
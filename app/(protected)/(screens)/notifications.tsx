@@ -40,6 +40,7 @@ const NotificationIcon = ({ type }: { type: string }) => {
     match_starting_soon: { name: "time", color: "#3b82f6" },
     match_cancelled: { name: "close-circle", color: "#ef4444" },
     public_match_joined: { name: "people", color: "#8b5cf6" },
+    rating_tier_changed: { name: "trophy", color: "#f59e0b" },
   };
 
   const icon = iconMap[type] || { name: "notifications", color: "#6b7280" };
@@ -160,6 +161,10 @@ export default function NotificationsScreen() {
           });
         }
         break;
+
+      case "rating_tier_changed":
+        router.push("/(protected)/(tabs)/profile");
+        break;
     }
   };
 
@@ -0,0 +1,495 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Modal,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { router } from "expo-router";
+
+import { Text } from "@/components/ui/text";
+import { H1 } from "@/components/ui/typography";
+import { Button } from "@/components/ui/button";
+import { SafeAreaView } from "@/components/safe-area-view";
+import { useAuth } from "@/context/supabase-provider";
+import { supabase } from "@/config/supabase";
+import { MatchRatingWeight, RATING_WEIGHTS } from "@/constants/rating";
+import { GlickoRating } from "@/lib/glicko";
+import { parseStoredRating } from "@/lib/rating-engine";
+import {
+  SimulatedMatch,
+  SimulationResult,
+  isSimulatedMatchReady,
+  simulateMatches,
+} from "@/lib/rating-simulator";
+import { getTierDisplay } from "@/lib/rating-tiers";
+import { LeaderboardService } from "@/services/leaderboard.service";
+
+interface SimulatorPlayer {
+  id: string;
+  full_name: string | null;
+  email: string;
+  glicko_rating: string | null;
+  glicko_rd: string | null;
+  glicko_vol: string | null;
+  rating_tier?: string | null;
+}
+
+interface DraftMatch {
+  // Team 1 is slots 0 and 1, team 2 is slots 2 and 3
+  slots: (string | null)[];
+  sets: { team1: string; team2: string }[];
+  weight: MatchRatingWeight;
+}
+
+interface SimulationOutcome {
+  result: SimulationResult;
+  positionsBefore: Map<string, number>;
+  positionsAfter: Map<string, number>;
+}
+
+const PLAYER_COLUMNS =
+  "id, full_name, email, glicko_rating, glicko_rd, glicko_vol, rating_tier";
+
+const emptyMatch = (slots: (string | null)[] = [null, null, null, null]) => ({
+  slots,
+  sets: [
+    { team1: "", team2: "" },
+    { team1: "", team2: "" },
+    { team1: "", team2: "" },
+  ],
+  weight: "standard" as MatchRatingWeight,
+});
+
+const formatDelta = (value: number) =>
+  `${value >= 0 ? "+" : "−"}${Math.abs(Math.round(value))}`;
+
+export default function RatingSimulator() {
+  const { profile } = useAuth();
+  const [players, setPlayers] = useState<Record<string, SimulatorPlayer>>({});
+  const [matches, setMatches] = useState<DraftMatch[]>([emptyMatch()]);
+  const [picker, setPicker] = useState<{ match: number; slot: number } | null>(
+    null,
+  );
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<SimulatorPlayer[]>([]);
+  const [searchLoading, setSearchLoading] = useState(false);
+  const [outcome, setOutcome] = useState<SimulationOutcome | null>(null);
+  const [simulating, setSimulating] = useState(false);
+
+  // Start with the signed-in player in the first slot
+  useEffect(() => {
+    if (!profile) return;
+    setPlayers((prev) =>
+      prev[profile.id] ? prev : { ...prev, [profile.id]: profile },
+    );
+    setMatches((prev) =>
+      prev.map((match, index) =>
+        index === 0 && !match.slots.some(Boolean)
+          ? { ...match, slots: [profile.id, null, null, null] }
+          : match,
+      ),
+    );
+  }, [profile]);
+
+  const searchPlayers = async (query: string) => {
+    setSearchQuery(query);
+    if (!query.trim()) {
+      setSearchResults([]);
+      return;
+    }
+
+    setSearchLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select(PLAYER_COLUMNS)
+        .or(`full_name.ilike.%${query}%,nickname.ilike.%${query}%`)
+        .limit(10);
+
+      if (error) throw error;
+      setSearchResults(data || []);
+    } catch (error) {
+      console.error("Error searching players:", error);
+    } finally {
+      setSearchLoading(false);
+    }
+  };
+
+  const updateMatch = (index: number, update: Partial<DraftMatch>) => {
+    setMatches((prev) =>
+      prev.map((match, i) => (i === index ? { ...match, ...update } : match)),
+    );
+    setOutcome(null);
+  };
+
+  const selectPlayer = (player: SimulatorPlayer) => {
+    if (!picker) return;
+    setPlayers((prev) => ({ ...prev, [player.id]: player }));
+    const match = matches[picker.match];
+    updateMatch(picker.match, {
+      slots: match.slots.map((id, slot) =>
+        slot === picker.slot ? player.id : id === player.id ? null : id,
+      ),
+    });
+    setPicker(null);
+    setSearchQuery("");
+    setSearchResults([]);
+  };
+
+  const updateSet = (
+    matchIndex: number,
+    setIndex: number,
+    team: "team1" | "team2",
+    value: string,
+  ) => {
+    const match = matches[matchIndex];
+    updateMatch(matchIndex, {
+      sets: match.sets.map((set, i) =>
+        i === setIndex ? { ...set, [team]: value.replace(/[^0-9]/g, "") } : set,
+      ),
+    });
+  };
+
+  // Chain a new match with the same four players
+  const addMatch = () => {
+    setMatches((prev) => [
+      ...prev,
+      emptyMatch([...prev[prev.length - 1].slots]),
+    ]);
+    setOutcome(null);
+  };
+
+  const removeMatch = (index: number) => {
+    setMatches((prev) => prev.filter((_, i) => i !== index));
+    setOutcome(null);
+  };
+
+  const toSimulatedMatch = (match: DraftMatch): SimulatedMatch => ({
+    team1: [match.slots[0] as string, match.slots[1] as string],
+    team2: [match.slots[2] as string, match.slots[3] as string],
+    sets: match.sets.map((set) => ({
+      team1: parseInt(set.team1, 10) || 0,
+      team2: parseInt(set.team2, 10) || 0,
+    })),
+    weight: match.weight,
+  });
+
+  const simulated = matches.map(toSimulatedMatch);
+  const canSimulate = simulated.every(isSimulatedMatchReady);
+
+  const runSimulation = async () => {
+    if (!canSimulate) return;
+
+    setSimulating(true);
+    try {
+      const ratings = new Map<string, GlickoRating>();
+      const tiers = new Map<string, string | null>();
+      Object.values(players).forEach((player) => {
+        ratings.set(player.id, parseStoredRating(player));
+        tiers.set(player.id, player.rating_tier ?? null);
+      });
+
+      const result = simulateMatches(simulated, ratings, tiers);
+      const ratingsOf = (key: "before" | "after") =>
+        new Map(
+          result.players.map((player) => [player.playerId, player[key].rating]),
+        );
+
+      const [positionsBefore, positionsAfter] = await Promise.all([
+        LeaderboardService.getPositions(ratingsOf("before")),
+        LeaderboardService.getPositions(ratingsOf("after")),
+      ]);
+
+      setOutcome({ result, positionsBefore, positionsAfter });
+    } catch (error) {
+      console.error("Error running simulation:", error);
+    } finally {
+      setSimulating(false);
+    }
+  };
+
+  const playerName = (playerId: string | null) => {
+    const player = playerId ? players[playerId] : null;
+    if (!player) return "Pick player";
+    if (player.id === profile?.id) return "You";
+    return player.full_name || player.email.split("@")[0];
+  };
+
+  const renderSlot = (matchIndex: number, slot: number) => {
+    const playerId = matches[matchIndex].slots[slot];
+    return (
+      <TouchableOpacity
+        key={slot}
+        className={`flex-1 p-2 rounded-lg border ${playerId ? "border-border bg-card" : "border-dashed border-muted-foreground"}`}
+        onPress={() => setPicker({ match: matchIndex, slot })}
+      >
+        <Text
+          className={`text-sm text-center ${playerId ? "text-foreground" : "text-muted-foreground"}`}
+          numberOfLines={1}
+        >
+          {playerName(playerId)}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderMatch = (match: DraftMatch, index: number) => (
+    <View
+      key={index}
+      className="bg-card rounded-xl p-4 mb-4 border border-border/30"
+    >
+      <View className="flex-row justify-between items-center mb-3">
+        <Text className="font-semibold text-foreground">Match {index + 1}</Text>
+        {matches.length > 1 && (
+          <TouchableOpacity onPress={() => removeMatch(index)}>
+            <Ionicons name="trash-outline" size={18} color="#dc2626" />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <Text className="text-xs text-muted-foreground mb-1">Team 1</Text>
+      <View className="flex-row gap-2 mb-3">
+        {renderSlot(index, 0)}
+        {renderSlot(index, 1)}
+      </View>
+
+      <Text className="text-xs text-muted-foreground mb-1">Team 2</Text>
+      <View className="flex-row gap-2 mb-3">
+        {renderSlot(index, 2)}
+        {renderSlot(index, 3)}
+      </View>
+
+      <Text className="text-xs text-muted-foreground mb-1">Set scores</Text>
+      <View className="flex-row gap-3 mb-3">
+        {match.sets.map((set, setIndex) => (
+          <View key={setIndex} className="flex-1 flex-row items-center">
+            <TextInput
+              className="flex-1 border border-border rounded-lg py-2 text-center text-foreground"
+              keyboardType="number-pad"
+              maxLength={2}
+              placeholder="-"
+              value={set.team1}
+              onChangeText={(value) =>
+                updateSet(index, setIndex, "team1", value)
+              }
+            />
+            <Text className="mx-1 text-muted-foreground">:</Text>
+            <TextInput
+              className="flex-1 border border-border rounded-lg py-2 text-center text-foreground"
+              keyboardType="number-pad"
+              maxLength={2}
+              placeholder="-"
+              value={set.team2}
+              onChangeText={(value) =>
+                updateSet(index, setIndex, "team2", value)
+              }
+            />
+          </View>
+        ))}
+      </View>
+
+      <View className="flex-row">
+        {RATING_WEIGHTS.map((option) => (
+          <TouchableOpacity
+            key={option.id}
+            onPress={() => updateMatch(index, { weight: option.id })}
+            className={`px-3 py-1 mr-2 rounded-full ${match.weight === option.id ? "bg-primary" : "bg-muted"}`}
+          >
+            <Text
+              className={`text-xs ${match.weight === option.id ? "text-primary-foreground" : "text-muted-foreground"}`}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {outcome && (
+        <View className="mt-3 pt-3 border-t border-border">
+          <Text className="text-xs text-muted-foreground">
+            {outcome.result.matches[index].winnerTeam
+              ? `Team ${outcome.result.matches[index].winnerTeam} wins`
+              : "Draw"}{" "}
+            ·{" "}
+            {match.slots
+              .map(
+                (playerId) =>
+                  `${playerName(playerId)} ${formatDelta(outcome.result.matches[index].changes[playerId as string] || 0)}`,
+              )
+              .join(", ")}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+
+  const renderResults = () => {
+    if (!outcome) return null;
+
+    return (
+      <View className="bg-card rounded-xl p-4 mb-4 border border-primary/30">
+        <View className="flex-row items-center mb-3">
+          <Ionicons name="flask" size={18} color="#2148ce" />
+          <Text className="font-semibold text-foreground ml-2">
+            Simulated outcome
+          </Text>
+        </View>
+
+        {outcome.result.players.map((player) => {
+          const change = player.after.rating - player.before.rating;
+          const tierBefore = getTierDisplay(player.tierBefore);
+          const tierAfter = getTierDisplay(player.tierAfter);
+          const positionBefore = outcome.positionsBefore.get(player.playerId);
+          const positionAfter = outcome.positionsAfter.get(player.playerId);
+
+          return (
+            <View
+              key={player.playerId}
+              className="py-3 border-b border-border/50"
+            >
+              <View className="flex-row justify-between items-center">
+                <Text className="font-medium text-foreground">
+                  {playerName(player.playerId)}
+                </Text>
+                <Text className="text-foreground">
+                  {Math.round(player.before.rating)} →{" "}
+                  <Text className="font-bold">
+                    {Math.round(player.after.rating)}
+                  </Text>{" "}
+                  <Text
+                    className={change >= 0 ? "text-green-600" : "text-red-600"}
+                  >
+                    ({formatDelta(change)})
+                  </Text>
+                </Text>
+              </View>
+
+              <View className="flex-row justify-between items-center mt-1">
+                <Text className="text-xs" style={{ color: tierAfter.color }}>
+                  {player.tierChange
+                    ? `${tierBefore.level} → ${tierAfter.level} (${player.tierChange.direction})`
+                    : tierAfter.level}
+                </Text>
+                {positionBefore !== undefined &&
+                  positionAfter !== undefined && (
+                    <Text className="text-xs text-muted-foreground">
+                      #{positionBefore} → #{positionAfter}
+                    </Text>
+                  )}
+              </View>
+            </View>
+          );
+        })}
+
+        <Text className="text-xs text-muted-foreground mt-3">
+          Nothing is saved, ratings only change after real matches.
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-background">
+      <View className="flex-row items-center p-4 border-b border-border">
+        <TouchableOpacity onPress={() => router.back()} className="p-2">
+          <Ionicons name="arrow-back" size={24} color="#2148ce" />
+        </TouchableOpacity>
+        <H1 className="flex-1 text-center">What If</H1>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView
+        className="p-6"
+        contentContainerStyle={{ paddingBottom: 40 }}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Text className="text-sm text-muted-foreground mb-4">
+          Pick four players and hypothetical scores to see how ratings, tiers
+          and leaderboard positions would move. Chain matches to play out a
+          whole evening.
+        </Text>
+
+        {matches.map(renderMatch)}
+
+        <TouchableOpacity
+          className="flex-row items-center justify-center py-3 mb-4 rounded-xl border border-dashed border-primary"
+          onPress={addMatch}
+        >
+          <Ionicons name="add" size={18} color="#2148ce" />
+          <Text className="text-primary font-medium ml-1">Chain a match</Text>
+        </TouchableOpacity>
+
+        <Button
+          onPress={runSimulation}
+          disabled={!canSimulate || simulating}
+          className="mb-6"
+        >
+          {simulating ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <Text className="text-primary-foreground font-medium">
+              Simulate
+            </Text>
+          )}
+        </Button>
+
+        {renderResults()}
+      </ScrollView>
+
+      <Modal
+        visible={picker !== null}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setPicker(null)}
+      >
+        <View className="flex-1 justify-end bg-black/50">
+          <View className="bg-background rounded-t-3xl p-6 h-3/4">
+            <View className="flex-row justify-between items-center mb-4">
+              <Text className="text-lg font-semibold text-foreground">
+                Pick a player
+              </Text>
+              <TouchableOpacity onPress={() => setPicker(null)}>
+                <Ionicons name="close" size={24} color="#888" />
+              </TouchableOpacity>
+            </View>
+
+            <TextInput
+              className="border border-border rounded-lg px-4 py-3 mb-4 text-foreground"
+              placeholder="Search by name or nickname"
+              value={searchQuery}
+              onChangeText={searchPlayers}
+              autoFocus
+            />
+
+            {searchLoading ? (
+              <ActivityIndicator size="small" color="#2148ce" />
+            ) : (
+              <ScrollView keyboardShouldPersistTaps="handled">
+                {searchResults.map((player) => (
+                  <TouchableOpacity
+                    key={player.id}
+                    className="flex-row justify-between items-center py-3 border-b border-border/50"
+                    onPress={() => selectPlayer(player)}
+                  >
+                    <Text className="text-foreground">
+                      {player.full_name || player.email.split("@")[0]}
+                    </Text>
+                    <Text className="text-muted-foreground">
+                      {player.glicko_rating
+                        ? Math.round(parseFloat(player.glicko_rating))
+                        : "-"}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            )}
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
@@ -18,6 +18,15 @@ import { Button } from "@/components/ui/button";
 import { useAuth } from "@/context/supabase-provider";
 import { supabase } from "@/config/supabase";
 import { SafeAreaView } from "@/components/safe-area-view";
+import {
+  PredictionPlayer,
+  predictMatchForPlayers,
+} from "@/lib/match-prediction";
+import {
+  RatingTier,
+  getGroupTier,
+  resolveRatingTier,
+} from "@/lib/rating-tiers";
 
 // Simplified enums and interfaces
 export enum MatchStatus {
@@ -32,6 +41,9 @@ interface PlayerProfile {
   full_name: string | null;
   email: string;
   glicko_rating: string | null;
+  glicko_rd: string | null;
+  glicko_vol: string | null;
+  rating_tier: string | null;
   avatar_url: string | null;
 }
 
@@ -57,6 +69,8 @@ interface PublicMatch {
   totalAvailableSlots?: number;
   timeUntilMatch?: number;
   averageRating?: number;
+  // Level of the match from the tiers its players hold
+  skillTier?: RatingTier | null;
   isUserInMatch?: boolean;
   canJoin?: boolean;
   team1Players?: PlayerProfile[];
@@ -127,6 +141,7 @@ interface TeamSelectionModalProps {
   onClose: () => void;
   onSelectTeam: (teamNumber: 1 | 2) => void;
   loading: boolean;
+  currentUser: PredictionPlayer | null;
 }
 
 const TeamSelectionModal: React.FC<TeamSelectionModalProps> = ({
@@ -135,16 +150,40 @@ const TeamSelectionModal: React.FC<TeamSelectionModalProps> = ({
   onClose,
   onSelectTeam,
   loading,
+  currentUser,
 }) => {
   if (!match) return null;
 
   const team1HasSpace = !match.player1_id || !match.player2_id;
   const team2HasSpace = !match.player3_id || !match.player4_id;
 
+  // Prediction for the current user joining the given team
+  const getJoinPrediction = (teamNumber: 1 | 2) => {
+    if (!currentUser) return null;
+
+    const team1Players: PredictionPlayer[] = [...(match.team1Players || [])];
+    const team2Players: PredictionPlayer[] = [...(match.team2Players || [])];
+    const joinedTeam = teamNumber === 1 ? team1Players : team2Players;
+    joinedTeam.push(currentUser);
+
+    const prediction = predictMatchForPlayers(team1Players, team2Players);
+    const swings =
+      teamNumber === 1 ? prediction.team1Swings : prediction.team2Swings;
+
+    return {
+      winProbability:
+        teamNumber === 1
+          ? prediction.team1WinProbability
+          : prediction.team2WinProbability,
+      swing: swings[joinedTeam.length - 1],
+    };
+  };
+
   const renderTeam = (teamNumber: 1 | 2) => {
     const players = teamNumber === 1 ? match.team1Players : match.team2Players;
     const hasSpace = teamNumber === 1 ? team1HasSpace : team2HasSpace;
     const teamColor = teamNumber === 1 ? "blue" : "purple";
+    const joinPrediction = hasSpace ? getJoinPrediction(teamNumber) : null;
 
     return (
       <View
@@ -197,6 +236,25 @@ const TeamSelectionModal: React.FC<TeamSelectionModalProps> = ({
           )}
         </View>
 
+        {/* Prediction if the user joins this team */}
+        {joinPrediction && (
+          <View className="mb-3">
+            <Text className="text-xs text-gray-600 dark:text-gray-300">
+              Win chance {Math.round(joinPrediction.winProbability * 100)}%
+            </Text>
+            <Text className="text-xs text-gray-500 dark:text-gray-400">
+              <Text className="text-xs text-green-600 dark:text-green-400">
+                +{Math.round(joinPrediction.swing.win)}
+              </Text>
+              {" / "}
+              <Text className="text-xs text-red-600 dark:text-red-400">
+                {Math.round(joinPrediction.swing.loss)}
+              </Text>
+              {" rating"}
+            </Text>
+          </View>
+        )}
+
         {/* Join Button */}
         <Button
           variant={hasSpace ? "default" : "outline"}
@@ -332,11 +390,20 @@ export default function CleanBrowsePublicMatches() {
             ? ratings.reduce((sum, r) => sum + r, 0) / ratings.length
             : 1500;
 
+        const skillTier = getGroupTier(
+          allPlayers.map((player) =>
+            player
+              ? resolveRatingTier(player.glicko_rating, player.rating_tier)
+              : null,
+          ),
+        );
+
         return {
           ...match,
           totalAvailableSlots,
           timeUntilMatch,
           averageRating,
+          skillTier,
           isUserInMatch,
           canJoin,
           team1Players,
@@ -429,10 +496,10 @@ export default function CleanBrowsePublicMatches() {
         .select(
           `
           *,
-          player1:profiles!player1_id(id, full_name, email, glicko_rating, avatar_url),
-          player2:profiles!player2_id(id, full_name, email, glicko_rating, avatar_url),
-          player3:profiles!player3_id(id, full_name, email, glicko_rating, avatar_url),
-          player4:profiles!player4_id(id, full_name, email, glicko_rating, avatar_url)
+          player1:profiles!player1_id(id, full_name, email, glicko_rating, glicko_rd, glicko_vol, rating_tier, avatar_url),
+          player2:profiles!player2_id(id, full_name, email, glicko_rating, glicko_rd, glicko_vol, rating_tier, avatar_url),
+          player3:profiles!player3_id(id, full_name, email, glicko_rating, glicko_rd, glicko_vol, rating_tier, avatar_url),
+          player4:profiles!player4_id(id, full_name, email, glicko_rating, glicko_rd, glicko_vol, rating_tier, avatar_url)
         `,
         )
         .eq("is_public", true)
@@ -569,13 +636,12 @@ export default function CleanBrowsePublicMatches() {
     return "Soon";
   };
 
-  const getSkillLevel = (rating: number): { label: string; color: string } => {
-    if (rating < 1300) return { label: "Beginner", color: "#22c55e" };
-    if (rating < 1500) return { label: "Intermediate", color: "#eab308" };
-    if (rating < 1700) return { label: "Advanced", color: "#f97316" };
-    if (rating < 1900) return { label: "Expert", color: "#dc2626" };
-    return { label: "Pro", color: "#7c3aed" };
-  };
+  const getSkillLevel = (
+    tier: RatingTier | null | undefined,
+  ): { label: string; color: string } => ({
+    label: tier?.division.name ?? "Unrated",
+    color: tier?.color ?? "#6b7280",
+  });
 
   const renderMatchCard = useCallback(
     (match: PublicMatch) => {
@@ -595,7 +661,7 @@ export default function CleanBrowsePublicMatches() {
           ? formatTimeUntilMatch(match.timeUntilMatch)
           : "Starting Soon";
 
-      const skill = getSkillLevel(match.averageRating || 1500);
+      const skill = getSkillLevel(match.skillTier);
 
       const getActionText = () => {
         if (match.isUserInMatch) return "View Details";
@@ -950,6 +1016,7 @@ export default function CleanBrowsePublicMatches() {
         }}
         onSelectTeam={handleTeamSelection}
         loading={joining !== null}
+        currentUser={profile}
       />
 
       {/* Floating Action Button */}
@@ -132,7 +132,7 @@ export default function FriendsScreen() {
       const { data, error } = await supabase
         .from("profiles")
         .select(
-          "id, email, full_name, age, preferred_hand, court_playing_side, glicko_rating, avatar_url",
+          "id, email, full_name, age, preferred_hand, court_playing_side, glicko_rating, glicko_rd, rating_tier, avatar_url",
         )
         .in("id", profile.friends_list);
 
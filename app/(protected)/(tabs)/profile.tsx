@@ -19,6 +19,32 @@ import { useColorScheme } from "@/lib/useColorScheme";
 import { router } from "expo-router";
 import { supabase } from "@/config/supabase";
 import { NotificationBadge } from "@/components/NotificationBadge";
+import { RatingUncertaintyBadge } from "@/components/RatingUncertaintyBadge";
+import { ProvisionalRatingBadge } from "@/components/ProvisionalRatingBadge";
+import { RatingLadderSelector } from "@/components/RatingLadderSelector";
+import { RatingHistoryChart } from "@/components/RatingHistoryChart";
+import { ShotStatsSummary } from "@/components/ShotStatsSummary";
+import { RATING_LADDERS, RatingLadderId } from "@/constants/rating";
+import { formatRating, isProvisionalRating } from "@/lib/glicko";
+import { formatRatingWeight, getRatingWeight } from "@/lib/rating-weight";
+import {
+  getRatingTier,
+  getTierDisplay,
+  resolveRatingTier,
+} from "@/lib/rating-tiers";
+import {
+  PlacementStatus,
+  ProvisionalRatingService,
+} from "@/services/provisional-rating.service";
+import {
+  LadderRatingService,
+  PlayerLadderRating,
+} from "@/services/ladder-rating.service";
+import {
+  CareerShotStats,
+  ShotStatsService,
+} from "@/services/shot-stats.service";
+import { countsInRecord, hasMatchResult } from "@/lib/match-ending";
 
 // PRODUCTION RULE 1: Ultra-conservative base64 decoding with comprehensive error boundaries
 const safeBase64Decode = (base64String: string): Uint8Array | null => {
@@ -414,6 +440,9 @@ interface EnhancedPlayerStats {
   recentPerformance: "improving" | "declining" | "stable";
   thisWeekMatches: number;
   thisMonthMatches: number;
+  // Completed matches by rating weight
+  friendlyMatches: number;
+  tournamentMatches: number;
 }
 
 interface AvatarOperationState {
@@ -476,8 +505,16 @@ export default function Profile() {
     recentPerformance: "stable",
     thisWeekMatches: 0,
     thisMonthMatches: 0,
+    friendlyMatches: 0,
+    tournamentMatches: 0,
   });
 
+  const [placementStatus, setPlacementStatus] =
+    useState<PlacementStatus | null>(null);
+  const [ladder, setLadder] = useState<RatingLadderId>("overall");
+  const [ladderRatings, setLadderRatings] = useState<PlayerLadderRating[]>([]);
+  const [shotStats, setShotStats] = useState<CareerShotStats | null>(null);
+
   // PRODUCTION RULE 6B: Ultra-safe state update mechanism
   const safeSetState = useCallback(
     (
@@ -545,6 +582,48 @@ export default function Profile() {
     };
   }, [profile?.id, safeSetState]);
 
+  // Placement phase status for the provisional rating marker
+  useEffect(() => {
+    if (!profile?.id) return;
+
+    ProvisionalRatingService.getPlacementStatus({
+      id: profile.id,
+      glicko_rd: profile.glicko_rd,
+    })
+      .then((status) => {
+        if (isMountedRef.current) setPlacementStatus(status);
+      })
+      .catch((error) =>
+        console.error("🚨 PRODUCTION: Placement status failed:", error),
+      );
+  }, [profile?.id, profile?.glicko_rd]);
+
+  // Category ladder ratings for the ladder switcher
+  useEffect(() => {
+    if (!profile?.id) return;
+
+    LadderRatingService.getPlayerLadders(profile.id)
+      .then((ladders) => {
+        if (isMountedRef.current) setLadderRatings(ladders);
+      })
+      .catch((error) =>
+        console.error("🚨 PRODUCTION: Ladder ratings failed:", error),
+      );
+  }, [profile?.id]);
+
+  // Career shot and error stats from matches where points were tagged
+  useEffect(() => {
+    if (!profile?.id) return;
+
+    ShotStatsService.getCareerStats(profile.id)
+      .then((stats) => {
+        if (isMountedRef.current) setShotStats(stats);
+      })
+      .catch((error) =>
+        console.error("🚨 PRODUCTION: Shot stats failed:", error),
+      );
+  }, [profile?.id]);
+
   // PRODUCTION RULE 6D: Safe message cleanup
   useEffect(() => {
     if ((avatarState.error || avatarState.success) && componentReady) {
@@ -663,6 +742,8 @@ export default function Profile() {
         recentPerformance: "stable",
         thisWeekMatches: 0,
         thisMonthMatches: 0,
+        friendlyMatches: 0,
+        tournamentMatches: 0,
       };
 
       if (!Array.isArray(matchData) || matchData.length === 0) {
@@ -684,6 +765,8 @@ export default function Profile() {
         thisMonthMatches = 0;
       let totalDuration = 0,
         matchesWithDuration = 0;
+      let friendlyMatches = 0,
+        tournamentMatches = 0;
 
       const recentMatches: any[] = [];
       const scheduledMatches: any[] = [];
@@ -731,12 +814,8 @@ export default function Profile() {
       const completedMatches = safeMatches
         .filter((match) => {
           try {
-            return (
-              match.team1_score_set1 !== null &&
-              match.team1_score_set1 !== undefined &&
-              match.team2_score_set1 !== null &&
-              match.team2_score_set1 !== undefined
-            );
+            // Walkovers and abandoned matches stay out of the record
+            return countsInRecord(match);
           } catch {
             return false;
           }
@@ -768,8 +847,7 @@ export default function Profile() {
 
           const isFuture = startTime > now;
           const isPast = endTime ? endTime < now : startTime < now;
-          const hasScores =
-            match.team1_score_set1 !== null && match.team2_score_set1 !== null;
+          const hasScores = hasMatchResult(match);
           const needsScores =
             isPast && !hasScores && match.status !== MatchStatus.CANCELLED;
           const needsConfirmation =
@@ -816,6 +894,10 @@ export default function Profile() {
             match.player1_id === playerId || match.player2_id === playerId;
           let userWon = false;
 
+          const weight = getRatingWeight(match.rating_weight);
+          if (weight === "friendly") friendlyMatches++;
+          if (weight === "tournament") tournamentMatches++;
+
           if (match.winner_team) {
             userWon =
               (isTeam1 && match.winner_team === 1) ||
@@ -920,6 +1002,8 @@ export default function Profile() {
         recentPerformance,
         thisWeekMatches,
         thisMonthMatches,
+        friendlyMatches,
+        tournamentMatches,
       };
 
       console.log("✅ PRODUCTION: Stats calculation completed successfully");
@@ -946,6 +1030,8 @@ export default function Profile() {
         recentPerformance: "stable",
         thisWeekMatches: 0,
         thisMonthMatches: 0,
+        friendlyMatches: 0,
+        tournamentMatches: 0,
       };
     }
   };
@@ -1379,26 +1465,42 @@ export default function Profile() {
       }
     };
 
-    const rating = getRatingFromProfile();
-
-    // Rating level classification system
-    const getRatingLevel = (rating: number | null) => {
-      if (!rating)
-        return { level: "Unrated", color: "#6b7280", bgColor: "#f3f4f6" };
-      if (rating >= 2100)
-        return { level: "Elite", color: "#7c2d12", bgColor: "#fbbf24" };
-      if (rating >= 1900)
-        return { level: "Expert", color: "#7c3aed", bgColor: "#c4b5fd" };
-      if (rating >= 1700)
-        return { level: "Advanced", color: "#059669", bgColor: "#6ee7b7" };
-      if (rating >= 1500)
-        return { level: "Intermediate", color: "#2563eb", bgColor: "#93c5fd" };
-      if (rating >= 1300)
-        return { level: "Beginner", color: "#dc2626", bgColor: "#fca5a5" };
-      return { level: "Novice", color: "#6b7280", bgColor: "#d1d5db" };
-    };
-
-    const ratingLevel = getRatingLevel(rating);
+    const overallRating = getRatingFromProfile();
+    const ladderRating = ladderRatings.find((entry) => entry.ladder === ladder);
+    const rating =
+      ladder === "overall"
+        ? overallRating
+        : ladderRating
+          ? Math.round(ladderRating.rating)
+          : null;
+    const ladderLabel =
+      RATING_LADDERS.find((entry) => entry.id === ladder)?.label || "Overall";
+
+    // Placement and deviation of the selected ladder
+    const ladderPlacement =
+      ladder === "overall"
+        ? placementStatus
+        : ladderRating
+          ? {
+              provisional: isProvisionalRating(
+                ladderRating.rd,
+                ladderRating.rated_matches,
+              ),
+              rated_matches: ladderRating.rated_matches,
+            }
+          : null;
+    const ladderRd =
+      ladder === "overall" ? profile?.glicko_rd : ladderRating?.rd;
+
+    // Overall tier is the one held by the player, with demotion hysteresis;
+    // category ladders have no stored tier
+    const ratingLevel = getTierDisplay(
+      !rating
+        ? null
+        : ladder === "overall"
+          ? resolveRatingTier(rating, profile?.rating_tier)
+          : getRatingTier(rating),
+    );
 
     // Trend calculation for visual indicator
     const getTrendIndicator = () => {
@@ -1467,14 +1569,25 @@ export default function Profile() {
                   className="text-2xl font-bold"
                   style={{ color: ratingLevel.color }}
                 >
-                  {rating || "-"}
+                  {rating
+                    ? formatRating(rating, ladderPlacement?.provisional)
+                    : "-"}
                 </Text>
                 <Text
                   className="text-xs font-medium"
                   style={{ color: ratingLevel.color, opacity: 0.8 }}
                 >
-                  Glicko Rating
+                  {ladder === "overall" ? "Glicko" : ladderLabel} Rating
                 </Text>
+                <View className="mt-1">
+                  {ladderPlacement?.provisional ? (
+                    <ProvisionalRatingBadge
+                      ratedMatches={ladderPlacement.rated_matches}
+                    />
+                  ) : (
+                    <RatingUncertaintyBadge rd={ladderRd} showDeviation />
+                  )}
+                </View>
               </View>
               <View
                 className="ml-8 px-3 py-1 rounded-full"
@@ -1493,6 +1606,11 @@ export default function Profile() {
             </View>
           </View>
 
+          {/* Rating ladder switcher */}
+          <View className="items-center mb-5">
+            <RatingLadderSelector value={ladder} onChange={setLadder} />
+          </View>
+
           {/* Main Statistics Grid */}
           <View className="flex-row justify-around mb-5">
             <View className="items-center">
@@ -1569,6 +1687,28 @@ export default function Profile() {
             </View>
           </View>
 
+          {/* Which matches counted towards the rating */}
+          {playerStats.matches > 0 && (
+            <Text className="text-xs text-muted-foreground text-center mb-4">
+              {playerStats.matches - playerStats.friendlyMatches} rated
+              {playerStats.tournamentMatches > 0 &&
+                ` · ${playerStats.tournamentMatches} tournament (${formatRatingWeight("tournament")})`}
+              {playerStats.friendlyMatches > 0 &&
+                ` · ${playerStats.friendlyMatches} friendly (unrated)`}
+            </Text>
+          )}
+
+          {/* Shot stats, only from matches where points were tagged */}
+          {shotStats && shotStats.tagged > 0 && (
+            <View className="bg-muted/10 rounded-xl p-3 mb-4">
+              <Text className="text-xs text-muted-foreground text-center mb-2">
+                Shot stats from {shotStats.matches} tracked{" "}
+                {shotStats.matches === 1 ? "match" : "matches"}
+              </Text>
+              <ShotStatsSummary stats={shotStats} detailed />
+            </View>
+          )}
+
           {/* Separator */}
           <View className="h-px bg-border mb-4" />
 
@@ -1693,6 +1833,21 @@ export default function Profile() {
         {/* **ENHANCED COMBINED RATING AND STATS CARD** */}
         {safeRender(() => renderEnhancedCombinedCard())}
 
+        {/* Rating history chart */}
+        {profile?.id && (
+          <View className="mx-6 mb-6">
+            <RatingHistoryChart
+              playerId={profile.id}
+              onMatchPress={(matchId) =>
+                router.push({
+                  pathname: "/(protected)/(screens)/match-details",
+                  params: { matchId },
+                })
+              }
+            />
+          </View>
+        )}
+
         <View className="px-6 pb-8 pt-2">
           <View className="mb-6">
             <View className="flex-row justify-between items-center mb-3">
@@ -1757,6 +1912,26 @@ export default function Profile() {
           </View>
         </View>
 
+        {profile?.integrity_reviewer && (
+          <View className="px-6 mb-3">
+            <Button
+              variant="outline"
+              className="w-full py-3 flex-row justify-center items-center"
+              onPress={() =>
+                router.push("/(protected)/(screens)/integrity-review")
+              }
+            >
+              <Ionicons
+                name="shield-checkmark-outline"
+                size={20}
+                color="#2148ce"
+                style={{ marginRight: 8 }}
+              />
+              <Text className="font-medium">Integrity Review</Text>
+            </Button>
+          </View>
+        )}
+
         <View className="px-6 mb-6">
           <Button
             variant="destructive"
@@ -43,6 +43,9 @@ export default function ProtectedLayout() {
 			  <Stack.Screen name="(screens)/match-details" />
 			  <Stack.Screen name="(screens)/leaderboard" />
 			  <Stack.Screen name="(screens)/edit-match" />
+			  <Stack.Screen name="(screens)/rating-simulator" />
+			  <Stack.Screen name="(screens)/live-match" />
+			  <Stack.Screen name="(screens)/integrity-review" />
 			</Stack>
 		</View>
 	  );
@@ -29,12 +29,14 @@ interface Player {
 interface MatchConfirmationSectionV2Props {
   matchId: string;
   players: Player[];
+  // Moment picked in the match log that a report is about
+  reportedEvent?: { sequence: number; label: string } | null;
   onUpdate?: () => void;
 }
 
 export const MatchConfirmationSectionV2: React.FC<
   MatchConfirmationSectionV2Props
-> = ({ matchId, players, onUpdate }) => {
+> = ({ matchId, players, reportedEvent, onUpdate }) => {
   const { profile } = useAuth();
   const [showReportModal, setShowReportModal] = useState(false);
   const [reportReason, setReportReason] = useState("");
@@ -77,7 +79,10 @@ export const MatchConfirmationSectionV2: React.FC<
   };
 
   const handleReport = async () => {
-    const result = await reportMatch(reportReason.trim() || undefined);
+    const result = await reportMatch(
+      reportReason.trim() || undefined,
+      reportedEvent?.sequence,
+    );
 
     if (result.success) {
       setShowReportModal(false);
@@ -279,6 +284,15 @@ export const MatchConfirmationSectionV2: React.FC<
               </Text>
             </View>
 
+            {reportedEvent && (
+              <View className="flex-row items-center mb-4">
+                <Ionicons name="time-outline" size={16} color="#6b7280" />
+                <Text className="text-sm text-muted-foreground ml-2">
+                  About: {reportedEvent.label}
+                </Text>
+              </View>
+            )}
+
             <Text className="text-sm text-muted-foreground mb-3">
               Reason (optional):
             </Text>
@@ -0,0 +1,89 @@
+import React from "react";
+import { TouchableOpacity, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+
+import { Text } from "@/components/ui/text";
+import { MATCH_END_REASONS, MatchEndReason } from "@/constants/match-ending";
+import { getMatchEnding } from "@/lib/match-ending";
+
+interface MatchEndingSelectorProps {
+  value: MatchEndReason;
+  onChange: (reason: MatchEndReason) => void;
+  // Winner of a match that ended early, the score decides a completed one
+  winnerTeam: 0 | 1 | 2;
+  onWinnerChange: (team: 1 | 2) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Pick how a match ended and, when it ended early, who won it
+ */
+export function MatchEndingSelector({
+  value,
+  onChange,
+  winnerTeam,
+  onWinnerChange,
+  disabled = false,
+}: MatchEndingSelectorProps) {
+  const ending = getMatchEnding(value);
+  const retired = value === "retired";
+
+  return (
+    <View className="gap-2">
+      {MATCH_END_REASONS.map((option) => {
+        const selected = option.id === value;
+
+        return (
+          <TouchableOpacity
+            key={option.id}
+            disabled={disabled}
+            onPress={() => onChange(option.id)}
+            className={`flex-row items-center p-3 rounded-lg border ${selected ? "border-primary bg-primary/10" : "border-border"} ${disabled ? "opacity-50" : ""}`}
+          >
+            <Ionicons
+              name={selected ? "radio-button-on" : "radio-button-off"}
+              size={18}
+              color={selected ? "#2148ce" : "#9ca3af"}
+            />
+            <View className="flex-1 ml-3">
+              <Text className="text-sm font-medium">{option.label}</Text>
+              <Text className="text-xs text-muted-foreground">
+                {option.description}
+              </Text>
+            </View>
+          </TouchableOpacity>
+        );
+      })}
+
+      {value !== "completed" && ending.hasWinner && (
+        <View className="mt-2">
+          <Text className="text-sm font-medium mb-2">
+            {retired ? "Which team retired?" : "Which team showed up?"}
+          </Text>
+          <View className="flex-row gap-2">
+            {([1, 2] as const).map((team) => {
+              // A retiring team hands the win to the other team
+              const winner = retired ? (team === 1 ? 2 : 1) : team;
+              const selected = winnerTeam === winner;
+
+              return (
+                <TouchableOpacity
+                  key={team}
+                  disabled={disabled}
+                  onPress={() => onWinnerChange(winner)}
+                  className={`flex-1 items-center p-3 rounded-lg border ${selected ? "border-primary bg-primary/10" : "border-border"}`}
+                >
+                  <Text
+                    className={`text-sm font-medium ${selected ? "text-primary" : ""}`}
+                  >
+                    Team {team}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,74 @@
+import React from "react";
+import { TouchableOpacity, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+
+import { Text } from "@/components/ui/text";
+import { DEUCE_RULES, MATCH_FORMATS, MatchFormat } from "@/constants/scoring";
+
+interface MatchFormatSelectorProps {
+  value: MatchFormat;
+  onChange: (format: MatchFormat) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Pick the sets format and deuce rule a match is played with
+ */
+export function MatchFormatSelector({
+  value,
+  onChange,
+  disabled = false,
+}: MatchFormatSelectorProps) {
+  return (
+    <View className="gap-2">
+      {MATCH_FORMATS.map((option) => {
+        const selected = option.id === value.id;
+
+        return (
+          <TouchableOpacity
+            key={option.id}
+            disabled={disabled}
+            onPress={() => onChange({ ...value, id: option.id })}
+            className={`flex-row items-center p-3 rounded-lg border ${selected ? "border-primary bg-primary/10" : "border-border"} ${disabled ? "opacity-50" : ""}`}
+          >
+            <Ionicons
+              name={selected ? "radio-button-on" : "radio-button-off"}
+              size={18}
+              color={selected ? "#2148ce" : "#9ca3af"}
+            />
+            <View className="flex-1 ml-3">
+              <Text className="text-sm font-medium">{option.label}</Text>
+              <Text className="text-xs text-muted-foreground">
+                {option.description}
+              </Text>
+            </View>
+          </TouchableOpacity>
+        );
+      })}
+
+      <View className="flex-row gap-2 mt-1">
+        {DEUCE_RULES.map((option) => {
+          const selected = option.id === value.deuce;
+
+          return (
+            <TouchableOpacity
+              key={option.id}
+              disabled={disabled}
+              onPress={() => onChange({ ...value, deuce: option.id })}
+              className={`flex-1 p-3 rounded-lg border ${selected ? "border-primary bg-primary/10" : "border-border"} ${disabled ? "opacity-50" : ""}`}
+            >
+              <Text
+                className={`text-sm font-medium ${selected ? "text-primary" : ""}`}
+              >
+                {option.label}
+              </Text>
+              <Text className="text-xs text-muted-foreground">
+                {option.description}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,202 @@
+import React, { useEffect, useState } from "react";
+import { View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+
+import { RatingLadderSelector } from "@/components/RatingLadderSelector";
+import { Text } from "@/components/ui/text";
+import { MatchRatingWeight, RatingLadderId } from "@/constants/rating";
+import { GlickoRating } from "@/lib/glicko";
+import {
+  PredictionPlayer,
+  RatingSwing,
+  predictMatchForPlayers,
+} from "@/lib/match-prediction";
+import { getRatingWeightMultiplier } from "@/lib/rating-weight";
+import { LadderRatingService } from "@/services/ladder-rating.service";
+
+export interface PredictionCardPlayer extends PredictionPlayer {
+  id: string;
+  full_name: string | null;
+  email?: string | null;
+}
+
+interface MatchPredictionCardProps {
+  team1: (PredictionCardPlayer | null | undefined)[];
+  team2: (PredictionCardPlayer | null | undefined)[];
+  // Player whose swing is highlighted, usually the signed-in user
+  highlightPlayerId?: string;
+  // Swings are scaled by the match weight, friendlies show none
+  ratingWeight?: MatchRatingWeight;
+}
+
+const formatSwing = (value: number) =>
+  `${value >= 0 ? "+" : "−"}${Math.abs(Math.round(value))}`;
+
+const playerName = (player: PredictionCardPlayer) =>
+  player.full_name?.split(" ")[0] || player.email?.split("@")[0] || "Player";
+
+/**
+ * Pre-match prediction: each team's win probability and the rating each
+ * player stands to gain or lose
+ */
+export function MatchPredictionCard({
+  team1,
+  team2,
+  highlightPlayerId,
+  ratingWeight,
+}: MatchPredictionCardProps) {
+  const [ladder, setLadder] = useState<RatingLadderId>("overall");
+  const [ladderRatings, setLadderRatings] = useState<Map<
+    string,
+    GlickoRating
+  > | null>(null);
+
+  const playerIdsKey = [...team1, ...team2]
+    .map((player) => player?.id ?? "")
+    .join(",");
+
+  useEffect(() => {
+    if (ladder === "overall") {
+      setLadderRatings(null);
+      return;
+    }
+
+    let cancelled = false;
+    const playerIds = playerIdsKey.split(",").filter(Boolean);
+
+    LadderRatingService.getLadderRatings(playerIds, ladder)
+      .then((ratings) => {
+        if (!cancelled) setLadderRatings(ratings);
+      })
+      .catch((error) => {
+        console.warn("⚠️ [LADDER] Prediction ratings failed:", error);
+        if (!cancelled) setLadderRatings(new Map());
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ladder, playerIdsKey]);
+
+  // On a category ladder, players without a ladder rating start fresh
+  const withLadderRating = (
+    player: PredictionCardPlayer | null | undefined,
+  ) => {
+    if (!player || !ladderRatings) return player;
+    const rating = ladderRatings.get(player.id);
+    return {
+      ...player,
+      glicko_rating: rating?.rating ?? null,
+      glicko_rd: rating?.rd ?? null,
+      glicko_vol: rating?.vol ?? null,
+      is_provisional: undefined,
+    };
+  };
+
+  const weight = getRatingWeightMultiplier(ratingWeight);
+  const prediction = predictMatchForPlayers(
+    team1.map(withLadderRating),
+    team2.map(withLadderRating),
+    undefined,
+    weight,
+  );
+
+  const team1Percent = Math.round(prediction.team1WinProbability * 100);
+  const team2Percent = 100 - team1Percent;
+  const hasOpenSlots = [...team1, ...team2].some((player) => !player);
+
+  const renderSwing = (
+    player: PredictionCardPlayer | null | undefined,
+    swing: RatingSwing,
+  ) => {
+    if (!player) return null;
+    const highlighted = player.id === highlightPlayerId;
+
+    return (
+      <View key={player.id} className="flex-row items-center justify-between">
+        <Text
+          className={`text-xs ${highlighted ? "font-semibold text-gray-900 dark:text-gray-100" : "text-gray-600 dark:text-gray-300"}`}
+          numberOfLines={1}
+        >
+          {highlighted ? "You" : playerName(player)}
+        </Text>
+        <View className="flex-row items-center gap-2">
+          <Text className="text-xs font-medium text-green-600 dark:text-green-400">
+            {formatSwing(swing.win)}
+          </Text>
+          <Text className="text-xs font-medium text-red-600 dark:text-red-400">
+            {formatSwing(swing.loss)}
+          </Text>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View className="bg-white dark:bg-gray-800 rounded-xl p-4 mb-6 border border-gray-200 dark:border-gray-700">
+      <View className="flex-row items-center mb-3">
+        <Ionicons name="analytics-outline" size={18} color="#2148ce" />
+        <Text className="text-base font-semibold text-gray-900 dark:text-gray-100 ml-2">
+          Match Prediction
+        </Text>
+      </View>
+
+      <View className="mb-3">
+        <RatingLadderSelector value={ladder} onChange={setLadder} />
+      </View>
+
+      {/* Win probability bar */}
+      <View className="flex-row justify-between mb-1">
+        <Text className="text-xs font-medium text-blue-600">
+          Team 1 · {team1Percent}%
+        </Text>
+        <Text className="text-xs font-medium text-purple-600">
+          {team2Percent}% · Team 2
+        </Text>
+      </View>
+      <View className="flex-row h-2 rounded-full overflow-hidden mb-4">
+        <View className="bg-blue-500" style={{ flex: team1Percent }} />
+        <View className="bg-purple-500" style={{ flex: team2Percent }} />
+      </View>
+
+      {/* Rating swings */}
+      {weight > 0 ? (
+        <>
+          <View className="flex-row justify-between mb-2">
+            <Text className="text-xs text-gray-500 dark:text-gray-400">
+              Rating change{weight !== 1 ? ` (×${weight})` : ""}
+            </Text>
+            <Text className="text-xs text-gray-500 dark:text-gray-400">
+              Win / Loss
+            </Text>
+          </View>
+          <View className="gap-1">
+            {team1.map((player, index) =>
+              renderSwing(player, prediction.team1Swings[index]),
+            )}
+            {team2.map((player, index) =>
+              renderSwing(player, prediction.team2Swings[index]),
+            )}
+          </View>
+        </>
+      ) : (
+        <Text className="text-xs text-gray-500 dark:text-gray-400">
+          Friendly match, ratings won&apos;t change
+        </Text>
+      )}
+
+      {prediction.provisionalPlayers > 0 && (
+        <Text className="text-[10px] text-gray-400 mt-3">
+          Includes {prediction.provisionalPlayers} player
+          {prediction.provisionalPlayers > 1 ? "s" : ""} in placement, so the
+          prediction is less certain
+        </Text>
+      )}
+      {hasOpenSlots && (
+        <Text className="text-[10px] text-gray-400 mt-3">
+          Open slots are estimated at the starting rating
+        </Text>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,29 @@
+import React from "react";
+import { View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+
+import { Text } from "@/components/ui/text";
+import { RATING_CONFIG } from "@/constants/rating";
+
+interface ProvisionalRatingBadgeProps {
+  // Validated matches played so far, shows placement progress when given
+  ratedMatches?: number;
+}
+
+/**
+ * Marks a player still in the placement phase, whose rating is provisional
+ */
+export function ProvisionalRatingBadge({
+  ratedMatches,
+}: ProvisionalRatingBadgeProps) {
+  return (
+    <View className="flex-row items-center px-2 py-0.5 rounded-full bg-sky-100 dark:bg-sky-900/30">
+      <Ionicons name="hourglass-outline" size={12} color="#0284c7" />
+      <Text className="text-[10px] font-medium text-sky-700 dark:text-sky-400 ml-1">
+        {ratedMatches === undefined
+          ? "Placement"
+          : `Placement ${Math.min(ratedMatches, RATING_CONFIG.PLACEMENT_MATCHES)}/${RATING_CONFIG.PLACEMENT_MATCHES}`}
+      </Text>
+    </View>
+  );
+}
@@ -0,0 +1,310 @@
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  LayoutChangeEvent,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+
+import { Text } from "@/components/ui/text";
+import {
+  RATING_HISTORY_RANGES,
+  RatingHistoryPoint,
+  RatingHistoryRange,
+  filterRatingHistory,
+  getRatingHistoryBounds,
+  getRatingHistoryChange,
+} from "@/lib/rating-history";
+import { RatingHistoryService } from "@/services/rating-history.service";
+
+interface RatingHistoryChartProps {
+  playerId: string;
+  // Markers open the match when set, e.g. only for the player's friends
+  onMatchPress?: (matchId: string) => void;
+}
+
+const CHART_HEIGHT = 160;
+const MARKER_SIZE = 8;
+const LINE_COLOR = "#2148ce";
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString(undefined, {
+    day: "numeric",
+    month: "short",
+    year: "2-digit",
+  });
+
+/**
+ * Rating over time with the RD confidence band and a marker per match, or
+ * per rating period when ratings are updated in batches
+ */
+export function RatingHistoryChart({
+  playerId,
+  onMatchPress,
+}: RatingHistoryChartProps) {
+  const [history, setHistory] = useState<RatingHistoryPoint[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [range, setRange] = useState<RatingHistoryRange>("3M");
+  const [width, setWidth] = useState(0);
+  const [selected, setSelected] = useState<RatingHistoryPoint | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    RatingHistoryService.getRatingHistory(playerId)
+      .then((points) => {
+        if (!cancelled) setHistory(points);
+      })
+      .catch((error) => {
+        console.warn("⚠️ [RATING] Rating history failed:", error);
+        if (!cancelled) setHistory([]);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [playerId]);
+
+  useEffect(() => {
+    setSelected(null);
+  }, [range]);
+
+  const points = filterRatingHistory(history, range);
+  const bounds = getRatingHistoryBounds(points);
+  const netChange = getRatingHistoryChange(points);
+
+  const firstTime = points.length ? new Date(points[0].date).getTime() : 0;
+  const lastTime = points.length
+    ? new Date(points[points.length - 1].date).getTime()
+    : 0;
+
+  const xOf = (point: RatingHistoryPoint, index: number) => {
+    if (points.length < 2) return width / 2;
+    const span = lastTime - firstTime;
+    // Matches on the same instant are spread evenly instead
+    const share =
+      span > 0
+        ? (new Date(point.date).getTime() - firstTime) / span
+        : index / (points.length - 1);
+    return MARKER_SIZE / 2 + share * (width - MARKER_SIZE);
+  };
+
+  const yOf = (rating: number) =>
+    CHART_HEIGHT -
+    ((rating - bounds.min) / (bounds.max - bounds.min || 1)) * CHART_HEIGHT;
+
+  const onLayout = (event: LayoutChangeEvent) =>
+    setWidth(event.nativeEvent.layout.width);
+
+  const renderChart = () => {
+    if (width === 0) return null;
+
+    const coordinates = points.map((point, index) => ({
+      point,
+      x: xOf(point, index),
+      y: yOf(point.rating),
+    }));
+
+    return (
+      <>
+        {/* Grid lines */}
+        {[bounds.max, (bounds.max + bounds.min) / 2, bounds.min].map(
+          (value) => (
+            <View
+              key={value}
+              className="absolute left-0 right-0 border-t border-gray-200 dark:border-gray-700"
+              style={{ top: yOf(value) }}
+            >
+              <Text className="text-[10px] text-gray-400">
+                {Math.round(value)}
+              </Text>
+            </View>
+          ),
+        )}
+
+        {/* RD band, the range the rating is likely to be in after a match */}
+        {coordinates.map(({ point, x }, index) => {
+          const left =
+            index === 0 ? x - MARKER_SIZE / 2 : coordinates[index - 1].x;
+          const top = yOf(point.rating + point.rd);
+          return (
+            <View
+              key={`band-${index}`}
+              className="absolute"
+              style={{
+                left,
+                width: Math.max(x - left, MARKER_SIZE),
+                top,
+                height: yOf(point.rating - point.rd) - top,
+                backgroundColor: "rgba(33, 72, 206, 0.12)",
+              }}
+            />
+          );
+        })}
+
+        {/* Rating line */}
+        {coordinates.slice(1).map((end, index) => {
+          const start = coordinates[index];
+          const dx = end.x - start.x;
+          const dy = end.y - start.y;
+          const length = Math.sqrt(dx * dx + dy * dy);
+          return (
+            <View
+              key={`line-${index}`}
+              className="absolute"
+              style={{
+                left: (start.x + end.x) / 2 - length / 2,
+                top: (start.y + end.y) / 2 - 1,
+                width: length,
+                height: 2,
+                backgroundColor: LINE_COLOR,
+                transform: [{ rotate: `${Math.atan2(dy, dx)}rad` }],
+              }}
+            />
+          );
+        })}
+
+        {/* Match and rating period markers */}
+        {coordinates
+          .filter(({ point }) => point.matchId || point.periodId)
+          .map(({ point, x, y }) => (
+            <TouchableOpacity
+              key={point.matchId ?? point.periodId}
+              className="absolute rounded-full border border-white"
+              style={{
+                left: x - MARKER_SIZE / 2,
+                top: y - MARKER_SIZE / 2,
+                width: MARKER_SIZE,
+                height: MARKER_SIZE,
+                backgroundColor:
+                  point.won === null
+                    ? LINE_COLOR
+                    : point.won
+                      ? "#16a34a"
+                      : "#dc2626",
+                transform: [{ scale: selected === point ? 1.6 : 1 }],
+              }}
+              hitSlop={{ top: 10, bottom: 10, left: 6, right: 6 }}
+              onPress={() => setSelected(point)}
+            />
+          ))}
+      </>
+    );
+  };
+
+  const renderSelected = () => {
+    if (!selected) {
+      return (
+        <Text className="text-xs text-gray-500 dark:text-gray-400 text-center">
+          Tap a match marker for details
+        </Text>
+      );
+    }
+
+    return (
+      <View className="flex-row items-center justify-between">
+        <View>
+          <Text className="text-xs text-gray-500 dark:text-gray-400">
+            {formatDate(selected.date)}
+          </Text>
+          <Text className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+            {Math.round(selected.rating)} ±{Math.round(selected.rd)}
+            <Text
+              className={`text-xs ${selected.change >= 0 ? "text-green-600" : "text-red-600"}`}
+            >
+              {"  "}
+              {selected.change >= 0 ? "+" : "−"}
+              {Math.abs(Math.round(selected.change))}
+            </Text>
+          </Text>
+          {selected.periodId && (
+            <Text className="text-xs text-gray-500 dark:text-gray-400">
+              Rating period · {selected.matchCount} match
+              {selected.matchCount === 1 ? "" : "es"}
+            </Text>
+          )}
+        </View>
+        {onMatchPress && selected.matchId && (
+          <TouchableOpacity
+            className="flex-row items-center"
+            onPress={() => onMatchPress(selected.matchId as string)}
+          >
+            <Text className="text-xs text-primary mr-1">View match</Text>
+            <Ionicons name="chevron-forward" size={14} color={LINE_COLOR} />
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View className="bg-white dark:bg-gray-800 rounded-xl p-4 border border-gray-200 dark:border-gray-700">
+      <View className="flex-row items-center justify-between mb-3">
+        <View className="flex-row items-center">
+          <Ionicons name="pulse-outline" size={18} color={LINE_COLOR} />
+          <Text className="text-base font-semibold text-gray-900 dark:text-gray-100 ml-2">
+            Rating History
+          </Text>
+        </View>
+        {points.length > 0 && (
+          <Text
+            className={`text-sm font-semibold ${netChange >= 0 ? "text-green-600" : "text-red-600"}`}
+          >
+            {netChange >= 0 ? "+" : "−"}
+            {Math.abs(netChange)}
+          </Text>
+        )}
+      </View>
+
+      <View className="flex-row mb-3">
+        {RATING_HISTORY_RANGES.map((option) => (
+          <TouchableOpacity
+            key={option.id}
+            onPress={() => setRange(option.id)}
+            className={`px-3 py-1 mr-2 rounded-full ${range === option.id ? "bg-primary" : "bg-muted"}`}
+          >
+            <Text
+              className={`text-xs ${range === option.id ? "text-primary-foreground" : "text-muted-foreground"}`}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {loading ? (
+        <View
+          className="items-center justify-center"
+          style={{ height: CHART_HEIGHT }}
+        >
+          <ActivityIndicator size="small" color={LINE_COLOR} />
+        </View>
+      ) : points.length === 0 ? (
+        <View
+          className="items-center justify-center"
+          style={{ height: CHART_HEIGHT }}
+        >
+          <Text className="text-sm text-gray-500 dark:text-gray-400 text-center">
+            No rated matches in this period
+          </Text>
+        </View>
+      ) : (
+        <>
+          <View
+            onLayout={onLayout}
+            className="mb-3"
+            style={{ height: CHART_HEIGHT }}
+          >
+            {renderChart()}
+          </View>
+          {renderSelected()}
+        </>
+      )}
+    </View>
+  );
+}
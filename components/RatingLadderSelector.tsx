@@ -0,0 +1,41 @@
+import React from "react";
+import { ScrollView, TouchableOpacity } from "react-native";
+
+import { Text } from "@/components/ui/text";
+import { RatingLadderId } from "@/constants/rating";
+import { getAvailableLadders } from "@/lib/rating-ladders";
+
+interface RatingLadderSelectorProps {
+  value: RatingLadderId;
+  onChange: (ladder: RatingLadderId) => void;
+}
+
+/**
+ * Horizontal chips to switch between the overall and category ladders
+ */
+export function RatingLadderSelector({
+  value,
+  onChange,
+}: RatingLadderSelectorProps) {
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      className="flex-grow-0"
+    >
+      {getAvailableLadders().map((option) => (
+        <TouchableOpacity
+          key={option.id}
+          onPress={() => onChange(option.id)}
+          className={`px-3 py-1 mr-2 rounded-full ${value === option.id ? "bg-primary" : "bg-muted"}`}
+        >
+          <Text
+            className={`text-xs ${value === option.id ? "text-primary-foreground" : "text-muted-foreground"}`}
+          >
+            {option.label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+}
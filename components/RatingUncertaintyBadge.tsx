@@ -0,0 +1,33 @@
+import React from "react";
+import { View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+
+import { Text } from "@/components/ui/text";
+import { isRatingUncertain } from "@/lib/glicko";
+
+interface RatingUncertaintyBadgeProps {
+  rd: number | string | null | undefined;
+  showDeviation?: boolean;
+}
+
+/**
+ * Marks a rating whose deviation has grown (new or inactive player), so the
+ * number is read as an estimate rather than an established level
+ */
+export function RatingUncertaintyBadge({
+  rd,
+  showDeviation = false,
+}: RatingUncertaintyBadgeProps) {
+  if (!isRatingUncertain(rd)) return null;
+
+  const deviation = Math.round(typeof rd === "string" ? parseFloat(rd) : rd!);
+
+  return (
+    <View className="flex-row items-center px-2 py-0.5 rounded-full bg-amber-100 dark:bg-amber-900/30">
+      <Ionicons name="help-circle-outline" size={12} color="#d97706" />
+      <Text className="text-[10px] font-medium text-amber-700 dark:text-amber-400 ml-1">
+        {showDeviation ? `Uncertain ±${deviation}` : "Uncertain"}
+      </Text>
+    </View>
+  );
+}
@@ -0,0 +1,48 @@
+import React from "react";
+import { View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+
+import { Text } from "@/components/ui/text";
+import { RATING_WEIGHTS } from "@/constants/rating";
+import { formatRatingWeight, getRatingWeight } from "@/lib/rating-weight";
+
+interface RatingWeightBadgeProps {
+  weight?: string | null;
+  // The player's rating change from the match, when it has been rated
+  ratingChange?: number | null;
+}
+
+/**
+ * Shows whether a match counted towards ratings and by how much
+ */
+export function RatingWeightBadge({
+  weight,
+  ratingChange,
+}: RatingWeightBadgeProps) {
+  const ratingWeight = getRatingWeight(weight);
+  const label = RATING_WEIGHTS.find(
+    (option) => option.id === ratingWeight,
+  )?.label;
+  const isFriendly = ratingWeight === "friendly";
+  const hasChange =
+    !isFriendly && ratingChange !== undefined && ratingChange !== null;
+
+  return (
+    <View
+      className={`flex-row items-center px-2 py-0.5 rounded-full ${isFriendly ? "bg-gray-100 dark:bg-gray-700" : "bg-primary/10"}`}
+    >
+      <Ionicons
+        name={isFriendly ? "happy-outline" : "stats-chart-outline"}
+        size={12}
+        color={isFriendly ? "#6b7280" : "#2148ce"}
+      />
+      <Text
+        className={`text-[10px] font-medium ml-1 ${isFriendly ? "text-gray-600 dark:text-gray-300" : "text-primary"}`}
+      >
+        {label} · {formatRatingWeight(ratingWeight)}
+        {hasChange &&
+          ` · ${ratingChange >= 0 ? "+" : "−"}${Math.abs(Math.round(ratingChange))}`}
+      </Text>
+    </View>
+  );
+}
@@ -0,0 +1,56 @@
+import React from "react";
+import { TouchableOpacity, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+
+import { Text } from "@/components/ui/text";
+import { MatchRatingWeight, RATING_WEIGHTS } from "@/constants/rating";
+import { formatRatingWeight } from "@/lib/rating-weight";
+
+interface RatingWeightSelectorProps {
+  value: MatchRatingWeight;
+  onChange: (weight: MatchRatingWeight) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Pick how much a match counts towards ratings
+ */
+export function RatingWeightSelector({
+  value,
+  onChange,
+  disabled = false,
+}: RatingWeightSelectorProps) {
+  return (
+    <View className="gap-2">
+      {RATING_WEIGHTS.map((option) => {
+        const selected = option.id === value;
+
+        return (
+          <TouchableOpacity
+            key={option.id}
+            disabled={disabled}
+            onPress={() => onChange(option.id)}
+            className={`flex-row items-center p-3 rounded-lg border ${selected ? "border-primary bg-primary/10" : "border-border"} ${disabled ? "opacity-50" : ""}`}
+          >
+            <Ionicons
+              name={selected ? "radio-button-on" : "radio-button-off"}
+              size={18}
+              color={selected ? "#2148ce" : "#9ca3af"}
+            />
+            <View className="flex-1 ml-3">
+              <Text className="text-sm font-medium">{option.label}</Text>
+              <Text className="text-xs text-muted-foreground">
+                {option.description}
+              </Text>
+            </View>
+            <Text
+              className={`text-xs font-medium ${selected ? "text-primary" : "text-muted-foreground"}`}
+            >
+              {formatRatingWeight(option.id)}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
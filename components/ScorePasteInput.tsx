@@ -0,0 +1,113 @@
+import React, { useState } from "react";
+import { TextInput, TouchableOpacity, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+
+import { Text } from "@/components/ui/text";
+import { Button } from "@/components/ui/button";
+import { ScoringRules } from "@/constants/scoring";
+import { formatSetScore } from "@/lib/padel-scoring";
+import { ParsedScore, parseScore } from "@/lib/score-parser";
+
+interface ScorePasteInputProps {
+  rules: ScoringRules;
+  onApply: (score: ParsedScore) => void;
+  // Walkovers can only be applied where the match can end without sets
+  allowWalkover?: boolean;
+}
+
+/**
+ * Type or paste the whole score as text instead of filling in each set
+ */
+export function ScorePasteInput({
+  rules,
+  onApply,
+  allowWalkover = false,
+}: ScorePasteInputProps) {
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState("");
+
+  const parsed = text.trim() ? parseScore(text, rules) : null;
+  const errors =
+    parsed?.walkover && !allowWalkover
+      ? ["A walkover has no set scores to enter here"]
+      : (parsed?.errors ?? []);
+  const canApply = !!parsed && parsed.isValid && errors.length === 0;
+
+  const apply = () => {
+    if (!parsed || !canApply) return;
+    onApply(parsed);
+    setText("");
+    setOpen(false);
+  };
+
+  if (!open) {
+    return (
+      <TouchableOpacity
+        className="flex-row items-center py-2"
+        onPress={() => setOpen(true)}
+      >
+        <Ionicons name="clipboard-outline" size={18} color="#2148ce" />
+        <Text className="ml-2 text-sm font-medium text-primary">
+          Paste score
+        </Text>
+      </TouchableOpacity>
+    );
+  }
+
+  return (
+    <View className="p-3 mb-4 rounded-xl border border-gray-200 dark:border-gray-700">
+      <Text className="text-sm text-muted-foreground mb-2">
+        Team 1 first, e.g. 6-4 3-6 10-8 (any dash), 6/4 7/6(5) or 64 46 [10-7]
+      </Text>
+      <TextInput
+        className="border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 text-base text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-800"
+        placeholder="6-4 3-6 10-8"
+        placeholderTextColor="#9ca3af"
+        value={text}
+        onChangeText={setText}
+        autoCapitalize="none"
+        autoCorrect={false}
+        autoFocus
+        onSubmitEditing={apply}
+      />
+
+      {parsed && canApply && !parsed.walkover && (
+        <Text className="text-sm text-green-600 mt-2">
+          {parsed.sets
+            .map((set, index) =>
+              formatSetScore(
+                set,
+                parsed.superTiebreak && index === parsed.sets.length - 1,
+              ),
+            )
+            .join(" ")}{" "}
+          · Team {parsed.winnerTeam} wins
+        </Text>
+      )}
+      {parsed?.walkover && canApply && (
+        <Text className="text-sm text-green-600 mt-2">Walkover</Text>
+      )}
+      {errors.map((error) => (
+        <Text key={error} className="text-sm text-red-500 mt-2">
+          {error}
+        </Text>
+      ))}
+
+      <View className="flex-row gap-3 mt-3">
+        <Button
+          variant="outline"
+          className="flex-1"
+          onPress={() => {
+            setText("");
+            setOpen(false);
+          }}
+        >
+          <Text>Cancel</Text>
+        </Button>
+        <Button className="flex-1" onPress={apply} disabled={!canApply}>
+          <Text className="text-white font-medium">Use Score</Text>
+        </Button>
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,70 @@
+import React from "react";
+import { View } from "react-native";
+
+import { Text } from "@/components/ui/text";
+import { SHOT_OUTCOMES } from "@/constants/shot-stats";
+import { ShotStats, getWinnerRate } from "@/lib/shot-stats";
+
+interface ShotStatsSummaryProps {
+  stats: ShotStats;
+  // List every outcome under the totals
+  detailed?: boolean;
+}
+
+/**
+ * Winners and errors of the points tagged to a player
+ */
+export function ShotStatsSummary({
+  stats,
+  detailed = false,
+}: ShotStatsSummaryProps) {
+  if (stats.tagged === 0) return null;
+
+  return (
+    <View>
+      <View className="flex-row justify-around">
+        <View className="items-center">
+          <Text className="text-base font-bold text-green-500">
+            {stats.winners}
+          </Text>
+          <Text className="text-xs text-muted-foreground">Winners</Text>
+        </View>
+        <View className="items-center">
+          <Text className="text-base font-bold text-red-500">
+            {stats.errors}
+          </Text>
+          <Text className="text-xs text-muted-foreground">Errors</Text>
+        </View>
+        <View className="items-center">
+          <Text className="text-base font-bold">
+            {stats.counts.unforced_error}
+          </Text>
+          <Text className="text-xs text-muted-foreground">Unforced</Text>
+        </View>
+        <View className="items-center">
+          <Text className="text-base font-bold">{getWinnerRate(stats)}%</Text>
+          <Text className="text-xs text-muted-foreground">Winner Rate</Text>
+        </View>
+      </View>
+
+      {detailed && (
+        <View className="flex-row flex-wrap gap-2 mt-3">
+          {SHOT_OUTCOMES.filter(({ id }) => stats.counts[id] > 0).map(
+            (outcome) => (
+              <View
+                key={outcome.id}
+                className={`px-2 py-0.5 rounded-full ${outcome.wonPoint ? "bg-green-100 dark:bg-green-900/30" : "bg-red-100 dark:bg-red-900/30"}`}
+              >
+                <Text
+                  className={`text-xs ${outcome.wonPoint ? "text-green-700 dark:text-green-300" : "text-red-700 dark:text-red-300"}`}
+                >
+                  {outcome.label} {stats.counts[outcome.id]}
+                </Text>
+              </View>
+            ),
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
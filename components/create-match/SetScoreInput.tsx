@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import {
   View,
   TextInput,
@@ -9,44 +9,24 @@ import {
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 
+import { TiebreakInput } from "@/components/create-match/TiebreakInput";
 import { Text } from "@/components/ui/text";
+import { CLASSIC_SCORING_RULES, ScoringRules } from "@/constants/scoring";
+import {
+  SetScore,
+  getValidSetScores,
+  validateSet,
+  validateSuperTiebreak,
+} from "@/lib/padel-scoring";
 import { useColorScheme } from "@/lib/useColorScheme";
 
-// Valid padel set scores
-const VALID_SCORES = [
-  { team1: 6, team2: 0 },
-  { team1: 6, team2: 1 },
-  { team1: 6, team2: 2 },
-  { team1: 6, team2: 3 },
-  { team1: 6, team2: 4 },
-  { team1: 7, team2: 5 },
-  { team1: 7, team2: 6 },
-  { team1: 0, team2: 6 },
-  { team1: 1, team2: 6 },
-  { team1: 2, team2: 6 },
-  { team1: 3, team2: 6 },
-  { team1: 4, team2: 6 },
-  { team1: 5, team2: 7 },
-  { team1: 6, team2: 7 },
-];
-
-// Helper to check if a score is valid in padel
-const isValidScore = (team1: number, team2: number): boolean => {
-  return VALID_SCORES.some(
-    (score) => score.team1 === team1 && score.team2 === team2,
-  );
-};
-
-export interface SetScore {
-  team1: number;
-  team2: number;
-}
+export type { SetScore } from "@/lib/padel-scoring";
 
 interface SetScoreInputProps {
   setNumber: number;
   value: SetScore;
   onChange: (score: SetScore) => void;
-  onValidate: (isValid: boolean) => void;
+  onValidate?: (isValid: boolean) => void;
   team1Ref?: React.RefObject<TextInput>;
   team2Ref?: React.RefObject<TextInput>;
   onTeam1Change?: (text: string) => void;
@@ -57,6 +37,9 @@ interface SetScoreInputProps {
   nextSetTeam2Ref?: React.RefObject<TextInput>;
   // Auto-jump behavior control
   enableAutoJump?: boolean;
+  rules?: ScoringRules;
+  // The set is a super tiebreak entered as points, e.g. 10-8
+  superTiebreak?: boolean;
 }
 
 export function SetScoreInput({
@@ -72,9 +55,21 @@ export function SetScoreInput({
   nextSetTeam1Ref,
   nextSetTeam2Ref,
   enableAutoJump = true,
+  rules = CLASSIC_SCORING_RULES,
+  superTiebreak = false,
 }: SetScoreInputProps) {
   const { colorScheme } = useColorScheme();
   const isDark = colorScheme === "dark";
+  const validScores = superTiebreak ? [] : getValidSetScores(rules);
+  const maxLength = superTiebreak ? 2 : 1;
+
+  const validate = useCallback(
+    (set: SetScore) =>
+      superTiebreak
+        ? validateSuperTiebreak(set, rules)
+        : validateSet(set, rules),
+    [superTiebreak, rules],
+  );
 
   // FIXED: Helper function to convert score to display string
   const scoreToString = (score: number, hasBeenSet: boolean = false) => {
@@ -128,22 +123,27 @@ export function SetScoreInput({
     // Only validate if both inputs have values (including 0)
     if (team1Value === null || team2Value === null) {
       setIsValid(false);
-      onValidate(false);
+      onValidate?.(false);
       setErrorMessage("");
       setShowSuggestions(team1Input !== "" || team2Input !== "");
       return;
     }
 
-    // Check if this is a valid padel score
-    const valid = isValidScore(team1Value, team2Value);
+    // Check if this is a valid padel score, including any tiebreak points
+    const validation = validate({
+      team1: team1Value,
+      team2: team2Value,
+      tiebreak: value.tiebreak,
+    });
+    const valid = validation.isValid;
 
     setIsValid(valid);
-    onValidate(valid);
+    onValidate?.(valid);
     setShowSuggestions(false);
 
     // Set appropriate error message (more subtle)
     if (!valid && team1Input !== "" && team2Input !== "") {
-      setErrorMessage("Invalid padel score");
+      setErrorMessage(validation.error ?? "Invalid padel score");
     } else {
       setErrorMessage("");
     }
@@ -155,7 +155,14 @@ export function SetScoreInput({
         Keyboard.dismiss();
       }, 500);
     }
-  }, [team1Input, team2Input, onValidate, nextSetTeam1Ref]);
+  }, [
+    team1Input,
+    team2Input,
+    value.tiebreak,
+    validate,
+    onValidate,
+    nextSetTeam1Ref,
+  ]);
 
   const handleTeam1Change = (text: string) => {
     // Only allow numbers or empty
@@ -165,13 +172,13 @@ export function SetScoreInput({
 
       // FIXED: Update parent with proper value
       const numValue = text === "" ? 0 : parseInt(text);
-      onChange({ ...value, team1: numValue });
+      onChange({ ...value, team1: numValue, tiebreak: null });
 
       // Auto-jump to team2 input if a valid digit is entered
       if (
         enableAutoJump &&
-        text.length === 1 &&
-        /^\d$/.test(text) &&
+        text.length === maxLength &&
+        /^\d+$/.test(text) &&
         team2Ref?.current
       ) {
         setTimeout(() => {
@@ -194,16 +201,19 @@ export function SetScoreInput({
 
       // FIXED: Update parent with proper value
       const numValue = text === "" ? 0 : parseInt(text);
-      onChange({ ...value, team2: numValue });
+      onChange({ ...value, team2: numValue, tiebreak: null });
 
       // AUTO-JUMP: Auto-jump to next set if current set is complete and valid
-      if (enableAutoJump && text.length === 1 && /^\d$/.test(text)) {
+      if (enableAutoJump && text.length === maxLength) {
         // FIXED: Get actual numeric values for validation
         const team1Value = team1Input === "" ? null : parseInt(team1Input);
         const team2Value = numValue;
 
         // Check if this creates a valid score (both values must be set)
-        if (team1Value !== null && isValidScore(team1Value, team2Value)) {
+        if (
+          team1Value !== null &&
+          validate({ team1: team1Value, team2: team2Value }).isValid
+        ) {
           // If there's a next set, jump to it
           if (nextSetTeam1Ref?.current) {
             setTimeout(() => {
@@ -256,11 +266,11 @@ export function SetScoreInput({
     // Determine which team's score we're trying to match
     const team1Matches =
       team1Value !== null
-        ? VALID_SCORES.filter((score) => score.team1 === team1Value)
+        ? validScores.filter((score) => score.team1 === team1Value)
         : [];
     const team2Matches =
       team2Value !== null
-        ? VALID_SCORES.filter((score) => score.team2 === team2Value)
+        ? validScores.filter((score) => score.team2 === team2Value)
         : [];
 
     // If team1 score is valid with some team2 score, suggest those
@@ -283,6 +293,13 @@ export function SetScoreInput({
       };
     }
 
+    if (superTiebreak) {
+      return {
+        title: "Common super tiebreak scores:",
+        suggestions: ["10-8", "10-6", "8-10", "6-10"],
+      };
+    }
+
     // Default suggestions
     return {
       title: "Common set scores:",
@@ -300,7 +317,7 @@ export function SetScoreInput({
     setTeam2Input(team2.toString());
     setTeam1HasBeenSet(true); // Mark both as explicitly set
     setTeam2HasBeenSet(true);
-    onChange({ team1, team2 });
+    onChange({ team1, team2, tiebreak: null });
     setShowSuggestions(false);
 
     // If auto-jump is enabled and there's a next set, jump to it
@@ -333,7 +350,9 @@ export function SetScoreInput({
   return (
     <View className="mb-6">
       <View className="flex-row items-center justify-between mb-3">
-        <Text className="font-semibold text-lg">Set {setNumber}</Text>
+        <Text className="font-semibold text-lg">
+          {superTiebreak ? "Super Tiebreak" : `Set ${setNumber}`}
+        </Text>
         {isValid && (
           <View className="flex-row items-center">
             <Ionicons name="checkmark-circle" size={18} color="#10b981" />
@@ -357,7 +376,7 @@ export function SetScoreInput({
             onChangeText={handleTeam1Change}
             onKeyPress={handleTeam1KeyPress}
             keyboardType="number-pad"
-            maxLength={1}
+            maxLength={maxLength}
             selectTextOnFocus
             placeholderTextColor={isDark ? "#6b7280" : "#9ca3af"}
             placeholder="0"
@@ -390,7 +409,7 @@ export function SetScoreInput({
             onChangeText={handleTeam2Change}
             onKeyPress={handleTeam2KeyPress}
             keyboardType="number-pad"
-            maxLength={1}
+            maxLength={maxLength}
             selectTextOnFocus
             placeholderTextColor={isDark ? "#6b7280" : "#9ca3af"}
             placeholder="0"
@@ -405,6 +424,18 @@ export function SetScoreInput({
         </View>
       </View>
 
+      {/* Tiebreak points for a 7-6 set */}
+      {!superTiebreak &&
+        validateSet({ team1: value.team1, team2: value.team2 }, rules)
+          .isTiebreakSet && (
+          <TiebreakInput
+            setNumber={setNumber}
+            value={value.tiebreak}
+            target={rules.tiebreakPoints}
+            onChange={(tiebreak) => onChange({ ...value, tiebreak })}
+          />
+        )}
+
       {/* Subtle Error Message */}
       {errorMessage && (
         <View className="mt-3 p-2 rounded-lg bg-red-50/50 dark:bg-red-900/10 border border-red-200/50 dark:border-red-800/30">
@@ -0,0 +1,116 @@
+import React, { useState } from "react";
+import { View, TextInput, TouchableOpacity } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+
+import { Text } from "@/components/ui/text";
+import { TiebreakScore, isValidTiebreak } from "@/lib/padel-scoring";
+
+interface TiebreakInputProps {
+  setNumber: number;
+  value: TiebreakScore | null | undefined;
+  onChange: (tiebreak: TiebreakScore | null) => void;
+  // Points needed to win the tiebreak
+  target: number;
+}
+
+interface SuperTiebreakToggleProps {
+  value: boolean;
+  onChange: (value: boolean) => void;
+}
+
+/**
+ * Switch the deciding set to a super tiebreak entered as points
+ */
+export function SuperTiebreakToggle({
+  value,
+  onChange,
+}: SuperTiebreakToggleProps) {
+  return (
+    <TouchableOpacity
+      className="flex-row items-center py-2"
+      onPress={() => onChange(!value)}
+      activeOpacity={0.7}
+    >
+      <Ionicons
+        name={value ? "checkbox" : "square-outline"}
+        size={20}
+        color={value ? "#2148ce" : "#9ca3af"}
+      />
+      <Text className="ml-2 text-sm text-gray-700 dark:text-gray-300">
+        Deciding set played as a super tiebreak
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+/**
+ * Optional points entry for a set decided by a tiebreak, e.g. 7-5 in a 7-6 set
+ */
+export function TiebreakInput({
+  setNumber,
+  value,
+  onChange,
+  target,
+}: TiebreakInputProps) {
+  const [team1Input, setTeam1Input] = useState(
+    value ? value.team1.toString() : "",
+  );
+  const [team2Input, setTeam2Input] = useState(
+    value ? value.team2.toString() : "",
+  );
+
+  const update = (team1: string, team2: string) => {
+    setTeam1Input(team1);
+    setTeam2Input(team2);
+    onChange(
+      team1 === "" || team2 === ""
+        ? null
+        : { team1: parseInt(team1), team2: parseInt(team2) },
+    );
+  };
+
+  const isComplete = team1Input !== "" && team2Input !== "";
+  const isValid =
+    isComplete &&
+    isValidTiebreak(
+      { team1: parseInt(team1Input), team2: parseInt(team2Input) },
+      target,
+    );
+
+  const inputStyling = !isComplete
+    ? "border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800"
+    : isValid
+      ? "border-green-500 bg-green-50 dark:bg-green-900/20"
+      : "border-red-300 bg-red-50/50 dark:bg-red-900/10";
+
+  return (
+    <View className="flex-row items-center justify-center mt-3">
+      <Text className="text-sm text-gray-600 dark:text-gray-400 mr-3">
+        Set {setNumber} tiebreak
+      </Text>
+      <TextInput
+        className={`w-12 h-10 border rounded-lg text-center font-semibold text-gray-900 dark:text-gray-100 ${inputStyling}`}
+        value={team1Input}
+        onChangeText={(text) => {
+          if (/^\d*$/.test(text)) update(text, team2Input);
+        }}
+        keyboardType="number-pad"
+        maxLength={2}
+        placeholder="-"
+        placeholderTextColor="#9ca3af"
+      />
+      <Text className="mx-2 text-gray-400">-</Text>
+      <TextInput
+        className={`w-12 h-10 border rounded-lg text-center font-semibold text-gray-900 dark:text-gray-100 ${inputStyling}`}
+        value={team2Input}
+        onChangeText={(text) => {
+          if (/^\d*$/.test(text)) update(team1Input, text);
+        }}
+        keyboardType="number-pad"
+        maxLength={2}
+        placeholder="-"
+        placeholderTextColor="#9ca3af"
+      />
+    </View>
+  );
+}
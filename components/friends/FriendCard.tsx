@@ -4,6 +4,8 @@ import { Ionicons } from "@expo/vector-icons";
 import { router } from "expo-router";
 
 import { Text } from "@/components/ui/text";
+import { formatRating, isProvisionalRating } from "@/lib/glicko";
+import { resolveRatingTier } from "@/lib/rating-tiers";
 import { Friend } from "@/types";
 
 interface FriendCardProps {
@@ -81,21 +83,17 @@ export function FriendCard({
     );
   };
 
-  const getRatingColor = (rating: number) => {
-    if (rating >= 1800) return "#10b981"; // green
-    if (rating >= 1600) return "#f59e0b"; // amber
-    if (rating >= 1400) return "#3b82f6"; // blue
-    return "#6b7280"; // gray
-  };
+  const displayRating = friend.glicko_rating || 1500;
 
-  const getRatingBadge = (rating: number) => {
-    if (rating >= 1800) return "Expert";
-    if (rating >= 1600) return "Advanced";
-    if (rating >= 1400) return "Intermediate";
-    return "Beginner";
-  };
+  // Tier held by the player, with demotion hysteresis applied
+  const tier = resolveRatingTier(displayRating, friend.rating_tier);
+  const ratingColor = tier?.color ?? "#6b7280";
 
-  const displayRating = friend.glicko_rating || 1500;
+  // Placement players only get flagged when their RD was loaded
+  const isProvisional =
+    friend.glicko_rd !== undefined &&
+    friend.glicko_rd !== null &&
+    isProvisionalRating(friend.glicko_rd);
 
   return (
     <TouchableOpacity
@@ -158,20 +156,17 @@ export function FriendCard({
           <View className="items-end mr-2">
             <View
               className="px-2 py-1 rounded-lg"
-              style={{ backgroundColor: getRatingColor(displayRating) + "15" }}
+              style={{ backgroundColor: ratingColor + "15" }}
             >
               <Text
                 className="text-sm font-bold"
-                style={{ color: getRatingColor(displayRating) }}
+                style={{ color: ratingColor }}
               >
-                {displayRating.toFixed(0)}
+                {formatRating(displayRating, isProvisional)}
               </Text>
             </View>
-            <Text
-              className="text-xs mt-0.5"
-              style={{ color: getRatingColor(displayRating) }}
-            >
-              {getRatingBadge(displayRating)}
+            <Text className="text-xs mt-0.5" style={{ color: ratingColor }}>
+              {tier?.division.name ?? "Unrated"}
             </Text>
           </View>
         )}
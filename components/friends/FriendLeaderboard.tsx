@@ -5,6 +5,7 @@ import { router } from "expo-router";
 
 import { Text } from "@/components/ui/text";
 import { Friend } from "@/types";
+import { formatRating, isProvisionalRating } from "@/lib/glicko";
 
 interface FriendLeaderboardProps {
   friends: Friend[];
@@ -147,11 +148,11 @@ export function FriendLeaderboard({ friends, userId }: FriendLeaderboardProps) {
       );
     };
 
-    // Format rating to show only full numbers (no decimals)
-    const formatRating = (rating: number | null) => {
-      if (!rating) return "1500";
-      return Math.round(rating).toString();
-    };
+    // Placement players only get flagged when their RD was loaded
+    const isProvisional =
+      user.glicko_rd !== undefined &&
+      user.glicko_rd !== null &&
+      isProvisionalRating(user.glicko_rd);
 
     return (
       <TouchableOpacity
@@ -204,7 +205,7 @@ export function FriendLeaderboard({ friends, userId }: FriendLeaderboardProps) {
               style={{ marginRight: 6 }}
             />
             <Text className="text-lg font-bold text-primary">
-              {formatRating(user.glicko_rating)}
+              {formatRating(user.glicko_rating, isProvisional)}
             </Text>
           </View>
           <Text className="text-xs text-muted-foreground mt-1">Rating</Text>
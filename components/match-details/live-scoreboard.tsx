@@ -0,0 +1,116 @@
+import React from "react";
+import { View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { Text } from "@/components/ui/text";
+import {
+  LiveScoreState,
+  LiveTeam,
+  PlayerSlot,
+  getLiveResult,
+  getPointLabels,
+  getServer,
+  getSlotTeam,
+} from "@/lib/live-scoring";
+import { formatSetScore } from "@/lib/padel-scoring";
+
+interface ScoreboardPlayer {
+  full_name: string | null;
+  email: string;
+}
+
+interface LiveScoreboardProps {
+  state: LiveScoreState;
+  players: Record<PlayerSlot, ScoreboardPlayer>;
+}
+
+export const shortName = (player: ScoreboardPlayer) =>
+  player.full_name?.split(" ")[0] || player.email.split("@")[0];
+
+/**
+ * Set history, games and points of a live scored match, with the serving
+ * team marked
+ */
+const LiveScoreboard: React.FC<LiveScoreboardProps> = ({ state, players }) => {
+  const renderTeamRow = (team: LiveTeam) => {
+    const teamKey = team === 1 ? "team1" : "team2";
+    const labels = getPointLabels(state);
+    const serving = getSlotTeam(getServer(state)) === team && !state.winnerTeam;
+    const names =
+      team === 1
+        ? `${shortName(players[1])} & ${shortName(players[2])}`
+        : `${shortName(players[3])} & ${shortName(players[4])}`;
+
+    return (
+      <View className="flex-row items-center py-2">
+        <View className="flex-1 flex-row items-center">
+          {serving && (
+            <Ionicons
+              name="tennisball"
+              size={12}
+              color="#ca8a04"
+              style={{ marginRight: 4 }}
+            />
+          )}
+          <Text
+            className={`text-sm ${state.winnerTeam === team ? "font-bold" : ""} text-gray-900 dark:text-gray-100`}
+            numberOfLines={1}
+          >
+            {names}
+          </Text>
+        </View>
+        {state.sets.map((set, index) => (
+          <Text
+            key={index}
+            className="w-8 text-center text-base text-gray-500 dark:text-gray-400"
+          >
+            {set[teamKey]}
+          </Text>
+        ))}
+        {!state.winnerTeam && (
+          <>
+            {state.tiebreak !== "super" && (
+              <Text className="w-8 text-center text-base font-semibold text-gray-900 dark:text-gray-100">
+                {state.games[teamKey]}
+              </Text>
+            )}
+            <View className="w-12 items-center rounded-md bg-primary/10 py-1 ml-1">
+              <Text className="text-base font-bold text-primary">
+                {labels[teamKey]}
+              </Text>
+            </View>
+          </>
+        )}
+      </View>
+    );
+  };
+
+  const result = getLiveResult(state);
+  const status = state.winnerTeam
+    ? `Team ${state.winnerTeam} wins ${state.sets
+        .map((set, index) =>
+          formatSetScore(
+            set,
+            result.superTiebreak && index === state.sets.length - 1,
+          ),
+        )
+        .join(" ")}`
+    : getPointLabels(state).status;
+
+  return (
+    <>
+      <View className="mb-3 rounded-lg border border-gray-200 dark:border-gray-700 px-3">
+        {renderTeamRow(1)}
+        <View className="h-px bg-gray-200 dark:bg-gray-700" />
+        {renderTeamRow(2)}
+      </View>
+
+      {status && (
+        <Text className="text-sm font-medium text-center text-primary mb-3">
+          {status}
+        </Text>
+      )}
+    </>
+  );
+};
+
+export default LiveScoreboard;
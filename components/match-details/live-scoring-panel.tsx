@@ -0,0 +1,420 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { ActivityIndicator, Alert, TouchableOpacity, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { Text } from "@/components/ui/text";
+import { Button } from "@/components/ui/button";
+import PadelCourt from "@/components/match-details/padel-court";
+import LiveScoreboard, {
+  shortName,
+} from "@/components/match-details/live-scoreboard";
+import { SuperTiebreakToggle } from "@/components/create-match/TiebreakInput";
+import { SHOT_OUTCOMES, ShotOutcome } from "@/constants/shot-stats";
+import {
+  LiveScoreState,
+  LiveTeam,
+  PlayerSlot,
+  getServer,
+} from "@/lib/live-scoring";
+import { getMatchEnding } from "@/lib/match-ending";
+import { MatchEventProjection, projectMatchEvents } from "@/lib/match-events";
+import { getTaggedPointTeam } from "@/lib/shot-stats";
+import {
+  StoredMatchFormat,
+  allowsSuperTiebreak,
+  formatMatchFormat,
+  getMatchFormat,
+} from "@/lib/match-format";
+import {
+  LiveScoredMatch,
+  LiveScoringService,
+} from "@/services/live-scoring.service";
+import {
+  MatchEventResult,
+  MatchEventService,
+} from "@/services/match-event.service";
+
+interface LivePlayer {
+  id: string;
+  full_name: string | null;
+  email: string;
+  glicko_rating: string | null;
+  avatar_url: string | null;
+}
+
+interface LiveScoringPanelProps {
+  match: LiveScoredMatch &
+    StoredMatchFormat & {
+      player1: LivePlayer;
+      player2: LivePlayer;
+      player3: LivePlayer;
+      player4: LivePlayer;
+    };
+  userId: string;
+  // Called once the result has been saved for confirmation
+  onFinished: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Point-by-point scoring on the court view. One device taps the side that
+ * won each point and the final set scores go into the confirmation flow.
+ * Every tap is appended to the match event log, so scoring can be resumed
+ * after closing the panel.
+ */
+const LiveScoringPanel: React.FC<LiveScoringPanelProps> = ({
+  match,
+  userId,
+  onFinished,
+  onClose,
+}) => {
+  // Stable between renders, so the events only reload for another match
+  const format = useMemo(
+    () =>
+      getMatchFormat({
+        match_format: match.match_format,
+        deuce_rule: match.deuce_rule,
+      }),
+    [match.match_format, match.deuce_rule],
+  );
+  const players: Record<PlayerSlot, LivePlayer> = {
+    1: match.player1,
+    2: match.player2,
+    3: match.player3,
+    4: match.player4,
+  };
+
+  const [firstServer, setFirstServer] = useState<PlayerSlot>(1);
+  const [superTiebreakDecider, setSuperTiebreakDecider] = useState(false);
+  const [projection, setProjection] = useState<MatchEventProjection | null>(
+    null,
+  );
+  const [loading, setLoading] = useState(true);
+  // An event is being written, taps wait for it so none arrive out of order
+  const [pending, setPending] = useState(false);
+  const [saving, setSaving] = useState(false);
+  // Stats tracking: tap the player who ended the point, then how
+  const [trackShots, setTrackShots] = useState(false);
+  const [taggedSlot, setTaggedSlot] = useState<PlayerSlot | null>(null);
+  const [choosingEnding, setChoosingEnding] = useState(false);
+
+  const state = projection?.live ?? null;
+
+  useEffect(() => {
+    // Pick up a run started earlier, on this device or another
+    MatchEventService.getEvents(match.id)
+      .then((events) => setProjection(projectMatchEvents(events, format)))
+      .catch(() => Alert.alert("Error", "Failed to load the points scored"))
+      .finally(() => setLoading(false));
+  }, [match.id, format]);
+
+  const record = async (action: () => Promise<MatchEventResult>) => {
+    if (pending) return;
+
+    setPending(true);
+    const result = await action();
+    setPending(false);
+
+    if (!result.success) {
+      Alert.alert("Error", result.message);
+      return;
+    }
+    if (result.projection) setProjection(result.projection);
+  };
+
+  const startScoring = () =>
+    record(() =>
+      MatchEventService.startLiveScoring(
+        match.id,
+        format,
+        firstServer,
+        superTiebreakDecider,
+        userId,
+      ),
+    );
+
+  const awardPoint = (team: LiveTeam) => {
+    if (!state || state.winnerTeam) return;
+    record(() => MatchEventService.recordPoint(match.id, team, userId));
+  };
+
+  const tagPoint = (outcome: ShotOutcome) => {
+    if (!state || state.winnerTeam || !taggedSlot) return;
+
+    const shot = { slot: taggedSlot, outcome };
+    setTaggedSlot(null);
+    record(() =>
+      MatchEventService.recordPoint(
+        match.id,
+        getTaggedPointTeam(shot),
+        userId,
+        shot,
+      ),
+    );
+  };
+
+  const callTimeout = (team: LiveTeam) =>
+    record(() => MatchEventService.recordTimeout(match.id, team, userId));
+
+  const undo = () => record(() => MatchEventService.undo(match.id, userId));
+
+  const redo = () => record(() => MatchEventService.redo(match.id, userId));
+
+  // A retiring team hands the match to the other team
+  const endEarly = (retiredTeam: LiveTeam | null) => {
+    setChoosingEnding(false);
+    record(() =>
+      retiredTeam
+        ? MatchEventService.endLiveScoring(
+            match.id,
+            "retired",
+            retiredTeam === 1 ? 2 : 1,
+            userId,
+          )
+        : MatchEventService.endLiveScoring(match.id, "abandoned", null, userId),
+    );
+  };
+
+  const saveResult = async () => {
+    if (!state) return;
+
+    setSaving(true);
+    const result = await LiveScoringService.finishMatch(match, userId);
+    setSaving(false);
+
+    if (!result.success) {
+      Alert.alert("Error", result.message);
+      return;
+    }
+
+    Alert.alert("Match Completed!", result.message);
+    onFinished();
+  };
+
+  const renderSetup = () => (
+    <>
+      <PadelCourt
+        player1={match.player1}
+        player2={match.player2}
+        player3={match.player3}
+        player4={match.player4}
+        server={firstServer}
+        onPlayerPress={setFirstServer}
+      />
+      <Text className="text-sm text-gray-600 dark:text-gray-300 mb-3 text-center">
+        Tap the player serving first: {shortName(players[firstServer])}
+      </Text>
+      {allowsSuperTiebreak(format) && (
+        <SuperTiebreakToggle
+          value={superTiebreakDecider}
+          onChange={setSuperTiebreakDecider}
+        />
+      )}
+      <Button onPress={startScoring} className="w-full mt-3" disabled={pending}>
+        <Text className="text-white font-medium">Start Scoring</Text>
+      </Button>
+    </>
+  );
+
+  const renderLive = (live: LiveScoreState) => {
+    const endReason = projection?.endReason ?? "completed";
+    const winnerTeam = projection?.winnerTeam || 0;
+    const isOver = !!live.winnerTeam || endReason !== "completed";
+
+    return (
+      <>
+        <LiveScoreboard state={live} players={players} />
+
+        {endReason !== "completed" && (
+          <Text className="text-sm font-medium text-center text-primary mb-3">
+            {winnerTeam
+              ? `${getMatchEnding(endReason).label}, Team ${winnerTeam} wins`
+              : getMatchEnding(endReason).label}
+          </Text>
+        )}
+
+        <PadelCourt
+          player1={match.player1}
+          player2={match.player2}
+          player3={match.player3}
+          player4={match.player4}
+          highlightTeam={winnerTeam || undefined}
+          server={isOver ? null : getServer(live)}
+          onTeamPress={isOver || trackShots ? undefined : awardPoint}
+          onPlayerPress={!isOver && trackShots ? setTaggedSlot : undefined}
+        />
+
+        {!isOver && (
+          <TouchableOpacity
+            className="flex-row items-center py-2 mb-2"
+            onPress={() => {
+              setTrackShots(!trackShots);
+              setTaggedSlot(null);
+            }}
+            activeOpacity={0.7}
+          >
+            <Ionicons
+              name={trackShots ? "checkbox" : "square-outline"}
+              size={20}
+              color={trackShots ? "#2148ce" : "#9ca3af"}
+            />
+            <Text className="ml-2 text-sm text-gray-700 dark:text-gray-300">
+              Track shots and errors
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {!isOver && trackShots && (
+          <View className="mb-3">
+            <Text className="text-sm text-gray-600 dark:text-gray-300 mb-2">
+              {taggedSlot
+                ? `How did ${shortName(players[taggedSlot])} end the point?`
+                : "Tap the player who ended the point"}
+            </Text>
+            {taggedSlot && (
+              <View className="flex-row flex-wrap gap-2">
+                {SHOT_OUTCOMES.map((outcome) => (
+                  <TouchableOpacity
+                    key={outcome.id}
+                    onPress={() => tagPoint(outcome.id)}
+                    disabled={pending}
+                    className={`px-3 py-2 rounded-lg border ${outcome.wonPoint ? "border-green-500" : "border-red-500"}`}
+                  >
+                    <Text
+                      className={`text-sm ${outcome.wonPoint ? "text-green-700 dark:text-green-300" : "text-red-700 dark:text-red-300"}`}
+                    >
+                      {outcome.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+          </View>
+        )}
+
+        {!isOver && (
+          <View className="flex-row gap-3 mb-3">
+            {([1, 2] as const).map((team) => (
+              <View key={team} className="flex-1 gap-2">
+                <Button
+                  variant="outline"
+                  onPress={() => awardPoint(team)}
+                  disabled={pending}
+                >
+                  <Text>Point Team {team}</Text>
+                </Button>
+                <TouchableOpacity
+                  onPress={() => callTimeout(team)}
+                  disabled={pending}
+                  className="items-center py-1"
+                >
+                  <Text className="text-xs text-gray-500 dark:text-gray-400">
+                    Timeout (
+                    {projection?.timeouts[team === 1 ? "team1" : "team2"] ?? 0})
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {!isOver &&
+          (choosingEnding ? (
+            <View className="flex-row flex-wrap gap-2 mb-3">
+              {([1, 2] as const).map((team) => (
+                <Button
+                  key={team}
+                  variant="outline"
+                  size="sm"
+                  onPress={() => endEarly(team)}
+                  disabled={pending}
+                >
+                  <Text>Team {team} retired</Text>
+                </Button>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onPress={() => endEarly(null)}
+                disabled={pending}
+              >
+                <Text>Abandoned</Text>
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onPress={() => setChoosingEnding(false)}
+              >
+                <Text>Cancel</Text>
+              </Button>
+            </View>
+          ) : (
+            <TouchableOpacity
+              onPress={() => setChoosingEnding(true)}
+              disabled={pending}
+              className="items-center py-1 mb-3"
+            >
+              <Text className="text-xs text-gray-500 dark:text-gray-400">
+                End match early
+              </Text>
+            </TouchableOpacity>
+          ))}
+
+        <View className="flex-row gap-3">
+          <Button
+            variant="outline"
+            className="flex-1"
+            onPress={undo}
+            disabled={!projection?.canUndo || pending || saving}
+          >
+            <Text>Undo</Text>
+          </Button>
+          <Button
+            variant="outline"
+            className="flex-1"
+            onPress={redo}
+            disabled={!projection?.canRedo || pending || saving}
+          >
+            <Text>Redo</Text>
+          </Button>
+          {isOver ? (
+            <Button className="flex-1" onPress={saveResult} disabled={saving}>
+              {saving ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text className="text-white font-medium">Save Result</Text>
+              )}
+            </Button>
+          ) : null}
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <View className="bg-white dark:bg-gray-800 rounded-xl p-4 mb-6 border border-gray-200 dark:border-gray-700">
+      <View className="flex-row items-center justify-between mb-3">
+        <View>
+          <Text className="text-base font-semibold text-gray-900 dark:text-gray-100">
+            Live Scoring
+          </Text>
+          <Text className="text-xs text-gray-500 dark:text-gray-400">
+            {formatMatchFormat(format)}
+          </Text>
+        </View>
+        <TouchableOpacity onPress={onClose} disabled={saving}>
+          <Ionicons name="close" size={22} color="#6b7280" />
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <ActivityIndicator size="small" color="#2148ce" />
+      ) : state ? (
+        renderLive(state)
+      ) : (
+        renderSetup()
+      )}
+    </View>
+  );
+};
+
+export default LiveScoringPanel;
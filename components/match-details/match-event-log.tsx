@@ -0,0 +1,108 @@
+import React, { useState } from "react";
+import { View, TouchableOpacity } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { format } from "date-fns";
+import { Text } from "@/components/ui/text";
+import {
+  MatchEvent,
+  describeMatchEvent,
+  getMatchTimeline,
+} from "@/lib/match-events";
+
+interface MatchEventLogProps {
+  events: MatchEvent[];
+  // Event a report of this match would point at
+  selectedSequence?: number | null;
+  onSelectEvent?: (event: MatchEvent | null) => void;
+}
+
+// Points are many, the log opens on the latest ones
+const COLLAPSED_COUNT = 8;
+
+const ICONS: Record<MatchEvent["type"], keyof typeof Ionicons.glyphMap> = {
+  match_started: "play-circle-outline",
+  point: "ellipse-outline",
+  game: "checkmark-circle-outline",
+  set: "trophy-outline",
+  timeout: "pause-circle-outline",
+  match_ended: "stop-circle-outline",
+  correction: "create-outline",
+  undo: "arrow-undo-outline",
+  redo: "arrow-redo-outline",
+};
+
+/**
+ * Everything recorded on the score, newest first. Tapping a point, game,
+ * set or correction picks it as the moment a report is about.
+ */
+const MatchEventLog: React.FC<MatchEventLogProps> = ({
+  events,
+  selectedSequence,
+  onSelectEvent,
+}) => {
+  const [expanded, setExpanded] = useState(false);
+
+  const timeline = getMatchTimeline(events).reverse();
+  if (timeline.length === 0) return null;
+
+  const shown = expanded ? timeline : timeline.slice(0, COLLAPSED_COUNT);
+
+  const isSelectable = (event: MatchEvent) =>
+    !!onSelectEvent &&
+    ["point", "game", "set", "correction"].includes(event.type);
+
+  return (
+    <View className="bg-white dark:bg-gray-800 rounded-xl p-4 mb-6 border border-gray-200 dark:border-gray-700">
+      <Text className="text-base font-semibold text-gray-900 dark:text-gray-100 mb-1">
+        Match Log
+      </Text>
+      {onSelectEvent && (
+        <Text className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+          Tap a moment to point a report at it
+        </Text>
+      )}
+
+      {shown.map((event) => {
+        const selected = event.sequence === selectedSequence;
+        const faded = event.type === "point" || event.type === "undo";
+
+        return (
+          <TouchableOpacity
+            key={event.sequence}
+            disabled={!isSelectable(event)}
+            onPress={() => onSelectEvent?.(selected ? null : event)}
+            className={`flex-row items-center py-1.5 px-2 rounded-md ${selected ? "bg-red-50 dark:bg-red-900/20" : ""}`}
+          >
+            <Ionicons
+              name={ICONS[event.type]}
+              size={14}
+              color={selected ? "#ef4444" : "#6b7280"}
+            />
+            <Text
+              className={`flex-1 ml-2 text-sm ${faded ? "text-gray-500 dark:text-gray-400" : "text-gray-900 dark:text-gray-100"}`}
+              numberOfLines={1}
+            >
+              {describeMatchEvent(event)}
+            </Text>
+            <Text className="text-xs text-gray-400">
+              {format(new Date(event.created_at), "HH:mm")}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+
+      {timeline.length > COLLAPSED_COUNT && (
+        <TouchableOpacity
+          onPress={() => setExpanded(!expanded)}
+          className="items-center pt-2"
+        >
+          <Text className="text-sm text-primary">
+            {expanded ? "Show less" : `Show all ${timeline.length}`}
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+export default MatchEventLog;
@@ -1,6 +1,8 @@
 import React from "react";
-import { View } from "react-native";
+import { TouchableOpacity, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
 import { Text } from "@/components/ui/text";
+import { LiveTeam, PlayerSlot } from "@/lib/live-scoring";
 
 interface PlayerDetail {
   id: string;
@@ -16,6 +18,12 @@ interface PadelCourtProps {
   player3: PlayerDetail;
   player4: PlayerDetail;
   highlightTeam?: 1 | 2; // To highlight the winning team
+  // Live scoring: the player serving gets a ball marker
+  server?: PlayerSlot | null;
+  // Live scoring: tapping a team's half awards it the point
+  onTeamPress?: (team: LiveTeam) => void;
+  // Live scoring setup: tapping a player picks them, e.g. as first server
+  onPlayerPress?: (slot: PlayerSlot) => void;
 }
 
 const PadelCourt: React.FC<PadelCourtProps> = ({
@@ -24,6 +32,9 @@ const PadelCourt: React.FC<PadelCourtProps> = ({
   player3,
   player4,
   highlightTeam,
+  server,
+  onTeamPress,
+  onPlayerPress,
 }) => {
   const getInitials = (player: PlayerDetail) => {
     if (player.full_name) {
@@ -40,6 +51,13 @@ const PadelCourt: React.FC<PadelCourtProps> = ({
     return player.email.split("@")[0];
   };
 
+  const renderServeBall = (slot: PlayerSlot) =>
+    server === slot ? (
+      <View className="absolute -top-1 -right-1 w-5 h-5 rounded-full bg-yellow-300 items-center justify-center border border-white">
+        <Ionicons name="tennisball" size={12} color="#365314" />
+      </View>
+    ) : null;
+
   return (
     <View className="w-full aspect-[1.4] mb-4">
       {/* Outer court border */}
@@ -72,6 +90,7 @@ const PadelCourt: React.FC<PadelCourtProps> = ({
           <Text className="text-lg font-bold text-white">
             {getInitials(player1)}
           </Text>
+          {renderServeBall(1)}
         </View>
         <View className="absolute top-[18%] left-[25%] items-center -ml-12">
           <Text className="text-xs font-medium" numberOfLines={1}>
@@ -88,6 +107,7 @@ const PadelCourt: React.FC<PadelCourtProps> = ({
           <Text className="text-lg font-bold text-white">
             {getInitials(player2)}
           </Text>
+          {renderServeBall(2)}
         </View>
         <View className="absolute top-[53%] left-[25%] items-center -ml-12">
           <Text className="text-xs font-medium" numberOfLines={1}>
@@ -104,6 +124,7 @@ const PadelCourt: React.FC<PadelCourtProps> = ({
           <Text className="text-lg font-bold text-white">
             {getInitials(player3)}
           </Text>
+          {renderServeBall(3)}
         </View>
         <View className="absolute top-[18%] left-[75%] items-center -ml-12">
           <Text className="text-xs font-medium" numberOfLines={1}>
@@ -120,6 +141,7 @@ const PadelCourt: React.FC<PadelCourtProps> = ({
           <Text className="text-lg font-bold text-white">
             {getInitials(player4)}
           </Text>
+          {renderServeBall(4)}
         </View>
         <View className="absolute top-[53%] left-[75%] items-center -ml-12">
           <Text className="text-xs font-medium" numberOfLines={1}>
@@ -127,6 +149,39 @@ const PadelCourt: React.FC<PadelCourtProps> = ({
           </Text>
         </View>
 
+        {/* Live scoring tap targets, one per half of the court */}
+        {onTeamPress && (
+          <>
+            <TouchableOpacity
+              className="absolute top-0 left-0 w-1/2 h-full"
+              onPress={() => onTeamPress(1)}
+              accessibilityLabel="Point to Team 1"
+            />
+            <TouchableOpacity
+              className="absolute top-0 left-1/2 w-1/2 h-full"
+              onPress={() => onTeamPress(2)}
+              accessibilityLabel="Point to Team 2"
+            />
+          </>
+        )}
+
+        {/* Tap targets on each player, to pick the server or tag a shot */}
+        {onPlayerPress &&
+          (
+            [
+              [1, "top-[5%] left-[25%]"],
+              [2, "top-[40%] left-[25%]"],
+              [3, "top-[5%] left-[75%]"],
+              [4, "top-[40%] left-[75%]"],
+            ] as const
+          ).map(([slot, position]) => (
+            <TouchableOpacity
+              key={slot}
+              className={`absolute ${position} w-12 h-12 -ml-6 rounded-full`}
+              onPress={() => onPlayerPress(slot)}
+            />
+          ))}
+
         {/* Team designations */}
         <View className="absolute bottom-[5%] left-[25%] -ml-10 bg-primary/10 px-3 py-1 rounded-full">
           <Text className="text-xs font-medium text-primary">Team 1</Text>
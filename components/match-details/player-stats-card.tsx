@@ -3,6 +3,8 @@ import { View, TouchableOpacity } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { Text } from "@/components/ui/text";
 import { router } from "expo-router";
+import { ShotStatsSummary } from "@/components/ShotStatsSummary";
+import { ShotStats } from "@/lib/shot-stats";
 
 interface PlayerDetail {
   id: string;
@@ -17,6 +19,8 @@ interface PlayerStatsCardProps {
   player: PlayerDetail;
   position: string;
   teamColor?: string;
+  // Points tagged to the player in this match, when stats were tracked
+  shotStats?: ShotStats | null;
   onPress?: () => void;
 }
 
@@ -24,6 +28,7 @@ const PlayerStatsCard: React.FC<PlayerStatsCardProps> = ({
   player,
   position,
   teamColor = "#2148ce",
+  shotStats,
   onPress,
 }) => {
   const handlePress = () => {
@@ -93,6 +98,11 @@ const PlayerStatsCard: React.FC<PlayerStatsCardProps> = ({
             </View>
           )}
         </View>
+        {shotStats && shotStats.tagged > 0 && (
+          <View className="mt-3">
+            <ShotStatsSummary stats={shotStats} detailed />
+          </View>
+        )}
       </View>
 
       <Ionicons name="chevron-forward" size={20} color="#888" />
@@ -0,0 +1,175 @@
+import React, { useState } from "react";
+import { View, TouchableOpacity } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { Text } from "@/components/ui/text";
+import { StoredRatingChange } from "@/lib/rating-correction";
+import {
+  ExplainableMatch,
+  explainRatingChange,
+} from "@/lib/rating-explanation";
+
+interface BreakdownPlayer {
+  id: string;
+  full_name: string | null;
+  email: string;
+}
+
+interface RatingBreakdownCardProps {
+  match: ExplainableMatch;
+  players: BreakdownPlayer[];
+  changes: StoredRatingChange[];
+  // Player shown first, usually the signed-in user
+  initialPlayerId?: string;
+  // The changes are per-match previews of a rating period, either still
+  // open or already applied in one batch
+  preview?: "period-open" | "period-closed";
+}
+
+const PREVIEW_NOTES: Record<
+  NonNullable<RatingBreakdownCardProps["preview"]>,
+  string
+> = {
+  "period-open":
+    "Preview. Ratings are applied when the rating period closes and may differ.",
+  "period-closed":
+    "Preview. This match was rated together with the rest of its rating period, see the rating history for the applied change.",
+};
+
+const displayName = (player?: BreakdownPlayer) =>
+  player
+    ? player.full_name?.split(" ")[0] || player.email.split("@")[0]
+    : "Player";
+
+const StatRow: React.FC<{ label: string; value: string }> = ({
+  label,
+  value,
+}) => (
+  <View className="flex-row justify-between py-1">
+    <Text className="text-xs text-muted-foreground">{label}</Text>
+    <Text className="text-xs font-medium">{value}</Text>
+  </View>
+);
+
+const RatingBreakdownCard: React.FC<RatingBreakdownCardProps> = ({
+  match,
+  players,
+  changes,
+  initialPlayerId,
+  preview,
+}) => {
+  const [selectedPlayerId, setSelectedPlayerId] = useState(
+    initialPlayerId && players.some((player) => player.id === initialPlayerId)
+      ? initialPlayerId
+      : players[0]?.id,
+  );
+
+  const playerById = (id: string) => players.find((player) => player.id === id);
+
+  const explanation = selectedPlayerId
+    ? explainRatingChange(selectedPlayerId, match, changes, {
+        isPlayer: selectedPlayerId === initialPlayerId,
+        playerName: displayName(playerById(selectedPlayerId)),
+      })
+    : null;
+
+  if (changes.length === 0) return null;
+  const delta = explanation ? Math.round(explanation.rating_delta) : 0;
+
+  return (
+    <View className="bg-card rounded-lg p-4 mb-6">
+      <View className="flex-row items-center mb-3">
+        <Ionicons name="calculator-outline" size={18} color="#2148ce" />
+        <Text className="text-base font-semibold ml-2">Rating Breakdown</Text>
+      </View>
+
+      {preview && (
+        <Text className="text-xs text-muted-foreground mb-3">
+          {PREVIEW_NOTES[preview]}
+        </Text>
+      )}
+
+      {/* Player selector */}
+      <View className="flex-row flex-wrap gap-2 mb-4">
+        {players.map((player) => {
+          const selected = player.id === selectedPlayerId;
+          return (
+            <TouchableOpacity
+              key={player.id}
+              onPress={() => setSelectedPlayerId(player.id)}
+              className={`px-3 py-1 rounded-full ${selected ? "bg-primary" : "bg-muted"}`}
+            >
+              <Text
+                className={`text-xs ${selected ? "text-white" : "text-muted-foreground"}`}
+              >
+                {player.id === initialPlayerId ? "You" : displayName(player)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {!explanation ? (
+        <Text className="text-sm text-muted-foreground">
+          No rating change recorded for this player.
+        </Text>
+      ) : (
+        <>
+          {/* Headline change */}
+          <View className="flex-row items-baseline mb-3">
+            <Text className="text-2xl font-bold">
+              {Math.round(explanation.after.rating)}
+            </Text>
+            <Text
+              className={`ml-2 text-sm font-medium ${delta >= 0 ? "text-green-600" : "text-red-600"}`}
+            >
+              {delta >= 0 ? "+" : ""}
+              {delta}
+            </Text>
+          </View>
+
+          <StatRow
+            label="Pre-match rating"
+            value={`${Math.round(explanation.before.rating)} ±${Math.round(explanation.before.rd)}`}
+          />
+          {explanation.opponents.map((opponent) => (
+            <StatRow
+              key={opponent.player_id}
+              label={`Opponent: ${displayName(playerById(opponent.player_id))}`}
+              value={`${Math.round(opponent.rating)} ±${Math.round(opponent.rd)}`}
+            />
+          ))}
+          <StatRow
+            label="Expected score"
+            value={`${Math.round(explanation.expected_score * 100)}%`}
+          />
+          <StatRow
+            label="Actual score"
+            value={`${Math.round(explanation.actual_score * 100)}%`}
+          />
+          <StatRow
+            label="Uncertainty (RD)"
+            value={`±${Math.round(explanation.before.rd)} → ±${Math.round(explanation.after.rd)}`}
+          />
+          <StatRow
+            label="Volatility"
+            value={`${explanation.before.vol.toFixed(4)} → ${explanation.after.vol.toFixed(4)}`}
+          />
+
+          {/* Plain-language explanation */}
+          <View className="mt-3 pt-3 border-t border-border">
+            {explanation.summary.map((line, index) => (
+              <View key={index} className="flex-row mb-1">
+                <Text className="text-xs text-muted-foreground mr-2">•</Text>
+                <Text className="text-xs text-muted-foreground flex-1">
+                  {line}
+                </Text>
+              </View>
+            ))}
+          </View>
+        </>
+      )}
+    </View>
+  );
+};
+
+export default RatingBreakdownCard;
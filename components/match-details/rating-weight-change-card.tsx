@@ -0,0 +1,118 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { View, Alert } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { formatDistanceToNow } from "date-fns";
+
+import { Text } from "@/components/ui/text";
+import { Button } from "@/components/ui/button";
+import { RATING_WEIGHTS } from "@/constants/rating";
+import {
+  RatingWeightChange,
+  RatingWeightChangeService,
+} from "@/services/rating-weight-change.service";
+
+interface RatingWeightChangeCardProps {
+  matchId: string;
+  playerIds: string[];
+  currentUserId?: string;
+  // Called once the change was applied, e.g. to reload the match
+  onApplied?: () => void;
+}
+
+const labelOf = (weight: string) =>
+  RATING_WEIGHTS.find((option) => option.id === weight)?.label ?? weight;
+
+/**
+ * A rating weight change waiting for the players of a validated match to
+ * approve it. Participants who have not approved yet can approve or object.
+ */
+const RatingWeightChangeCard: React.FC<RatingWeightChangeCardProps> = ({
+  matchId,
+  playerIds,
+  currentUserId,
+  onApplied,
+}) => {
+  const [change, setChange] = useState<RatingWeightChange | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadChange = useCallback(async () => {
+    try {
+      setChange(await RatingWeightChangeService.getPendingChange(matchId));
+    } catch (error) {
+      console.error("Error loading rating weight change:", error);
+    }
+  }, [matchId]);
+
+  useEffect(() => {
+    loadChange();
+  }, [loadChange]);
+
+  if (!change) return null;
+
+  const approvedCount = playerIds.filter((id) =>
+    change.approved_by.includes(id),
+  ).length;
+  const canRespond =
+    !!currentUserId &&
+    playerIds.includes(currentUserId) &&
+    !change.approved_by.includes(currentUserId);
+
+  const respond = async (approve: boolean) => {
+    if (!currentUserId) return;
+
+    setSubmitting(true);
+    const result = approve
+      ? await RatingWeightChangeService.approveChange(change.id, currentUserId)
+      : await RatingWeightChangeService.rejectChange(change.id, currentUserId);
+    setSubmitting(false);
+
+    if (!result.success) {
+      Alert.alert("Error", result.message);
+      return;
+    }
+
+    await loadChange();
+    if (result.applied) onApplied?.();
+  };
+
+  return (
+    <View className="mb-4 p-4 rounded-xl bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800">
+      <View className="flex-row items-center mb-2">
+        <Ionicons name="scale-outline" size={18} color="#d97706" />
+        <Text className="ml-2 font-semibold">Rating weight change</Text>
+      </View>
+
+      <Text className="text-sm mb-1">
+        {labelOf(change.from_weight)} → {labelOf(change.to_weight)}
+      </Text>
+      <Text className="text-xs text-muted-foreground mb-3">
+        {approvedCount}/{playerIds.length} approved · applies{" "}
+        {formatDistanceToNow(new Date(change.deadline), { addSuffix: true })}{" "}
+        unless a player objects
+      </Text>
+
+      {canRespond && (
+        <View className="flex-row gap-3">
+          <Button
+            variant="outline"
+            className="flex-1"
+            disabled={submitting}
+            onPress={() => respond(false)}
+          >
+            <Text>Object</Text>
+          </Button>
+          <Button
+            variant="default"
+            className="flex-1"
+            disabled={submitting}
+            onPress={() => respond(true)}
+          >
+            <Text className="text-primary-foreground">Approve</Text>
+          </Button>
+        </View>
+      )}
+    </View>
+  );
+};
+
+export default RatingWeightChangeCard;
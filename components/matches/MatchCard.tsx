@@ -4,6 +4,7 @@ import { Ionicons } from "@expo/vector-icons";
 import { useRouter } from "expo-router";
 import { Text } from "@/components/ui/text";
 import { Image as ExpoImage } from "@/components/image";
+import { getMatchEnding } from "@/lib/match-ending";
 
 // Match the MatchData type from your dashboard
 export enum MatchStatus {
@@ -35,6 +36,7 @@ export interface MatchData {
   team1_score_set3: number | null;
   team2_score_set3: number | null;
   winner_team: number | null;
+  end_reason?: string | null;
   is_public: boolean;
   description: string | null;
   validation_status?: string;
@@ -209,6 +211,7 @@ const MatchCard: React.FC<MatchCardProps> = ({ match, onPress }) => {
   };
 
   const { dateLabel, timeLabel } = formatDateTime(match.start_time);
+  const ending = getMatchEnding(match.end_reason);
 
   // Status pill configuration
   const getStatusConfig = () => {
@@ -225,6 +228,12 @@ const MatchCard: React.FC<MatchCardProps> = ({ match, onPress }) => {
           className:
             "bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300",
         };
+      } else if (ending.id !== "completed") {
+        return {
+          text: ending.label,
+          className:
+            "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300",
+        };
       } else if (match.all_confirmed) {
         return {
           text: "Confirmed",
@@ -303,6 +312,7 @@ const MatchCard: React.FC<MatchCardProps> = ({ match, onPress }) => {
 
   // Determine if user's team won the match
   const userTeamWon = match.userWon;
+  const hasWinner = !!match.isCompleted && ending.hasWinner;
 
   // Handle card press
   const handlePress = () => {
@@ -381,7 +391,7 @@ const MatchCard: React.FC<MatchCardProps> = ({ match, onPress }) => {
                 You & {getTeammateName()}
               </Text>
               {/* Show green dot only if user's team won */}
-              {match.isCompleted && userTeamWon && (
+              {hasWinner && userTeamWon && (
                 <View className="w-2 h-2 bg-emerald-600 rounded-full ml-2 flex-shrink-0" />
               )}
             </View>
@@ -436,7 +446,7 @@ const MatchCard: React.FC<MatchCardProps> = ({ match, onPress }) => {
                 {getOpponentsLabel()}
               </Text>
               {/* Show green dot only if opponents won */}
-              {match.isCompleted && !userTeamWon && (
+              {hasWinner && !userTeamWon && (
                 <View className="w-2 h-2 bg-emerald-600 rounded-full ml-2 flex-shrink-0" />
               )}
             </View>
@@ -0,0 +1,24 @@
+// Rating integrity analyser thresholds (see lib/integrity.ts)
+export const INTEGRITY_CONFIG = {
+  // Only matches started within this many days are analysed
+  LOOKBACK_DAYS: 30,
+  // The analysis runs at most once in this many hours across all clients
+  ANALYSIS_INTERVAL_HOURS: 24,
+
+  // The same four players, in the same teams, this many times
+  REPEATED_LINEUP_MIN_MATCHES: 4,
+  // Share of those matches won by one team that makes it look farmed
+  REPEATED_LINEUP_ONE_SIDED_SHARE: 0.8,
+
+  // One player beating another this often, taking this much rating
+  TRANSFER_MIN_MATCHES: 3,
+  TRANSFER_MIN_WIN_SHARE: 0.9,
+  TRANSFER_MIN_RATING: 120,
+
+  // Losses in the window before joining a public match
+  SANDBAG_WINDOW_DAYS: 14,
+  SANDBAG_MIN_LOSSES: 3,
+  SANDBAG_MIN_DROP: 60,
+  // How far the player's recent peak sits above the public match level
+  SANDBAG_LEVEL_GAP: 150,
+};
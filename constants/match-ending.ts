@@ -0,0 +1,66 @@
+export type MatchEndReason = "completed" | "retired" | "walkover" | "abandoned";
+
+// How a match ended and what follows from it. Only matches played to a
+// result move ratings and count towards a player's win/loss record.
+export const MATCH_END_REASONS: {
+  id: MatchEndReason;
+  label: string;
+  // Shown after the score in lists, e.g. "6-4 2-1 ret."
+  shortLabel: string;
+  description: string;
+  // Set scores kept with the result
+  score: "full" | "partial" | "none";
+  hasWinner: boolean;
+  rated: boolean;
+  // Goes through player confirmation, so the result can be disputed
+  needsConfirmation: boolean;
+  countsInRecord: boolean;
+}[] = [
+  {
+    id: "completed",
+    label: "Completed",
+    shortLabel: "",
+    description: "Played to the end",
+    score: "full",
+    hasWinner: true,
+    rated: true,
+    needsConfirmation: true,
+    countsInRecord: true,
+  },
+  {
+    id: "retired",
+    label: "Retired",
+    shortLabel: "ret.",
+    description:
+      "A team stopped through injury or similar, the score so far is kept and the other team wins. Not rated if no game was completed",
+    score: "partial",
+    hasWinner: true,
+    rated: true,
+    needsConfirmation: true,
+    countsInRecord: true,
+  },
+  {
+    id: "walkover",
+    label: "Walkover",
+    shortLabel: "W/O",
+    description:
+      "A team didn't show up, the other team goes through without a score. Not rated",
+    score: "none",
+    hasWinner: true,
+    rated: false,
+    needsConfirmation: true,
+    countsInRecord: false,
+  },
+  {
+    id: "abandoned",
+    label: "Abandoned",
+    shortLabel: "abd.",
+    description:
+      "Stopped by weather, the court or similar with no winner. Not rated",
+    score: "partial",
+    hasWinner: false,
+    rated: false,
+    needsConfirmation: false,
+    countsInRecord: false,
+  },
+];
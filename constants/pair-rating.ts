@@ -0,0 +1,16 @@
+// Partnership (pair) ratings. A pair is rated as one entity against the
+// opposing pair, starting from the average of its two players' ratings.
+export const PAIR_RATING_CONFIG = {
+  // RD a new pair starts with, lower than a new player's since the
+  // individual ratings already tell us roughly where the pair belongs
+  INITIAL_RD: 250,
+
+  // Pairs need this many matches together to appear on the leaderboard
+  LEADERBOARD_MIN_MATCHES: 3,
+
+  // Chemistry is the pair rating minus the average individual rating.
+  // Below MIN_MATCHES it is not shown at all.
+  CHEMISTRY_MIN_MATCHES: 3,
+  CHEMISTRY_STRONG: 75,
+  CHEMISTRY_GOOD: 25,
+};
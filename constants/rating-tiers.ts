@@ -0,0 +1,70 @@
+export interface RatingDivision {
+  id: string;
+  name: string;
+  // Lowest rating in the division
+  minRating: number;
+  color: string;
+  bgColor: string;
+}
+
+// Named divisions from lowest to highest. Each one is split into SUB_LEVELS
+// equal bands, named "<division> III" (lowest) up to "<division> I".
+export const RATING_TIER_CONFIG = {
+  DIVISIONS: [
+    {
+      id: "novice",
+      name: "Novice",
+      minRating: 0,
+      color: "#6b7280",
+      bgColor: "#d1d5db",
+    },
+    {
+      id: "beginner",
+      name: "Beginner",
+      minRating: 1300,
+      color: "#dc2626",
+      bgColor: "#fca5a5",
+    },
+    {
+      id: "intermediate",
+      name: "Intermediate",
+      minRating: 1500,
+      color: "#2563eb",
+      bgColor: "#93c5fd",
+    },
+    {
+      id: "advanced",
+      name: "Advanced",
+      minRating: 1700,
+      color: "#059669",
+      bgColor: "#6ee7b7",
+    },
+    {
+      id: "expert",
+      name: "Expert",
+      minRating: 1900,
+      color: "#7c3aed",
+      bgColor: "#c4b5fd",
+    },
+    {
+      id: "elite",
+      name: "Elite",
+      minRating: 2100,
+      color: "#7c2d12",
+      bgColor: "#fbbf24",
+    },
+  ] as RatingDivision[],
+
+  SUB_LEVELS: 3,
+  // Width used to split the lowest and the open-ended top division
+  EDGE_DIVISION_WIDTH: 300,
+
+  // A player is only demoted once their rating falls this far below the
+  // tier they hold, so small swings around a boundary don't flicker
+  DEMOTION_HYSTERESIS: 25,
+
+  // Sub-level changes are always stored, but only notified when enabled
+  NOTIFY_SUB_LEVEL_CHANGES: false,
+
+  UNRATED: { name: "Unrated", color: "#6b7280", bgColor: "#f3f4f6" },
+};
@@ -0,0 +1,105 @@
+export type RatingAlgorithmId = "glicko2" | "elo" | "team-glicko2";
+
+export type OutcomeModel = "binary" | "sets" | "games" | "blend";
+
+export type RatingLadderId =
+  | "overall"
+  | "mixed"
+  | "mens"
+  | "womens"
+  | "indoor"
+  | "outdoor";
+
+// Separate rating ladders. "overall" is the glicko_* columns on profiles,
+// every other ladder lives in player_ladder_ratings.
+export const RATING_LADDERS: { id: RatingLadderId; label: string }[] = [
+  { id: "overall", label: "Overall" },
+  { id: "mixed", label: "Mixed" },
+  { id: "mens", label: "Men's" },
+  { id: "womens", label: "Women's" },
+  { id: "indoor", label: "Indoor" },
+  { id: "outdoor", label: "Outdoor" },
+];
+
+export type MatchRatingWeight = "friendly" | "standard" | "tournament";
+
+// How much a match counts towards ratings. Friendly matches are recorded and
+// confirmed but never rated, tournament matches move ratings further.
+export const RATING_WEIGHTS: {
+  id: MatchRatingWeight;
+  label: string;
+  description: string;
+}[] = [
+  {
+    id: "friendly",
+    label: "Friendly",
+    description: "Recorded and confirmed, but ratings don't change",
+  },
+  {
+    id: "standard",
+    label: "Standard",
+    description: "Counts towards ratings as usual",
+  },
+  {
+    id: "tournament",
+    label: "Tournament",
+    description: "League or tournament match, counts extra",
+  },
+];
+
+// Rating engine configuration. The algorithm can be selected per deployment
+// through EXPO_PUBLIC_RATING_ALGORITHM without touching the services.
+export const RATING_CONFIG = {
+  ALGORITHM: (process.env.EXPO_PUBLIC_RATING_ALGORITHM ||
+    "glicko2") as RatingAlgorithmId,
+  DEFAULT_RATING: 1500,
+  DEFAULT_RD: 350,
+  DEFAULT_VOL: 0.06,
+  ELO_K_FACTOR: 32,
+
+  // How set scores become a 0-1 performance score (see lib/match-outcome.ts)
+  OUTCOME_MODEL: (process.env.EXPO_PUBLIC_RATING_OUTCOME_MODEL ||
+    "blend") as OutcomeModel,
+  OUTCOME_SETS_WEIGHT: 0.5,
+  MIN_WINNER_PERFORMANCE: 0.55,
+
+  // Glicko-2 rating periods. When enabled, validated matches are only
+  // previewed per match and profiles are updated once per period.
+  RATING_PERIODS_ENABLED:
+    process.env.EXPO_PUBLIC_RATING_PERIODS_ENABLED === "true",
+  RATING_PERIOD_DAYS: 7,
+  // Periods are aligned to this instant (a Monday, 00:00 UTC)
+  RATING_PERIOD_ANCHOR: "2024-01-01T00:00:00.000Z",
+  // Grace time after a period ends so late confirmations can still land in it
+  RATING_PERIOD_GRACE_HOURS: 24,
+  // Due periods are looked for at most once in this many hours
+  RATING_PERIOD_CLOSE_INTERVAL_HOURS: 1,
+
+  // Inactivity decay grows RD once per idle rating period, up to MAX_RD
+  MAX_RD: 350,
+  // The decay job runs at most once in this many hours across all clients
+  DECAY_INTERVAL_HOURS: 24,
+  // RD above which a rating is shown as uncertain in the UI
+  UNCERTAIN_RD_THRESHOLD: 200,
+
+  // New players stay provisional (placement phase) until they have played
+  // PLACEMENT_MATCHES validated matches or their RD drops below the threshold
+  PLACEMENT_MATCHES: 5,
+  PLACEMENT_RD_THRESHOLD: 150,
+  // How far each provisional player pulls a predicted win probability
+  // towards 50% (0 = ignore, 1 = four provisional players give a coin flip)
+  PROVISIONAL_PREDICTION_DAMPING: 0.5,
+
+  // Rating movement multiplier for tournament and league matches
+  TOURNAMENT_RATING_MULTIPLIER:
+    parseFloat(process.env.EXPO_PUBLIC_TOURNAMENT_RATING_MULTIPLIER || "") ||
+    1.5,
+
+  // A rating weight change on a validated match waits this long for the
+  // other players to approve or object, like the validation window
+  WEIGHT_CHANGE_APPROVAL_HOURS: 24,
+
+  // Indoor and outdoor ladders are optional per deployment
+  COURT_TYPE_LADDERS_ENABLED:
+    process.env.EXPO_PUBLIC_COURT_TYPE_LADDERS_ENABLED === "true",
+};
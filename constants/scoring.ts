@@ -0,0 +1,93 @@
+export interface ScoringRules {
+  // Games needed to win a set, with a two game lead
+  gamesPerSet: number;
+  // Games all at which the set is decided by a tiebreak, e.g. 6-6
+  tiebreakAt: number;
+  // Points to win a set tiebreak, with a two point lead
+  tiebreakPoints: number;
+  // Sets needed to win the match
+  setsToWin: number;
+  // Points to win a super tiebreak played instead of the deciding set
+  superTiebreakPoints: number;
+}
+
+// Standard padel scoring: best of three sets to six games, tiebreak to 7 at
+// 6-6, and a super tiebreak to 10 when the deciding set is replaced
+export const CLASSIC_SCORING_RULES: ScoringRules = {
+  gamesPerSet: 6,
+  tiebreakAt: 6,
+  tiebreakPoints: 7,
+  setsToWin: 2,
+  superTiebreakPoints: 10,
+};
+
+export type MatchFormatId = "best_of_3" | "pro_set" | "short_sets";
+
+// How a game at 40-40 is decided
+export type DeuceRule = "advantage" | "golden_point";
+
+export interface MatchFormat {
+  id: MatchFormatId;
+  deuce: DeuceRule;
+}
+
+// Matches created before formats existed are classic best of three
+export const CLASSIC_MATCH_FORMAT: MatchFormat = {
+  id: "best_of_3",
+  deuce: "advantage",
+};
+
+export const MATCH_FORMATS: {
+  id: MatchFormatId;
+  label: string;
+  description: string;
+  rules: ScoringRules;
+}[] = [
+  {
+    id: "best_of_3",
+    label: "Best of 3",
+    description: "Three sets to 6, tiebreak at 6-6",
+    rules: CLASSIC_SCORING_RULES,
+  },
+  {
+    id: "pro_set",
+    label: "Pro Set",
+    description: "A single set to 9, tiebreak at 8-8",
+    rules: {
+      gamesPerSet: 9,
+      tiebreakAt: 8,
+      tiebreakPoints: 7,
+      setsToWin: 1,
+      superTiebreakPoints: 10,
+    },
+  },
+  {
+    id: "short_sets",
+    label: "Short Sets",
+    description: "Three sets to 4, tiebreak at 3-3",
+    rules: {
+      gamesPerSet: 4,
+      tiebreakAt: 3,
+      tiebreakPoints: 7,
+      setsToWin: 2,
+      superTiebreakPoints: 10,
+    },
+  },
+];
+
+export const DEUCE_RULES: {
+  id: DeuceRule;
+  label: string;
+  description: string;
+}[] = [
+  {
+    id: "advantage",
+    label: "Advantage",
+    description: "A game must be won by two points",
+  },
+  {
+    id: "golden_point",
+    label: "Golden Point",
+    description: "The next point at 40-40 wins the game",
+  },
+];
@@ -0,0 +1,23 @@
+export type ShotOutcome =
+  | "winner"
+  | "smash"
+  | "volley_winner"
+  | "bandeja"
+  | "forced_error"
+  | "unforced_error"
+  | "double_fault";
+
+export const SHOT_OUTCOMES: {
+  id: ShotOutcome;
+  label: string;
+  // Whether the tagged player's team won the point
+  wonPoint: boolean;
+}[] = [
+  { id: "winner", label: "Winner", wonPoint: true },
+  { id: "smash", label: "Smash", wonPoint: true },
+  { id: "volley_winner", label: "Volley Winner", wonPoint: true },
+  { id: "bandeja", label: "Bandeja", wonPoint: true },
+  { id: "forced_error", label: "Forced Error", wonPoint: false },
+  { id: "unforced_error", label: "Unforced Error", wonPoint: false },
+  { id: "double_fault", label: "Double Fault", wonPoint: false },
+];
@@ -0,0 +1,123 @@
+export type SkillQuestionId =
+  | "years_played"
+  | "level_of_play"
+  | "racket_sports"
+  | "federation_ranking";
+
+export interface SkillOption {
+  value: string;
+  label: string;
+  // Added to BASE_RATING when the option is picked
+  rating: number;
+  // Subtracted from the starting RD, for answers that tell us more
+  rdReduction: number;
+}
+
+export interface SkillQuestion {
+  id: SkillQuestionId;
+  title: string;
+  options: SkillOption[];
+}
+
+// Onboarding self-assessment. Each answer shifts the starting rating; the
+// RD stays high enough that the placement matches still correct mistakes.
+export const SKILL_ASSESSMENT_CONFIG = {
+  BASE_RATING: 1500,
+  MIN_RATING: 900,
+  MAX_RATING: 2300,
+  BASE_RD: 350,
+  // Never seed below this RD so the player stays in placement
+  MIN_SEEDED_RD: 250,
+
+  QUESTIONS: [
+    {
+      id: "years_played",
+      title: "How long have you played padel?",
+      options: [
+        { value: "never", label: "Never played", rating: -250, rdReduction: 0 },
+        {
+          value: "under_1",
+          label: "Less than a year",
+          rating: -150,
+          rdReduction: 10,
+        },
+        { value: "1_3", label: "1 to 3 years", rating: 0, rdReduction: 20 },
+        { value: "3_5", label: "3 to 5 years", rating: 100, rdReduction: 25 },
+        {
+          value: "over_5",
+          label: "More than 5 years",
+          rating: 150,
+          rdReduction: 30,
+        },
+      ],
+    },
+    {
+      id: "level_of_play",
+      title: "What level do you usually play at?",
+      options: [
+        {
+          value: "learning",
+          label: "Still learning the basics",
+          rating: -200,
+          rdReduction: 10,
+        },
+        {
+          value: "social",
+          label: "Social games with friends",
+          rating: -50,
+          rdReduction: 10,
+        },
+        {
+          value: "club",
+          label: "Club leagues and americanos",
+          rating: 100,
+          rdReduction: 20,
+        },
+        {
+          value: "competitive",
+          label: "Regular tournaments",
+          rating: 250,
+          rdReduction: 25,
+        },
+      ],
+    },
+    {
+      id: "racket_sports",
+      title: "Have you played other racket sports?",
+      options: [
+        { value: "none", label: "No", rating: 0, rdReduction: 0 },
+        {
+          value: "casual",
+          label: "Tennis, squash or badminton casually",
+          rating: 50,
+          rdReduction: 5,
+        },
+        {
+          value: "competitive",
+          label: "Tennis, squash or badminton competitively",
+          rating: 100,
+          rdReduction: 10,
+        },
+      ],
+    },
+    {
+      id: "federation_ranking",
+      title: "Do you hold a federation ranking?",
+      options: [
+        { value: "none", label: "No ranking", rating: 0, rdReduction: 0 },
+        {
+          value: "regional",
+          label: "Regional ranking",
+          rating: 150,
+          rdReduction: 30,
+        },
+        {
+          value: "national",
+          label: "National ranking",
+          rating: 350,
+          rdReduction: 40,
+        },
+      ],
+    },
+  ] as SkillQuestion[],
+};
@@ -9,6 +9,7 @@ import {
 import { SplashScreen, useRouter } from "expo-router";
 import { Session } from "@supabase/supabase-js";
 import { supabase } from "@/config/supabase";
+import { SkillAssessmentAnswers } from "@/lib/skill-assessment";
 import PadelLoadingScreen from "@/components/PadelLoadingScreen";
 import * as AppleAuthentication from 'expo-apple-authentication';
 import { Platform, Alert } from "react-native";
@@ -36,9 +37,12 @@ export interface UserProfile {
 	glicko_rating: string | null;  // FIXED: Database stores as text
 	glicko_rd: string | null;      // FIXED: Database stores as text
 	glicko_vol: string | null;     // FIXED: Database stores as text
+	rating_tier?: string | null;   // Tier id held, see lib/rating-tiers.ts
 	friends_list: string[] | null; // FIXED: Database stores as array of text
 	court_playing_side: string | null;
 	avatar_url: string | null;
+	skill_assessment?: SkillAssessmentAnswers | null; // Onboarding self-assessment answers
+	integrity_reviewer?: boolean | null; // Can work the rating integrity review queue
 	created_at: string;
 }
 
@@ -8,15 +8,31 @@ import {
   getDefaultEndDateTime,
   SetScore,
   validateFinalMatch,
-  determineWinnerTeam,
   createMatchData,
   isFirstMatch,
 } from "@/utils/create-match-utils";
 import { VALIDATION_CONFIG } from "@/constants/create-match";
 import { FEATURE_FLAGS } from "@/constants/features";
+import { MatchRatingWeight } from "@/constants/rating";
+import { MatchEndReason } from "@/constants/match-ending";
+import { CLASSIC_MATCH_FORMAT, MatchFormat } from "@/constants/scoring";
 import { useAuth } from "@/context/supabase-provider";
 import { supabase } from "@/config/supabase";
 import { NotificationHelpers } from "@/services/notificationHelpers";
+import { MatchEventService } from "@/services/match-event.service";
+import { ParsedScore } from "@/lib/score-parser";
+import { getMatchEnding, validateMatchEnding } from "@/lib/match-ending";
+import {
+  TiebreakScore,
+  isSetPlayed,
+  validateSet,
+  validateSuperTiebreak,
+} from "@/lib/padel-scoring";
+import {
+  allowsSuperTiebreak,
+  getMaxSets,
+  getScoringRules,
+} from "@/lib/match-format";
 
 export const useCreateMatchState = () => {
   const { friendId } = useLocalSearchParams();
@@ -61,12 +77,19 @@ export const useCreateMatchState = () => {
   const [isPublicMatch, setIsPublicMatch] = useState(false);
   const [matchDescription, setMatchDescription] = useState("");
   const [useQuickValidation, setUseQuickValidation] = useState(false);
+  const [ratingWeight, setRatingWeight] =
+    useState<MatchRatingWeight>("standard");
+  const [matchFormat, setMatchFormat] =
+    useState<MatchFormat>(CLASSIC_MATCH_FORMAT);
 
   // Score state
   const [set1Score, setSet1Score] = useState<SetScore>({ team1: 0, team2: 0 });
   const [set2Score, setSet2Score] = useState<SetScore>({ team1: 0, team2: 0 });
   const [set3Score, setSet3Score] = useState<SetScore>({ team1: 0, team2: 0 });
   const [showSet3, setShowSet3] = useState(false);
+  const [superTiebreak, setSuperTiebreak] = useState(false);
+  const [endReason, setEndReason] = useState<MatchEndReason>("completed");
+  const [endingWinnerTeam, setEndingWinnerTeam] = useState<0 | 1 | 2>(0);
 
   // Input refs for score navigation
   const team1Set1Ref = useRef<TextInput>(null);
@@ -80,19 +103,24 @@ export const useCreateMatchState = () => {
   const isPastMatch = endDateTime <= new Date();
   const isFutureMatch = startDateTime > new Date();
 
-  // Score validation
-  const isSet1Valid =
-    set1Score.team1 >= 0 &&
-    set1Score.team2 >= 0 &&
-    (set1Score.team1 > 0 || set1Score.team2 > 0);
-  const isSet2Valid =
-    set2Score.team1 >= 0 &&
-    set2Score.team2 >= 0 &&
-    (set2Score.team1 > 0 || set2Score.team2 > 0);
-  const isSet3Valid =
-    set3Score.team1 >= 0 &&
-    set3Score.team2 >= 0 &&
-    (set3Score.team1 > 0 || set3Score.team2 > 0);
+  // Score validation follows the rules of the chosen format
+  const scoringRules = getScoringRules(matchFormat);
+  const maxSets = getMaxSets(matchFormat);
+  const isSuperTiebreak = superTiebreak && allowsSuperTiebreak(matchFormat);
+  const isSet1Valid = validateSet(set1Score, scoringRules).isValid;
+  const isSet2Valid = validateSet(set2Score, scoringRules).isValid;
+  const isSet3Valid = isSuperTiebreak
+    ? validateSuperTiebreak(set3Score, scoringRules).isValid
+    : validateSet(set3Score, scoringRules).isValid;
+  const enteredSets = (
+    showSet3 ? [set1Score, set2Score, set3Score] : [set1Score, set2Score]
+  ).slice(0, maxSets);
+  const scoreValidation = validateMatchEnding(
+    endReason,
+    enteredSets,
+    scoringRules,
+    { superTiebreak: isSuperTiebreak, winnerTeam: endingWinnerTeam },
+  );
 
   // Navigation functions
   const goToNextStep = useCallback(() => {
@@ -157,17 +185,61 @@ export const useCreateMatchState = () => {
     (set: "set1" | "set2" | "set3", team: "team1" | "team2", value: string) => {
       const numValue = parseInt(value) || 0;
 
+      // Changing the games clears tiebreak points that may no longer apply
+      if (set === "set1") {
+        setSet1Score((prev) => ({ ...prev, [team]: numValue, tiebreak: null }));
+      } else if (set === "set2") {
+        setSet2Score((prev) => ({ ...prev, [team]: numValue, tiebreak: null }));
+      } else if (set === "set3") {
+        setSet3Score((prev) => ({ ...prev, [team]: numValue, tiebreak: null }));
+      }
+    },
+    [],
+  );
+
+  const handleTiebreakChange = useCallback(
+    (set: "set1" | "set2" | "set3", tiebreak: TiebreakScore | null) => {
       if (set === "set1") {
-        setSet1Score((prev) => ({ ...prev, [team]: numValue }));
+        setSet1Score((prev) => ({ ...prev, tiebreak }));
       } else if (set === "set2") {
-        setSet2Score((prev) => ({ ...prev, [team]: numValue }));
+        setSet2Score((prev) => ({ ...prev, tiebreak }));
       } else if (set === "set3") {
-        setSet3Score((prev) => ({ ...prev, [team]: numValue }));
+        setSet3Score((prev) => ({ ...prev, tiebreak }));
       }
     },
     [],
   );
 
+  // A walkover has no score, the winner is picked again for each reason
+  const handleEndReasonChange = useCallback((reason: MatchEndReason) => {
+    setEndReason(reason);
+    setEndingWinnerTeam(0);
+
+    if (getMatchEnding(reason).score === "none") {
+      const empty: SetScore = { team1: 0, team2: 0 };
+      setSet1Score(empty);
+      setSet2Score(empty);
+      setSet3Score(empty);
+      setShowSet3(false);
+    }
+  }, []);
+
+  // Fill the sets from a typed or pasted score
+  const applyParsedScore = useCallback(
+    (parsed: ParsedScore) => {
+      const empty: SetScore = { team1: 0, team2: 0 };
+      const [set1, set2, set3] = parsed.sets;
+
+      handleEndReasonChange(parsed.walkover ? "walkover" : "completed");
+      setSet1Score(set1 ?? empty);
+      setSet2Score(set2 ?? empty);
+      setSet3Score(set3 ?? empty);
+      setShowSet3(!!set3);
+      setSuperTiebreak(parsed.superTiebreak);
+    },
+    [handleEndReasonChange],
+  );
+
   // Match creation
   const createMatch = useCallback(async () => {
     try {
@@ -190,10 +262,7 @@ export const useCreateMatchState = () => {
         startDateTime,
         isPastMatch,
         selectedPlayers,
-        isSet1Valid,
-        isSet2Valid,
-        isSet3Valid,
-        showSet3,
+        scoreValidation,
         isPublicMatch,
         selectedCourt,
         region,
@@ -206,9 +275,8 @@ export const useCreateMatchState = () => {
 
       setLoading(true);
 
-      const winnerTeam = isPastMatch
-        ? determineWinnerTeam(set1Score, set2Score, set3Score, showSet3)
-        : 0;
+      const winnerTeam = isPastMatch ? scoreValidation.winnerTeam : 0;
+      const ending = getMatchEnding(endReason);
 
       const matchData = createMatchData(
         session?.user?.id as string,
@@ -225,6 +293,10 @@ export const useCreateMatchState = () => {
         matchDescription,
         isPastMatch,
         isPublicMatch,
+        ratingWeight,
+        isSuperTiebreak,
+        matchFormat,
+        endReason,
       );
 
       const { data: matchResult, error } = await supabase
@@ -237,19 +309,34 @@ export const useCreateMatchState = () => {
         throw new Error(`Database error: ${error.message}`);
       }
 
+      // Start the match log with the score as entered
+      if (isPastMatch) {
+        await MatchEventService.recordCorrection(
+          matchResult.id,
+          enteredSets.filter(isSetPlayed),
+          isSuperTiebreak,
+          session!.user.id,
+          "Score entered",
+          { endReason, winnerTeam },
+        );
+      }
+
       // Send notifications
       const playerIds = [session?.user?.id, ...selectedFriends].filter(
         (id) => id != null,
       ) as string[];
 
-      try {
-        await NotificationHelpers.sendMatchConfirmationNotifications(
-          playerIds,
-          matchResult.id,
-          session!.user.id,
-        );
-      } catch (notificationError) {
-        console.warn("Failed to send notifications:", notificationError);
+      // Abandoned matches have nothing to confirm
+      if (!isPastMatch || ending.needsConfirmation) {
+        try {
+          await NotificationHelpers.sendMatchConfirmationNotifications(
+            playerIds,
+            matchResult.id,
+            session!.user.id,
+          );
+        } catch (notificationError) {
+          console.warn("Failed to send notifications:", notificationError);
+        }
       }
 
       const firstMatch = await isFirstMatch(session!.user.id);
@@ -275,9 +362,8 @@ export const useCreateMatchState = () => {
     startDateTime,
     isPastMatch,
     selectedPlayers,
-    isSet1Valid,
-    isSet2Valid,
-    isSet3Valid,
+    scoreValidation,
+    enteredSets,
     showSet3,
     selectedCourt,
     region,
@@ -287,6 +373,10 @@ export const useCreateMatchState = () => {
     set2Score,
     set3Score,
     matchDescription,
+    ratingWeight,
+    isSuperTiebreak,
+    matchFormat,
+    endReason,
   ]);
 
   return {
@@ -309,10 +399,15 @@ export const useCreateMatchState = () => {
     isPublicMatch,
     matchDescription,
     useQuickValidation,
+    ratingWeight,
+    matchFormat,
     set1Score,
     set2Score,
     set3Score,
     showSet3,
+    superTiebreak,
+    endReason,
+    endingWinnerTeam,
     profile,
 
     // Computed
@@ -321,6 +416,9 @@ export const useCreateMatchState = () => {
     isSet1Valid,
     isSet2Valid,
     isSet3Valid,
+    scoreValidation,
+    scoringRules,
+    maxSets,
 
     // Refs
     team1Set1Ref,
@@ -349,10 +447,14 @@ export const useCreateMatchState = () => {
     setIsPublicMatch,
     setMatchDescription,
     setUseQuickValidation,
+    setRatingWeight,
+    setMatchFormat,
     setSet1Score,
     setSet2Score,
     setSet3Score,
     setShowSet3,
+    setSuperTiebreak,
+    setEndingWinnerTeam,
 
     // Actions
     goToNextStep,
@@ -360,6 +462,9 @@ export const useCreateMatchState = () => {
     goToStep,
     handleDateChange,
     handleScoreChange,
+    handleTiebreakChange,
+    handleEndReasonChange,
+    applyParsedScore,
     createMatch,
   };
 };
@@ -8,6 +8,11 @@ import {
   CategorizedMatches,
   MatchStatus,
 } from "@/types/dashboard";
+import {
+  countsInRecord,
+  getMatchEnding,
+  hasMatchResult,
+} from "@/lib/match-ending";
 
 export const useDashboardData = () => {
   const [loading, setLoading] = useState(true);
@@ -37,11 +42,9 @@ export const useDashboardData = () => {
       };
     }
 
+    // Walkovers and abandoned matches stay out of the record
     const completedMatches = matches
-      .filter(
-        (match) =>
-          match.team1_score_set1 !== null && match.team2_score_set1 !== null,
-      )
+      .filter((match) => countsInRecord(match))
       .sort(
         (a, b) =>
           new Date(a.completed_at || a.end_time || a.start_time).getTime() -
@@ -235,10 +238,7 @@ export const useDashboardData = () => {
         .slice(0, 5),
 
       recent: matches
-        .filter(
-          (match) =>
-            match.team1_score_set1 !== null && match.team2_score_set1 !== null,
-        )
+        .filter((match) => hasMatchResult(match))
         .sort((a, b) => {
           const dateA = new Date(a.completed_at || a.end_time || a.start_time);
           const dateB = new Date(b.completed_at || b.end_time || b.start_time);
@@ -247,8 +247,7 @@ export const useDashboardData = () => {
         .slice(0, 5),
 
       thisWeek: matches.filter((match) => {
-        const hasScores =
-          match.team1_score_set1 !== null && match.team2_score_set1 !== null;
+        const hasScores = hasMatchResult(match);
         const matchDate = new Date(
           match.completed_at || match.end_time || match.start_time,
         );
@@ -308,8 +307,8 @@ export const useDashboardData = () => {
           match.player1_id === userId || match.player2_id === userId;
         const isFuture = startTime > now;
         const isPast = endTime ? endTime < now : startTime < now;
-        const hasScores =
-          match.team1_score_set1 !== null && match.team2_score_set1 !== null;
+        const hasScores = hasMatchResult(match);
+        const ending = getMatchEnding(match.end_reason);
         const isCompleted = hasScores && isPast;
         const needsScores =
           isPast && !hasScores && match.status !== MatchStatus.CANCELLED;
@@ -374,7 +373,7 @@ export const useDashboardData = () => {
             userWon =
               (isTeam1 && match.winner_team === 1) ||
               (!isTeam1 && match.winner_team === 2);
-          } else {
+          } else if (ending.hasWinner) {
             userWon =
               (isTeam1 && team1Sets > team2Sets) ||
               (!isTeam1 && team2Sets > team1Sets);
@@ -414,6 +413,11 @@ export const useDashboardData = () => {
               setScores += `, ${userSet3}-${oppSet3}`;
             }
           }
+
+          // A match that ended early is marked after its score, or instead of
+          // it when no sets were played
+          if (match.team1_score_set1 === null) setScores = ending.shortLabel;
+          else if (ending.shortLabel) setScores += ` ${ending.shortLabel}`;
         }
 
         return {
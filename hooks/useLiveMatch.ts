@@ -0,0 +1,193 @@
+// hooks/useLiveMatch.ts
+// Follow a match's event log live, catching up after a dropped connection
+
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { AppState } from "react-native";
+import { RealtimeChannel } from "@supabase/supabase-js";
+import { supabase } from "@/config/supabase";
+import { MatchFormat } from "@/constants/scoring";
+import {
+  MatchEvent,
+  MatchEventProjection,
+  mergeMatchEvents,
+  projectMatchEvents,
+} from "@/lib/match-events";
+import { MatchEventService } from "@/services/match-event.service";
+
+export type LiveConnection = "connecting" | "live" | "reconnecting";
+
+export interface UseLiveMatchReturn {
+  events: MatchEvent[];
+  projection: MatchEventProjection;
+  connection: LiveConnection;
+  loading: boolean;
+  error: string | null;
+  // When the log was last known to be complete
+  lastSyncedAt: Date | null;
+  refresh: () => Promise<void>;
+}
+
+// Retry delays after a dropped connection, the last one repeats
+const RECONNECT_DELAYS_MS = [1000, 2000, 5000, 10000, 30000];
+
+export function useLiveMatch(
+  matchId: string,
+  format?: MatchFormat,
+): UseLiveMatchReturn {
+  const [events, setEvents] = useState<MatchEvent[]>([]);
+  const [connection, setConnection] = useState<LiveConnection>("connecting");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [lastSyncedAt, setLastSyncedAt] = useState<Date | null>(null);
+
+  // Mirrors events so a gap is seen as soon as an event arrives
+  const eventsRef = useRef<MatchEvent[]>([]);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const retryRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const attemptRef = useRef(0);
+  const isMountedRef = useRef(true);
+  // Match the effect is following, a load for an earlier one is dropped
+  const activeMatchRef = useRef(matchId);
+
+  // Reload the whole log, used on open, after a gap and after reconnecting
+  const refresh = useCallback(async () => {
+    if (!matchId) return;
+    const isCurrent = () =>
+      isMountedRef.current && activeMatchRef.current === matchId;
+
+    try {
+      const loaded = await MatchEventService.getEvents(matchId);
+      if (!isCurrent()) return;
+
+      // Keep anything that arrived over realtime while loading
+      eventsRef.current = mergeMatchEvents(loaded, eventsRef.current).events;
+      setEvents(eventsRef.current);
+      setLastSyncedAt(new Date());
+      setError(null);
+    } catch (err) {
+      if (isCurrent()) {
+        setError(err instanceof Error ? err.message : "Failed to load score");
+      }
+    } finally {
+      if (isCurrent()) setLoading(false);
+    }
+  }, [matchId]);
+
+  const handleEvent = useCallback(
+    (event: MatchEvent) => {
+      if (!isMountedRef.current) return;
+
+      const merged = mergeMatchEvents(eventsRef.current, [event]);
+      eventsRef.current = merged.events;
+      setEvents(merged.events);
+
+      if (merged.hasGap) {
+        console.log("📡 [LIVE-MATCH] Gap in events, catching up");
+        refresh();
+      } else {
+        setLastSyncedAt(new Date());
+      }
+    },
+    [refresh],
+  );
+
+  const subscribe = useCallback(() => {
+    if (!matchId || !isMountedRef.current) return;
+
+    if (channelRef.current) {
+      const stale = channelRef.current;
+      channelRef.current = null;
+      supabase.removeChannel(stale);
+    }
+
+    const channel = MatchEventService.subscribeToMatchEvents(
+      matchId,
+      handleEvent,
+      (status) => {
+        // Ignore the close of a channel that was replaced or torn down
+        if (!isMountedRef.current || channelRef.current !== channel) return;
+
+        if (status === "SUBSCRIBED") {
+          attemptRef.current = 0;
+          setConnection("live");
+          // Anything appended while disconnected
+          refresh();
+          return;
+        }
+
+        setConnection("reconnecting");
+        if (retryRef.current) return;
+
+        const delay =
+          RECONNECT_DELAYS_MS[
+            Math.min(attemptRef.current, RECONNECT_DELAYS_MS.length - 1)
+          ];
+        attemptRef.current++;
+        retryRef.current = setTimeout(() => {
+          retryRef.current = null;
+          subscribe();
+        }, delay);
+      },
+    );
+    channelRef.current = channel;
+  }, [matchId, handleEvent, refresh]);
+
+  useEffect(() => {
+    if (!matchId) return;
+
+    isMountedRef.current = true;
+    activeMatchRef.current = matchId;
+
+    // Start from an empty log so nothing of the previous match leaks in
+    eventsRef.current = [];
+    setEvents([]);
+    setLastSyncedAt(null);
+    setError(null);
+    setConnection("connecting");
+    attemptRef.current = 0;
+
+    setLoading(true);
+    refresh();
+    subscribe();
+
+    // The socket is often dropped while the app is in the background
+    const appStateSubscription = AppState.addEventListener(
+      "change",
+      (state) => {
+        if (state === "active" && isMountedRef.current) {
+          attemptRef.current = 0;
+          subscribe();
+        }
+      },
+    );
+
+    return () => {
+      isMountedRef.current = false;
+      appStateSubscription.remove();
+
+      if (retryRef.current) {
+        clearTimeout(retryRef.current);
+        retryRef.current = null;
+      }
+      if (channelRef.current) {
+        supabase.removeChannel(channelRef.current);
+        channelRef.current = null;
+      }
+    };
+  }, [matchId, refresh, subscribe]);
+
+  const projection = useMemo(
+    () => projectMatchEvents(events, format),
+    [events, format],
+  );
+
+  return {
+    events,
+    projection,
+    connection,
+    loading,
+    error,
+    lastSyncedAt,
+    refresh,
+  };
+}
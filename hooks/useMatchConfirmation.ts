@@ -21,7 +21,10 @@ export interface UseMatchConfirmationReturn {
 
   // Actions
   approveMatch: () => Promise<ActionResult>;
-  reportMatch: (reason?: string) => Promise<ActionResult>;
+  reportMatch: (
+    reason?: string,
+    eventSequence?: number,
+  ) => Promise<ActionResult>;
   refresh: () => Promise<void>;
 
   // Computed values
@@ -137,7 +140,7 @@ export function useMatchConfirmationV2(
 
   // Report match
   const reportMatch = useCallback(
-    async (reason?: string): Promise<ActionResult> => {
+    async (reason?: string, eventSequence?: number): Promise<ActionResult> => {
       if (!profile?.id) {
         return {
           success: false,
@@ -160,6 +163,7 @@ export function useMatchConfirmationV2(
           matchId,
           profile.id,
           reason,
+          eventSequence,
         );
 
         if (result.success && isMountedRef.current) {
@@ -1,7 +1,15 @@
+import { RATING_CONFIG } from "@/constants/rating";
+
 // Glicko-2 constants
 const TAU = 0.5; // Reasonable default
 const EPSILON = 0.000001; // Convergence tolerance
 
+export interface GlickoRating {
+  rating: number;
+  rd: number;
+  vol: number;
+}
+
 /**
  * Calculate the g-function value
  */
@@ -62,7 +70,7 @@ export function updateGlicko(
   opponentRatings: number[],
   opponentRds: number[],
   scores: number[],
-): { rating: number; rd: number; vol: number } {
+): GlickoRating {
   // Convert from Glicko to Glicko-2 scale
   let mu = (rating - 1500) / 173.7178;
   let phi = rd / 173.7178;
@@ -174,17 +182,17 @@ function f(
  * Calculate new ratings for all players after a padel match
  */
 export function calculateMatchRatings(
-  player1: { rating: number; rd: number; vol: number },
-  player2: { rating: number; rd: number; vol: number },
-  player3: { rating: number; rd: number; vol: number },
-  player4: { rating: number; rd: number; vol: number },
+  player1: GlickoRating,
+  player2: GlickoRating,
+  player3: GlickoRating,
+  player4: GlickoRating,
   team1Score: number,
   team2Score: number,
 ): {
-  player1: { rating: number; rd: number; vol: number };
-  player2: { rating: number; rd: number; vol: number };
-  player3: { rating: number; rd: number; vol: number };
-  player4: { rating: number; rd: number; vol: number };
+  player1: GlickoRating;
+  player2: GlickoRating;
+  player3: GlickoRating;
+  player4: GlickoRating;
 } {
   // Normalize scores to Glicko range (0-1)
   const totalGames = team1Score + team2Score;
@@ -242,36 +250,83 @@ export function calculateMatchRatings(
 }
 
 /**
- * Helper to format a rating for display purposes
+ * Grow the rating deviation for a number of rating periods without games
  */
-export function formatRating(rating: number | string): string {
-  if (typeof rating === "string") {
-    rating = parseFloat(rating);
+export function decayRatingDeviation(
+  player: GlickoRating,
+  idlePeriods: number,
+): GlickoRating {
+  let decayed = player;
+  for (let i = 0; i < idlePeriods && decayed.rd < RATING_CONFIG.MAX_RD; i++) {
+    decayed = updateGlicko(decayed.rating, decayed.rd, decayed.vol, [], [], []);
   }
+  return decayed;
+}
 
-  if (isNaN(rating)) {
-    return "1500";
-  }
+/**
+ * Whether a rating deviation is high enough that the rating should be
+ * presented as uncertain
+ */
+export function isRatingUncertain(
+  rd: number | string | null | undefined,
+): boolean {
+  const value = typeof rd === "string" ? parseFloat(rd) : rd;
+  if (value === null || value === undefined || isNaN(value)) return false;
+  return value >= RATING_CONFIG.UNCERTAIN_RD_THRESHOLD;
+}
+
+/**
+ * Whether a player is still in the placement phase. When the number of
+ * validated matches is unknown, the RD alone decides.
+ */
+export function isProvisionalRating(
+  rd: number | string | null | undefined,
+  ratedMatches?: number,
+): boolean {
+  const value = typeof rd === "string" ? parseFloat(rd) : rd;
+  const deviation =
+    value === null || value === undefined || isNaN(value)
+      ? RATING_CONFIG.DEFAULT_RD
+      : value;
+
+  if (deviation < RATING_CONFIG.PLACEMENT_RD_THRESHOLD) return false;
+  return (
+    ratedMatches === undefined || ratedMatches < RATING_CONFIG.PLACEMENT_MATCHES
+  );
+}
 
-  return Math.round(rating).toString();
+/**
+ * Expected score of a player against a single opponent, on the Glicko scale
+ */
+export function expectedScore(
+  rating: number,
+  opponentRating: number,
+  opponentRd: number,
+): number {
+  const mu = (rating - 1500) / 173.7178;
+  const opponentMu = (opponentRating - 1500) / 173.7178;
+  const opponentPhi = opponentRd / 173.7178;
+
+  return 1 / (1 + Math.exp(-g(opponentPhi) * (mu - opponentMu)));
 }
 
 /**
- * Get a text description of a player's skill based on rating
+ * Helper to format a rating for display purposes. Provisional ratings get
+ * a "?" suffix.
  */
-export function getRatingDescription(rating: number | string): string {
+export function formatRating(
+  rating: number | string | null | undefined,
+  provisional = false,
+): string {
   if (typeof rating === "string") {
     rating = parseFloat(rating);
   }
 
-  if (isNaN(rating)) {
-    rating = 1500;
+  const suffix = provisional ? "?" : "";
+
+  if (rating === null || rating === undefined || isNaN(rating)) {
+    return `${RATING_CONFIG.DEFAULT_RATING}${suffix}`;
   }
 
-  if (rating < 1300) return "Beginner";
-  if (rating < 1500) return "Intermediate";
-  if (rating < 1700) return "Advanced";
-  if (rating < 1900) return "Expert";
-  if (rating < 2100) return "Professional";
-  return "Elite";
+  return `${Math.round(rating)}${suffix}`;
 }
@@ -0,0 +1,348 @@
+import { INTEGRITY_CONFIG } from "@/constants/integrity";
+
+export type IntegrityFlagType =
+  | "repeated_lineup"
+  | "lopsided_transfer"
+  | "sandbagging";
+
+export type IntegritySeverity = "low" | "medium" | "high";
+
+export interface IntegrityMatch {
+  id: string;
+  start_time: string;
+  player1_id: string;
+  player2_id: string | null;
+  player3_id: string | null;
+  player4_id: string | null;
+  winner_team: number | null;
+  is_public?: boolean | null;
+}
+
+export interface IntegrityRatingChange {
+  match_id: string;
+  player_id: string;
+  rating_before: number;
+  rating_after: number;
+}
+
+export interface IntegrityFlag {
+  type: IntegrityFlagType;
+  severity: IntegritySeverity;
+  player_ids: string[];
+  match_ids: string[];
+  // Identifies the same finding across runs, used to de-duplicate the queue
+  fingerprint: string;
+  summary: string;
+  evidence: Record<string, number | string>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const teamsOf = (match: IntegrityMatch): [string[], string[]] | null => {
+  const { player1_id, player2_id, player3_id, player4_id } = match;
+  if (!player2_id || !player3_id || !player4_id) return null;
+  return [
+    [player1_id, player2_id],
+    [player3_id, player4_id],
+  ];
+};
+
+const fingerprintOf = (type: IntegrityFlagType, playerIds: string[]) =>
+  `${type}:${[...playerIds].sort().join(",")}`;
+
+const byStartTime = (a: IntegrityMatch, b: IntegrityMatch) =>
+  new Date(a.start_time).getTime() - new Date(b.start_time).getTime();
+
+/**
+ * The same four players meeting in the same teams again and again. When one
+ * side wins almost every time it looks like rating is being farmed.
+ */
+export function detectRepeatedLineups(
+  matches: IntegrityMatch[],
+  config = INTEGRITY_CONFIG,
+): IntegrityFlag[] {
+  const lineups = new Map<
+    string,
+    { teams: [string[], string[]]; matchIds: string[]; wins: [number, number] }
+  >();
+
+  for (const match of matches) {
+    const teams = teamsOf(match);
+    if (!teams) continue;
+
+    // Canonical order so swapped teams and partners share a key
+    const sorted = teams.map((team) => [...team].sort()) as [
+      string[],
+      string[],
+    ];
+    const flipped = sorted[0].join() > sorted[1].join();
+    const key = (flipped ? [sorted[1], sorted[0]] : sorted)
+      .map((team) => team.join("+"))
+      .join(" vs ");
+
+    const entry = lineups.get(key) ?? {
+      teams: flipped ? [sorted[1], sorted[0]] : sorted,
+      matchIds: [],
+      wins: [0, 0],
+    };
+    entry.matchIds.push(match.id);
+    if (match.winner_team === 1 || match.winner_team === 2) {
+      const side = (match.winner_team === 1) !== flipped ? 0 : 1;
+      entry.wins[side]++;
+    }
+    lineups.set(key, entry);
+  }
+
+  const flags: IntegrityFlag[] = [];
+  lineups.forEach(({ teams, matchIds, wins }) => {
+    if (matchIds.length < config.REPEATED_LINEUP_MIN_MATCHES) return;
+
+    const decided = wins[0] + wins[1];
+    const topShare = decided > 0 ? Math.max(...wins) / decided : 0;
+    const oneSided = topShare >= config.REPEATED_LINEUP_ONE_SIDED_SHARE;
+    const playerIds = [...teams[0], ...teams[1]];
+
+    flags.push({
+      type: "repeated_lineup",
+      severity: oneSided
+        ? matchIds.length >= config.REPEATED_LINEUP_MIN_MATCHES * 2
+          ? "high"
+          : "medium"
+        : "low",
+      player_ids: playerIds,
+      match_ids: matchIds,
+      fingerprint: fingerprintOf("repeated_lineup", playerIds),
+      summary: `Same line-up played ${matchIds.length} times, one side won ${Math.round(topShare * 100)}%`,
+      evidence: {
+        matches: matchIds.length,
+        team1_wins: wins[0],
+        team2_wins: wins[1],
+      },
+    });
+  });
+
+  return flags;
+}
+
+/**
+ * One player beating another almost every time and taking a large amount of
+ * rating from them in the process
+ */
+export function detectLopsidedTransfers(
+  matches: IntegrityMatch[],
+  changes: IntegrityRatingChange[],
+  config = INTEGRITY_CONFIG,
+): IntegrityFlag[] {
+  const deltaOf = new Map<string, number>();
+  for (const change of changes) {
+    deltaOf.set(
+      `${change.match_id}:${change.player_id}`,
+      Number(change.rating_after) - Number(change.rating_before),
+    );
+  }
+
+  // Keyed "winner>loser" for every pair of opponents
+  const pairs = new Map<
+    string,
+    { matchIds: string[]; wins: number; gained: number; lost: number }
+  >();
+
+  for (const match of matches) {
+    const teams = teamsOf(match);
+    if (!teams || (match.winner_team !== 1 && match.winner_team !== 2)) {
+      continue;
+    }
+
+    for (const a of teams[0]) {
+      for (const b of teams[1]) {
+        // Track the pair in a stable direction, wins counted for `first`
+        const [first, second] = a < b ? [a, b] : [b, a];
+        const firstWon = (match.winner_team === 1) === (first === a);
+        const key = `${first}>${second}`;
+        const entry = pairs.get(key) ?? {
+          matchIds: [],
+          wins: 0,
+          gained: 0,
+          lost: 0,
+        };
+
+        entry.matchIds.push(match.id);
+        if (firstWon) entry.wins++;
+        entry.gained += deltaOf.get(`${match.id}:${first}`) ?? 0;
+        entry.lost -= deltaOf.get(`${match.id}:${second}`) ?? 0;
+        pairs.set(key, entry);
+      }
+    }
+  }
+
+  const flags: IntegrityFlag[] = [];
+  pairs.forEach((entry, key) => {
+    const [first, second] = key.split(">");
+    const played = entry.matchIds.length;
+    if (played < config.TRANSFER_MIN_MATCHES) return;
+
+    // Orient the pair so `winner` is the one who keeps winning
+    const firstDominates = entry.wins / played >= config.TRANSFER_MIN_WIN_SHARE;
+    const secondDominates =
+      (played - entry.wins) / played >= config.TRANSFER_MIN_WIN_SHARE;
+    if (!firstDominates && !secondDominates) return;
+
+    const [winner, loser] = firstDominates ? [first, second] : [second, first];
+    const gained = firstDominates ? entry.gained : -entry.lost;
+    const lost = firstDominates ? entry.lost : -entry.gained;
+    if (lost < config.TRANSFER_MIN_RATING) return;
+
+    flags.push({
+      type: "lopsided_transfer",
+      severity:
+        lost >= config.TRANSFER_MIN_RATING * 2
+          ? "high"
+          : played >= config.TRANSFER_MIN_MATCHES * 2
+            ? "medium"
+            : "low",
+      player_ids: [winner, loser],
+      match_ids: entry.matchIds,
+      fingerprint: fingerprintOf("lopsided_transfer", [winner, loser]),
+      summary: `Won ${firstDominates ? entry.wins : played - entry.wins} of ${played} against the same player, who lost ${Math.round(lost)} rating`,
+      evidence: {
+        winner_id: winner,
+        loser_id: loser,
+        matches: played,
+        winner_gained: Math.round(gained),
+        loser_lost: Math.round(lost),
+      },
+    });
+  });
+
+  return flags;
+}
+
+/**
+ * Players who drop rating with a run of losses and then join a public match
+ * well below the level they were playing at shortly before
+ *
+ * @param currentRatings - Ratings for players in matches not rated yet
+ */
+export function detectSandbagging(
+  matches: IntegrityMatch[],
+  changes: IntegrityRatingChange[],
+  currentRatings: Map<string, number> = new Map(),
+  config = INTEGRITY_CONFIG,
+): IntegrityFlag[] {
+  const ordered = [...matches].sort(byStartTime);
+  const matchById = new Map(ordered.map((match) => [match.id, match]));
+  const changesByPlayer = new Map<string, IntegrityRatingChange[]>();
+  const changeOf = new Map<string, IntegrityRatingChange>();
+
+  for (const change of changes) {
+    if (!matchById.has(change.match_id)) continue;
+    changeOf.set(`${change.match_id}:${change.player_id}`, change);
+    changesByPlayer.set(change.player_id, [
+      ...(changesByPlayer.get(change.player_id) ?? []),
+      change,
+    ]);
+  }
+
+  const startOf = (matchId: string) =>
+    new Date(matchById.get(matchId)!.start_time).getTime();
+  changesByPlayer.forEach((list) =>
+    list.sort((a, b) => startOf(a.match_id) - startOf(b.match_id)),
+  );
+
+  const ratingAt = (playerId: string, matchId: string) =>
+    changeOf.get(`${matchId}:${playerId}`)?.rating_before ??
+    currentRatings.get(playerId);
+
+  const flags: IntegrityFlag[] = [];
+
+  for (const publicMatch of ordered) {
+    if (!publicMatch.is_public) continue;
+
+    const joined = [
+      publicMatch.player2_id,
+      publicMatch.player3_id,
+      publicMatch.player4_id,
+    ].filter((id): id is string => !!id);
+    const start = new Date(publicMatch.start_time).getTime();
+
+    for (const playerId of joined) {
+      const recent = (changesByPlayer.get(playerId) ?? []).filter((change) => {
+        const playedAt = startOf(change.match_id);
+        return (
+          playedAt < start &&
+          playedAt >= start - config.SANDBAG_WINDOW_DAYS * DAY_MS
+        );
+      });
+      if (recent.length === 0) continue;
+
+      const losses = recent.filter(
+        (change) => Number(change.rating_after) < Number(change.rating_before),
+      );
+      const peak = Math.max(
+        ...recent.map((change) => Number(change.rating_before)),
+      );
+      const latest = Number(recent[recent.length - 1].rating_after);
+      const drop = peak - latest;
+
+      const others = [
+        publicMatch.player1_id,
+        ...joined.filter((id) => id !== playerId),
+      ]
+        .map((id) => ratingAt(id, publicMatch.id))
+        .filter((rating): rating is number => rating !== undefined);
+      if (others.length === 0) continue;
+
+      const matchLevel =
+        others.reduce((sum, rating) => sum + Number(rating), 0) / others.length;
+      const gap = peak - matchLevel;
+
+      if (
+        losses.length < config.SANDBAG_MIN_LOSSES ||
+        drop < config.SANDBAG_MIN_DROP ||
+        gap < config.SANDBAG_LEVEL_GAP
+      ) {
+        continue;
+      }
+
+      flags.push({
+        type: "sandbagging",
+        severity:
+          gap >= config.SANDBAG_LEVEL_GAP * 2
+            ? "high"
+            : losses.length >= config.SANDBAG_MIN_LOSSES * 2
+              ? "medium"
+              : "low",
+        player_ids: [playerId],
+        match_ids: [...losses.map((change) => change.match_id), publicMatch.id],
+        fingerprint: `${fingerprintOf("sandbagging", [playerId])}:${publicMatch.id}`,
+        summary: `Lost ${losses.length} matches (${Math.round(drop)} rating) before joining a public match ${Math.round(gap)} below their recent level`,
+        evidence: {
+          public_match_id: publicMatch.id,
+          losses: losses.length,
+          rating_drop: Math.round(drop),
+          recent_peak: Math.round(peak),
+          match_level: Math.round(matchLevel),
+        },
+      });
+    }
+  }
+
+  return flags;
+}
+
+/**
+ * Run every integrity check over a window of matches and their rating
+ * changes
+ */
+export function analyseIntegrity(
+  matches: IntegrityMatch[],
+  changes: IntegrityRatingChange[],
+  currentRatings: Map<string, number> = new Map(),
+  config = INTEGRITY_CONFIG,
+): IntegrityFlag[] {
+  return [
+    ...detectRepeatedLineups(matches, config),
+    ...detectLopsidedTransfers(matches, changes, config),
+    ...detectSandbagging(matches, changes, currentRatings, config),
+  ];
+}
@@ -0,0 +1,281 @@
+import { MatchFormat } from "@/constants/scoring";
+import {
+  allowsSuperTiebreak,
+  getMaxSets,
+  getScoringRules,
+} from "@/lib/match-format";
+import { SetScore, getSetWinner, validateSet } from "@/lib/padel-scoring";
+
+export type LiveTeam = 1 | 2;
+
+// Player slots as stored on the match, 1-2 are team 1 and 3-4 team 2
+export type PlayerSlot = 1 | 2 | 3 | 4;
+
+export interface LiveScoreState {
+  format: MatchFormat;
+  // The deciding set is played as a super tiebreak
+  superTiebreakDecider: boolean;
+  // Completed sets, tiebreak points included
+  sets: SetScore[];
+  // Games of the set in progress
+  games: { team1: number; team2: number };
+  // Points of the game or tiebreak in progress
+  points: { team1: number; team2: number };
+  // The current game is a set tiebreak or the deciding super tiebreak
+  tiebreak: "set" | "super" | null;
+  // Order the four players serve in, starting with the first server
+  serveOrder: PlayerSlot[];
+  // Position in serveOrder of whoever serves the current game
+  serverIndex: number;
+  pointsPlayed: number;
+  winnerTeam: 0 | LiveTeam;
+}
+
+export interface LivePointLabels {
+  team1: string;
+  team2: string;
+  // "Deuce", "Golden point", "Tiebreak" or "Super tiebreak" when relevant
+  status: string | null;
+}
+
+const other = (team: LiveTeam): LiveTeam => (team === 1 ? 2 : 1);
+const key = (team: LiveTeam) => (team === 1 ? "team1" : "team2");
+
+/**
+ * Team a player slot plays on
+ */
+export function getSlotTeam(slot: PlayerSlot): LiveTeam {
+  return slot <= 2 ? 1 : 2;
+}
+
+/**
+ * Serving order for a match. Teams alternate games and partners alternate
+ * within a team, so the first server's partner serves the third game.
+ */
+export function getServeOrder(
+  firstServer: PlayerSlot,
+  firstReceiver?: PlayerSlot,
+): PlayerSlot[] {
+  const partner = (slot: PlayerSlot): PlayerSlot =>
+    (slot % 2 === 1 ? slot + 1 : slot - 1) as PlayerSlot;
+  const opponent =
+    firstReceiver && getSlotTeam(firstReceiver) !== getSlotTeam(firstServer)
+      ? firstReceiver
+      : getSlotTeam(firstServer) === 1
+        ? 3
+        : 1;
+
+  return [firstServer, opponent, partner(firstServer), partner(opponent)];
+}
+
+/**
+ * Fresh scoreboard before the first point
+ */
+export function createLiveScore(
+  format: MatchFormat,
+  firstServer: PlayerSlot = 1,
+  superTiebreakDecider = false,
+): LiveScoreState {
+  return {
+    format,
+    superTiebreakDecider: superTiebreakDecider && allowsSuperTiebreak(format),
+    sets: [],
+    games: { team1: 0, team2: 0 },
+    points: { team1: 0, team2: 0 },
+    tiebreak: null,
+    serveOrder: getServeOrder(firstServer),
+    serverIndex: 0,
+    pointsPlayed: 0,
+    winnerTeam: 0,
+  };
+}
+
+/**
+ * Whether the points of a tiebreak decide it
+ */
+function isTiebreakWon(winner: number, loser: number, target: number) {
+  return winner >= target && winner - loser >= 2;
+}
+
+/**
+ * Player slot serving the next point. In a tiebreak the first server serves
+ * one point, then each player serves two in rotation.
+ */
+export function getServer(state: LiveScoreState): PlayerSlot {
+  const offset = state.tiebreak
+    ? Math.floor((state.points.team1 + state.points.team2 + 1) / 2)
+    : 0;
+  return state.serveOrder[(state.serverIndex + offset) % 4];
+}
+
+/**
+ * Sets won so far by each team
+ */
+export function getLiveSetsWon(state: LiveScoreState): {
+  team1: number;
+  team2: number;
+} {
+  return state.sets.reduce(
+    (won, set) => {
+      const winner = getSetWinner(set);
+      if (winner === 1) won.team1++;
+      if (winner === 2) won.team2++;
+      return won;
+    },
+    { team1: 0, team2: 0 },
+  );
+}
+
+function startNextSet(state: LiveScoreState): LiveScoreState {
+  const rules = getScoringRules(state.format);
+  const won = getLiveSetsWon(state);
+
+  if (won.team1 === rules.setsToWin || won.team2 === rules.setsToWin) {
+    return {
+      ...state,
+      games: { team1: 0, team2: 0 },
+      points: { team1: 0, team2: 0 },
+      tiebreak: null,
+      winnerTeam: won.team1 > won.team2 ? 1 : 2,
+    };
+  }
+
+  // Level on sets going into the last one
+  const isDecider = state.sets.length === getMaxSets(state.format) - 1;
+
+  return {
+    ...state,
+    games: { team1: 0, team2: 0 },
+    points: { team1: 0, team2: 0 },
+    tiebreak: isDecider && state.superTiebreakDecider ? "super" : null,
+  };
+}
+
+function winGame(state: LiveScoreState, team: LiveTeam): LiveScoreState {
+  const rules = getScoringRules(state.format);
+  const games = { ...state.games, [key(team)]: state.games[key(team)] + 1 };
+  const next: LiveScoreState = {
+    ...state,
+    games,
+    points: { team1: 0, team2: 0 },
+    serverIndex: (state.serverIndex + 1) % 4,
+  };
+
+  if (validateSet(games, rules).isValid) {
+    return startNextSet({ ...next, sets: [...state.sets, games] });
+  }
+
+  if (games.team1 === rules.tiebreakAt && games.team2 === rules.tiebreakAt) {
+    return { ...next, tiebreak: "set" };
+  }
+
+  return next;
+}
+
+function winTiebreak(state: LiveScoreState, team: LiveTeam): LiveScoreState {
+  // The player after the tiebreak's first server starts the next set
+  const serverIndex = (state.serverIndex + 1) % 4;
+  const set: SetScore =
+    state.tiebreak === "super"
+      ? { ...state.points }
+      : {
+          ...state.games,
+          [key(team)]: state.games[key(team)] + 1,
+          tiebreak: { ...state.points },
+        };
+
+  return startNextSet({
+    ...state,
+    sets: [...state.sets, set],
+    serverIndex,
+  });
+}
+
+/**
+ * Record a point won by a team and return the new scoreboard. Points after
+ * the match is over are ignored.
+ */
+export function scorePoint(
+  state: LiveScoreState,
+  team: LiveTeam,
+): LiveScoreState {
+  if (state.winnerTeam) return state;
+
+  const rules = getScoringRules(state.format);
+  const points = {
+    ...state.points,
+    [key(team)]: state.points[key(team)] + 1,
+  };
+  const scored = { ...state, points, pointsPlayed: state.pointsPlayed + 1 };
+  const won = points[key(team)];
+  const lost = points[key(other(team))];
+
+  if (state.tiebreak) {
+    const target =
+      state.tiebreak === "super"
+        ? rules.superTiebreakPoints
+        : rules.tiebreakPoints;
+    return isTiebreakWon(won, lost, target)
+      ? winTiebreak(scored, team)
+      : scored;
+  }
+
+  // Golden point: the point at 40-40 decides the game
+  const gameWon =
+    state.format.deuce === "golden_point"
+      ? won >= 4
+      : won >= 4 && won - lost >= 2;
+
+  return gameWon ? winGame(scored, team) : scored;
+}
+
+/**
+ * Scoreboard labels for the points of the current game
+ */
+export function getPointLabels(state: LiveScoreState): LivePointLabels {
+  const { team1, team2 } = state.points;
+
+  if (state.tiebreak) {
+    return {
+      team1: team1.toString(),
+      team2: team2.toString(),
+      status: state.tiebreak === "super" ? "Super tiebreak" : "Tiebreak",
+    };
+  }
+
+  const calls = ["0", "15", "30", "40"];
+  if (team1 >= 3 && team2 >= 3) {
+    if (team1 === team2) {
+      return {
+        team1: "40",
+        team2: "40",
+        status:
+          state.format.deuce === "golden_point" ? "Golden point" : "Deuce",
+      };
+    }
+    return {
+      team1: team1 > team2 ? "AD" : "40",
+      team2: team2 > team1 ? "AD" : "40",
+      status: null,
+    };
+  }
+
+  return { team1: calls[team1], team2: calls[team2], status: null };
+}
+
+/**
+ * Final set scores once the match is over, ready to store on the match
+ */
+export function getLiveResult(state: LiveScoreState): {
+  sets: SetScore[];
+  superTiebreak: boolean;
+  winnerTeam: 0 | LiveTeam;
+} {
+  return {
+    sets: state.sets,
+    superTiebreak:
+      state.superTiebreakDecider &&
+      state.sets.length === getMaxSets(state.format),
+    winnerTeam: state.winnerTeam,
+  };
+}
@@ -0,0 +1,32 @@
+export interface SpectatableMatch {
+  is_public: boolean | null;
+  player1_id: string | null;
+  player2_id: string | null;
+  player3_id: string | null;
+  player4_id: string | null;
+}
+
+/**
+ * Who can follow a match live: anyone for a public match, otherwise the
+ * players and their friends
+ */
+export function canSpectateMatch(
+  match: SpectatableMatch,
+  viewerId: string | null | undefined,
+  viewerFriendIds: string[] | null | undefined,
+): boolean {
+  if (match.is_public) return true;
+  if (!viewerId) return false;
+
+  const playerIds = [
+    match.player1_id,
+    match.player2_id,
+    match.player3_id,
+    match.player4_id,
+  ].filter((id): id is string => !!id);
+
+  return (
+    playerIds.includes(viewerId) ||
+    playerIds.some((id) => viewerFriendIds?.includes(id))
+  );
+}
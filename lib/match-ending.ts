@@ -0,0 +1,228 @@
+import { MATCH_END_REASONS, MatchEndReason } from "@/constants/match-ending";
+import { CLASSIC_SCORING_RULES, ScoringRules } from "@/constants/scoring";
+import {
+  SetScore,
+  getSetWinner,
+  isSetPlayed,
+  validateMatchScore,
+  validateSet,
+  validateSuperTiebreak,
+} from "@/lib/padel-scoring";
+
+type ScoreValue = number | string | null | undefined;
+
+export interface EndedMatch {
+  end_reason?: string | null;
+  team1_score_set1: ScoreValue;
+  team2_score_set1: ScoreValue;
+}
+
+export interface ScoredEndedMatch extends EndedMatch {
+  team1_score_set2?: ScoreValue;
+  team2_score_set2?: ScoreValue;
+  team1_score_set3?: ScoreValue;
+  team2_score_set3?: ScoreValue;
+}
+
+export interface MatchEndingOptions {
+  superTiebreak?: boolean;
+  // Chosen by hand when the score doesn't decide it, e.g. a walkover
+  winnerTeam?: 0 | 1 | 2;
+}
+
+export interface MatchEndingValidation {
+  isValid: boolean;
+  errors: string[];
+  winnerTeam: 0 | 1 | 2;
+}
+
+/**
+ * Normalise a stored end reason. Matches recorded before end reasons
+ * existed were played to the end.
+ */
+export function getMatchEndReason(reason?: string | null): MatchEndReason {
+  return MATCH_END_REASONS.some((option) => option.id === reason)
+    ? (reason as MatchEndReason)
+    : "completed";
+}
+
+/**
+ * What an end reason means for ratings, confirmation and stats
+ */
+export function getMatchEnding(reason?: string | null) {
+  const id = getMatchEndReason(reason);
+  return MATCH_END_REASONS.find((option) => option.id === id)!;
+}
+
+/**
+ * Whether a match that ended this way goes through the rating engine
+ */
+export function isRatedEnding(reason?: string | null): boolean {
+  return getMatchEnding(reason).rated;
+}
+
+/**
+ * Whether the match goes through the rating engine. A retirement is rated
+ * on the games played so far, so one before the first game has nothing to
+ * rate.
+ */
+export function isRatedResult(match: ScoredEndedMatch): boolean {
+  const ending = getMatchEnding(match.end_reason);
+  if (!ending.rated) return false;
+  if (ending.score !== "partial") return true;
+
+  const gamesPlayed = [
+    match.team1_score_set1,
+    match.team2_score_set1,
+    match.team1_score_set2,
+    match.team2_score_set2,
+    match.team1_score_set3,
+    match.team2_score_set3,
+  ].reduce<number>((sum, value) => sum + (Number(value) || 0), 0);
+  return gamesPlayed > 0;
+}
+
+/**
+ * Whether the match has its result recorded. A completed match needs its
+ * scores, a match that ended early is a result in itself.
+ */
+export function hasMatchResult(match: EndedMatch): boolean {
+  if (getMatchEndReason(match.end_reason) !== "completed") return true;
+  return (
+    match.team1_score_set1 !== null &&
+    match.team1_score_set1 !== undefined &&
+    match.team2_score_set1 !== null &&
+    match.team2_score_set1 !== undefined
+  );
+}
+
+/**
+ * Whether the match counts as a win or loss in player stats
+ */
+export function countsInRecord(match: EndedMatch): boolean {
+  return (
+    hasMatchResult(match) && getMatchEnding(match.end_reason).countsInRecord
+  );
+}
+
+/**
+ * Label shown after the score, empty for a completed match
+ */
+export function formatMatchEnding(reason?: string | null): string {
+  return getMatchEnding(reason).shortLabel;
+}
+
+/**
+ * A set that stopped before anyone won it, e.g. 4-3 or 6-6
+ */
+function isSetInProgress(
+  set: SetScore,
+  rules: ScoringRules,
+  superTiebreak: boolean,
+): boolean {
+  const winner = Math.max(set.team1, set.team2);
+  const loser = Math.min(set.team1, set.team2);
+  if (loser < 0 || set.tiebreak) return false;
+
+  if (superTiebreak) {
+    return winner < rules.superTiebreakPoints || winner - loser < 2;
+  }
+  return (
+    winner < rules.gamesPerSet ||
+    (winner - loser < 2 && winner <= rules.tiebreakAt)
+  );
+}
+
+/**
+ * Validate the score of a match that stopped early. Every set but the last
+ * must be finished, and the match must not have been decided yet.
+ */
+export function validatePartialScore(
+  sets: SetScore[],
+  rules: ScoringRules = CLASSIC_SCORING_RULES,
+  options: { superTiebreak?: boolean } = {},
+): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+  const maxSets = rules.setsToWin * 2 - 1;
+  const played = sets.filter(isSetPlayed);
+  let team1Sets = 0;
+  let team2Sets = 0;
+
+  played.forEach((set, index) => {
+    const setNumber = index + 1;
+
+    if (team1Sets === rules.setsToWin || team2Sets === rules.setsToWin) {
+      errors.push(`The match was already decided before set ${setNumber}`);
+      return;
+    }
+
+    const isDecider =
+      !!options.superTiebreak && maxSets > 1 && setNumber === maxSets;
+    const validation = isDecider
+      ? validateSuperTiebreak(set, rules)
+      : validateSet(set, rules);
+
+    if (validation.isValid) {
+      if (getSetWinner(set) === 1) team1Sets++;
+      else team2Sets++;
+      return;
+    }
+
+    const isLast = index === played.length - 1;
+    if (!isLast || !isSetInProgress(set, rules, isDecider)) {
+      errors.push(`Set ${setNumber}: ${validation.error}`);
+    }
+  });
+
+  if (
+    errors.length === 0 &&
+    (team1Sets === rules.setsToWin || team2Sets === rules.setsToWin)
+  ) {
+    errors.push("The match was played to the end, record it as completed");
+  }
+
+  return { isValid: errors.length === 0, errors };
+}
+
+/**
+ * Validate the result of a match for the way it ended. A completed match
+ * needs its full score and the winner follows from it; otherwise the score
+ * may stop early or be absent and the winner is chosen by hand.
+ */
+export function validateMatchEnding(
+  reason: MatchEndReason,
+  sets: SetScore[],
+  rules: ScoringRules = CLASSIC_SCORING_RULES,
+  options: MatchEndingOptions = {},
+): MatchEndingValidation {
+  const ending = getMatchEnding(reason);
+
+  if (ending.score === "full") {
+    const validation = validateMatchScore(sets, rules, {
+      superTiebreak: options.superTiebreak,
+    });
+    return {
+      isValid: validation.isValid,
+      errors: validation.errors,
+      winnerTeam: validation.winnerTeam,
+    };
+  }
+
+  const errors =
+    ending.score === "none"
+      ? sets.some(isSetPlayed)
+        ? [`A ${ending.label.toLowerCase()} has no set scores`]
+        : []
+      : validatePartialScore(sets, rules, options).errors;
+
+  if (ending.hasWinner && !options.winnerTeam) {
+    errors.push("Choose which team won the match");
+  }
+
+  const winnerTeam = ending.hasWinner ? (options.winnerTeam ?? 0) : 0;
+  return {
+    isValid: errors.length === 0,
+    errors,
+    winnerTeam: errors.length === 0 ? winnerTeam : 0,
+  };
+}
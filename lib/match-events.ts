@@ -0,0 +1,373 @@
+import { MatchEndReason } from "@/constants/match-ending";
+import { MatchFormat } from "@/constants/scoring";
+import { SHOT_OUTCOMES, ShotOutcome } from "@/constants/shot-stats";
+import {
+  LiveScoreState,
+  LiveTeam,
+  PlayerSlot,
+  createLiveScore,
+  getLiveResult,
+  getLiveSetsWon,
+  scorePoint,
+} from "@/lib/live-scoring";
+import {
+  formatMatchEnding,
+  getMatchEndReason,
+  getMatchEnding,
+} from "@/lib/match-ending";
+import { getMatchFormat, getScoringRules } from "@/lib/match-format";
+import {
+  SetScore,
+  formatSetScore,
+  validateMatchScore,
+} from "@/lib/padel-scoring";
+
+export type MatchEventType =
+  // Live scoring began, with the format and first server
+  | "match_started"
+  | "point"
+  // Markers written with the point that completed a game or set
+  | "game"
+  | "set"
+  | "timeout"
+  // Live scoring stopped early, with the winner as the team if there is one
+  | "match_ended"
+  // Set scores entered or edited by hand, replacing the point score
+  | "correction"
+  // Reverse or re-apply the latest point, timeout or correction
+  | "undo"
+  | "redo";
+
+// Player a point is put down to and how it ended
+export interface ShotTag {
+  slot: PlayerSlot;
+  outcome: ShotOutcome;
+}
+
+export interface MatchEventPayload {
+  format?: MatchFormat;
+  first_server?: PlayerSlot;
+  super_tiebreak?: boolean;
+  sets?: SetScore[];
+  reason?: string;
+  // Game and set markers belong to the point that completed them
+  point_sequence?: number;
+  games?: { team1: number; team2: number };
+  // Undo and redo name the event they act on
+  target_sequence?: number;
+  // Optional stats tagging of a point
+  shot?: ShotTag;
+  // How the match ended, corrections and match_ended only. The winner of a
+  // match that ended early is the event's team.
+  end_reason?: MatchEndReason;
+}
+
+export interface MatchEvent {
+  id?: string;
+  match_id: string;
+  // Position in the log, events are never updated or deleted
+  sequence: number;
+  type: MatchEventType;
+  team: LiveTeam | null;
+  payload: MatchEventPayload;
+  created_by: string | null;
+  created_at: string;
+}
+
+export type MatchEventDraft = Pick<MatchEvent, "type" | "team" | "payload">;
+
+export interface MatchEventProjection {
+  // Point score when the match was scored live, null when entered by hand
+  live: LiveScoreState | null;
+  sets: SetScore[];
+  superTiebreak: boolean;
+  winnerTeam: 0 | LiveTeam;
+  endReason: MatchEndReason;
+  timeouts: { team1: number; team2: number };
+  // Sequences of points, timeouts and corrections currently in effect
+  applied: number[];
+  canUndo: boolean;
+  canRedo: boolean;
+  // Sequence of the event that set the current score, e.g. for disputes
+  lastScoreSequence: number | null;
+}
+
+const UNDOABLE: MatchEventType[] = [
+  "point",
+  "timeout",
+  "match_ended",
+  "correction",
+];
+
+/**
+ * Split the log into the undoable events in effect and those undone and
+ * waiting for a redo. A new point, timeout, ending or correction clears the
+ * redo stack, like any editor.
+ */
+function resolveUndoStack(events: MatchEvent[]): {
+  applied: MatchEvent[];
+  undone: MatchEvent[];
+} {
+  const applied: MatchEvent[] = [];
+  let undone: MatchEvent[] = [];
+
+  for (const event of events) {
+    if (UNDOABLE.includes(event.type)) {
+      applied.push(event);
+      undone = [];
+    } else if (event.type === "undo") {
+      const last = applied.pop();
+      if (last) undone.push(last);
+    } else if (event.type === "redo") {
+      const last = undone.pop();
+      if (last) applied.push(last);
+    }
+  }
+
+  return { applied, undone };
+}
+
+/**
+ * Replay the log into the current score. The stored set score columns are
+ * this projection and never edited on their own.
+ */
+export function projectMatchEvents(
+  events: MatchEvent[],
+  fallbackFormat?: MatchFormat,
+): MatchEventProjection {
+  const ordered = [...events].sort((a, b) => a.sequence - b.sequence);
+  const { applied, undone } = resolveUndoStack(ordered);
+  const start = [...ordered]
+    .reverse()
+    .find((event) => event.type === "match_started");
+  const format =
+    start?.payload.format ?? fallbackFormat ?? getMatchFormat(null);
+
+  let live: LiveScoreState | null = start
+    ? createLiveScore(
+        format,
+        start.payload.first_server ?? 1,
+        !!start.payload.super_tiebreak,
+      )
+    : null;
+  let sets: SetScore[] = [];
+  let superTiebreak = false;
+  let winnerTeam: 0 | LiveTeam = 0;
+  let endReason: MatchEndReason = "completed";
+  let lastScoreSequence: number | null = null;
+  const timeouts = { team1: 0, team2: 0 };
+
+  for (const event of applied) {
+    // Points before a restart of live scoring belong to the abandoned run
+    const isCurrentRun = !start || event.sequence > start.sequence;
+
+    if (
+      event.type === "point" &&
+      live &&
+      event.team &&
+      isCurrentRun &&
+      endReason === "completed"
+    ) {
+      live = scorePoint(live, event.team);
+      ({ sets, superTiebreak, winnerTeam } = getLiveResult(live));
+      lastScoreSequence = event.sequence;
+    } else if (event.type === "timeout" && event.team) {
+      timeouts[event.team === 1 ? "team1" : "team2"]++;
+    } else if (event.type === "match_ended" && live && isCurrentRun) {
+      // The set in progress is kept as it stood
+      const inProgress = live.tiebreak === "super" ? live.points : live.games;
+      sets =
+        inProgress.team1 + inProgress.team2 > 0
+          ? [...live.sets, { ...inProgress }]
+          : live.sets;
+      superTiebreak =
+        live.tiebreak === "super" || getLiveResult(live).superTiebreak;
+      endReason = getMatchEndReason(event.payload.end_reason);
+      winnerTeam = getMatchEnding(endReason).hasWinner ? (event.team ?? 0) : 0;
+      lastScoreSequence = event.sequence;
+    } else if (event.type === "correction") {
+      // A correction replaces whatever the points said
+      live = null;
+      sets = event.payload.sets ?? [];
+      superTiebreak = !!event.payload.super_tiebreak;
+      endReason = getMatchEndReason(event.payload.end_reason);
+      winnerTeam =
+        endReason === "completed"
+          ? validateMatchScore(sets, getScoringRules(format), {
+              superTiebreak,
+            }).winnerTeam
+          : getMatchEnding(endReason).hasWinner
+            ? (event.team ?? 0)
+            : 0;
+      lastScoreSequence = event.sequence;
+    }
+  }
+
+  return {
+    live,
+    sets,
+    superTiebreak,
+    winnerTeam,
+    endReason,
+    timeouts,
+    applied: applied.map((event) => event.sequence),
+    canUndo: applied.length > 0,
+    canRedo: undone.length > 0,
+    lastScoreSequence,
+  };
+}
+
+/**
+ * The event an undo or redo appended now would act on, if any
+ */
+export function getUndoRedoTarget(
+  events: MatchEvent[],
+  action: "undo" | "redo",
+): MatchEvent | null {
+  const ordered = [...events].sort((a, b) => a.sequence - b.sequence);
+  const { applied, undone } = resolveUndoStack(ordered);
+  const stack = action === "undo" ? applied : undone;
+  return stack[stack.length - 1] ?? null;
+}
+
+/**
+ * Events to append for a point: the point itself, plus game and set markers
+ * when it completed them
+ */
+export function getPointEvents(
+  before: LiveScoreState,
+  team: LiveTeam,
+  sequence: number,
+  shot?: ShotTag,
+): MatchEventDraft[] {
+  const after = scorePoint(before, team);
+  const drafts: MatchEventDraft[] = [
+    { type: "point", team, payload: shot ? { shot } : {} },
+  ];
+
+  const setsBefore = getLiveSetsWon(before);
+  const setsAfter = getLiveSetsWon(after);
+  const setCompleted =
+    setsAfter.team1 + setsAfter.team2 > setsBefore.team1 + setsBefore.team2;
+  const gameCompleted =
+    setCompleted ||
+    after.games.team1 + after.games.team2 >
+      before.games.team1 + before.games.team2;
+
+  if (gameCompleted) {
+    drafts.push({
+      type: "game",
+      team,
+      payload: {
+        point_sequence: sequence,
+        games: setCompleted
+          ? {
+              team1: after.sets[after.sets.length - 1].team1,
+              team2: after.sets[after.sets.length - 1].team2,
+            }
+          : after.games,
+      },
+    });
+  }
+
+  if (setCompleted) {
+    drafts.push({
+      type: "set",
+      team,
+      payload: { point_sequence: sequence, sets: after.sets },
+    });
+  }
+
+  return drafts;
+}
+
+/**
+ * Add events received one by one, e.g. over realtime, to a log. Duplicates
+ * are dropped. A gap in the sequence means events were missed and the log
+ * has to be reloaded.
+ */
+export function mergeMatchEvents(
+  current: MatchEvent[],
+  incoming: MatchEvent[],
+): { events: MatchEvent[]; hasGap: boolean } {
+  const bySequence = new Map(current.map((event) => [event.sequence, event]));
+  for (const event of incoming) bySequence.set(event.sequence, event);
+
+  const events = [...bySequence.values()].sort(
+    (a, b) => a.sequence - b.sequence,
+  );
+  const hasGap = events.some((event, index) => event.sequence !== index + 1);
+
+  return { events, hasGap };
+}
+
+/**
+ * The log as it stands: undone points, timeouts and corrections and the
+ * markers of undone points are left out. Undo and redo stay in as audit.
+ */
+export function getMatchTimeline(events: MatchEvent[]): MatchEvent[] {
+  const ordered = [...events].sort((a, b) => a.sequence - b.sequence);
+  const applied = new Set(
+    resolveUndoStack(ordered).applied.map((event) => event.sequence),
+  );
+
+  return ordered.filter((event) => {
+    if (UNDOABLE.includes(event.type)) return applied.has(event.sequence);
+    if (event.type === "game" || event.type === "set") {
+      return applied.has(event.payload.point_sequence ?? -1);
+    }
+    return true;
+  });
+}
+
+/**
+ * One line summary of an event for the match history
+ */
+export function describeMatchEvent(event: MatchEvent): string {
+  const team = event.team ? `Team ${event.team}` : "";
+
+  switch (event.type) {
+    case "match_started":
+      return "Live scoring started";
+    case "point": {
+      const shot = event.payload.shot;
+      const label = SHOT_OUTCOMES.find(
+        (outcome) => outcome.id === shot?.outcome,
+      )?.label;
+      return label ? `Point ${team} (${label})` : `Point ${team}`;
+    }
+    case "game": {
+      const games = event.payload.games;
+      return games
+        ? `Game ${team} (${games.team1}-${games.team2})`
+        : `Game ${team}`;
+    }
+    case "set":
+      return `Set ${team}`;
+    case "timeout":
+      return `Timeout ${team}`;
+    case "match_ended": {
+      const label = getMatchEnding(event.payload.end_reason).label;
+      return team ? `${label}, ${team} wins` : label;
+    }
+    case "correction": {
+      const sets = event.payload.sets ?? [];
+      const score = sets
+        .map((set, index) =>
+          formatSetScore(
+            set,
+            !!event.payload.super_tiebreak && index === sets.length - 1,
+          ),
+        )
+        .join(" ");
+      const ending = formatMatchEnding(event.payload.end_reason);
+      return `${event.payload.reason ?? "Score corrected"}: ${[score, ending]
+        .filter(Boolean)
+        .join(" ")}`;
+    }
+    case "undo":
+      return "Undo";
+    case "redo":
+      return "Redo";
+  }
+}
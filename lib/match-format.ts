@@ -0,0 +1,93 @@
+import {
+  CLASSIC_MATCH_FORMAT,
+  DEUCE_RULES,
+  DeuceRule,
+  MATCH_FORMATS,
+  MatchFormat,
+  MatchFormatId,
+  ScoringRules,
+} from "@/constants/scoring";
+
+export interface StoredMatchFormat {
+  match_format?: string | null;
+  deuce_rule?: string | null;
+}
+
+/**
+ * Normalise a stored format. Matches created before formats existed have
+ * none and are classic best of three.
+ */
+export function getMatchFormatId(format?: string | null): MatchFormatId {
+  return MATCH_FORMATS.some((option) => option.id === format)
+    ? (format as MatchFormatId)
+    : CLASSIC_MATCH_FORMAT.id;
+}
+
+/**
+ * Normalise a stored deuce rule, advantage when missing
+ */
+export function getDeuceRule(deuce?: string | null): DeuceRule {
+  return DEUCE_RULES.some((option) => option.id === deuce)
+    ? (deuce as DeuceRule)
+    : CLASSIC_MATCH_FORMAT.deuce;
+}
+
+/**
+ * Format of a stored match
+ */
+export function getMatchFormat(match?: StoredMatchFormat | null): MatchFormat {
+  return {
+    id: getMatchFormatId(match?.match_format),
+    deuce: getDeuceRule(match?.deuce_rule),
+  };
+}
+
+/**
+ * Set and tiebreak rules of a format
+ */
+export function getScoringRules(
+  format: MatchFormat | MatchFormatId,
+): ScoringRules {
+  const id = typeof format === "string" ? format : format.id;
+  return (MATCH_FORMATS.find((option) => option.id === id) ?? MATCH_FORMATS[0])
+    .rules;
+}
+
+/**
+ * Most sets a match in the format can take
+ */
+export function getMaxSets(format: MatchFormat | MatchFormatId): number {
+  return getScoringRules(format).setsToWin * 2 - 1;
+}
+
+/**
+ * Whether the deciding set can be replaced by a super tiebreak
+ */
+export function allowsSuperTiebreak(
+  format: MatchFormat | MatchFormatId,
+): boolean {
+  return getMaxSets(format) > 1;
+}
+
+/**
+ * Short label, e.g. "Pro Set · Golden Point"
+ */
+export function formatMatchFormat(format: MatchFormat): string {
+  const setsLabel = MATCH_FORMATS.find(
+    (option) => option.id === format.id,
+  )?.label;
+  const deuceLabel = DEUCE_RULES.find(
+    (option) => option.id === format.deuce,
+  )?.label;
+  return [setsLabel, deuceLabel].filter(Boolean).join(" · ");
+}
+
+/**
+ * Columns to store for a format
+ */
+export function toMatchFormatColumns(format: MatchFormat): {
+  match_format: MatchFormatId;
+  deuce_rule: DeuceRule;
+} {
+  return { match_format: format.id, deuce_rule: format.deuce };
+}
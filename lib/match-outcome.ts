@@ -0,0 +1,162 @@
+import { OutcomeModel, RATING_CONFIG } from "@/constants/rating";
+import { isRatedResult } from "@/lib/match-ending";
+import { getMatchFormat, getScoringRules } from "@/lib/match-format";
+import { RatedMatch } from "@/lib/rating-engine";
+import { getRatingWeightMultiplier, isRatedMatch } from "@/lib/rating-weight";
+
+type ScoreValue = number | string | null | undefined;
+
+export interface MatchSetScores {
+  team1_score_set1: ScoreValue;
+  team2_score_set1: ScoreValue;
+  team1_score_set2: ScoreValue;
+  team2_score_set2: ScoreValue;
+  team1_score_set3?: ScoreValue;
+  team2_score_set3?: ScoreValue;
+  winner_team?: number | null;
+  // The third set was a super tiebreak stored as points, e.g. 10-8
+  super_tiebreak?: boolean | null;
+  match_format?: string | null;
+}
+
+export interface OutcomeOptions {
+  model?: OutcomeModel;
+  // Share of the blended score taken from sets, the rest comes from games
+  setsWeight?: number;
+}
+
+const toScore = (value: ScoreValue): number | null => {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = typeof value === "string" ? parseInt(value, 10) : value;
+  return isNaN(parsed) ? null : parsed;
+};
+
+/**
+ * Extract the played sets as [team1, team2] pairs, skipping empty sets. A
+ * super tiebreak counts as a single game so its points don't swamp the games.
+ */
+export function getPlayedSets(match: MatchSetScores): [number, number][] {
+  const pairs: [ScoreValue, ScoreValue][] = [
+    [match.team1_score_set1, match.team2_score_set1],
+    [match.team1_score_set2, match.team2_score_set2],
+    [match.team1_score_set3, match.team2_score_set3],
+  ];
+
+  const sets = pairs
+    .map(([team1, team2]) => [toScore(team1), toScore(team2)])
+    .filter(
+      (set): set is [number, number] =>
+        set[0] !== null && set[1] !== null && set[0] + set[1] > 0,
+    );
+
+  if (match.super_tiebreak && sets.length === 3) {
+    const [team1, team2] = sets[2];
+    sets[2] = team1 > team2 ? [1, 0] : [0, 1];
+  }
+
+  return sets;
+}
+
+/**
+ * Turn the set scores of a match into team 1's performance between 0 and 1.
+ *
+ * - binary: 1 for a win, 0 for a loss, 0.5 for a tie
+ * - sets:   share of sets won
+ * - games:  share of games won
+ * - blend:  weighted mix of sets and games
+ *
+ * The winner never drops below MIN_WINNER_PERFORMANCE, so a team that wins
+ * the match on fewer total games is still rewarded for winning. In a single
+ * set format such as a pro set the set share is just the result, so the
+ * games of that set stand in for it.
+ */
+export function calculateTeam1Performance(
+  match: MatchSetScores,
+  options: OutcomeOptions = {},
+): number {
+  const model = options.model ?? RATING_CONFIG.OUTCOME_MODEL;
+  const setsWeight = options.setsWeight ?? RATING_CONFIG.OUTCOME_SETS_WEIGHT;
+  const sets = getPlayedSets(match);
+
+  let team1Sets = 0;
+  let team2Sets = 0;
+  let team1Games = 0;
+  let team2Games = 0;
+
+  for (const [team1, team2] of sets) {
+    if (team1 > team2) team1Sets++;
+    else if (team2 > team1) team2Sets++;
+    team1Games += team1;
+    team2Games += team2;
+  }
+
+  const winner =
+    match.winner_team ??
+    (team1Sets > team2Sets ? 1 : team2Sets > team1Sets ? 2 : 0);
+  const binary = winner === 1 ? 1 : winner === 2 ? 0 : 0.5;
+
+  const totalSets = team1Sets + team2Sets;
+  const totalGames = team1Games + team2Games;
+  const gameShare = totalGames > 0 ? team1Games / totalGames : binary;
+  const isSingleSet = getScoringRules(getMatchFormat(match)).setsToWin === 1;
+  const setShare = isSingleSet
+    ? gameShare
+    : totalSets > 0
+      ? team1Sets / totalSets
+      : binary;
+
+  let performance: number;
+  switch (model) {
+    case "binary":
+      return binary;
+    case "sets":
+      performance = setShare;
+      break;
+    case "games":
+      performance = gameShare;
+      break;
+    case "blend":
+    default:
+      performance = setsWeight * setShare + (1 - setsWeight) * gameShare;
+      break;
+  }
+
+  const floor = RATING_CONFIG.MIN_WINNER_PERFORMANCE;
+  if (winner === 1) return Math.max(performance, floor);
+  if (winner === 2) return Math.min(performance, 1 - floor);
+  return performance;
+}
+
+export interface RateableMatch extends MatchSetScores {
+  id: string;
+  player1_id: string;
+  player2_id: string | null;
+  player3_id: string | null;
+  player4_id: string | null;
+  rating_weight?: string | null;
+  end_reason?: string | null;
+}
+
+/**
+ * Map a stored match row onto the rating engine input, or null when the
+ * match does not have four players, is an unrated friendly or was never
+ * played to a result, e.g. a retirement before the first game
+ */
+export function toRatedMatch(
+  match: RateableMatch,
+  options: OutcomeOptions = {},
+): RatedMatch | null {
+  if (!match.player2_id || !match.player3_id || !match.player4_id) {
+    return null;
+  }
+  if (!isRatedMatch(match.rating_weight)) return null;
+  if (!isRatedResult(match)) return null;
+
+  return {
+    id: match.id,
+    team1: [match.player1_id, match.player2_id],
+    team2: [match.player3_id, match.player4_id],
+    team1Result: calculateTeam1Performance(match, options),
+    weight: getRatingWeightMultiplier(match.rating_weight),
+  };
+}
@@ -0,0 +1,132 @@
+import { RATING_CONFIG } from "@/constants/rating";
+import { GlickoRating, isProvisionalRating } from "@/lib/glicko";
+import { calculateTeam1Performance } from "@/lib/match-outcome";
+import {
+  RatingAlgorithm,
+  TeamRatings,
+  getDefaultRating,
+  getRatingAlgorithm,
+  parseStoredRating,
+} from "@/lib/rating-engine";
+
+export interface RatingSwing {
+  // Rating change if the player's team wins
+  win: number;
+  // Rating change if the player's team loses (usually negative)
+  loss: number;
+}
+
+export interface MatchPrediction {
+  team1WinProbability: number;
+  team2WinProbability: number;
+  team1Swings: [RatingSwing, RatingSwing];
+  team2Swings: [RatingSwing, RatingSwing];
+  // Players still in their placement phase, the probability is damped
+  // towards 50% for each of them
+  provisionalPlayers: number;
+}
+
+export interface PredictionPlayer {
+  glicko_rating?: string | number | null;
+  glicko_rd?: string | number | null;
+  glicko_vol?: string | number | null;
+  // Falls back to the RD rule when unknown
+  is_provisional?: boolean;
+}
+
+// Outcome used for the win/loss swings: a straight-sets 6-4 6-4 result
+const TYPICAL_WIN = {
+  team1_score_set1: 6,
+  team2_score_set1: 4,
+  team1_score_set2: 6,
+  team2_score_set2: 4,
+};
+
+/**
+ * Predict a match before it is played: each team's win probability and how
+ * much every player would gain or lose under a typical win or loss
+ */
+export function predictMatch(
+  team1: TeamRatings,
+  team2: TeamRatings,
+  algorithm: RatingAlgorithm = getRatingAlgorithm(),
+  provisionalPlayers = 0,
+  weight = 1,
+): MatchPrediction {
+  const damping =
+    1 - (RATING_CONFIG.PROVISIONAL_PREDICTION_DAMPING * provisionalPlayers) / 4;
+  const team1WinProbability =
+    0.5 + (algorithm.expectedScore(team1, team2) - 0.5) * damping;
+  const winResult = calculateTeam1Performance(TYPICAL_WIN);
+
+  const ifTeam1Wins = algorithm.rateMatch({
+    team1,
+    team2,
+    team1Result: winResult,
+    weight,
+  });
+  const ifTeam2Wins = algorithm.rateMatch({
+    team1,
+    team2,
+    team1Result: 1 - winResult,
+    weight,
+  });
+
+  const swing = (
+    before: GlickoRating,
+    afterWin: GlickoRating,
+    afterLoss: GlickoRating,
+  ): RatingSwing => ({
+    win: afterWin.rating - before.rating,
+    loss: afterLoss.rating - before.rating,
+  });
+
+  return {
+    team1WinProbability,
+    team2WinProbability: 1 - team1WinProbability,
+    team1Swings: [
+      swing(team1[0], ifTeam1Wins.team1[0], ifTeam2Wins.team1[0]),
+      swing(team1[1], ifTeam1Wins.team1[1], ifTeam2Wins.team1[1]),
+    ],
+    team2Swings: [
+      swing(team2[0], ifTeam2Wins.team2[0], ifTeam1Wins.team2[0]),
+      swing(team2[1], ifTeam2Wins.team2[1], ifTeam1Wins.team2[1]),
+    ],
+    provisionalPlayers,
+  };
+}
+
+/**
+ * Predict a match from profile rows. Open slots are assumed to be filled
+ * by a player at the default rating, provisional players are counted.
+ */
+export function predictMatchForPlayers(
+  team1: (PredictionPlayer | null | undefined)[],
+  team2: (PredictionPlayer | null | undefined)[],
+  algorithm?: RatingAlgorithm,
+  weight?: number,
+): MatchPrediction {
+  const toTeam = (
+    players: (PredictionPlayer | null | undefined)[],
+  ): TeamRatings => [
+    players[0] ? parseStoredRating(players[0]) : getDefaultRating(),
+    players[1] ? parseStoredRating(players[1]) : getDefaultRating(),
+  ];
+
+  const provisionalPlayers = [...team1, ...team2].filter(
+    (player) =>
+      !!player &&
+      (player.is_provisional ??
+        (player.glicko_rd !== undefined &&
+          player.glicko_rd !== null &&
+          isProvisionalRating(player.glicko_rd))),
+  ).length;
+
+  return predictMatch(
+    toTeam(team1),
+    toTeam(team2),
+    algorithm,
+    provisionalPlayers,
+    weight,
+  );
+}
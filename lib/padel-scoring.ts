@@ -0,0 +1,323 @@
+import { CLASSIC_SCORING_RULES, ScoringRules } from "@/constants/scoring";
+
+export interface TiebreakScore {
+  team1: number;
+  team2: number;
+}
+
+export interface SetScore {
+  team1: number;
+  team2: number;
+  // Points of the tiebreak that decided a 7-6 set, when known
+  tiebreak?: TiebreakScore | null;
+}
+
+export interface SetValidation {
+  isValid: boolean;
+  error?: string;
+  // The set went to a tiebreak, so tiebreak points can be entered
+  isTiebreakSet: boolean;
+}
+
+export interface MatchScoreValidation {
+  isValid: boolean;
+  errors: string[];
+  // 0 while the match is undecided
+  winnerTeam: 0 | 1 | 2;
+  team1Sets: number;
+  team2Sets: number;
+  // The sets are level and the deciding set still has to be entered
+  needsDecidingSet: boolean;
+}
+
+export interface MatchScoreOptions {
+  // The deciding set was replaced by a super tiebreak
+  superTiebreak?: boolean;
+}
+
+// Stored shape of the scores on a match row
+export interface MatchScoreColumns {
+  team1_score_set1: number | null;
+  team2_score_set1: number | null;
+  team1_score_set2: number | null;
+  team2_score_set2: number | null;
+  team1_score_set3: number | null;
+  team2_score_set3: number | null;
+  team1_tiebreak_set1: number | null;
+  team2_tiebreak_set1: number | null;
+  team1_tiebreak_set2: number | null;
+  team2_tiebreak_set2: number | null;
+  team1_tiebreak_set3: number | null;
+  team2_tiebreak_set3: number | null;
+  super_tiebreak: boolean;
+}
+
+/**
+ * Whether the set has any score entered
+ */
+export function isSetPlayed(set: SetScore | null | undefined): boolean {
+  return !!set && set.team1 + set.team2 > 0;
+}
+
+/**
+ * Winning team of a set or tiebreak, null when level
+ */
+export function getSetWinner(set: {
+  team1: number;
+  team2: number;
+}): 1 | 2 | null {
+  if (set.team1 > set.team2) return 1;
+  if (set.team2 > set.team1) return 2;
+  return null;
+}
+
+/**
+ * A tiebreak is won by the first team to `target` points with a two point
+ * lead. Past the target the winner is exactly two points ahead.
+ */
+export function isValidTiebreak(score: TiebreakScore, target: number): boolean {
+  const winner = Math.max(score.team1, score.team2);
+  const loser = Math.min(score.team1, score.team2);
+
+  if (score.team1 < 0 || score.team2 < 0) return false;
+  if (winner < target || winner - loser < 2) return false;
+  return winner === target || winner - loser === 2;
+}
+
+/**
+ * Validate the games of one set, plus its tiebreak points when entered
+ */
+export function validateSet(
+  set: SetScore,
+  rules: ScoringRules = CLASSIC_SCORING_RULES,
+): SetValidation {
+  const winner = Math.max(set.team1, set.team2);
+  const loser = Math.min(set.team1, set.team2);
+  const isTiebreakSet =
+    loser === rules.tiebreakAt && winner === rules.tiebreakAt + 1;
+
+  const isValid =
+    set.team1 >= 0 &&
+    set.team2 >= 0 &&
+    (isTiebreakSet ||
+      // Won outright, e.g. 6-4
+      (winner === rules.gamesPerSet && loser <= rules.gamesPerSet - 2) ||
+      // Won by two after both reached games-per-set minus one, e.g. 7-5
+      (winner - loser === 2 &&
+        loser >= rules.gamesPerSet - 1 &&
+        loser < rules.tiebreakAt));
+
+  if (!isValid) {
+    return { isValid: false, error: "Invalid padel score", isTiebreakSet };
+  }
+
+  if (set.tiebreak) {
+    if (!isTiebreakSet) {
+      return {
+        isValid: false,
+        error: "Only a tiebreak set has tiebreak points",
+        isTiebreakSet,
+      };
+    }
+    if (!isValidTiebreak(set.tiebreak, rules.tiebreakPoints)) {
+      return { isValid: false, error: "Invalid tiebreak score", isTiebreakSet };
+    }
+    if (getSetWinner(set.tiebreak) !== getSetWinner(set)) {
+      return {
+        isValid: false,
+        error: "The tiebreak winner must win the set",
+        isTiebreakSet,
+      };
+    }
+  }
+
+  return { isValid: true, isTiebreakSet };
+}
+
+/**
+ * Validate a super tiebreak played as the deciding set
+ */
+export function validateSuperTiebreak(
+  set: SetScore,
+  rules: ScoringRules = CLASSIC_SCORING_RULES,
+): SetValidation {
+  const isValid = isValidTiebreak(set, rules.superTiebreakPoints);
+  return {
+    isValid,
+    error: isValid ? undefined : "Invalid super tiebreak score",
+    isTiebreakSet: false,
+  };
+}
+
+/**
+ * Validate every set of a match and work out the winner. Sets after the
+ * match was decided and a missing deciding set are errors.
+ */
+export function validateMatchScore(
+  sets: SetScore[],
+  rules: ScoringRules = CLASSIC_SCORING_RULES,
+  options: MatchScoreOptions = {},
+): MatchScoreValidation {
+  const errors: string[] = [];
+  const maxSets = rules.setsToWin * 2 - 1;
+  const played = sets.filter(isSetPlayed);
+  let team1Sets = 0;
+  let team2Sets = 0;
+
+  if (played.length === 0) {
+    errors.push("Please enter the score of the first set");
+  }
+
+  played.forEach((set, index) => {
+    const setNumber = index + 1;
+
+    if (team1Sets === rules.setsToWin || team2Sets === rules.setsToWin) {
+      errors.push(`The match was already decided before set ${setNumber}`);
+      return;
+    }
+
+    const isDecider =
+      options.superTiebreak && maxSets > 1 && setNumber === maxSets;
+    const validation = isDecider
+      ? validateSuperTiebreak(set, rules)
+      : validateSet(set, rules);
+
+    if (!validation.isValid) {
+      errors.push(`Set ${setNumber}: ${validation.error}`);
+      return;
+    }
+
+    if (getSetWinner(set) === 1) team1Sets++;
+    else team2Sets++;
+  });
+
+  const winnerTeam =
+    team1Sets === rules.setsToWin ? 1 : team2Sets === rules.setsToWin ? 2 : 0;
+  const needsDecidingSet =
+    errors.length === 0 &&
+    winnerTeam === 0 &&
+    team1Sets === team2Sets &&
+    team1Sets === rules.setsToWin - 1;
+
+  if (errors.length === 0 && winnerTeam === 0 && played.length > 0) {
+    errors.push(
+      needsDecidingSet
+        ? `Please enter the score of set ${played.length + 1} to decide the match`
+        : "Please enter the remaining sets",
+    );
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    winnerTeam: errors.length === 0 ? winnerTeam : 0,
+    team1Sets,
+    team2Sets,
+    needsDecidingSet,
+  };
+}
+
+/**
+ * Winning team of a match from its set scores, 0 while undecided
+ */
+export function determineWinnerTeam(
+  sets: SetScore[],
+  rules: ScoringRules = CLASSIC_SCORING_RULES,
+  options: MatchScoreOptions = {},
+): 0 | 1 | 2 {
+  return validateMatchScore(sets, rules, options).winnerTeam;
+}
+
+/**
+ * Every valid set score for one team winning, for score suggestions
+ */
+export function getValidSetScores(
+  rules: ScoringRules = CLASSIC_SCORING_RULES,
+): SetScore[] {
+  const scores: SetScore[] = [];
+  const maxGames = rules.tiebreakAt + 1;
+
+  for (let winner = rules.gamesPerSet; winner <= maxGames; winner++) {
+    for (let loser = 0; loser < winner; loser++) {
+      if (validateSet({ team1: winner, team2: loser }, rules).isValid) {
+        scores.push({ team1: winner, team2: loser });
+        scores.push({ team1: loser, team2: winner });
+      }
+    }
+  }
+
+  return scores;
+}
+
+/**
+ * Score of a set for display, e.g. "6-4", "7-6(5)" or "[10-8]". Tiebreak
+ * points show the loser's score, as on a scoreboard.
+ */
+export function formatSetScore(set: SetScore, superTiebreak = false): string {
+  if (superTiebreak) return `[${set.team1}-${set.team2}]`;
+
+  const base = `${set.team1}-${set.team2}`;
+  if (!set.tiebreak) return base;
+
+  return `${base}(${Math.min(set.tiebreak.team1, set.tiebreak.team2)})`;
+}
+
+/**
+ * Read the sets of a stored match, unplayed sets are left out
+ */
+export function getMatchSets(
+  match: Partial<Omit<MatchScoreColumns, "super_tiebreak">>,
+): SetScore[] {
+  const sets: SetScore[] = [];
+
+  ([1, 2, 3] as const).forEach((setNumber) => {
+    const team1 = match[`team1_score_set${setNumber}`];
+    const team2 = match[`team2_score_set${setNumber}`];
+    if (team1 === null || team1 === undefined) return;
+    if (team2 === null || team2 === undefined) return;
+
+    const tiebreak1 = match[`team1_tiebreak_set${setNumber}`];
+    const tiebreak2 = match[`team2_tiebreak_set${setNumber}`];
+
+    sets.push({
+      team1,
+      team2,
+      tiebreak:
+        tiebreak1 !== null &&
+        tiebreak1 !== undefined &&
+        tiebreak2 !== null &&
+        tiebreak2 !== undefined
+          ? { team1: tiebreak1, team2: tiebreak2 }
+          : null,
+    });
+  });
+
+  return sets;
+}
+
+/**
+ * Columns to store for a set of scores
+ */
+export function toMatchScoreColumns(
+  sets: SetScore[],
+  options: MatchScoreOptions = {},
+): MatchScoreColumns {
+  const played = sets.filter(isSetPlayed);
+  const at = (index: number) => played[index] ?? null;
+
+  return {
+    team1_score_set1: at(0)?.team1 ?? null,
+    team2_score_set1: at(0)?.team2 ?? null,
+    team1_score_set2: at(1)?.team1 ?? null,
+    team2_score_set2: at(1)?.team2 ?? null,
+    team1_score_set3: at(2)?.team1 ?? null,
+    team2_score_set3: at(2)?.team2 ?? null,
+    team1_tiebreak_set1: at(0)?.tiebreak?.team1 ?? null,
+    team2_tiebreak_set1: at(0)?.tiebreak?.team2 ?? null,
+    team1_tiebreak_set2: at(1)?.tiebreak?.team1 ?? null,
+    team2_tiebreak_set2: at(1)?.tiebreak?.team2 ?? null,
+    team1_tiebreak_set3: at(2)?.tiebreak?.team1 ?? null,
+    team2_tiebreak_set3: at(2)?.tiebreak?.team2 ?? null,
+    super_tiebreak: !!options.superTiebreak && played.length === 3,
+  };
+}
@@ -0,0 +1,334 @@
+import { PAIR_RATING_CONFIG } from "@/constants/pair-rating";
+import { RATING_CONFIG } from "@/constants/rating";
+import { GlickoRating, updateGlicko } from "@/lib/glicko";
+import { toRatedMatch } from "@/lib/match-outcome";
+import { RatedMatch } from "@/lib/rating-engine";
+import { ReplayMatch } from "@/lib/rating-replay";
+import { applyRatingWeight } from "@/lib/rating-weight";
+
+export type ChemistryLevel = "strong" | "good" | "neutral" | "poor";
+
+export interface PairChemistry {
+  // Pair rating minus the average of the two individual ratings
+  delta: number;
+  level: ChemistryLevel;
+  label: string;
+  color: string;
+}
+
+export interface PairRatingChange {
+  match_id: string;
+  player1_id: string;
+  player2_id: string;
+  rating_before: number;
+  rd_before: number;
+  vol_before: number;
+  rating_after: number;
+  rd_after: number;
+  vol_after: number;
+  won: boolean;
+}
+
+export interface PairRecord extends GlickoRating {
+  matches_played: number;
+  wins: number;
+  losses: number;
+}
+
+export interface PairCascadePlan {
+  // Fresh audit rows replacing the reverted ones
+  changes: PairRatingChange[];
+  // Per-pair correction to add on top of the stored pair, keyed by getPairId
+  adjustments: Map<string, PairRecord>;
+}
+
+/**
+ * Pairs are stored once, with the two player ids in sorted order
+ */
+export function getPairKey(playerA: string, playerB: string): [string, string] {
+  return playerA < playerB ? [playerA, playerB] : [playerB, playerA];
+}
+
+/**
+ * Single string key of a pair, for maps and sets
+ */
+export function getPairId(playerA: string, playerB: string): string {
+  return getPairKey(playerA, playerB).join(":");
+}
+
+/**
+ * Starting rating of a pair that has not played together before
+ */
+export function seedPairRating(
+  playerA: GlickoRating,
+  playerB: GlickoRating,
+  config = PAIR_RATING_CONFIG,
+): GlickoRating {
+  return {
+    rating: (playerA.rating + playerB.rating) / 2,
+    rd: config.INITIAL_RD,
+    vol: RATING_CONFIG.DEFAULT_VOL,
+  };
+}
+
+/**
+ * Rate one pair against the opposing pair
+ *
+ * @param result - The pair's 0-1 performance score
+ * @param weight - Rating weight multiplier of the match
+ */
+export function ratePair(
+  pair: GlickoRating,
+  opponents: GlickoRating,
+  result: number,
+  weight = 1,
+): GlickoRating {
+  const updated = updateGlicko(
+    pair.rating,
+    pair.rd,
+    pair.vol,
+    [opponents.rating],
+    [opponents.rd],
+    [result],
+  );
+
+  return applyRatingWeight(pair, updated, weight);
+}
+
+/**
+ * Rate both pairs of a match against each other
+ *
+ * @param winnerTeam - Stored winner of the match, counts the win or loss
+ * @param pairRatingOf - Rating of a pair going into the match
+ */
+export function rateMatchPairs(
+  match: RatedMatch,
+  winnerTeam: number | null | undefined,
+  pairRatingOf: (pair: [string, string]) => GlickoRating,
+): PairRatingChange[] {
+  const pair1 = getPairKey(match.team1[0], match.team1[1]);
+  const pair2 = getPairKey(match.team2[0], match.team2[1]);
+  const before1 = pairRatingOf(pair1);
+  const before2 = pairRatingOf(pair2);
+  const after1 = ratePair(before1, before2, match.team1Result, match.weight);
+  const after2 = ratePair(
+    before2,
+    before1,
+    1 - match.team1Result,
+    match.weight,
+  );
+
+  const toChange = (
+    [player1Id, player2Id]: [string, string],
+    before: GlickoRating,
+    after: GlickoRating,
+    won: boolean,
+  ): PairRatingChange => ({
+    match_id: match.id,
+    player1_id: player1Id,
+    player2_id: player2Id,
+    rating_before: before.rating,
+    rd_before: before.rd,
+    vol_before: before.vol,
+    rating_after: after.rating,
+    rd_after: after.rd,
+    vol_after: after.vol,
+    won,
+  });
+
+  return [
+    toChange(pair1, before1, after1, winnerTeam === 1),
+    toChange(pair2, before2, after2, winnerTeam === 2),
+  ];
+}
+
+const ratingAfter = (change: PairRatingChange): GlickoRating => ({
+  rating: Number(change.rating_after),
+  rd: Number(change.rd_after),
+  vol: Number(change.vol_after),
+});
+
+// Move a pair's record forward by one rated match
+const recordChange = (
+  records: Map<string, PairRecord>,
+  change: PairRatingChange,
+) => {
+  const pairId = getPairId(change.player1_id, change.player2_id);
+  const record = records.get(pairId);
+
+  records.set(pairId, {
+    ...ratingAfter(change),
+    matches_played: (record?.matches_played ?? 0) + 1,
+    wins: (record?.wins ?? 0) + (change.won ? 1 : 0),
+    losses: (record?.losses ?? 0) + (change.won ? 0 : 1),
+  });
+};
+
+/**
+ * Rebuild every pair rating by rating the matches in chronological order.
+ * A pair playing its first match is seeded from its players' ratings going
+ * into that match.
+ *
+ * @param seedOf - Individual rating of a player going into a match
+ */
+export function replayPairRatings(
+  matches: ReplayMatch[],
+  seedOf: (matchId: string, playerId: string) => GlickoRating,
+): { pairs: Map<string, PairRecord>; changes: PairRatingChange[] } {
+  const pairs = new Map<string, PairRecord>();
+  const changes: PairRatingChange[] = [];
+
+  const ordered = [...matches].sort(
+    (a, b) =>
+      new Date(a.start_time).getTime() - new Date(b.start_time).getTime(),
+  );
+
+  for (const match of ordered) {
+    const rated = toRatedMatch(match);
+    if (!rated) continue;
+
+    const matchChanges = rateMatchPairs(
+      rated,
+      match.winner_team,
+      ([playerA, playerB]) =>
+        pairs.get(getPairId(playerA, playerB)) ??
+        seedPairRating(seedOf(match.id, playerA), seedOf(match.id, playerB)),
+    );
+
+    matchChanges.forEach((change) => recordChange(pairs, change));
+    changes.push(...matchChanges);
+  }
+
+  return { pairs, changes };
+}
+
+/**
+ * Recompute the pair ratings of a corrected match (when it was edited) and
+ * every downstream match in order, the same way planRatingCascade does for
+ * the individual ratings. Adjustments also carry the change in each pair's
+ * matches played, wins and losses.
+ *
+ * @param currentRatingOf - Stored rating of a pair with no audit row in the
+ * chain, or its seed if it was never rated
+ */
+export function planPairCascade(
+  trigger: ReplayMatch,
+  downstream: ReplayMatch[],
+  storedChanges: PairRatingChange[],
+  options: {
+    rerateTrigger: boolean;
+    currentRatingOf: (pair: [string, string]) => GlickoRating;
+  },
+): PairCascadePlan {
+  const sequence = [trigger, ...downstream];
+  const order = new Map(sequence.map((match, index) => [match.id, index]));
+
+  const rowsInOrder = storedChanges
+    .filter((change) => order.has(change.match_id))
+    .sort((a, b) => order.get(a.match_id)! - order.get(b.match_id)!);
+
+  // Rating before the first affected match, and what the chain added
+  const baseline = new Map<string, GlickoRating>();
+  const previous = new Map<string, PairRecord>();
+  for (const change of rowsInOrder) {
+    const pairId = getPairId(change.player1_id, change.player2_id);
+    if (!baseline.has(pairId)) {
+      baseline.set(pairId, {
+        rating: Number(change.rating_before),
+        rd: Number(change.rd_before),
+        vol: Number(change.vol_before),
+      });
+    }
+    recordChange(previous, change);
+  }
+
+  // Pairs first rated by the correction start from their stored rating
+  const startOf = (pair: [string, string]): GlickoRating => {
+    const pairId = getPairId(pair[0], pair[1]);
+    if (!baseline.has(pairId)) {
+      baseline.set(pairId, options.currentRatingOf(pair));
+    }
+    return baseline.get(pairId)!;
+  };
+
+  const corrected = new Map<string, PairRecord>();
+  const changes: PairRatingChange[] = [];
+
+  const matchesToRate = options.rerateTrigger ? sequence : downstream;
+  for (const match of matchesToRate) {
+    const rated = toRatedMatch(match);
+    if (!rated) continue;
+
+    const matchChanges = rateMatchPairs(
+      rated,
+      match.winner_team,
+      (pair) => corrected.get(getPairId(pair[0], pair[1])) ?? startOf(pair),
+    );
+    matchChanges.forEach((change) => recordChange(corrected, change));
+    changes.push(...matchChanges);
+  }
+
+  const unplayed = (pairId: string): PairRecord => ({
+    ...baseline.get(pairId)!,
+    matches_played: 0,
+    wins: 0,
+    losses: 0,
+  });
+
+  const adjustments = new Map<string, PairRecord>();
+  new Set([...previous.keys(), ...corrected.keys()]).forEach((pairId) => {
+    const oldFinal = previous.get(pairId) ?? unplayed(pairId);
+    const newFinal = corrected.get(pairId) ?? unplayed(pairId);
+
+    adjustments.set(pairId, {
+      rating: newFinal.rating - oldFinal.rating,
+      rd: newFinal.rd - oldFinal.rd,
+      vol: newFinal.vol - oldFinal.vol,
+      matches_played: newFinal.matches_played - oldFinal.matches_played,
+      wins: newFinal.wins - oldFinal.wins,
+      losses: newFinal.losses - oldFinal.losses,
+    });
+  });
+
+  return { changes, adjustments };
+}
+
+/**
+ * How a pair performs compared to its players' individual ratings.
+ * Returns null until the pair has played enough matches together.
+ */
+export function getPairChemistry(
+  pairRating: number,
+  playerRatings: [number, number],
+  matchesPlayed: number,
+  config = PAIR_RATING_CONFIG,
+): PairChemistry | null {
+  if (matchesPlayed < config.CHEMISTRY_MIN_MATCHES) return null;
+
+  const delta = Math.round(
+    pairRating - (playerRatings[0] + playerRatings[1]) / 2,
+  );
+
+  if (delta >= config.CHEMISTRY_STRONG) {
+    return {
+      delta,
+      level: "strong",
+      label: "Great chemistry",
+      color: "#16a34a",
+    };
+  }
+  if (delta >= config.CHEMISTRY_GOOD) {
+    return { delta, level: "good", label: "Good chemistry", color: "#2148ce" };
+  }
+  if (delta > -config.CHEMISTRY_GOOD) {
+    return { delta, level: "neutral", label: "As expected", color: "#6b7280" };
+  }
+  return { delta, level: "poor", label: "Still clicking", color: "#dc2626" };
+}
+
+/**
+ * Signed chemistry delta for display, e.g. "+42"
+ */
+export function formatChemistryDelta(delta: number): string {
+  return `${delta > 0 ? "+" : ""}${delta}`;
+}
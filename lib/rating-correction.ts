@@ -0,0 +1,175 @@
+import { GlickoRating } from "@/lib/glicko";
+import { toRatedMatch } from "@/lib/match-outcome";
+import {
+  RatingAlgorithm,
+  TeamRatings,
+  getDefaultRating,
+  getRatingAlgorithm,
+} from "@/lib/rating-engine";
+import { ReplayMatch, ReplayRatingChange } from "@/lib/rating-replay";
+
+export interface StoredRatingChange {
+  match_id: string;
+  player_id: string;
+  rating_before: number;
+  rd_before: number;
+  vol_before: number;
+  rating_after: number;
+  rd_after: number;
+  vol_after: number;
+}
+
+export interface RatingCascadePlan {
+  // Matches re-rated after the trigger, in chronological order
+  downstreamMatchIds: string[];
+  // Fresh audit rows replacing the reverted ones
+  changes: ReplayRatingChange[];
+  // Per-player correction to add on top of the stored profile rating
+  adjustments: Map<string, GlickoRating>;
+}
+
+const playersOf = (match: ReplayMatch): string[] =>
+  [
+    match.player1_id,
+    match.player2_id,
+    match.player3_id,
+    match.player4_id,
+  ].filter((id): id is string => !!id);
+
+const toRating = (
+  change: StoredRatingChange,
+  side: "before" | "after",
+): GlickoRating =>
+  side === "before"
+    ? {
+        rating: Number(change.rating_before),
+        rd: Number(change.rd_before),
+        vol: Number(change.vol_before),
+      }
+    : {
+        rating: Number(change.rating_after),
+        rd: Number(change.rd_after),
+        vol: Number(change.vol_after),
+      };
+
+/**
+ * Walk later matches in order and collect every one that involves a player
+ * whose rating has been touched by the correction so far. Each collected
+ * match spreads the correction to all four of its players.
+ */
+export function findAffectedMatches(
+  trigger: ReplayMatch,
+  laterMatches: ReplayMatch[],
+): ReplayMatch[] {
+  const affectedPlayers = new Set(playersOf(trigger));
+  const affected: ReplayMatch[] = [];
+
+  const ordered = [...laterMatches]
+    .filter((match) => match.id !== trigger.id)
+    .sort(
+      (a, b) =>
+        new Date(a.start_time).getTime() - new Date(b.start_time).getTime(),
+    );
+
+  for (const match of ordered) {
+    const players = playersOf(match);
+    if (players.some((playerId) => affectedPlayers.has(playerId))) {
+      affected.push(match);
+      players.forEach((playerId) => affectedPlayers.add(playerId));
+    }
+  }
+
+  return affected;
+}
+
+/**
+ * Recompute a corrected match (when it was edited) and every downstream
+ * match in order, starting from each player's rating just before the first
+ * affected match. Returns the new audit rows and the rating correction for
+ * each player, expressed as a delta against what was previously applied.
+ */
+export function planRatingCascade(
+  trigger: ReplayMatch,
+  downstream: ReplayMatch[],
+  storedChanges: StoredRatingChange[],
+  options: { rerateTrigger: boolean; algorithm?: RatingAlgorithm },
+): RatingCascadePlan {
+  const algorithm = options.algorithm ?? getRatingAlgorithm();
+  const sequence = [trigger, ...downstream];
+  const order = new Map(sequence.map((match, index) => [match.id, index]));
+
+  const rowsInOrder = storedChanges
+    .filter((change) => order.has(change.match_id))
+    .sort((a, b) => order.get(a.match_id)! - order.get(b.match_id)!);
+
+  // Rating before the first affected match and after the last applied one
+  const baseline = new Map<string, GlickoRating>();
+  const previousFinal = new Map<string, GlickoRating>();
+  for (const change of rowsInOrder) {
+    if (!baseline.has(change.player_id)) {
+      baseline.set(change.player_id, toRating(change, "before"));
+    }
+    previousFinal.set(change.player_id, toRating(change, "after"));
+  }
+
+  const ratings = new Map(baseline);
+  const ratingOf = (playerId: string) =>
+    ratings.get(playerId) ?? getDefaultRating();
+  const changes: ReplayRatingChange[] = [];
+
+  const matchesToRate = options.rerateTrigger ? sequence : downstream;
+  for (const match of matchesToRate) {
+    const rated = toRatedMatch(match);
+    if (!rated) continue;
+
+    const team1: TeamRatings = [
+      ratingOf(rated.team1[0]),
+      ratingOf(rated.team1[1]),
+    ];
+    const team2: TeamRatings = [
+      ratingOf(rated.team2[0]),
+      ratingOf(rated.team2[1]),
+    ];
+    const updated = algorithm.rateMatch({
+      team1,
+      team2,
+      team1Result: rated.team1Result,
+      weight: rated.weight,
+    });
+
+    const playerIds = [...rated.team1, ...rated.team2];
+    const before = [...team1, ...team2];
+    const after = [...updated.team1, ...updated.team2];
+
+    playerIds.forEach((playerId, index) => {
+      changes.push({
+        match_id: match.id,
+        player_id: playerId,
+        rating_before: before[index].rating,
+        rd_before: before[index].rd,
+        vol_before: before[index].vol,
+        rating_after: after[index].rating,
+        rd_after: after[index].rd,
+        vol_after: after[index].vol,
+        is_provisional: false,
+      });
+      ratings.set(playerId, after[index]);
+    });
+  }
+
+  const adjustments = new Map<string, GlickoRating>();
+  previousFinal.forEach((oldFinal, playerId) => {
+    const newFinal = ratings.get(playerId) ?? oldFinal;
+    adjustments.set(playerId, {
+      rating: newFinal.rating - oldFinal.rating,
+      rd: newFinal.rd - oldFinal.rd,
+      vol: newFinal.vol - oldFinal.vol,
+    });
+  });
+
+  return {
+    downstreamMatchIds: downstream.map((match) => match.id),
+    changes,
+    adjustments,
+  };
+}
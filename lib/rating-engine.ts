@@ -0,0 +1,462 @@
+import { RATING_CONFIG, RatingAlgorithmId } from "@/constants/rating";
+import {
+  GlickoRating,
+  calculateMatchRatings,
+  expectedScore,
+  updateGlicko,
+} from "@/lib/glicko";
+import { applyRatingWeight } from "@/lib/rating-weight";
+
+export type TeamRatings = [GlickoRating, GlickoRating];
+
+export interface MatchRatingInput {
+  team1: TeamRatings;
+  team2: TeamRatings;
+  // Team 1 performance from 0 (lost everything) to 1 (won everything)
+  team1Result: number;
+  // Rating movement multiplier (see lib/rating-weight.ts), 1 when omitted
+  weight?: number;
+}
+
+export interface MatchRatingOutput {
+  team1: TeamRatings;
+  team2: TeamRatings;
+}
+
+/**
+ * Contract every rating algorithm implements so that the services, the
+ * replay tooling and the comparison helpers can run any of them against
+ * the same match input
+ */
+export interface RatingAlgorithm {
+  id: RatingAlgorithmId;
+  name: string;
+  /** Probability that `team` beats `opponents` */
+  expectedScore(team: TeamRatings, opponents: TeamRatings): number;
+  rateMatch(input: MatchRatingInput): MatchRatingOutput;
+  /**
+   * Rate a whole rating period at once. Every player is updated a single
+   * time from their pre-period rating using all matches they played.
+   * Returns new ratings for the players who took part.
+   */
+  ratePeriod(
+    matches: RatedMatch[],
+    ratings: Map<string, GlickoRating>,
+  ): Map<string, GlickoRating>;
+}
+
+export interface RatedMatch {
+  id: string;
+  team1: [string, string];
+  team2: [string, string];
+  team1Result: number;
+  weight?: number;
+}
+
+export interface HistoricalMatch extends RatedMatch {
+  playedAt: string;
+}
+
+// A single Glicko game as seen from one player
+interface GlickoGame {
+  opponentRating: number;
+  opponentRd: number;
+  score: number;
+}
+
+type GlickoGamesBuilder = (
+  player: GlickoRating,
+  team: TeamRatings,
+  opponents: TeamRatings,
+  result: number,
+) => GlickoGame[];
+
+export interface AlgorithmEvaluation {
+  algorithm: RatingAlgorithmId;
+  matches: number;
+  // Share of decided matches where the predicted favourite won
+  accuracy: number;
+  // Mean squared error between expected score and actual result
+  brierScore: number;
+  ratings: Map<string, GlickoRating>;
+}
+
+export const getDefaultRating = (): GlickoRating => ({
+  rating: RATING_CONFIG.DEFAULT_RATING,
+  rd: RATING_CONFIG.DEFAULT_RD,
+  vol: RATING_CONFIG.DEFAULT_VOL,
+});
+
+/**
+ * Parse the Glicko columns stored on `profiles` (numeric strings) into a
+ * rating, falling back to the defaults for missing values
+ */
+export const parseStoredRating = (profile: {
+  glicko_rating?: string | number | null;
+  glicko_rd?: string | number | null;
+  glicko_vol?: string | number | null;
+}): GlickoRating => ({
+  rating:
+    parseFloat(String(profile.glicko_rating)) || RATING_CONFIG.DEFAULT_RATING,
+  rd: parseFloat(String(profile.glicko_rd)) || RATING_CONFIG.DEFAULT_RD,
+  vol: parseFloat(String(profile.glicko_vol)) || RATING_CONFIG.DEFAULT_VOL,
+});
+
+const teamAverageRating = (team: TeamRatings): number =>
+  (team[0].rating + team[1].rating) / 2;
+
+const teamCombinedRd = (team: TeamRatings): number =>
+  Math.sqrt((team[0].rd * team[0].rd + team[1].rd * team[1].rd) / 2);
+
+const ratingFrom = (ratings: Map<string, GlickoRating>, playerId: string) =>
+  ratings.get(playerId) ?? getDefaultRating();
+
+/**
+ * Iterate over the four player slots of a match from each player's side
+ */
+const forEachPlayerSide = (
+  match: RatedMatch,
+  ratings: Map<string, GlickoRating>,
+  callback: (
+    playerId: string,
+    player: GlickoRating,
+    team: TeamRatings,
+    opponents: TeamRatings,
+    result: number,
+  ) => void,
+) => {
+  const team1: TeamRatings = [
+    ratingFrom(ratings, match.team1[0]),
+    ratingFrom(ratings, match.team1[1]),
+  ];
+  const team2: TeamRatings = [
+    ratingFrom(ratings, match.team2[0]),
+    ratingFrom(ratings, match.team2[1]),
+  ];
+
+  match.team1.forEach((id, index) =>
+    callback(id, team1[index], team1, team2, match.team1Result),
+  );
+  match.team2.forEach((id, index) =>
+    callback(id, team2[index], team2, team1, 1 - match.team1Result),
+  );
+};
+
+/**
+ * Build a batched Glicko-2 period update from a per-match games builder
+ */
+const glickoPeriodRater =
+  (buildGames: GlickoGamesBuilder) =>
+  (
+    matches: RatedMatch[],
+    ratings: Map<string, GlickoRating>,
+  ): Map<string, GlickoRating> => {
+    const games = new Map<string, GlickoGame[]>();
+
+    for (const match of matches) {
+      forEachPlayerSide(
+        match,
+        ratings,
+        (playerId, player, team, opponents, result) => {
+          const playerGames = games.get(playerId) ?? [];
+          playerGames.push(...buildGames(player, team, opponents, result));
+          games.set(playerId, playerGames);
+        },
+      );
+    }
+
+    const updated = new Map<string, GlickoRating>();
+    games.forEach((playerGames, playerId) => {
+      const player = ratingFrom(ratings, playerId);
+      updated.set(
+        playerId,
+        updateGlicko(
+          player.rating,
+          player.rd,
+          player.vol,
+          playerGames.map((game) => game.opponentRating),
+          playerGames.map((game) => game.opponentRd),
+          playerGames.map((game) => game.score),
+        ),
+      );
+    });
+
+    return updated;
+  };
+
+const compositeExpectedScore = (
+  team: TeamRatings,
+  opponents: TeamRatings,
+): number =>
+  expectedScore(
+    teamAverageRating(team),
+    teamAverageRating(opponents),
+    teamCombinedRd(opponents),
+  );
+
+/**
+ * Glicko-2 with every player rated individually against both opponents.
+ * This is the historical behaviour of the app.
+ */
+const glicko2Algorithm: RatingAlgorithm = {
+  id: "glicko2",
+  name: "Glicko-2",
+  expectedScore: compositeExpectedScore,
+  rateMatch({ team1, team2, team1Result }) {
+    const updated = calculateMatchRatings(
+      team1[0],
+      team1[1],
+      team2[0],
+      team2[1],
+      team1Result,
+      1 - team1Result,
+    );
+
+    return {
+      team1: [updated.player1, updated.player2],
+      team2: [updated.player3, updated.player4],
+    };
+  },
+  ratePeriod: glickoPeriodRater((player, team, opponents, result) =>
+    opponents.map((opponent) => ({
+      opponentRating: opponent.rating,
+      opponentRd: opponent.rd,
+      score: result,
+    })),
+  ),
+};
+
+/**
+ * Classic Elo on team averages. Both partners move by the same amount and
+ * RD/volatility are carried through untouched.
+ */
+const eloAlgorithm: RatingAlgorithm = {
+  id: "elo",
+  name: "Elo",
+  expectedScore(team, opponents) {
+    const diff = teamAverageRating(opponents) - teamAverageRating(team);
+    return 1 / (1 + Math.pow(10, diff / 400));
+  },
+  rateMatch({ team1, team2, team1Result }) {
+    const team1Expected = this.expectedScore(team1, team2);
+    const delta = RATING_CONFIG.ELO_K_FACTOR * (team1Result - team1Expected);
+
+    const shift = (team: TeamRatings, amount: number): TeamRatings => [
+      { ...team[0], rating: team[0].rating + amount },
+      { ...team[1], rating: team[1].rating + amount },
+    ];
+
+    return {
+      team1: shift(team1, delta),
+      team2: shift(team2, -delta),
+    };
+  },
+  ratePeriod(matches, ratings) {
+    // Sum every match delta against pre-period ratings, then apply once
+    const deltas = new Map<string, number>();
+
+    for (const match of matches) {
+      forEachPlayerSide(
+        match,
+        ratings,
+        (playerId, player, team, opponents, result) => {
+          const delta =
+            RATING_CONFIG.ELO_K_FACTOR *
+            (result - this.expectedScore(team, opponents));
+          deltas.set(playerId, (deltas.get(playerId) ?? 0) + delta);
+        },
+      );
+    }
+
+    const updated = new Map<string, GlickoRating>();
+    deltas.forEach((delta, playerId) => {
+      const player = ratingFrom(ratings, playerId);
+      updated.set(playerId, { ...player, rating: player.rating + delta });
+    });
+
+    return updated;
+  },
+};
+
+/**
+ * Team-aware Glicko-2. Each player faces a single composite opponent whose
+ * rating is offset by the strength gap between the two pairs, so carrying a
+ * weaker partner earns more than winning alongside a stronger one.
+ */
+const teamGlickoGames: GlickoGamesBuilder = (
+  player,
+  team,
+  opponents,
+  result,
+) => [
+  {
+    opponentRating:
+      player.rating + teamAverageRating(opponents) - teamAverageRating(team),
+    opponentRd: teamCombinedRd(opponents),
+    score: result,
+  },
+];
+
+const teamGlicko2Algorithm: RatingAlgorithm = {
+  id: "team-glicko2",
+  name: "Team Glicko-2",
+  expectedScore: compositeExpectedScore,
+  rateMatch({ team1, team2, team1Result }) {
+    const rateTeam = (
+      team: TeamRatings,
+      opponents: TeamRatings,
+      result: number,
+    ): TeamRatings =>
+      team.map((player) => {
+        const [game] = teamGlickoGames(player, team, opponents, result);
+        return updateGlicko(
+          player.rating,
+          player.rd,
+          player.vol,
+          [game.opponentRating],
+          [game.opponentRd],
+          [game.score],
+        );
+      }) as TeamRatings;
+
+    return {
+      team1: rateTeam(team1, team2, team1Result),
+      team2: rateTeam(team2, team1, 1 - team1Result),
+    };
+  },
+  ratePeriod: glickoPeriodRater(teamGlickoGames),
+};
+
+/**
+ * Apply match weights on top of an algorithm. A period update is scaled by
+ * the average weight of the matches each player took part in.
+ */
+const withRatingWeight = (algorithm: RatingAlgorithm): RatingAlgorithm => ({
+  ...algorithm,
+  rateMatch(input) {
+    const updated = algorithm.rateMatch(input);
+    const weight = input.weight ?? 1;
+    if (weight === 1) return updated;
+
+    const scale = (before: TeamRatings, after: TeamRatings): TeamRatings => [
+      applyRatingWeight(before[0], after[0], weight),
+      applyRatingWeight(before[1], after[1], weight),
+    ];
+
+    return {
+      team1: scale(input.team1, updated.team1),
+      team2: scale(input.team2, updated.team2),
+    };
+  },
+  ratePeriod(matches, ratings) {
+    const updated = algorithm.ratePeriod(matches, ratings);
+
+    updated.forEach((after, playerId) => {
+      const weights = matches
+        .filter(
+          (match) =>
+            match.team1.includes(playerId) || match.team2.includes(playerId),
+        )
+        .map((match) => match.weight ?? 1);
+      const weight =
+        weights.reduce((sum, value) => sum + value, 0) / weights.length;
+
+      updated.set(
+        playerId,
+        applyRatingWeight(ratingFrom(ratings, playerId), after, weight),
+      );
+    });
+
+    return updated;
+  },
+});
+
+export const RATING_ALGORITHMS: Record<RatingAlgorithmId, RatingAlgorithm> = {
+  glicko2: withRatingWeight(glicko2Algorithm),
+  elo: withRatingWeight(eloAlgorithm),
+  "team-glicko2": withRatingWeight(teamGlicko2Algorithm),
+};
+
+/**
+ * Resolve a rating algorithm, defaulting to the one configured for this
+ * deployment
+ */
+export function getRatingAlgorithm(
+  id: RatingAlgorithmId = RATING_CONFIG.ALGORITHM,
+): RatingAlgorithm {
+  return RATING_ALGORITHMS[id] ?? RATING_ALGORITHMS.glicko2;
+}
+
+/**
+ * Replay historical matches in chronological order with one algorithm and
+ * measure how well it predicted each result before rating it
+ */
+export function evaluateAlgorithm(
+  matches: HistoricalMatch[],
+  algorithm: RatingAlgorithm,
+  initialRatings: Map<string, GlickoRating> = new Map(),
+): AlgorithmEvaluation {
+  const ratings = new Map(initialRatings);
+  const ratingOf = (playerId: string) => ratingFrom(ratings, playerId);
+
+  const ordered = [...matches].sort(
+    (a, b) => new Date(a.playedAt).getTime() - new Date(b.playedAt).getTime(),
+  );
+
+  let decided = 0;
+  let correct = 0;
+  let squaredError = 0;
+
+  for (const match of ordered) {
+    const team1: TeamRatings = [
+      ratingOf(match.team1[0]),
+      ratingOf(match.team1[1]),
+    ];
+    const team2: TeamRatings = [
+      ratingOf(match.team2[0]),
+      ratingOf(match.team2[1]),
+    ];
+
+    const predicted = algorithm.expectedScore(team1, team2);
+    squaredError += Math.pow(predicted - match.team1Result, 2);
+
+    if (match.team1Result !== 0.5 && predicted !== 0.5) {
+      decided++;
+      if (predicted > 0.5 === match.team1Result > 0.5) correct++;
+    }
+
+    const updated = algorithm.rateMatch({
+      team1,
+      team2,
+      team1Result: match.team1Result,
+      weight: match.weight,
+    });
+
+    ratings.set(match.team1[0], updated.team1[0]);
+    ratings.set(match.team1[1], updated.team1[1]);
+    ratings.set(match.team2[0], updated.team2[0]);
+    ratings.set(match.team2[1], updated.team2[1]);
+  }
+
+  return {
+    algorithm: algorithm.id,
+    matches: ordered.length,
+    accuracy: decided > 0 ? correct / decided : 0,
+    brierScore: ordered.length > 0 ? squaredError / ordered.length : 0,
+    ratings,
+  };
+}
+
+/**
+ * Run the same match history through several algorithms side by side
+ */
+export function compareAlgorithms(
+  matches: HistoricalMatch[],
+  algorithmIds: RatingAlgorithmId[] = Object.keys(
+    RATING_ALGORITHMS,
+  ) as RatingAlgorithmId[],
+): AlgorithmEvaluation[] {
+  return algorithmIds.map((id) =>
+    evaluateAlgorithm(matches, getRatingAlgorithm(id)),
+  );
+}
@@ -0,0 +1,236 @@
+import { RATING_CONFIG } from "@/constants/rating";
+import { GlickoRating, expectedScore } from "@/lib/glicko";
+import { MatchSetScores, calculateTeam1Performance } from "@/lib/match-outcome";
+import { StoredRatingChange } from "@/lib/rating-correction";
+import {
+  RatingAlgorithm,
+  TeamRatings,
+  getRatingAlgorithm,
+} from "@/lib/rating-engine";
+import {
+  formatRatingWeight,
+  getRatingWeight,
+  getRatingWeightMultiplier,
+} from "@/lib/rating-weight";
+
+export interface ExplainableMatch extends MatchSetScores {
+  player1_id: string | null;
+  player2_id: string | null;
+  player3_id: string | null;
+  player4_id: string | null;
+  rating_weight?: string | null;
+}
+
+export interface OpponentSnapshot {
+  player_id: string;
+  rating: number;
+  rd: number;
+}
+
+export interface ExplanationViewer {
+  // The explanation is read by the player it is about
+  isPlayer: boolean;
+  // First mention of the player when someone else reads it
+  playerName?: string | null;
+}
+
+export interface RatingExplanation {
+  player_id: string;
+  team: 1 | 2;
+  before: GlickoRating;
+  after: GlickoRating;
+  rating_delta: number;
+  rd_delta: number;
+  vol_delta: number;
+  opponents: OpponentSnapshot[];
+  // Probability of winning from the pre-match ratings, 0..1
+  expected_score: number;
+  // Result fed into the rating update, 0..1
+  actual_score: number;
+  // Plain-language walk through of the calculation
+  summary: string[];
+}
+
+const beforeRating = (change: StoredRatingChange): GlickoRating => ({
+  rating: Number(change.rating_before),
+  rd: Number(change.rd_before),
+  vol: Number(change.vol_before),
+});
+
+const afterRating = (change: StoredRatingChange): GlickoRating => ({
+  rating: Number(change.rating_after),
+  rd: Number(change.rd_after),
+  vol: Number(change.vol_after),
+});
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const signed = (value: number, digits = 0) =>
+  `${value >= 0 ? "+" : "−"}${Math.abs(value).toFixed(digits)}`;
+
+const capitalize = (text: string) =>
+  text.charAt(0).toUpperCase() + text.slice(1);
+
+// Words that change with who reads the explanation: the player is addressed
+// directly, anyone else reads about them by name and then in third person
+const getVoice = (viewer: ExplanationViewer) =>
+  viewer.isPlayer
+    ? { subjectWas: "you were", they: "you", their: "your", them: "you" }
+    : {
+        subjectWas: `${viewer.playerName || "this player"} was`,
+        they: "they",
+        their: "their",
+        them: "them",
+      };
+
+const outcomeDescription = (): string => {
+  switch (RATING_CONFIG.OUTCOME_MODEL) {
+    case "binary":
+      return "the match result alone";
+    case "sets":
+      return "the share of sets won";
+    case "games":
+      return "the share of games won";
+    default:
+      return "a mix of sets and games won";
+  }
+};
+
+/**
+ * Rebuild the inputs behind one player's stored rating change and describe
+ * in plain language how they produced the new rating, addressed to the
+ * player or written about them for anyone else. Returns null when the
+ * player's row or any of the other players' rows are missing.
+ */
+export function explainRatingChange(
+  playerId: string,
+  match: ExplainableMatch,
+  changes: StoredRatingChange[],
+  viewer: ExplanationViewer = { isPlayer: true },
+  algorithm: RatingAlgorithm = getRatingAlgorithm(),
+): RatingExplanation | null {
+  const slots = [
+    match.player1_id,
+    match.player2_id,
+    match.player3_id,
+    match.player4_id,
+  ];
+  const slot = slots.indexOf(playerId);
+  if (slot === -1) return null;
+
+  const rowFor = (id: string | null) =>
+    changes.find((change) => change.player_id === id);
+  const rows = slots.map(rowFor);
+  if (rows.some((row) => !row)) return null;
+
+  const team: 1 | 2 = slot < 2 ? 1 : 2;
+  const [teamRows, opponentRows] =
+    team === 1
+      ? [rows.slice(0, 2), rows.slice(2, 4)]
+      : [rows.slice(2, 4), rows.slice(0, 2)];
+
+  const own = rows[slot]!;
+  const before = beforeRating(own);
+  const after = afterRating(own);
+  const teamRatings = teamRows.map((row) => beforeRating(row!)) as TeamRatings;
+  const opponentRatings = opponentRows.map((row) =>
+    beforeRating(row!),
+  ) as TeamRatings;
+
+  // Glicko-2 rates each player on their own against both opponents, the
+  // other algorithms compare team strength
+  const expected =
+    algorithm.id === "glicko2"
+      ? opponentRatings.reduce(
+          (sum, opponent) =>
+            sum + expectedScore(before.rating, opponent.rating, opponent.rd),
+          0,
+        ) / opponentRatings.length
+      : algorithm.expectedScore(teamRatings, opponentRatings);
+
+  const team1Score = calculateTeam1Performance(match);
+  const actual = team === 1 ? team1Score : 1 - team1Score;
+
+  const ratingDelta = after.rating - before.rating;
+  const rdDelta = after.rd - before.rd;
+  const volDelta = after.vol - before.vol;
+  const opponentAverage =
+    (opponentRatings[0].rating + opponentRatings[1].rating) / 2;
+
+  const voice = getVoice(viewer);
+  const summary: string[] = [
+    `Before the match ${voice.subjectWas} rated ${Math.round(before.rating)} (±${Math.round(before.rd)}) and ${voice.their} opponents averaged ${Math.round(opponentAverage)}.`,
+    `From those ratings ${voice.they} were expected to score ${percent(expected)}.`,
+    `${capitalize(voice.their)} team scored ${percent(actual)}, based on ${outcomeDescription()}.`,
+  ];
+
+  const surprise = actual - expected;
+  if (Math.abs(surprise) < 0.05) {
+    summary.push(
+      `That is close to what was expected, so ${voice.their} rating barely moved (${signed(ratingDelta)}).`,
+    );
+  } else if (surprise > 0) {
+    summary.push(
+      `${capitalize(voice.they)} did ${percent(surprise)} better than expected, so ${voice.their} rating went up by ${Math.abs(ratingDelta).toFixed(0)}.`,
+    );
+  } else {
+    summary.push(
+      `${capitalize(voice.they)} did ${percent(-surprise)} worse than expected, so ${voice.their} rating went down by ${Math.abs(ratingDelta).toFixed(0)}.`,
+    );
+  }
+
+  // The weight scales the change after the expected vs actual comparison
+  const multiplier = getRatingWeightMultiplier(match.rating_weight);
+  if (multiplier === 0) {
+    summary.push(
+      `This was a friendly match, so it doesn't count towards ${voice.their} rating.`,
+    );
+  } else if (multiplier !== 1) {
+    summary.push(
+      `This was a ${getRatingWeight(match.rating_weight)} match, so the change counts ${formatRatingWeight(match.rating_weight)} compared to a standard match.`,
+    );
+  }
+
+  if (before.rd >= RATING_CONFIG.UNCERTAIN_RD_THRESHOLD) {
+    summary.push(
+      `${capitalize(voice.their)} rating is still uncertain (±${Math.round(before.rd)}), so each match moves it a lot.`,
+    );
+  } else {
+    summary.push(
+      `${capitalize(voice.their)} rating is well established (±${Math.round(before.rd)}), so a single match only moves it a little.`,
+    );
+  }
+
+  if (algorithm.id !== "elo") {
+    summary.push(
+      rdDelta <= 0
+        ? `Playing made the system more confident: uncertainty went from ±${Math.round(before.rd)} to ±${Math.round(after.rd)}.`
+        : `Uncertainty grew from ±${Math.round(before.rd)} to ±${Math.round(after.rd)}.`,
+    );
+    summary.push(
+      Math.abs(volDelta) < 0.00005
+        ? `Volatility stayed at ${after.vol.toFixed(4)}, ${voice.their} results are as consistent as before.`
+        : volDelta > 0
+          ? `Volatility rose to ${after.vol.toFixed(4)} because this result was surprising for ${voice.them}.`
+          : `Volatility fell to ${after.vol.toFixed(4)} because this result matched ${voice.their} level.`,
+    );
+  }
+
+  return {
+    player_id: playerId,
+    team,
+    before,
+    after,
+    rating_delta: ratingDelta,
+    rd_delta: rdDelta,
+    vol_delta: volDelta,
+    opponents: opponentRows.map((row, index) => ({
+      player_id: row!.player_id,
+      rating: opponentRatings[index].rating,
+      rd: opponentRatings[index].rd,
+    })),
+    expected_score: expected,
+    actual_score: actual,
+    summary,
+  };
+}
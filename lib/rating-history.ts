@@ -0,0 +1,136 @@
+export type RatingHistoryRange = "1M" | "3M" | "1Y" | "ALL";
+
+export const RATING_HISTORY_RANGES: {
+  id: RatingHistoryRange;
+  label: string;
+  days: number | null;
+}[] = [
+  { id: "1M", label: "1M", days: 30 },
+  { id: "3M", label: "3M", days: 90 },
+  { id: "1Y", label: "1Y", days: 365 },
+  { id: "ALL", label: "All", days: null },
+];
+
+export interface RatingHistoryPoint {
+  // Null for a rating period, for inactivity decay and for the synthetic
+  // point carried over to the start of a range
+  matchId: string | null;
+  // Set for the batched update of a closed rating period
+  periodId?: string | null;
+  // Matches of the player rated in that period
+  matchCount?: number;
+  date: string;
+  rating: number;
+  rd: number;
+  change: number;
+  won: boolean | null;
+}
+
+/**
+ * Points inside a range, oldest first. When earlier history exists the
+ * rating held at the start of the range is added as a first point so the
+ * curve does not start in the middle of the chart.
+ */
+export function filterRatingHistory(
+  points: RatingHistoryPoint[],
+  range: RatingHistoryRange,
+  now: Date = new Date(),
+): RatingHistoryPoint[] {
+  const days = RATING_HISTORY_RANGES.find((entry) => entry.id === range)?.days;
+  if (!days) return points;
+
+  const start = now.getTime() - days * 24 * 60 * 60 * 1000;
+  const inRange = points.filter(
+    (point) => new Date(point.date).getTime() >= start,
+  );
+  const previous = points
+    .filter((point) => new Date(point.date).getTime() < start)
+    .pop();
+
+  if (!previous) return inRange;
+
+  return [
+    {
+      ...previous,
+      matchId: null,
+      periodId: null,
+      date: new Date(start).toISOString(),
+      change: 0,
+      won: null,
+    },
+    ...inRange,
+  ];
+}
+
+export interface RatingDecayEntry {
+  date: string;
+  rd: number;
+}
+
+const byDate = (a: { date: string }, b: { date: string }) =>
+  new Date(a.date).getTime() - new Date(b.date).getTime();
+
+/**
+ * Merge inactivity decay into the history, oldest first. Decay only grows
+ * RD, so each entry becomes a point at the rating held at the time. Entries
+ * before the first rated point have no rating to draw and are left out.
+ */
+export function addDecayToHistory(
+  points: RatingHistoryPoint[],
+  decays: RatingDecayEntry[],
+): RatingHistoryPoint[] {
+  const merged: RatingHistoryPoint[] = [];
+  const pending = [...decays].sort(byDate);
+
+  const addDecay = (decay: RatingDecayEntry) => {
+    const previous = merged[merged.length - 1];
+    if (!previous) return;
+    merged.push({
+      matchId: null,
+      date: decay.date,
+      rating: previous.rating,
+      rd: decay.rd,
+      change: 0,
+      won: null,
+    });
+  };
+
+  for (const point of [...points].sort(byDate)) {
+    while (pending.length > 0 && byDate(pending[0], point) < 0) {
+      addDecay(pending.shift()!);
+    }
+    merged.push(point);
+  }
+  pending.forEach(addDecay);
+
+  return merged;
+}
+
+/**
+ * Rating bounds of the chart, covering the RD band with a little padding
+ */
+export function getRatingHistoryBounds(
+  points: RatingHistoryPoint[],
+  padding = 25,
+): { min: number; max: number } {
+  if (points.length === 0) return { min: 0, max: 0 };
+
+  const min = Math.min(...points.map((point) => point.rating - point.rd));
+  const max = Math.max(...points.map((point) => point.rating + point.rd));
+
+  return {
+    min: Math.floor((min - padding) / 50) * 50,
+    max: Math.ceil((max + padding) / 50) * 50,
+  };
+}
+
+/**
+ * Net rating change over the points of a range
+ */
+export function getRatingHistoryChange(points: RatingHistoryPoint[]): number {
+  if (points.length === 0) return 0;
+  const first = points[0];
+  return Math.round(
+    points[points.length - 1].rating - (first.rating - first.change),
+  );
+}
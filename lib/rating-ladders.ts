@@ -0,0 +1,102 @@
+import { PREDEFINED_COURTS } from "@/constants/create-match";
+import {
+  RATING_CONFIG,
+  RATING_LADDERS,
+  RatingLadderId,
+} from "@/constants/rating";
+import { Court } from "@/types/create-match";
+
+export interface LadderPlayer {
+  id: string;
+  sex?: string | null;
+}
+
+export interface LadderMatch {
+  court?: string | null;
+  player1_id: string | null;
+  player2_id: string | null;
+  player3_id: string | null;
+  player4_id: string | null;
+}
+
+type Sex = "male" | "female" | null;
+
+const normaliseSex = (sex?: string | null): Sex => {
+  const value = sex?.trim().toLowerCase();
+  if (value === "male" || value === "m") return "male";
+  if (value === "female" || value === "f") return "female";
+  return null;
+};
+
+/**
+ * Ladders offered in this deployment
+ */
+export function getAvailableLadders() {
+  return RATING_LADDERS.filter(
+    (ladder) =>
+      RATING_CONFIG.COURT_TYPE_LADDERS_ENABLED ||
+      (ladder.id !== "indoor" && ladder.id !== "outdoor"),
+  );
+}
+
+/**
+ * Look up whether a match court is indoor or outdoor from its name
+ */
+export function getCourtType(
+  courtName?: string | null,
+  courts: Court[] = PREDEFINED_COURTS,
+): Court["type"] | null {
+  if (!courtName) return null;
+  const name = courtName.trim().toLowerCase();
+  return (
+    courts.find((court) => court.name.toLowerCase() === name)?.type ?? null
+  );
+}
+
+/**
+ * The gender ladder of a doubles match: men's or women's when all four
+ * players share a sex, mixed when each team is one man and one woman.
+ * Returns null when any sex is unknown or the teams are unbalanced.
+ */
+export function getGenderLadder(
+  team1: [Sex | string | null | undefined, Sex | string | null | undefined],
+  team2: [Sex | string | null | undefined, Sex | string | null | undefined],
+): RatingLadderId | null {
+  const sexes = [...team1, ...team2].map(normaliseSex);
+  if (sexes.some((sex) => sex === null)) return null;
+
+  if (sexes.every((sex) => sex === "male")) return "mens";
+  if (sexes.every((sex) => sex === "female")) return "womens";
+
+  const isMixedTeam = (a: Sex, b: Sex) => a !== b;
+  if (isMixedTeam(sexes[0], sexes[1]) && isMixedTeam(sexes[2], sexes[3])) {
+    return "mixed";
+  }
+
+  return null;
+}
+
+/**
+ * Every ladder a match counts towards, always including "overall"
+ */
+export function getMatchLadders(
+  match: LadderMatch,
+  players: LadderPlayer[],
+): RatingLadderId[] {
+  const ladders: RatingLadderId[] = ["overall"];
+  const sexOf = (id: string | null) =>
+    players.find((player) => player.id === id)?.sex ?? null;
+
+  const genderLadder = getGenderLadder(
+    [sexOf(match.player1_id), sexOf(match.player2_id)],
+    [sexOf(match.player3_id), sexOf(match.player4_id)],
+  );
+  if (genderLadder) ladders.push(genderLadder);
+
+  if (RATING_CONFIG.COURT_TYPE_LADDERS_ENABLED) {
+    const courtType = getCourtType(match.court);
+    if (courtType) ladders.push(courtType);
+  }
+
+  return ladders;
+}
@@ -0,0 +1,45 @@
+import { RATING_CONFIG } from "@/constants/rating";
+
+export interface RatingPeriodBounds {
+  start: Date;
+  end: Date;
+}
+
+const periodLengthMs = () =>
+  RATING_CONFIG.RATING_PERIOD_DAYS * 24 * 60 * 60 * 1000;
+
+/**
+ * Get the rating period that contains the given instant
+ */
+export function getPeriodBounds(date: Date = new Date()): RatingPeriodBounds {
+  const anchor = new Date(RATING_CONFIG.RATING_PERIOD_ANCHOR).getTime();
+  const length = periodLengthMs();
+  const index = Math.floor((date.getTime() - anchor) / length);
+
+  return {
+    start: new Date(anchor + index * length),
+    end: new Date(anchor + (index + 1) * length),
+  };
+}
+
+/**
+ * Whether a period is old enough to be closed, taking the grace window for
+ * late confirmations into account
+ */
+export function isPeriodDue(
+  period: RatingPeriodBounds,
+  now: Date = new Date(),
+): boolean {
+  const graceMs = RATING_CONFIG.RATING_PERIOD_GRACE_HOURS * 60 * 60 * 1000;
+  return period.end.getTime() + graceMs <= now.getTime();
+}
+
+/**
+ * Number of whole rating periods between two instants
+ */
+export function countPeriodsBetween(from: Date, to: Date): number {
+  return Math.max(
+    0,
+    Math.round((to.getTime() - from.getTime()) / periodLengthMs()),
+  );
+}
@@ -0,0 +1,206 @@
+import { RATING_CONFIG } from "@/constants/rating";
+import { GlickoRating } from "@/lib/glicko";
+import { RateableMatch, toRatedMatch } from "@/lib/match-outcome";
+import {
+  RatedMatch,
+  RatingAlgorithm,
+  TeamRatings,
+  getDefaultRating,
+  getRatingAlgorithm,
+} from "@/lib/rating-engine";
+import { getPeriodBounds, isPeriodDue } from "@/lib/rating-periods";
+
+export interface ReplayMatch extends RateableMatch {
+  start_time: string;
+}
+
+export interface ReplayRatingChange {
+  match_id: string;
+  player_id: string;
+  rating_before: number;
+  rd_before: number;
+  vol_before: number;
+  rating_after: number;
+  rd_after: number;
+  vol_after: number;
+  is_provisional: boolean;
+}
+
+export interface ReplayOptions {
+  algorithm?: RatingAlgorithm;
+  // Defaults to RATING_CONFIG.RATING_PERIODS_ENABLED
+  usePeriods?: boolean;
+  // Starting ratings, players not listed start at the defaults
+  initialRatings?: Map<string, GlickoRating>;
+  now?: Date;
+}
+
+export interface ReplayResult {
+  ratings: Map<string, GlickoRating>;
+  // Per-match rows. Inside rating periods these stay previews, the period
+  // is applied in one batch per player.
+  changes: ReplayRatingChange[];
+  // Matches whose ratings reached the profiles, alone or in a closed period
+  appliedMatchIds: string[];
+  replayedMatches: number;
+  skippedMatchIds: string[];
+}
+
+export interface RatingDiff {
+  player_id: string;
+  before: GlickoRating | null;
+  after: GlickoRating;
+  rating_delta: number;
+  rd_delta: number;
+}
+
+const byStartTime = (a: ReplayMatch, b: ReplayMatch) =>
+  new Date(a.start_time).getTime() - new Date(b.start_time).getTime();
+
+/**
+ * Rebuild every rating from scratch by walking matches in chronological
+ * order. Honours rating periods the same way the live services do: each
+ * period produces per-match previews and a single batched update once due.
+ */
+export function replayRatings(
+  matches: ReplayMatch[],
+  options: ReplayOptions = {},
+): ReplayResult {
+  const algorithm = options.algorithm ?? getRatingAlgorithm();
+  const usePeriods = options.usePeriods ?? RATING_CONFIG.RATING_PERIODS_ENABLED;
+  const now = options.now ?? new Date();
+
+  const ratings = new Map(options.initialRatings);
+  const ratingOf = (playerId: string) =>
+    ratings.get(playerId) ?? getDefaultRating();
+
+  const changes: ReplayRatingChange[] = [];
+  const appliedMatchIds: string[] = [];
+  const skippedMatchIds: string[] = [];
+
+  // Rate a match against the given ratings and record the audit rows
+  const previewMatch = (match: RatedMatch, isProvisional: boolean) => {
+    const team1: TeamRatings = [
+      ratingOf(match.team1[0]),
+      ratingOf(match.team1[1]),
+    ];
+    const team2: TeamRatings = [
+      ratingOf(match.team2[0]),
+      ratingOf(match.team2[1]),
+    ];
+    const updated = algorithm.rateMatch({
+      team1,
+      team2,
+      team1Result: match.team1Result,
+      weight: match.weight,
+    });
+
+    const playerIds = [...match.team1, ...match.team2];
+    const before = [...team1, ...team2];
+    const after = [...updated.team1, ...updated.team2];
+
+    playerIds.forEach((playerId, index) => {
+      changes.push({
+        match_id: match.id,
+        player_id: playerId,
+        rating_before: before[index].rating,
+        rd_before: before[index].rd,
+        vol_before: before[index].vol,
+        rating_after: after[index].rating,
+        rd_after: after[index].rd,
+        vol_after: after[index].vol,
+        is_provisional: isProvisional,
+      });
+    });
+
+    return new Map(
+      playerIds.map((playerId, index) => [playerId, after[index]]),
+    );
+  };
+
+  const ratedMatches: { match: RatedMatch; startTime: Date }[] = [];
+  for (const match of [...matches].sort(byStartTime)) {
+    const rated = toRatedMatch(match);
+    if (rated) {
+      ratedMatches.push({
+        match: rated,
+        startTime: new Date(match.start_time),
+      });
+    } else {
+      skippedMatchIds.push(match.id);
+    }
+  }
+
+  if (!usePeriods) {
+    for (const { match } of ratedMatches) {
+      previewMatch(match, false).forEach((rating, playerId) =>
+        ratings.set(playerId, rating),
+      );
+      appliedMatchIds.push(match.id);
+    }
+  } else {
+    const periods = new Map<number, RatedMatch[]>();
+    for (const { match, startTime } of ratedMatches) {
+      const key = getPeriodBounds(startTime).start.getTime();
+      periods.set(key, [...(periods.get(key) ?? []), match]);
+    }
+
+    for (const [periodStart, periodMatches] of periods) {
+      const due = isPeriodDue(getPeriodBounds(new Date(periodStart)), now);
+
+      // Previews are computed against pre-period ratings, like the live flow
+      periodMatches.forEach((match) => previewMatch(match, true));
+
+      if (due) {
+        algorithm
+          .ratePeriod(periodMatches, ratings)
+          .forEach((rating, playerId) => ratings.set(playerId, rating));
+        appliedMatchIds.push(...periodMatches.map((match) => match.id));
+      }
+    }
+  }
+
+  return {
+    ratings,
+    changes,
+    appliedMatchIds,
+    replayedMatches: ratedMatches.length,
+    skippedMatchIds,
+  };
+}
+
+/**
+ * Compare stored ratings with replayed ones, returning the players whose
+ * rating or RD moved by more than the threshold, largest moves first
+ */
+export function diffRatings(
+  current: Map<string, GlickoRating>,
+  replayed: Map<string, GlickoRating>,
+  threshold = 0.5,
+): RatingDiff[] {
+  const diffs: RatingDiff[] = [];
+
+  replayed.forEach((after, playerId) => {
+    const before = current.get(playerId) ?? null;
+    const ratingDelta = after.rating - (before?.rating ?? 0);
+    const rdDelta = after.rd - (before?.rd ?? 0);
+
+    if (
+      !before ||
+      Math.abs(ratingDelta) > threshold ||
+      Math.abs(rdDelta) > threshold
+    ) {
+      diffs.push({
+        player_id: playerId,
+        before,
+        after,
+        rating_delta: ratingDelta,
+        rd_delta: rdDelta,
+      });
+    }
+  });
+
+  return diffs.sort(
+    (a, b) => Math.abs(b.rating_delta) - Math.abs(a.rating_delta),
+  );
+}
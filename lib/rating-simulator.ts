@@ -0,0 +1,164 @@
+import { MatchRatingWeight } from "@/constants/rating";
+import { GlickoRating } from "@/lib/glicko";
+import { MatchSetScores, calculateTeam1Performance } from "@/lib/match-outcome";
+import {
+  RatingAlgorithm,
+  TeamRatings,
+  getDefaultRating,
+  getRatingAlgorithm,
+} from "@/lib/rating-engine";
+import {
+  RatingTier,
+  TierChange,
+  getTierChange,
+  resolveRatingTier,
+} from "@/lib/rating-tiers";
+import { getRatingWeightMultiplier } from "@/lib/rating-weight";
+
+export interface SimulatedSet {
+  team1: number;
+  team2: number;
+}
+
+export interface SimulatedMatch {
+  team1: [string, string];
+  team2: [string, string];
+  sets: SimulatedSet[];
+  weight?: MatchRatingWeight;
+}
+
+export interface SimulatedMatchResult {
+  winnerTeam: 1 | 2 | null;
+  team1Result: number;
+  // Rating change of each of the four players in this match
+  changes: Record<string, number>;
+}
+
+export interface SimulatedPlayer {
+  playerId: string;
+  before: GlickoRating;
+  after: GlickoRating;
+  tierBefore: RatingTier | null;
+  tierAfter: RatingTier | null;
+  tierChange: TierChange | null;
+}
+
+export interface SimulationResult {
+  matches: SimulatedMatchResult[];
+  players: SimulatedPlayer[];
+}
+
+/**
+ * Sets with a score entered, in the shape stored on a match row
+ */
+export function toMatchSetScores(sets: SimulatedSet[]): MatchSetScores {
+  const played = sets.filter((set) => set.team1 + set.team2 > 0);
+  const setsWon = (team: 1 | 2) =>
+    played.filter((set) =>
+      team === 1 ? set.team1 > set.team2 : set.team2 > set.team1,
+    ).length;
+
+  return {
+    team1_score_set1: played[0]?.team1 ?? null,
+    team2_score_set1: played[0]?.team2 ?? null,
+    team1_score_set2: played[1]?.team1 ?? null,
+    team2_score_set2: played[1]?.team2 ?? null,
+    team1_score_set3: played[2]?.team1 ?? null,
+    team2_score_set3: played[2]?.team2 ?? null,
+    winner_team:
+      setsWon(1) > setsWon(2) ? 1 : setsWon(2) > setsWon(1) ? 2 : null,
+  };
+}
+
+/**
+ * Whether a hypothetical match has four different players and a score
+ */
+export function isSimulatedMatchReady(match: SimulatedMatch): boolean {
+  const players = [...match.team1, ...match.team2].filter(Boolean);
+  return (
+    players.length === 4 &&
+    new Set(players).size === 4 &&
+    match.sets.some((set) => set.team1 + set.team2 > 0)
+  );
+}
+
+/**
+ * Run hypothetical matches through the rating engine, in order, without
+ * touching any stored rating. Later matches see the ratings produced by
+ * earlier ones, and tiers are resolved with the same hysteresis as real
+ * promotions and demotions.
+ *
+ * @param ratings - Current ratings of every player involved
+ * @param tiers - Tier currently held by each player, if known
+ */
+export function simulateMatches(
+  matches: SimulatedMatch[],
+  ratings: Map<string, GlickoRating>,
+  tiers: Map<string, string | null> = new Map(),
+  algorithm: RatingAlgorithm = getRatingAlgorithm(),
+): SimulationResult {
+  const current = new Map(ratings);
+  const ratingOf = (playerId: string) =>
+    current.get(playerId) ?? getDefaultRating();
+
+  const results = matches.map((match) => {
+    const scores = toMatchSetScores(match.sets);
+    const team1Result = calculateTeam1Performance(scores);
+    const team1: TeamRatings = [
+      ratingOf(match.team1[0]),
+      ratingOf(match.team1[1]),
+    ];
+    const team2: TeamRatings = [
+      ratingOf(match.team2[0]),
+      ratingOf(match.team2[1]),
+    ];
+
+    const updated = algorithm.rateMatch({
+      team1,
+      team2,
+      team1Result,
+      weight: getRatingWeightMultiplier(match.weight),
+    });
+
+    const changes: Record<string, number> = {};
+    const apply = (
+      ids: [string, string],
+      before: TeamRatings,
+      after: TeamRatings,
+    ) =>
+      ids.forEach((id, index) => {
+        changes[id] = after[index].rating - before[index].rating;
+        current.set(id, after[index]);
+      });
+    apply(match.team1, team1, updated.team1);
+    apply(match.team2, team2, updated.team2);
+
+    return {
+      winnerTeam: (scores.winner_team ?? null) as 1 | 2 | null,
+      team1Result,
+      changes,
+    };
+  });
+
+  const playerIds = Array.from(
+    new Set(matches.flatMap((match) => [...match.team1, ...match.team2])),
+  );
+
+  const players = playerIds.map((playerId) => {
+    const before = ratings.get(playerId) ?? getDefaultRating();
+    const after = ratingOf(playerId);
+    const tierBefore = resolveRatingTier(before.rating, tiers.get(playerId));
+    const tierAfter = resolveRatingTier(after.rating, tierBefore?.id);
+
+    return {
+      playerId,
+      before,
+      after,
+      tierBefore,
+      tierAfter,
+      tierChange: getTierChange(tierBefore, tierAfter),
+    };
+  });
+
+  return { matches: results, players };
+}
@@ -0,0 +1,163 @@
+import { RATING_TIER_CONFIG, RatingDivision } from "@/constants/rating-tiers";
+
+export interface RatingTier {
+  // Stable id stored on profiles, e.g. "advanced-2"
+  id: string;
+  division: RatingDivision;
+  // 1 is the top sub-level of the division
+  subLevel: number;
+  // Position across every tier, 0 is the lowest
+  rank: number;
+  name: string;
+  minRating: number;
+  color: string;
+  bgColor: string;
+}
+
+export type TierChangeDirection = "promotion" | "demotion";
+
+export interface TierChange {
+  from: RatingTier | null;
+  to: RatingTier;
+  direction: TierChangeDirection;
+  divisionChanged: boolean;
+}
+
+const ROMAN = ["I", "II", "III", "IV", "V"];
+
+/**
+ * Every tier from lowest to highest
+ */
+export function getRatingTiers(config = RATING_TIER_CONFIG): RatingTier[] {
+  const tiers: RatingTier[] = [];
+  const divisions = config.DIVISIONS;
+
+  divisions.forEach((division, index) => {
+    const next = divisions[index + 1];
+    const top = next
+      ? next.minRating
+      : division.minRating + config.EDGE_DIVISION_WIDTH;
+    const bottom =
+      index === 0 && next
+        ? Math.max(
+            division.minRating,
+            next.minRating - config.EDGE_DIVISION_WIDTH,
+          )
+        : division.minRating;
+    const width = (top - bottom) / config.SUB_LEVELS;
+
+    for (let step = 0; step < config.SUB_LEVELS; step++) {
+      const subLevel = config.SUB_LEVELS - step;
+      tiers.push({
+        id: `${division.id}-${subLevel}`,
+        division,
+        subLevel,
+        rank: tiers.length,
+        name:
+          config.SUB_LEVELS > 1
+            ? `${division.name} ${ROMAN[subLevel - 1] ?? subLevel}`
+            : division.name,
+        // The lowest tier of the lowest division has no floor
+        minRating:
+          tiers.length === 0 ? division.minRating : bottom + width * step,
+        color: division.color,
+        bgColor: division.bgColor,
+      });
+    }
+  });
+
+  return tiers;
+}
+
+const parseRating = (rating: number | string | null | undefined) => {
+  const value = typeof rating === "string" ? parseFloat(rating) : rating;
+  return value === null || value === undefined || isNaN(value) ? null : value;
+};
+
+/**
+ * The tier a rating falls in, ignoring hysteresis
+ */
+export function getRatingTier(
+  rating: number | string | null | undefined,
+  config = RATING_TIER_CONFIG,
+): RatingTier | null {
+  const value = parseRating(rating);
+  if (value === null) return null;
+
+  const tiers = getRatingTiers(config);
+  return (
+    [...tiers].reverse().find((tier) => value >= tier.minRating) ?? tiers[0]
+  );
+}
+
+/**
+ * The tier a player holds given the tier they held before. Promotion happens
+ * as soon as the rating reaches a higher tier; demotion only once the rating
+ * is DEMOTION_HYSTERESIS below the floor of the tier they hold.
+ */
+export function resolveRatingTier(
+  rating: number | string | null | undefined,
+  currentTierId?: string | null,
+  config = RATING_TIER_CONFIG,
+): RatingTier | null {
+  const value = parseRating(rating);
+  const raw = getRatingTier(value, config);
+  if (value === null || !raw || !currentTierId) return raw;
+
+  const tiers = getRatingTiers(config);
+  const current = tiers.find((tier) => tier.id === currentTierId);
+  if (!current || raw.rank >= current.rank) return raw;
+
+  const buffered = getRatingTier(value + config.DEMOTION_HYSTERESIS, config);
+  return buffered && buffered.rank >= current.rank ? current : buffered;
+}
+
+/**
+ * The tier in the middle of a group of players, e.g. the level of a match,
+ * from the average rank of the tiers they hold
+ */
+export function getGroupTier(
+  tiers: (RatingTier | null)[],
+  config = RATING_TIER_CONFIG,
+): RatingTier | null {
+  const held = tiers.filter((tier): tier is RatingTier => tier !== null);
+  if (held.length === 0) return null;
+
+  const rank = Math.round(
+    held.reduce((sum, tier) => sum + tier.rank, 0) / held.length,
+  );
+  return getRatingTiers(config)[rank] ?? null;
+}
+
+/**
+ * Describe the move between two tiers, or null when the tier is unchanged
+ */
+export function getTierChange(
+  from: RatingTier | null,
+  to: RatingTier | null,
+): TierChange | null {
+  if (!to || from?.id === to.id) return null;
+
+  return {
+    from,
+    to,
+    direction: !from || to.rank > from.rank ? "promotion" : "demotion",
+    divisionChanged: from?.division.id !== to.division.id,
+  };
+}
+
+/**
+ * Display values for a badge, falling back to "Unrated" without a rating
+ */
+export function getTierDisplay(
+  tier: RatingTier | null,
+  config = RATING_TIER_CONFIG,
+) {
+  return tier
+    ? { level: tier.name, color: tier.color, bgColor: tier.bgColor }
+    : {
+        level: config.UNRATED.name,
+        color: config.UNRATED.color,
+        bgColor: config.UNRATED.bgColor,
+      };
+}
@@ -0,0 +1,63 @@
+import {
+  MatchRatingWeight,
+  RATING_CONFIG,
+  RATING_WEIGHTS,
+} from "@/constants/rating";
+import { GlickoRating } from "@/lib/glicko";
+
+/**
+ * Normalise a stored rating weight. Matches created before weights existed
+ * have none and count as standard.
+ */
+export function getRatingWeight(weight?: string | null): MatchRatingWeight {
+  return RATING_WEIGHTS.some((option) => option.id === weight)
+    ? (weight as MatchRatingWeight)
+    : "standard";
+}
+
+/**
+ * Multiplier applied to the rating movement of a match
+ */
+export function getRatingWeightMultiplier(weight?: string | null): number {
+  switch (getRatingWeight(weight)) {
+    case "friendly":
+      return 0;
+    case "tournament":
+      return RATING_CONFIG.TOURNAMENT_RATING_MULTIPLIER;
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Whether a match goes through the rating engine at all
+ */
+export function isRatedMatch(weight?: string | null): boolean {
+  return getRatingWeightMultiplier(weight) > 0;
+}
+
+/**
+ * Scale the rating movement of an update. RD and volatility keep the
+ * algorithm's values: a weighted match is still one match of evidence.
+ */
+export function applyRatingWeight(
+  before: GlickoRating,
+  after: GlickoRating,
+  multiplier: number,
+): GlickoRating {
+  if (multiplier === 1) return after;
+
+  return {
+    ...after,
+    rating: before.rating + (after.rating - before.rating) * multiplier,
+  };
+}
+
+/**
+ * Short label for lists, e.g. "Unrated" or "×1.5"
+ */
+export function formatRatingWeight(weight?: string | null): string {
+  const multiplier = getRatingWeightMultiplier(weight);
+  if (multiplier === 0) return "Unrated";
+  return `×${Number(multiplier.toFixed(2))}`;
+}
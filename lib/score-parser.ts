@@ -0,0 +1,192 @@
+import { CLASSIC_SCORING_RULES, ScoringRules } from "@/constants/scoring";
+import {
+  SetScore,
+  TiebreakScore,
+  getSetWinner,
+  validateMatchScore,
+} from "@/lib/padel-scoring";
+
+export interface ParsedScore {
+  isValid: boolean;
+  errors: string[];
+  sets: SetScore[];
+  // The last set was written as a super tiebreak, e.g. [10-7] or 10-8
+  superTiebreak: boolean;
+  // "W/O", the match was not played
+  walkover: boolean;
+  winnerTeam: 0 | 1 | 2;
+}
+
+const WALKOVER_PATTERN = /^(w\s*\/\s*o|wo|walkover)\.?$/i;
+
+// En dash, em dash and minus sign, as pasted from chats and documents
+const DASH_PATTERN = /[\u2013\u2014\u2212]/g;
+
+// Text between sets: spaces, commas, semicolons
+const SEPARATOR_PATTERN = /[\s,;]+/y;
+
+// One set, tried in order at the current position:
+//   [10-7]                 super tiebreak in brackets
+//   6-4, 6/4, 6:4, 7-6(5)  games with a separator, optional tiebreak
+//   64, 76(5)              games written as two digits
+const SET_PATTERNS: { pattern: RegExp; bracketed: boolean }[] = [
+  {
+    pattern: /\[\s*(\d{1,2})\s*[-/:]\s*(\d{1,2})\s*\]/y,
+    bracketed: true,
+  },
+  {
+    pattern:
+      /(\d{1,2})\s*[-/:]\s*(\d{1,2})(?:\s*\(\s*(\d{1,2})(?:\s*[-/:]\s*(\d{1,2}))?\s*\))?/y,
+    bracketed: false,
+  },
+  {
+    pattern: /(\d)(\d)(?:\s*\(\s*(\d{1,2})(?:\s*[-/:]\s*(\d{1,2}))?\s*\))?/y,
+    bracketed: false,
+  },
+];
+
+interface ScannedSet {
+  set: SetScore;
+  bracketed: boolean;
+}
+
+/**
+ * Tiebreak points written after a set. "(5)" gives the loser's points, the
+ * winner's follow from the tiebreak target. "(7-5)" gives both, team 1
+ * first.
+ */
+function toTiebreak(
+  set: SetScore,
+  first: string | undefined,
+  second: string | undefined,
+  rules: ScoringRules,
+): TiebreakScore | null {
+  if (first === undefined) return null;
+
+  if (second !== undefined) {
+    return { team1: Number(first), team2: Number(second) };
+  }
+
+  const loserPoints = Number(first);
+  const winnerPoints = Math.max(rules.tiebreakPoints, loserPoints + 2);
+  return getSetWinner(set) === 2
+    ? { team1: loserPoints, team2: winnerPoints }
+    : { team1: winnerPoints, team2: loserPoints };
+}
+
+function scanSets(
+  input: string,
+  rules: ScoringRules,
+): { sets: ScannedSet[]; errors: string[] } {
+  const sets: ScannedSet[] = [];
+  const errors: string[] = [];
+  let position = 0;
+
+  while (position < input.length) {
+    SEPARATOR_PATTERN.lastIndex = position;
+    if (SEPARATOR_PATTERN.exec(input)) {
+      position = SEPARATOR_PATTERN.lastIndex;
+      continue;
+    }
+
+    const scanned = SET_PATTERNS.reduce<{
+      match: RegExpExecArray;
+      bracketed: boolean;
+    } | null>((found, { pattern, bracketed }) => {
+      if (found) return found;
+      pattern.lastIndex = position;
+      const match = pattern.exec(input);
+      return match ? { match, bracketed } : null;
+    }, null);
+
+    if (!scanned) {
+      const unreadable = input.slice(position).split(/[\s,;]/)[0];
+      errors.push(`Could not read "${unreadable}"`);
+      position += unreadable.length;
+      continue;
+    }
+
+    const [text, team1, team2, first, second] = scanned.match;
+    const set: SetScore = { team1: Number(team1), team2: Number(team2) };
+    if (!scanned.bracketed) {
+      set.tiebreak = toTiebreak(set, first, second, rules);
+    }
+
+    sets.push({ set, bracketed: scanned.bracketed });
+    position += text.length;
+  }
+
+  return { sets, errors };
+}
+
+/**
+ * Read a score typed or pasted as text, e.g. "6-4 3-6 10-8",
+ * "6/4, 7/6(5)", "64 46 [10-7]" or "W/O". Any dash reads as "-", e.g.
+ * "6–4". Sets are team 1 first and are validated against the format's
+ * rules.
+ */
+export function parseScore(
+  input: string,
+  rules: ScoringRules = CLASSIC_SCORING_RULES,
+): ParsedScore {
+  const text = input.replace(DASH_PATTERN, "-").trim();
+  const empty: ParsedScore = {
+    isValid: false,
+    errors: [],
+    sets: [],
+    superTiebreak: false,
+    walkover: false,
+    winnerTeam: 0,
+  };
+
+  if (!text) {
+    return { ...empty, errors: ["Enter a score"] };
+  }
+
+  if (WALKOVER_PATTERN.test(text)) {
+    return { ...empty, isValid: true, walkover: true };
+  }
+
+  const { sets: scanned, errors } = scanSets(text, rules);
+  if (errors.length > 0) {
+    return { ...empty, errors };
+  }
+  if (scanned.length === 0) {
+    return { ...empty, errors: ["No sets found"] };
+  }
+
+  const maxSets = rules.setsToWin * 2 - 1;
+  const last = scanned[scanned.length - 1];
+  // An unbracketed decider past the games of a set, like 10-8, is a super
+  // tiebreak too
+  const superTiebreak =
+    maxSets > 1 &&
+    scanned.length === maxSets &&
+    (last.bracketed ||
+      Math.max(last.set.team1, last.set.team2) > rules.gamesPerSet + 1);
+
+  if (scanned.slice(0, -1).some((set) => set.bracketed)) {
+    return {
+      ...empty,
+      errors: ["Only the deciding set can be a super tiebreak"],
+    };
+  }
+  if (last.bracketed && !superTiebreak) {
+    return {
+      ...empty,
+      errors: [`A super tiebreak replaces set ${maxSets} only`],
+    };
+  }
+
+  const sets = scanned.map(({ set }) => set);
+  const validation = validateMatchScore(sets, rules, { superTiebreak });
+
+  return {
+    isValid: validation.isValid,
+    errors: validation.errors,
+    sets,
+    superTiebreak,
+    walkover: false,
+    winnerTeam: validation.winnerTeam,
+  };
+}
@@ -0,0 +1,127 @@
+import { SHOT_OUTCOMES, ShotOutcome } from "@/constants/shot-stats";
+import { LiveTeam, PlayerSlot, getSlotTeam } from "@/lib/live-scoring";
+import { MatchEvent, ShotTag, getMatchTimeline } from "@/lib/match-events";
+
+export interface ShotStats {
+  counts: Record<ShotOutcome, number>;
+  // Points put down to the player
+  tagged: number;
+  // Points the player won outright, every kind of winner
+  winners: number;
+  // Points the player lost, forced and unforced errors and double faults
+  errors: number;
+}
+
+// Player ids by slot, as stored on the match
+export type MatchPlayerSlots = Record<PlayerSlot, string | null>;
+
+const PLAYER_SLOTS: PlayerSlot[] = [1, 2, 3, 4];
+
+export function createShotStats(): ShotStats {
+  return {
+    counts: {
+      winner: 0,
+      smash: 0,
+      volley_winner: 0,
+      bandeja: 0,
+      forced_error: 0,
+      unforced_error: 0,
+      double_fault: 0,
+    },
+    tagged: 0,
+    winners: 0,
+    errors: 0,
+  };
+}
+
+/**
+ * Team that won a tagged point. Winners go to the player's team, errors
+ * to the opponents.
+ */
+export function getTaggedPointTeam(shot: ShotTag): LiveTeam {
+  const team = getSlotTeam(shot.slot);
+  const wonPoint = SHOT_OUTCOMES.find(
+    (outcome) => outcome.id === shot.outcome,
+  )?.wonPoint;
+  return wonPoint ? team : team === 1 ? 2 : 1;
+}
+
+function addShot(stats: ShotStats, outcome: ShotOutcome): ShotStats {
+  const wonPoint = SHOT_OUTCOMES.find(
+    (option) => option.id === outcome,
+  )?.wonPoint;
+
+  return {
+    counts: { ...stats.counts, [outcome]: stats.counts[outcome] + 1 },
+    tagged: stats.tagged + 1,
+    winners: stats.winners + (wonPoint ? 1 : 0),
+    errors: stats.errors + (wonPoint ? 0 : 1),
+  };
+}
+
+/**
+ * Add up shot stats, e.g. a player's matches into career stats
+ */
+export function mergeShotStats(...all: ShotStats[]): ShotStats {
+  return all.reduce(
+    (total, stats) => ({
+      counts: Object.fromEntries(
+        SHOT_OUTCOMES.map(({ id }) => [
+          id,
+          total.counts[id] + stats.counts[id],
+        ]),
+      ) as Record<ShotOutcome, number>,
+      tagged: total.tagged + stats.tagged,
+      winners: total.winners + stats.winners,
+      errors: total.errors + stats.errors,
+    }),
+    createShotStats(),
+  );
+}
+
+/**
+ * Shot stats of each player slot from a match log. Undone points and
+ * points of an abandoned live scoring run are left out.
+ */
+export function getMatchShotStats(
+  events: MatchEvent[],
+): Record<PlayerSlot, ShotStats> {
+  const timeline = getMatchTimeline(events);
+  const start = [...timeline]
+    .reverse()
+    .find((event) => event.type === "match_started");
+  const stats = Object.fromEntries(
+    PLAYER_SLOTS.map((slot) => [slot, createShotStats()]),
+  ) as Record<PlayerSlot, ShotStats>;
+
+  for (const event of timeline) {
+    const shot = event.payload.shot;
+    if (event.type !== "point" || !shot) continue;
+    if (start && event.sequence < start.sequence) continue;
+
+    stats[shot.slot] = addShot(stats[shot.slot], shot.outcome);
+  }
+
+  return stats;
+}
+
+/**
+ * A player's shot stats in one match, null when they did not play in it
+ */
+export function getPlayerShotStats(
+  events: MatchEvent[],
+  players: MatchPlayerSlots,
+  playerId: string,
+): ShotStats | null {
+  const slot = PLAYER_SLOTS.find((option) => players[option] === playerId);
+  return slot ? getMatchShotStats(events)[slot] : null;
+}
+
+/**
+ * Share of a player's tagged points that were winners, as a whole percent
+ */
+export function getWinnerRate(stats: ShotStats): number {
+  return stats.tagged > 0
+    ? Math.round((stats.winners / stats.tagged) * 100)
+    : 0;
+}
@@ -0,0 +1,48 @@
+import { RATING_CONFIG } from "@/constants/rating";
+import {
+  SKILL_ASSESSMENT_CONFIG,
+  SkillQuestionId,
+} from "@/constants/skill-assessment";
+import { GlickoRating } from "@/lib/glicko";
+
+export type SkillAssessmentAnswers = Partial<Record<SkillQuestionId, string>>;
+
+/**
+ * Whether every question of the assessment has an answer
+ */
+export function isAssessmentComplete(
+  answers: SkillAssessmentAnswers,
+  config = SKILL_ASSESSMENT_CONFIG,
+): boolean {
+  return config.QUESTIONS.every((question) =>
+    question.options.some((option) => option.value === answers[question.id]),
+  );
+}
+
+/**
+ * Turn the onboarding self-assessment into a starting rating. Unanswered
+ * questions contribute nothing.
+ */
+export function seedRatingFromAssessment(
+  answers: SkillAssessmentAnswers,
+  config = SKILL_ASSESSMENT_CONFIG,
+): GlickoRating {
+  let rating = config.BASE_RATING;
+  let rd = config.BASE_RD;
+
+  for (const question of config.QUESTIONS) {
+    const option = question.options.find(
+      (candidate) => candidate.value === answers[question.id],
+    );
+    if (!option) continue;
+
+    rating += option.rating;
+    rd -= option.rdReduction;
+  }
+
+  return {
+    rating: Math.min(config.MAX_RATING, Math.max(config.MIN_RATING, rating)),
+    rd: Math.max(config.MIN_SEEDED_RD, rd),
+    vol: RATING_CONFIG.DEFAULT_VOL,
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * Rebuild every player's rating from the validated match history.
+ *
+ * Usage:
+ *   npm run replay-ratings -- [--apply] [--algorithm=elo] [--periods|--no-periods]
+ *   npm run replay-ratings -- --input=tables.json [--output=replayed.json]
+ *
+ * Without --input the script talks to Supabase using EXPO_PUBLIC_SUPABASE_URL
+ * and SUPABASE_SERVICE_ROLE_KEY, which can point at a local `supabase start`
+ * stack. With --input it runs against an in-memory copy of the `matches`,
+ * `profiles`, `match_rating_changes`, `pair_ratings` and
+ * `pair_rating_changes` tables loaded from a JSON dump.
+ * Nothing is written unless --apply is given.
+ */
+import { readFileSync, writeFileSync } from "fs";
+import { createClient } from "@supabase/supabase-js";
+
+import { RatingAlgorithmId } from "@/constants/rating";
+import { getRatingAlgorithm } from "@/lib/rating-engine";
+import {
+  InMemoryRatingStore,
+  InMemoryTables,
+  RatingReplayService,
+  RatingStore,
+  SupabaseRatingStore,
+} from "@/services/rating-replay.service";
+
+const args = process.argv.slice(2);
+const flag = (name: string) => args.includes(`--${name}`);
+const option = (name: string) =>
+  args.find((arg) => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+
+async function main() {
+  const input = option("input");
+  const algorithmId = option("algorithm") as RatingAlgorithmId | undefined;
+  const dryRun = !flag("apply");
+
+  let store: RatingStore;
+  let memoryStore: InMemoryRatingStore | null = null;
+
+  if (input) {
+    const tables = JSON.parse(readFileSync(input, "utf8")) as InMemoryTables;
+    memoryStore = new InMemoryRatingStore({
+      matches: tables.matches ?? [],
+      profiles: tables.profiles ?? [],
+      match_rating_changes: tables.match_rating_changes ?? [],
+      pair_ratings: tables.pair_ratings ?? [],
+      pair_rating_changes: tables.pair_rating_changes ?? [],
+    });
+    store = memoryStore;
+  } else {
+    const url = process.env.EXPO_PUBLIC_SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+    if (!url || !key) {
+      throw new Error(
+        "Set EXPO_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY, or pass --input",
+      );
+    }
+    store = new SupabaseRatingStore(
+      createClient(url, key, { auth: { persistSession: false } }),
+    );
+  }
+
+  const report = await RatingReplayService.replay(store, {
+    dryRun,
+    algorithm: algorithmId ? getRatingAlgorithm(algorithmId) : undefined,
+    usePeriods: flag("periods") ? true : flag("no-periods") ? false : undefined,
+  });
+
+  console.table(
+    report.diffs.map((diff) => ({
+      player: diff.player_id,
+      rating_before: diff.before ? Math.round(diff.before.rating) : "-",
+      rating_after: Math.round(diff.after.rating),
+      rating_delta: diff.rating_delta.toFixed(1),
+      rd_before: diff.before ? Math.round(diff.before.rd) : "-",
+      rd_after: Math.round(diff.after.rd),
+    })),
+  );
+
+  if (memoryStore && !dryRun) {
+    const output = option("output") ?? input!;
+    writeFileSync(output, JSON.stringify(memoryStore.tables, null, 2));
+    console.log(`Wrote replayed tables to ${output}`);
+  }
+}
+
+main().catch((error) => {
+  console.error("💥 [RATING-REPLAY] Replay failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,89 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from "@jest/globals";
+
+import { ConfirmationProcessorService } from "@/services/confirmation-processor.service";
+import { MatchConfirmationServiceV2 } from "@/services/match-confirmation.service";
+import { RatingWeightChangeService } from "@/services/rating-weight-change.service";
+import { ScheduledJobService } from "@/services/scheduled-job.service";
+
+jest.mock("@/config/supabase", () => ({ supabase: {} }));
+jest.mock("@/services/match-confirmation.service", () => ({
+  MatchConfirmationServiceV2: { processExpiredConfirmations: jest.fn() },
+}));
+jest.mock("@/services/rating-weight-change.service", () => ({
+  RatingWeightChangeService: { processDueChanges: jest.fn() },
+}));
+jest.mock("@/services/scheduled-job.service", () => ({
+  ScheduledJobService: { runDueJobs: jest.fn() },
+}));
+
+const processExpiredConfirmations = jest.mocked(
+  MatchConfirmationServiceV2.processExpiredConfirmations,
+);
+const processDueChanges = jest.mocked(
+  RatingWeightChangeService.processDueChanges,
+);
+const runDueJobs = jest.mocked(ScheduledJobService.runDueJobs);
+
+describe("ConfirmationProcessorService.processAllConfirmations", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    processDueChanges.mockResolvedValue(0);
+    runDueJobs.mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("processes confirmations and runs the due jobs", async () => {
+    processExpiredConfirmations.mockResolvedValue({
+      success: true,
+      processed: 3,
+      confirmed: 2,
+      cancelled: 1,
+    });
+
+    const result = await ConfirmationProcessorService.processAllConfirmations();
+
+    expect(result).toMatchObject({
+      success: true,
+      processed: 3,
+      approved: 2,
+      errors: [],
+    });
+    expect(processDueChanges).toHaveBeenCalledTimes(1);
+    expect(runDueJobs).toHaveBeenCalledTimes(1);
+  });
+
+  it("still runs the due jobs when confirmation processing throws", async () => {
+    processExpiredConfirmations.mockRejectedValue(new Error("rpc down"));
+
+    const result = await ConfirmationProcessorService.processAllConfirmations();
+
+    expect(result).toMatchObject({ success: false, errors: ["rpc down"] });
+    expect(runDueJobs).toHaveBeenCalledTimes(1);
+  });
+
+  it("runs the due jobs when the weight changes fail", async () => {
+    processExpiredConfirmations.mockResolvedValue({
+      success: true,
+      processed: 0,
+      confirmed: 0,
+      cancelled: 0,
+    });
+    processDueChanges.mockRejectedValue(new Error("query failed"));
+
+    await ConfirmationProcessorService.processAllConfirmations();
+
+    expect(runDueJobs).toHaveBeenCalledTimes(1);
+  });
+});
@@ -2,7 +2,9 @@
 // CREATE THIS NEW FILE
 
 import { supabase } from "@/config/supabase";
-import { MatchConfirmationService } from "./match-confirmation.service";
+import { MatchConfirmationServiceV2 } from "./match-confirmation.service";
+import { RatingWeightChangeService } from "./rating-weight-change.service";
+import { ScheduledJobService } from "./scheduled-job.service";
 
 export interface ProcessingResult {
   processed: number;
@@ -23,26 +25,25 @@ export class ConfirmationProcessorService {
       startTime.toISOString(),
     );
 
+    let processingResult: ProcessingResult;
     try {
       // Call the service method which calls the database function
       const result =
-        await MatchConfirmationService.processExpiredConfirmations();
+        await MatchConfirmationServiceV2.processExpiredConfirmations();
 
-      const processingResult: ProcessingResult = {
+      processingResult = {
         processed: result.processed,
-        approved: result.approved,
-        errors: result.success ? [] : ["Processing failed"],
+        approved: result.confirmed,
+        errors: result.success ? [] : [result.error || "Processing failed"],
         timestamp: new Date().toISOString(),
         success: result.success,
       };
 
       console.log("✅ [PROCESSOR] Processing complete:", processingResult);
-
-      return processingResult;
     } catch (error) {
       console.error("💥 [PROCESSOR] Critical error:", error);
 
-      return {
+      processingResult = {
         processed: 0,
         approved: 0,
         errors: [error instanceof Error ? error.message : "Unknown error"],
@@ -50,6 +51,32 @@ export class ConfirmationProcessorService {
         success: false,
       };
     }
+
+    // The background jobs don't depend on the confirmations, so they run
+    // even when the confirmation processing failed
+    await this.runBackgroundJobs();
+
+    return processingResult;
+  }
+
+  /**
+   * Run the periodic jobs that share the confirmation processor's schedule
+   */
+  private static async runBackgroundJobs(): Promise<void> {
+    try {
+      // Rating weight changes nobody objected to in time
+      await RatingWeightChangeService.processDueChanges();
+    } catch (error) {
+      console.error("💥 [PROCESSOR] Rating weight changes failed:", error);
+    }
+
+    try {
+      // Background jobs such as the integrity analysis and rating decay,
+      // run by one client per window
+      await ScheduledJobService.runDueJobs();
+    } catch (error) {
+      console.error("💥 [PROCESSOR] Scheduled jobs failed:", error);
+    }
   }
 
   /**
@@ -1,5 +1,14 @@
 import { supabase } from "@/config/supabase";
-import { calculateMatchRatings } from "@/lib/glicko";
+import { RATING_CONFIG } from "@/constants/rating";
+import { GlickoRating } from "@/lib/glicko";
+import { getMatchEnding, isRatedResult } from "@/lib/match-ending";
+import { calculateTeam1Performance } from "@/lib/match-outcome";
+import { getRatingAlgorithm, parseStoredRating } from "@/lib/rating-engine";
+import { getRatingWeightMultiplier, isRatedMatch } from "@/lib/rating-weight";
+import { LadderRatingService } from "@/services/ladder-rating.service";
+import { PairRatingService } from "@/services/pair-rating.service";
+import { RatingPeriodService } from "@/services/rating-period.service";
+import { RatingTierService } from "@/services/rating-tier.service";
 
 interface MatchRatingResult {
   success: boolean;
@@ -83,7 +92,41 @@ export class EnhancedRatingService {
         };
       }
 
-      if (!match.winner_team || match.team1_score_set1 === null) {
+      // Walkovers, abandoned matches and retirements before the first game
+      // were never played to a result
+      const ending = getMatchEnding(match.end_reason);
+      if (!isRatedResult(match)) {
+        const { error: endingError } = ending.needsConfirmation
+          ? await this.startValidationPeriod(matchId, match.validation_deadline)
+          : await supabase
+              .from("matches")
+              .update({
+                validation_status: "validated",
+                validation_completed_at: new Date().toISOString(),
+              })
+              .eq("id", matchId);
+
+        if (endingError) {
+          return {
+            success: false,
+            message: "Failed to update match validation status",
+            error: endingError.message,
+          };
+        }
+
+        console.log(`🏳️ [RATING] ${ending.label} match ${matchId}, not rated`);
+        return {
+          success: true,
+          message: `${ending.label} match recorded, ratings are not affected`,
+          rating_changes: [],
+        };
+      }
+
+      // A retirement is rated on the games played so far
+      if (
+        !match.winner_team ||
+        (ending.score === "full" && match.team1_score_set1 === null)
+      ) {
         console.error(
           `❌ [RATING] Match incomplete - missing scores or winner`,
         );
@@ -94,6 +137,29 @@ export class EnhancedRatingService {
         };
       }
 
+      // Friendly matches go through confirmation but are never rated
+      if (!isRatedMatch(match.rating_weight)) {
+        const { error: friendlyError } = await this.startValidationPeriod(
+          matchId,
+          match.validation_deadline,
+        );
+
+        if (friendlyError) {
+          return {
+            success: false,
+            message: "Failed to update match validation status",
+            error: friendlyError.message,
+          };
+        }
+
+        console.log(`🤝 [RATING] Friendly match ${matchId}, not rated`);
+        return {
+          success: true,
+          message: "Friendly match recorded, ratings are not affected",
+          rating_changes: [],
+        };
+      }
+
       // STEP 2.1.1.1.3: Prepare player ratings for calculation
       const playerRatings = [
         match.player1,
@@ -102,9 +168,7 @@ export class EnhancedRatingService {
         match.player4,
       ].map((player) => ({
         id: player.id,
-        rating: parseFloat(player.glicko_rating) || 1500,
-        rd: parseFloat(player.glicko_rd) || 350,
-        vol: parseFloat(player.glicko_vol) || 0.06,
+        ...parseStoredRating(player),
       }));
 
       console.log(
@@ -112,31 +176,27 @@ export class EnhancedRatingService {
         playerRatings.map((p) => `${p.id.substring(0, 8)}: ${p.rating}`),
       );
 
-      // STEP 2.1.1.1.4: Calculate new ratings
-      const winnerTeam = match.winner_team;
-      const team1Wins = winnerTeam === 1 ? 1 : 0;
-      const team2Wins = winnerTeam === 2 ? 1 : 0;
-
-      const updatedRatings = calculateMatchRatings(
-        playerRatings[0],
-        playerRatings[1],
-        playerRatings[2],
-        playerRatings[3],
-        team1Wins,
-        team2Wins,
-      );
+      // STEP 2.1.1.1.4: Calculate new ratings with the configured algorithm
+      const algorithm = getRatingAlgorithm();
+      const team1Result = calculateTeam1Performance(match);
+      const weight = getRatingWeightMultiplier(match.rating_weight);
+
+      const updatedRatings = algorithm.rateMatch({
+        team1: [playerRatings[0], playerRatings[1]],
+        team2: [playerRatings[2], playerRatings[3]],
+        team1Result,
+        weight,
+      });
 
       // Convert to array format consistent with existing code
-      const newRatings = [
-        updatedRatings.player1,
-        updatedRatings.player2,
-        updatedRatings.player3,
-        updatedRatings.player4,
-      ];
+      const newRatings = [...updatedRatings.team1, ...updatedRatings.team2];
 
       console.log(
-        `📈 [RATING] New ratings calculated:`,
-        newRatings.map((p: any) => `${p.id}: ${p.rating}`),
+        `📈 [RATING] New ratings calculated (${algorithm.name}, team 1 performance ${team1Result.toFixed(3)}, weight ${weight}):`,
+        newRatings.map(
+          (p, index) =>
+            `${playerRatings[index].id.substring(0, 8)}: ${p.rating}`,
+        ),
       );
 
       // STEP 2.1.1.1.5: Prepare rating change records for audit trail
@@ -162,6 +222,8 @@ export class EnhancedRatingService {
           ratingChanges.map((change) => ({
             match_id: matchId,
             ...change,
+            // With rating periods these rows are previews until the period closes
+            is_provisional: RATING_CONFIG.RATING_PERIODS_ENABLED,
           })),
         );
 
@@ -182,19 +244,8 @@ export class EnhancedRatingService {
       );
 
       // STEP 2.1.1.1.7: Update match with validation metadata (if not already set)
-      const validationDeadline = new Date();
-      validationDeadline.setHours(validationDeadline.getHours() + 24);
-
-      const { error: matchUpdateError } = await supabase
-        .from("matches")
-        .update({
-          validation_deadline:
-            match.validation_deadline || validationDeadline.toISOString(),
-          validation_status: "pending",
-          rating_applied: false, // CRITICAL: Ratings not yet applied
-          report_count: 0,
-        })
-        .eq("id", matchId);
+      const { error: matchUpdateError, validationDeadline } =
+        await this.startValidationPeriod(matchId, match.validation_deadline);
 
       if (matchUpdateError) {
         console.error(
@@ -248,7 +299,7 @@ Ratings will apply after: ${validationDeadline.toISOString()}`);
       const { data: match, error: matchError } = await supabase
         .from("matches")
         .select(
-          "validation_status, validation_deadline, rating_applied, report_count, all_confirmed, confirmation_status",
+          "validation_status, validation_deadline, rating_applied, report_count, all_confirmed, confirmation_status, rating_weight, end_reason, team1_score_set1, team2_score_set1, team1_score_set2, team2_score_set2, team1_score_set3, team2_score_set3",
         )
         .eq("id", matchId)
         .single();
@@ -324,6 +375,29 @@ Ratings will apply after: ${validationDeadline.toISOString()}`);
         };
       }
 
+      // Friendly matches and walkovers are locked in without touching any
+      // rating
+      if (!isRatedMatch(match.rating_weight) || !isRatedResult(match)) {
+        const { error: validateError } = await supabase
+          .from("matches")
+          .update({
+            validation_status: "validated",
+            validation_completed_at: new Date().toISOString(),
+          })
+          .eq("id", matchId);
+
+        if (validateError) {
+          throw new Error(`Match validation failed: ${validateError.message}`);
+        }
+
+        console.log(`🤝 [RATING] Unrated match ${matchId} validated`);
+        return {
+          success: true,
+          message: "Match validated, ratings are not affected",
+          rating_changes: [],
+        };
+      }
+
       // STEP 2.1.1.2.3: Fetch pre-calculated rating changes
       const { data: ratingChanges, error: changesError } = await supabase
         .from("match_rating_changes")
@@ -343,6 +417,37 @@ Ratings will apply after: ${validationDeadline.toISOString()}`);
         };
       }
 
+      // With rating periods, profiles are updated in bulk when the period
+      // closes (see RatingPeriodService). Validation only locks the match in.
+      if (RATING_CONFIG.RATING_PERIODS_ENABLED) {
+        const { error: validateError } = await supabase
+          .from("matches")
+          .update({
+            validation_status: "validated",
+            validation_completed_at: new Date().toISOString(),
+          })
+          .eq("id", matchId);
+
+        if (validateError) {
+          throw new Error(`Match validation failed: ${validateError.message}`);
+        }
+
+        console.log(
+          `🗓️ [RATING] Match validated, ratings deferred to period ending ${RatingPeriodService.getPeriodBounds().end.toISOString()}`,
+        );
+
+        // Category ladders are rated per match, outside of periods.
+        // Partnerships are rated when the period closes.
+        await this.applyLadderRatings(matchId);
+
+        return {
+          success: true,
+          message:
+            "Match validated. Ratings will apply when the rating period closes",
+          rating_changes: ratingChanges,
+        };
+      }
+
       console.log(
         `📊 [RATING] Applying ${ratingChanges.length} rating changes`,
       );
@@ -410,6 +515,31 @@ Ratings will apply after: ${validationDeadline.toISOString()}`);
         // Non-critical error, continue
       }
 
+      // STEP 2.1.1.2.7: Update the category ladders (mixed, men's, ...)
+      await this.applyLadderRatings(matchId);
+
+      // STEP 2.1.1.2.8: Update both partnership ratings, new pairs are
+      // seeded from the ratings going into the match
+      await this.applyPairRatings(
+        matchId,
+        new Map(
+          ratingChanges.map((change) => [
+            change.player_id,
+            {
+              rating: Number(change.rating_before),
+              rd: Number(change.rd_before),
+              vol: Number(change.vol_before),
+            },
+          ]),
+        ),
+      );
+
+      // STEP 2.1.1.2.9: Promote or demote players whose tier changed
+      await RatingTierService.updatePlayerTiers(
+        ratingChanges.map((change) => change.player_id),
+        matchId,
+      );
+
       console.log(
         `🎉 [RATING] Successfully applied all rating changes for match: ${matchId}`,
       );
@@ -448,6 +578,86 @@ Ratings will apply after: ${validationDeadline.toISOString()}`);
     }
   }
 
+  /**
+   * Open the 24-hour validation window, keeping an existing deadline
+   */
+  private static async startValidationPeriod(
+    matchId: string,
+    existingDeadline: string | null,
+  ) {
+    const validationDeadline = new Date();
+    validationDeadline.setHours(validationDeadline.getHours() + 24);
+
+    const { error } = await supabase
+      .from("matches")
+      .update({
+        validation_deadline:
+          existingDeadline || validationDeadline.toISOString(),
+        validation_status: "pending",
+        rating_applied: false, // CRITICAL: Ratings not yet applied
+        report_count: 0,
+      })
+      .eq("id", matchId);
+
+    return { error, validationDeadline };
+  }
+
+  /**
+   * Rate the match on its category ladders. Failures are logged and do not
+   * undo the overall rating.
+   */
+  private static async applyLadderRatings(matchId: string): Promise<void> {
+    try {
+      await LadderRatingService.applyMatchToLadders(matchId);
+    } catch (error) {
+      console.warn(`⚠️ [RATING] Ladder rating update failed:`, error);
+    }
+  }
+
+  /**
+   * Rate the two partnerships of the match. Failures are logged and do not
+   * undo the individual ratings.
+   */
+  private static async applyPairRatings(
+    matchId: string,
+    playerRatings: Map<string, GlickoRating>,
+  ): Promise<void> {
+    try {
+      await PairRatingService.applyMatchToPairs(matchId, playerRatings);
+    } catch (error) {
+      console.warn(`⚠️ [RATING] Pair rating update failed:`, error);
+    }
+  }
+
+  /**
+   * Revert Disputed Match Ratings
+   *
+   * PURPOSE: Remove an applied match from everyone's rating
+   * CASCADE: Later matches involving the affected players are re-rated in
+   * order and their players notified, see RatingCorrectionService. Category
+   * ladders and partnerships are corrected along the same chain.
+   *
+   * @param matchId - UUID of the disputed match
+   * @returns Promise<MatchRatingResult>
+   */
+  static async revertDisputedMatchRatings(
+    matchId: string,
+  ): Promise<MatchRatingResult> {
+    const { RatingCorrectionService } = await import(
+      "@/services/rating-correction.service"
+    );
+    const result = await RatingCorrectionService.correctFromMatch(
+      matchId,
+      "disputed",
+    );
+
+    return {
+      success: result.success,
+      message: result.message,
+      error: result.error,
+    };
+  }
+
   /**
    * Process all matches that need rating application
    * This should be called periodically by a cron job or background worker
@@ -490,6 +700,10 @@ Ratings will apply after: ${validationDeadline.toISOString()}`);
         `✅ [RATING] Batch processing complete. Successful: ${successful}, Failed: ${failed}`,
       );
 
+      if (RATING_CONFIG.RATING_PERIODS_ENABLED) {
+        await RatingPeriodService.closeDuePeriods();
+      }
+
       return {
         processed: pendingMatches?.length || 0,
         successful,
@@ -0,0 +1,306 @@
+import { supabase } from "@/config/supabase";
+import { INTEGRITY_CONFIG } from "@/constants/integrity";
+import { MatchStatus } from "@/types/dashboard";
+import {
+  IntegrityFlag,
+  IntegrityFlagType,
+  IntegritySeverity,
+  analyseIntegrity,
+} from "@/lib/integrity";
+
+export type IntegrityReviewStatus = "open" | "dismissed" | "confirmed";
+
+export interface IntegrityReviewItem {
+  id: string;
+  flag_type: IntegrityFlagType;
+  severity: IntegritySeverity;
+  player_ids: string[];
+  match_ids: string[];
+  fingerprint: string;
+  summary: string;
+  evidence: Record<string, number | string>;
+  status: IntegrityReviewStatus;
+  detected_at: string;
+  last_seen_at: string;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_note: string | null;
+}
+
+const SEVERITY_ORDER: Record<IntegritySeverity, number> = {
+  high: 0,
+  medium: 1,
+  low: 2,
+};
+
+export interface IntegrityAnalysisResult {
+  success: boolean;
+  message: string;
+  error?: string;
+  flagged?: number;
+  queued?: number;
+}
+
+/**
+ * Integrity Service
+ *
+ * Runs the rating integrity analyser (lib/integrity.ts) over recent matches
+ * and their rating changes. Findings land in integrity_review_queue, where a
+ * reviewer confirms or dismisses them. A finding already in the queue is
+ * refreshed instead of queued twice, and a reviewed one only reopens when
+ * its evidence has grown.
+ */
+export class IntegrityService {
+  /**
+   * Analyse the lookback window and queue new findings
+   * Runs once a day through ScheduledJobService
+   */
+  static async runAnalysis(
+    now: Date = new Date(),
+  ): Promise<IntegrityAnalysisResult> {
+    try {
+      const since = new Date(
+        now.getTime() - INTEGRITY_CONFIG.LOOKBACK_DAYS * 24 * 60 * 60 * 1000,
+      ).toISOString();
+
+      console.log(`🕵️ [INTEGRITY] Analysing matches since ${since}`);
+
+      const { data: matches, error: matchesError } = await supabase
+        .from("matches")
+        .select(
+          "id, start_time, player1_id, player2_id, player3_id, player4_id, winner_team, is_public",
+        )
+        .gte("start_time", since)
+        .lte("start_time", now.toISOString())
+        // Cancelled, disputed and friendly matches move no rating
+        .neq("status", MatchStatus.CANCELLED)
+        .or("validation_status.is.null,validation_status.neq.disputed")
+        .or("rating_weight.is.null,rating_weight.neq.friendly");
+
+      if (matchesError) {
+        throw new Error(`Match fetch failed: ${matchesError.message}`);
+      }
+
+      const matchIds = (matches || []).map((match) => match.id);
+      const { data: changes, error: changesError } = matchIds.length
+        ? await supabase
+            .from("match_rating_changes")
+            .select("match_id, player_id, rating_before, rating_after")
+            .in("match_id", matchIds)
+            .eq("is_reverted", false)
+        : { data: [], error: null };
+
+      if (changesError) {
+        throw new Error(`Rating change fetch failed: ${changesError.message}`);
+      }
+
+      // Public matches not rated yet are compared on current ratings
+      const playerIds = Array.from(
+        new Set(
+          (matches || [])
+            .filter((match) => match.is_public)
+            .flatMap((match) => [
+              match.player1_id,
+              match.player2_id,
+              match.player3_id,
+              match.player4_id,
+            ])
+            .filter((id): id is string => !!id),
+        ),
+      );
+      const currentRatings = new Map<string, number>();
+      if (playerIds.length > 0) {
+        const { data: profiles } = await supabase
+          .from("profiles")
+          .select("id, glicko_rating")
+          .in("id", playerIds);
+
+        for (const profile of profiles || []) {
+          const rating = parseFloat(profile.glicko_rating);
+          if (!isNaN(rating)) currentRatings.set(profile.id, rating);
+        }
+      }
+
+      const flags = analyseIntegrity(
+        matches || [],
+        changes || [],
+        currentRatings,
+      );
+      const queued = await this.queueFlags(flags, now);
+
+      console.log(
+        `✅ [INTEGRITY] ${flags.length} finding(s), ${queued} new in review queue`,
+      );
+
+      return {
+        success: true,
+        message: `Integrity analysis complete`,
+        flagged: flags.length,
+        queued,
+      };
+    } catch (error) {
+      console.error(`💥 [INTEGRITY] Analysis failed:`, error);
+      return {
+        success: false,
+        message: "Integrity analysis failed",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Insert new findings, refresh known ones and reopen reviewed ones whose
+   * evidence has grown since the review
+   * @returns Number of newly queued or reopened findings
+   */
+  private static async queueFlags(
+    flags: IntegrityFlag[],
+    now: Date,
+  ): Promise<number> {
+    if (flags.length === 0) return 0;
+
+    const { data: known, error } = await supabase
+      .from("integrity_review_queue")
+      .select("id, fingerprint, status, severity, match_ids")
+      .in(
+        "fingerprint",
+        flags.map((flag) => flag.fingerprint),
+      );
+
+    if (error) throw new Error(`Review queue fetch failed: ${error.message}`);
+
+    const seenAt = now.toISOString();
+    let queued = 0;
+
+    for (const flag of flags) {
+      // Prefer the open row if the finding was queued more than once
+      const matching = (known || []).filter(
+        (item) => item.fingerprint === flag.fingerprint,
+      );
+      const existing =
+        matching.find((item) => item.status === "open") ?? matching[0];
+      const reopened =
+        !!existing &&
+        existing.status !== "open" &&
+        this.hasGrown(existing, flag);
+
+      // A reviewed finding with nothing new stays closed
+      if (existing && existing.status !== "open" && !reopened) {
+        await supabase
+          .from("integrity_review_queue")
+          .update({ last_seen_at: seenAt })
+          .eq("id", existing.id);
+        continue;
+      }
+
+      const row = {
+        flag_type: flag.type,
+        severity: flag.severity,
+        player_ids: flag.player_ids,
+        match_ids: flag.match_ids,
+        summary: flag.summary,
+        evidence: flag.evidence,
+        last_seen_at: seenAt,
+      };
+
+      const { error: writeError } = existing
+        ? await supabase
+            .from("integrity_review_queue")
+            .update(
+              reopened
+                ? {
+                    ...row,
+                    status: "open",
+                    reviewed_by: null,
+                    reviewed_at: null,
+                  }
+                : row,
+            )
+            .eq("id", existing.id)
+        : await supabase.from("integrity_review_queue").insert({
+            ...row,
+            fingerprint: flag.fingerprint,
+            status: "open",
+            detected_at: seenAt,
+          });
+
+      if (writeError) {
+        console.warn(
+          `⚠️ [INTEGRITY] Failed to queue ${flag.fingerprint}:`,
+          writeError,
+        );
+        continue;
+      }
+
+      if (!existing || reopened) queued++;
+    }
+
+    return queued;
+  }
+
+  /**
+   * Whether a finding implicates more matches, or is more severe, than when
+   * it was last reviewed
+   */
+  private static hasGrown(
+    reviewed: { severity: IntegritySeverity; match_ids: string[] | null },
+    flag: IntegrityFlag,
+  ): boolean {
+    return (
+      flag.match_ids.length > (reviewed.match_ids?.length ?? 0) ||
+      SEVERITY_ORDER[flag.severity] < SEVERITY_ORDER[reviewed.severity]
+    );
+  }
+
+  /**
+   * Findings waiting for review, most severe and most recent first
+   */
+  static async getReviewQueue(
+    status: IntegrityReviewStatus = "open",
+  ): Promise<IntegrityReviewItem[]> {
+    const { data, error } = await supabase
+      .from("integrity_review_queue")
+      .select("*")
+      .eq("status", status)
+      .order("last_seen_at", { ascending: false });
+
+    if (error) throw new Error(`Review queue fetch failed: ${error.message}`);
+
+    return (data || []).sort(
+      (a, b) =>
+        SEVERITY_ORDER[a.severity as IntegritySeverity] -
+        SEVERITY_ORDER[b.severity as IntegritySeverity],
+    );
+  }
+
+  /**
+   * Close a finding after review
+   */
+  static async resolveFlag(
+    flagId: string,
+    status: Exclude<IntegrityReviewStatus, "open">,
+    reviewerId: string,
+    note?: string,
+  ): Promise<IntegrityAnalysisResult> {
+    const { error } = await supabase
+      .from("integrity_review_queue")
+      .update({
+        status,
+        reviewed_by: reviewerId,
+        reviewed_at: new Date().toISOString(),
+        review_note: note?.trim() || null,
+      })
+      .eq("id", flagId);
+
+    if (error) {
+      console.error(`❌ [INTEGRITY] Failed to resolve ${flagId}:`, error);
+      return {
+        success: false,
+        message: "Failed to update review item",
+        error: error.message,
+      };
+    }
+
+    return { success: true, message: `Finding ${status}` };
+  }
+}
@@ -0,0 +1,450 @@
+import { supabase } from "@/config/supabase";
+import { RATING_CONFIG, RatingLadderId } from "@/constants/rating";
+import { GlickoRating } from "@/lib/glicko";
+import { toRatedMatch } from "@/lib/match-outcome";
+import {
+  StoredRatingChange,
+  findAffectedMatches,
+  planRatingCascade,
+} from "@/lib/rating-correction";
+import { getMatchLadders } from "@/lib/rating-ladders";
+import {
+  TeamRatings,
+  getDefaultRating,
+  getRatingAlgorithm,
+} from "@/lib/rating-engine";
+import { ReplayMatch } from "@/lib/rating-replay";
+import { RatingPeriodService } from "@/services/rating-period.service";
+
+export interface LadderRanking {
+  id: string;
+  full_name: string | null;
+  email: string;
+  avatar_url: string | null;
+  glicko_rating: string;
+  glicko_rd: string | null;
+  rated_matches: number;
+}
+
+export interface PlayerLadderRating {
+  ladder: RatingLadderId;
+  rating: number;
+  rd: number;
+  rated_matches: number;
+}
+
+type RankedPlayer = Pick<
+  LadderRanking,
+  "id" | "full_name" | "email" | "avatar_url"
+>;
+
+interface LadderRankingRow {
+  rating: number | string;
+  rd: number | string | null;
+  rated_matches: number | null;
+  player: RankedPlayer | null;
+}
+
+interface LadderRatingChange extends StoredRatingChange {
+  ladder: RatingLadderId;
+}
+
+const MATCH_COLUMNS =
+  "id, start_time, court, player1_id, player2_id, player3_id, player4_id, team1_score_set1, team2_score_set1, team1_score_set2, team2_score_set2, team1_score_set3, team2_score_set3, super_tiebreak, match_format, winner_team, rating_weight, end_reason";
+
+/**
+ * Ladder Rating Service
+ *
+ * Besides the overall rating on `profiles`, every player has a rating per
+ * match category (mixed, men's, women's and optionally indoor/outdoor) in
+ * `player_ladder_ratings`. A validated match updates each ladder it belongs
+ * to, derived from the court and the players' sex.
+ */
+export class LadderRatingService {
+  /**
+   * Rate a validated match on every category ladder it belongs to. The
+   * overall ladder is handled by EnhancedRatingService.
+   *
+   * @param matchId - UUID of the validated match
+   * @returns The ladders that were updated
+   */
+  static async applyMatchToLadders(matchId: string): Promise<RatingLadderId[]> {
+    const { data: match, error: matchError } = await supabase
+      .from("matches")
+      .select(MATCH_COLUMNS)
+      .eq("id", matchId)
+      .single();
+
+    if (matchError || !match) {
+      throw new Error(
+        `Ladder match fetch failed: ${matchError?.message || "not found"}`,
+      );
+    }
+
+    const rated = toRatedMatch(match);
+    if (!rated) return [];
+
+    const playerIds = [...rated.team1, ...rated.team2];
+    const { data: players, error: playersError } = await supabase
+      .from("profiles")
+      .select("id, sex")
+      .in("id", playerIds);
+
+    if (playersError) {
+      throw new Error(`Ladder player fetch failed: ${playersError.message}`);
+    }
+
+    const ladders = getMatchLadders(match, players || []).filter(
+      (ladder) => ladder !== "overall",
+    );
+    const algorithm = getRatingAlgorithm();
+
+    for (const ladder of ladders) {
+      const ratings = await this.getLadderRatings(playerIds, ladder);
+      const ratingOf = (playerId: string) =>
+        ratings.get(playerId) ?? getDefaultRating();
+
+      const team1: TeamRatings = [
+        ratingOf(rated.team1[0]),
+        ratingOf(rated.team1[1]),
+      ];
+      const team2: TeamRatings = [
+        ratingOf(rated.team2[0]),
+        ratingOf(rated.team2[1]),
+      ];
+      const updated = algorithm.rateMatch({
+        team1,
+        team2,
+        team1Result: rated.team1Result,
+        weight: rated.weight,
+      });
+
+      const before = [...team1, ...team2];
+      const after = [...updated.team1, ...updated.team2];
+      const now = new Date().toISOString();
+
+      const { data: existing } = await supabase
+        .from("player_ladder_ratings")
+        .select("player_id, rated_matches")
+        .eq("ladder", ladder)
+        .in("player_id", playerIds);
+
+      const { error: upsertError } = await supabase
+        .from("player_ladder_ratings")
+        .upsert(
+          playerIds.map((playerId, index) => ({
+            player_id: playerId,
+            ladder,
+            rating: after[index].rating,
+            rd: after[index].rd,
+            vol: after[index].vol,
+            rated_matches:
+              (existing?.find((row) => row.player_id === playerId)
+                ?.rated_matches || 0) + 1,
+            updated_at: now,
+          })),
+          { onConflict: "player_id,ladder" },
+        );
+
+      if (upsertError) {
+        throw new Error(
+          `Ladder ${ladder} update failed: ${upsertError.message}`,
+        );
+      }
+
+      const { error: auditError } = await supabase
+        .from("ladder_rating_changes")
+        .insert(
+          playerIds.map((playerId, index) => ({
+            match_id: matchId,
+            player_id: playerId,
+            ladder,
+            rating_before: before[index].rating,
+            rd_before: before[index].rd,
+            vol_before: before[index].vol,
+            rating_after: after[index].rating,
+            rd_after: after[index].rd,
+            vol_after: after[index].vol,
+            applied_at: now,
+          })),
+        );
+
+      if (auditError) {
+        console.warn(
+          `⚠️ [LADDER] Failed to record ${ladder} audit rows:`,
+          auditError,
+        );
+      }
+
+      console.log(`🪜 [LADDER] Match ${matchId} rated on ${ladder} ladder`);
+    }
+
+    return ladders;
+  }
+
+  /**
+   * Correct the ladder ratings after a match was disputed (removed) or
+   * edited (re-rated). Every later validated match on the same ladders is
+   * re-rated in order from the stored baselines, like the overall rating
+   * in RatingCorrectionService.
+   *
+   * @param trigger - The disputed or edited match
+   * @returns The ladders that were corrected
+   */
+  static async correctFromMatch(
+    trigger: ReplayMatch,
+    rerateTrigger: boolean,
+  ): Promise<RatingLadderId[]> {
+    const { data: triggerRows, error: triggerError } = await supabase
+      .from("ladder_rating_changes")
+      .select("ladder")
+      .eq("match_id", trigger.id)
+      .eq("is_reverted", false);
+
+    if (triggerError) {
+      throw new Error(`Ladder audit fetch failed: ${triggerError.message}`);
+    }
+
+    const ladders = Array.from(
+      new Set((triggerRows || []).map((row) => row.ladder as RatingLadderId)),
+    );
+    if (ladders.length === 0) return [];
+
+    // Ladders are rated on validation, with or without rating periods
+    const { data: laterMatches, error: laterError } = await supabase
+      .from("matches")
+      .select(MATCH_COLUMNS)
+      .eq("validation_status", "validated")
+      .gte("start_time", trigger.start_time)
+      .neq("id", trigger.id)
+      .order("start_time", { ascending: true });
+
+    if (laterError) {
+      throw new Error(`Ladder downstream fetch failed: ${laterError.message}`);
+    }
+
+    const affected = findAffectedMatches(
+      trigger,
+      (laterMatches || []) as ReplayMatch[],
+    );
+    const sequenceIds = [trigger.id, ...affected.map((match) => match.id)];
+
+    const { data: stored, error: storedError } = await supabase
+      .from("ladder_rating_changes")
+      .select(
+        "match_id, player_id, ladder, rating_before, rd_before, vol_before, rating_after, rd_after, vol_after",
+      )
+      .in("match_id", sequenceIds)
+      .in("ladder", ladders)
+      .eq("is_reverted", false);
+
+    if (storedError) {
+      throw new Error(`Ladder audit fetch failed: ${storedError.message}`);
+    }
+
+    const storedChanges = (stored || []) as LadderRatingChange[];
+    const now = new Date().toISOString();
+
+    const { error: revertError } = await supabase
+      .from("ladder_rating_changes")
+      .update({ is_reverted: true, reverted_at: now })
+      .in("match_id", sequenceIds)
+      .in("ladder", ladders)
+      .eq("is_reverted", false);
+
+    if (revertError) {
+      throw new Error(`Ladder audit revert failed: ${revertError.message}`);
+    }
+
+    for (const ladder of ladders) {
+      const rows = storedChanges.filter((change) => change.ladder === ladder);
+      const onLadder = new Set(rows.map((change) => change.match_id));
+      const downstream = affected.filter((match) => onLadder.has(match.id));
+
+      const plan = planRatingCascade(trigger, downstream, rows, {
+        rerateTrigger,
+      });
+
+      if (plan.changes.length > 0) {
+        const { error: insertError } = await supabase
+          .from("ladder_rating_changes")
+          .insert(
+            plan.changes.map(({ is_provisional, ...change }) => ({
+              ...change,
+              ladder,
+              applied_at: now,
+            })),
+          );
+
+        if (insertError) {
+          throw new Error(
+            `Ladder ${ladder} audit insert failed: ${insertError.message}`,
+          );
+        }
+      }
+
+      // Matches each player lost or gained on the ladder
+      const matchDelta = new Map<string, number>();
+      rows.forEach((change) =>
+        matchDelta.set(
+          change.player_id,
+          (matchDelta.get(change.player_id) ?? 0) - 1,
+        ),
+      );
+      plan.changes.forEach((change) =>
+        matchDelta.set(
+          change.player_id,
+          (matchDelta.get(change.player_id) ?? 0) + 1,
+        ),
+      );
+
+      const playerIds = Array.from(plan.adjustments.keys());
+      const [current, { data: existing }] = await Promise.all([
+        this.getLadderRatings(playerIds, ladder),
+        supabase
+          .from("player_ladder_ratings")
+          .select("player_id, rated_matches")
+          .eq("ladder", ladder)
+          .in("player_id", playerIds),
+      ]);
+
+      const { error: upsertError } = await supabase
+        .from("player_ladder_ratings")
+        .upsert(
+          Array.from(plan.adjustments, ([playerId, delta]) => {
+            const before = current.get(playerId) ?? getDefaultRating();
+            const ratedMatches =
+              existing?.find((row) => row.player_id === playerId)
+                ?.rated_matches || 0;
+
+            return {
+              player_id: playerId,
+              ladder,
+              rating: before.rating + delta.rating,
+              rd: Math.min(
+                RATING_CONFIG.MAX_RD,
+                Math.max(0, before.rd + delta.rd),
+              ),
+              vol: before.vol + delta.vol,
+              rated_matches: Math.max(
+                0,
+                ratedMatches + (matchDelta.get(playerId) ?? 0),
+              ),
+              updated_at: now,
+            };
+          }),
+          { onConflict: "player_id,ladder" },
+        );
+
+      if (upsertError) {
+        throw new Error(
+          `Ladder ${ladder} correction failed: ${upsertError.message}`,
+        );
+      }
+
+      console.log(
+        `🪜 [LADDER] Corrected ${plan.adjustments.size} player(s) on ${ladder} ladder across ${downstream.length + 1} match(es)`,
+      );
+    }
+
+    return ladders;
+  }
+
+  /**
+   * Current ratings on a ladder, players without a row are left out
+   */
+  static async getLadderRatings(
+    playerIds: string[],
+    ladder: RatingLadderId,
+  ): Promise<Map<string, GlickoRating>> {
+    if (ladder === "overall") {
+      return RatingPeriodService.getPlayerRatings(playerIds);
+    }
+
+    const ratings = new Map<string, GlickoRating>();
+    if (playerIds.length === 0) return ratings;
+
+    const { data, error } = await supabase
+      .from("player_ladder_ratings")
+      .select("player_id, rating, rd, vol")
+      .eq("ladder", ladder)
+      .in("player_id", playerIds);
+
+    if (error) throw new Error(`Ladder rating fetch failed: ${error.message}`);
+
+    for (const row of data || []) {
+      ratings.set(row.player_id, {
+        rating: Number(row.rating),
+        rd: Number(row.rd),
+        vol: Number(row.vol),
+      });
+    }
+
+    return ratings;
+  }
+
+  /**
+   * Every ladder rating of a single player
+   */
+  static async getPlayerLadders(
+    playerId: string,
+  ): Promise<PlayerLadderRating[]> {
+    const { data, error } = await supabase
+      .from("player_ladder_ratings")
+      .select("ladder, rating, rd, rated_matches")
+      .eq("player_id", playerId);
+
+    if (error) throw new Error(`Ladder fetch failed: ${error.message}`);
+
+    return (data || []).map((row) => ({
+      ladder: row.ladder as RatingLadderId,
+      rating: Number(row.rating),
+      rd: Number(row.rd),
+      rated_matches: row.rated_matches || 0,
+    }));
+  }
+
+  /**
+   * One page of a category ladder, shaped like the overall leaderboard rows
+   */
+  static async getLadderRankings(
+    ladder: Exclude<RatingLadderId, "overall">,
+    pageIndex: number,
+    pageSize: number,
+    playerIds?: string[],
+  ): Promise<LadderRanking[]> {
+    let query = supabase
+      .from("player_ladder_ratings")
+      .select(
+        "rating, rd, rated_matches, player:profiles!player_id(id, full_name, email, avatar_url)",
+      )
+      .eq("ladder", ladder);
+
+    if (playerIds) {
+      query = query.in("player_id", playerIds);
+    }
+
+    const { data, error } = await query
+      .order("rating", { ascending: false })
+      .range(pageIndex * pageSize, (pageIndex + 1) * pageSize - 1);
+
+    if (error) throw new Error(`Ladder ranking fetch failed: ${error.message}`);
+
+    // Without generated types the join is typed as a list, but a
+    // many-to-one embed returns a single profile
+    return ((data || []) as unknown as LadderRankingRow[])
+      .filter(
+        (row): row is LadderRankingRow & { player: RankedPlayer } =>
+          row.player !== null,
+      )
+      .map((row) => ({
+        id: row.player.id,
+        full_name: row.player.full_name,
+        email: row.player.email,
+        avatar_url: row.player.avatar_url,
+        glicko_rating: String(row.rating),
+        glicko_rd: row.rd !== null ? String(row.rd) : null,
+        rated_matches: row.rated_matches || 0,
+      }));
+  }
+}
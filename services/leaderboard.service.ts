@@ -0,0 +1,79 @@
+import { supabase } from "@/config/supabase";
+
+export interface LeaderboardEntry {
+  id: string;
+  full_name: string | null;
+  email: string;
+  glicko_rating: string;
+  glicko_rd: string | null;
+  avatar_url: string | null;
+}
+
+const RANKING_COLUMNS =
+  "id, full_name, email, glicko_rating, glicko_rd, avatar_url";
+
+/**
+ * Leaderboard Service
+ *
+ * The overall leaderboard orders profiles by glicko_rating, highest first.
+ * Positions for hypothetical ratings are counted the same way, so the
+ * simulator agrees with what the leaderboard would show.
+ */
+export class LeaderboardService {
+  /**
+   * One page of the overall leaderboard, optionally limited to some players
+   */
+  static async getRankings(
+    pageIndex: number,
+    pageSize: number,
+    playerIds?: string[],
+  ): Promise<LeaderboardEntry[]> {
+    let query = supabase.from("profiles").select(RANKING_COLUMNS);
+
+    if (playerIds) {
+      query = query.in("id", playerIds);
+    }
+
+    const { data, error } = await query
+      .order("glicko_rating", { ascending: false })
+      .range(pageIndex * pageSize, (pageIndex + 1) * pageSize - 1);
+
+    if (error) throw new Error(`Leaderboard fetch failed: ${error.message}`);
+
+    return data || [];
+  }
+
+  /**
+   * Leaderboard position each player would hold with the given ratings.
+   * Everyone else keeps their stored rating.
+   */
+  static async getPositions(
+    ratings: Map<string, number>,
+  ): Promise<Map<string, number>> {
+    const playerIds = Array.from(ratings.keys());
+    const positions = new Map<string, number>();
+
+    await Promise.all(
+      playerIds.map(async (playerId) => {
+        const rating = ratings.get(playerId) as number;
+
+        const { count, error } = await supabase
+          .from("profiles")
+          .select("id", { count: "exact", head: true })
+          .gt("glicko_rating", rating.toString())
+          .not("id", "in", `(${playerIds.join(",")})`);
+        if (error) {
+          throw new Error(`Leaderboard position failed: ${error.message}`);
+        }
+
+        const aheadInGroup = playerIds.filter(
+          (otherId) => (ratings.get(otherId) as number) > rating,
+        ).length;
+
+        positions.set(playerId, (count || 0) + aheadInGroup + 1);
+      }),
+    );
+
+    return positions;
+  }
+}
@@ -0,0 +1,101 @@
+import { supabase } from "@/config/supabase";
+import { getMatchEnding } from "@/lib/match-ending";
+import { projectMatchEvents } from "@/lib/match-events";
+import { toMatchFormatColumns } from "@/lib/match-format";
+import { toMatchScoreColumns } from "@/lib/padel-scoring";
+import { MatchEventService } from "@/services/match-event.service";
+import { NotificationHelpers } from "@/services/notificationHelpers";
+
+export interface LiveScoringResult {
+  success: boolean;
+  message: string;
+  error?: string;
+}
+
+export interface LiveScoredMatch {
+  id: string;
+  player1_id: string;
+  player2_id: string | null;
+  player3_id: string | null;
+  player4_id: string | null;
+}
+
+export class LiveScoringService {
+  /**
+   * Store the final set scores of a live scored match, as projected from its
+   * event log, and ask the other players to confirm them, the same as a
+   * result entered by hand
+   */
+  static async finishMatch(
+    match: LiveScoredMatch,
+    userId: string,
+  ): Promise<LiveScoringResult> {
+    let events;
+    try {
+      events = await MatchEventService.getEvents(match.id);
+    } catch (error) {
+      return {
+        success: false,
+        message: "Failed to load the points scored",
+        error: error instanceof Error ? error.message : undefined,
+      };
+    }
+
+    const { live, ...result } = projectMatchEvents(events);
+
+    // A match stopped early is over without a winner from the score
+    if (!live || (!result.winnerTeam && result.endReason === "completed")) {
+      return {
+        success: false,
+        message: "The match is not over yet",
+      };
+    }
+
+    console.log(
+      `🎾 [LIVE] Finishing match ${match.id} after ${live.pointsPlayed} points (${result.endReason})`,
+    );
+
+    const { error } = await supabase
+      .from("matches")
+      .update({
+        ...toMatchScoreColumns(result.sets, {
+          superTiebreak: result.superTiebreak,
+        }),
+        ...toMatchFormatColumns(live.format),
+        winner_team: result.winnerTeam || null,
+        end_reason: result.endReason,
+        status: "4", // COMPLETED
+        completed_at: new Date().toISOString(),
+        updated_by: userId,
+      })
+      .eq("id", match.id);
+
+    if (error) {
+      console.error(`❌ [LIVE] Failed to save match ${match.id}:`, error);
+      return {
+        success: false,
+        message: "Failed to save the live score",
+        error: error.message,
+      };
+    }
+
+    const playerIds = [
+      match.player1_id,
+      match.player2_id,
+      match.player3_id,
+      match.player4_id,
+    ].filter((id): id is string => !!id);
+
+    if (!getMatchEnding(result.endReason).needsConfirmation) {
+      return { success: true, message: "Match saved" };
+    }
+
+    await NotificationHelpers.sendMatchConfirmationNotifications(
+      playerIds,
+      match.id,
+      match.player1_id,
+    );
+
+    return { success: true, message: "Match saved for confirmation" };
+  }
+}
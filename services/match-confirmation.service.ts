@@ -221,12 +221,14 @@ export class MatchConfirmationServiceV2 {
   }
 
   /**
-   * Report a match with validation
+   * Report a match with validation. The report can point at a moment in
+   * the match event log, e.g. the point or correction being disputed.
    */
   static async reportMatch(
     matchId: string,
     playerId: string,
     reason?: string,
+    eventSequence?: number,
   ): Promise<ActionResult> {
     if (!matchId || !playerId) {
       return {
@@ -285,6 +287,7 @@ export class MatchConfirmationServiceV2 {
           action: "reported",
           action_at: new Date().toISOString(),
           reason: reason?.trim() || null,
+          event_sequence: eventSequence ?? null,
           updated_at: new Date().toISOString(),
         })
         .eq("match_id", matchId)
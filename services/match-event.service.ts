@@ -0,0 +1,389 @@
+import { supabase } from "@/config/supabase";
+import { MatchEndReason } from "@/constants/match-ending";
+import { MatchFormat } from "@/constants/scoring";
+import { LiveTeam, PlayerSlot } from "@/lib/live-scoring";
+import {
+  MatchEvent,
+  MatchEventDraft,
+  MatchEventProjection,
+  ShotTag,
+  getPointEvents,
+  getUndoRedoTarget,
+  projectMatchEvents,
+} from "@/lib/match-events";
+import { getMatchFormat } from "@/lib/match-format";
+import { SetScore, toMatchScoreColumns } from "@/lib/padel-scoring";
+
+export interface MatchEventResult {
+  success: boolean;
+  message: string;
+  error?: string;
+  // The whole log after the change, with its projection
+  events?: MatchEvent[];
+  projection?: MatchEventProjection;
+}
+
+// Postgres unique violation, another device appended the same sequence
+const SEQUENCE_CONFLICT = "23505";
+
+interface CachedLog {
+  events: MatchEvent[];
+  format: MatchFormat;
+}
+
+export class MatchEventService {
+  private static readonly MAX_RETRIES = 3;
+  // Log and format per match as of our last append, so a tap is one insert
+  private static logs = new Map<string, CachedLog>();
+
+  /**
+   * The full log of a match in order
+   */
+  static async getEvents(matchId: string): Promise<MatchEvent[]> {
+    const { data, error } = await supabase
+      .from("match_events")
+      .select(
+        "id, match_id, sequence, type, team, payload, created_by, created_at",
+      )
+      .eq("match_id", matchId)
+      .order("sequence", { ascending: true });
+
+    if (error) {
+      console.error(`❌ [EVENTS] Failed to load events for ${matchId}:`, error);
+      throw error;
+    }
+
+    return (data ?? []) as MatchEvent[];
+  }
+
+  /**
+   * Start point-by-point scoring. Restarting begins a new run, the earlier
+   * points stay in the log.
+   */
+  static async startLiveScoring(
+    matchId: string,
+    format: MatchFormat,
+    firstServer: PlayerSlot,
+    superTiebreak: boolean,
+    userId: string,
+  ): Promise<MatchEventResult> {
+    return this.append(matchId, userId, () => [
+      {
+        type: "match_started",
+        team: null,
+        payload: {
+          format,
+          first_server: firstServer,
+          super_tiebreak: superTiebreak,
+        },
+      },
+    ]);
+  }
+
+  /**
+   * Record a point, plus the game and set it completed. A shot tag puts the
+   * point down to a player for the stats.
+   */
+  static async recordPoint(
+    matchId: string,
+    team: LiveTeam,
+    userId: string,
+    shot?: ShotTag,
+  ): Promise<MatchEventResult> {
+    return this.append(matchId, userId, (sequence, projection) => {
+      if (!projection.live) {
+        throw new Error("Live scoring has not been started");
+      }
+      if (projection.live.winnerTeam || projection.endReason !== "completed") {
+        throw new Error("The match is already over");
+      }
+      return getPointEvents(projection.live, team, sequence, shot);
+    });
+  }
+
+  static async recordTimeout(
+    matchId: string,
+    team: LiveTeam,
+    userId: string,
+  ): Promise<MatchEventResult> {
+    return this.append(matchId, userId, () => [
+      { type: "timeout", team, payload: {} },
+    ]);
+  }
+
+  /**
+   * Stop live scoring before the match is decided, keeping the score as it
+   * stood. A retirement or walkover names the winning team.
+   */
+  static async endLiveScoring(
+    matchId: string,
+    endReason: Exclude<MatchEndReason, "completed">,
+    winnerTeam: LiveTeam | null,
+    userId: string,
+  ): Promise<MatchEventResult> {
+    return this.append(matchId, userId, (_sequence, projection) => {
+      if (!projection.live) {
+        throw new Error("Live scoring has not been started");
+      }
+      if (projection.live.winnerTeam || projection.endReason !== "completed") {
+        throw new Error("The match is already over");
+      }
+      return [
+        {
+          type: "match_ended",
+          team: winnerTeam,
+          payload: { end_reason: endReason },
+        },
+      ];
+    });
+  }
+
+  /**
+   * Enter or edit the set scores by hand. The score columns are rewritten
+   * from the log, so the edit and who made it stay on record. A match that
+   * ended early passes how it ended and, unless abandoned, its winner.
+   */
+  static async recordCorrection(
+    matchId: string,
+    sets: SetScore[],
+    superTiebreak: boolean,
+    userId: string,
+    reason = "Score corrected",
+    ending?: { endReason: MatchEndReason; winnerTeam: 0 | LiveTeam },
+  ): Promise<MatchEventResult> {
+    // Corrections come from the edit screens, which may change the format
+    this.logs.delete(matchId);
+
+    const result = await this.append(matchId, userId, () => [
+      {
+        type: "correction",
+        team: ending?.winnerTeam || null,
+        payload: {
+          sets,
+          super_tiebreak: superTiebreak,
+          reason,
+          ...(ending && { end_reason: ending.endReason }),
+        },
+      },
+    ]);
+
+    return result.success ? this.syncScoreColumns(matchId, result) : result;
+  }
+
+  /**
+   * Reverse the latest point, timeout or correction
+   */
+  static async undo(
+    matchId: string,
+    userId: string,
+  ): Promise<MatchEventResult> {
+    return this.applyUndoRedo(matchId, userId, "undo");
+  }
+
+  /**
+   * Re-apply the latest undone point, timeout or correction
+   */
+  static async redo(
+    matchId: string,
+    userId: string,
+  ): Promise<MatchEventResult> {
+    return this.applyUndoRedo(matchId, userId, "redo");
+  }
+
+  /**
+   * Write the projected set scores, winner and end reason to the match row
+   */
+  static async syncScoreColumns(
+    matchId: string,
+    result: MatchEventResult,
+  ): Promise<MatchEventResult> {
+    const projection = result.projection;
+    if (!projection) return result;
+
+    const { error } = await supabase
+      .from("matches")
+      .update({
+        ...toMatchScoreColumns(projection.sets, {
+          superTiebreak: projection.superTiebreak,
+        }),
+        winner_team: projection.winnerTeam || null,
+        end_reason: projection.endReason,
+      })
+      .eq("id", matchId);
+
+    if (error) {
+      console.error(`❌ [EVENTS] Failed to sync scores of ${matchId}:`, error);
+      return {
+        ...result,
+        success: false,
+        message: "Failed to update the match score",
+        error: error.message,
+      };
+    }
+
+    return result;
+  }
+
+  /**
+   * Receive events as they are appended, e.g. to follow a match live.
+   * Status changes let the caller catch up after a dropped connection.
+   */
+  static subscribeToMatchEvents(
+    matchId: string,
+    onEvent: (event: MatchEvent) => void,
+    onStatus?: (status: "SUBSCRIBED" | "DISCONNECTED") => void,
+  ) {
+    const channel = supabase
+      .channel(`match-events:${matchId}:${Date.now()}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "match_events",
+          filter: `match_id=eq.${matchId}`,
+        },
+        (payload) => onEvent(payload.new as MatchEvent),
+      );
+
+    channel.subscribe((status) => {
+      if (status === "SUBSCRIBED") {
+        console.log(`✅ [EVENTS] Following match ${matchId}`);
+        onStatus?.("SUBSCRIBED");
+      } else if (
+        status === "CHANNEL_ERROR" ||
+        status === "TIMED_OUT" ||
+        status === "CLOSED"
+      ) {
+        console.warn(`⚠️ [EVENTS] Lost match ${matchId}: ${status}`);
+        onStatus?.("DISCONNECTED");
+      }
+    });
+
+    return channel;
+  }
+
+  private static async applyUndoRedo(
+    matchId: string,
+    userId: string,
+    type: "undo" | "redo",
+  ): Promise<MatchEventResult> {
+    const result = await this.append(matchId, userId, (_, __, events) => {
+      const target = getUndoRedoTarget(events, type);
+      if (!target) {
+        throw new Error(`Nothing to ${type}`);
+      }
+
+      return [
+        {
+          type,
+          team: null,
+          payload: { target_sequence: target.sequence },
+        },
+      ];
+    });
+
+    // Undoing a correction brings back the previous score straight away
+    const events = result.events ?? [];
+    const targetSequence = events[events.length - 1]?.payload.target_sequence;
+    const target = events.find((event) => event.sequence === targetSequence);
+
+    return result.success && target?.type === "correction"
+      ? this.syncScoreColumns(matchId, result)
+      : result;
+  }
+
+  /**
+   * Append events after the last one. Sequences are unique per match, so
+   * when another device got there first the cached log is dropped, then
+   * reloaded and the events rebuilt on top of it.
+   */
+  private static async append(
+    matchId: string,
+    userId: string,
+    build: (
+      nextSequence: number,
+      projection: MatchEventProjection,
+      events: MatchEvent[],
+    ) => MatchEventDraft[],
+  ): Promise<MatchEventResult> {
+    for (let attempt = 1; attempt <= this.MAX_RETRIES; attempt++) {
+      try {
+        const { events, format } = await this.getLog(matchId);
+        const projection = projectMatchEvents(events, format);
+        const nextSequence = (events[events.length - 1]?.sequence ?? 0) + 1;
+        const drafts = build(nextSequence, projection, events);
+
+        const rows = drafts.map((draft, index) => ({
+          match_id: matchId,
+          sequence: nextSequence + index,
+          type: draft.type,
+          team: draft.team,
+          payload: draft.payload,
+          created_by: userId,
+        }));
+
+        const { data, error } = await supabase
+          .from("match_events")
+          .insert(rows)
+          .select(
+            "id, match_id, sequence, type, team, payload, created_by, created_at",
+          );
+
+        if (error?.code === SEQUENCE_CONFLICT) {
+          console.warn(
+            `⚠️ [EVENTS] Sequence conflict on ${matchId} (attempt ${attempt})`,
+          );
+          this.logs.delete(matchId);
+          continue;
+        }
+        if (error) throw error;
+
+        const updated = [...events, ...((data ?? []) as MatchEvent[])];
+        this.logs.set(matchId, { events: updated, format });
+        console.log(
+          `📝 [EVENTS] ${drafts.map((draft) => draft.type).join(", ")} on ${matchId}`,
+        );
+
+        return {
+          success: true,
+          message: "Recorded",
+          events: updated,
+          projection: projectMatchEvents(updated, format),
+        };
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "Failed to record event";
+        console.error(`❌ [EVENTS] Append failed on ${matchId}:`, error);
+        this.logs.delete(matchId);
+        return { success: false, message, error: message };
+      }
+    }
+
+    return {
+      success: false,
+      message: "The match was updated elsewhere, please try again",
+    };
+  }
+
+  private static async getLog(matchId: string): Promise<CachedLog> {
+    const cached = this.logs.get(matchId);
+    if (cached) return cached;
+
+    const [events, format] = await Promise.all([
+      this.getEvents(matchId),
+      this.getFormat(matchId),
+    ]);
+    return { events, format };
+  }
+
+  private static async getFormat(matchId: string): Promise<MatchFormat> {
+    const { data } = await supabase
+      .from("matches")
+      .select("match_format, deuce_rule")
+      .eq("id", matchId)
+      .maybeSingle();
+
+    return getMatchFormat(data);
+  }
+}
@@ -1,4 +1,5 @@
 import { supabase } from "@/config/supabase";
+import { TierChange } from "@/lib/rating-tiers";
 
 /**
  * NotificationHelpers: Client-side utility functions for triggering notification events
@@ -338,4 +339,79 @@ export const NotificationHelpers = {
       console.error("Failed to send match edited notification:", error);
     }
   },
+
+  /**
+   * Trigger rating corrected notifications
+   * Called when a disputed or edited match forces ratings to be recalculated
+   */
+  async sendRatingCorrectedNotifications(
+    ratingDeltas: Map<string, number>,
+    matchId: string,
+    reason: "disputed" | "edited" | "replayed",
+  ) {
+    try {
+      const reasonText =
+        reason === "disputed"
+          ? "a disputed match was removed"
+          : reason === "edited"
+            ? "a match score was corrected"
+            : "ratings were recalculated";
+
+      for (const [playerId, delta] of ratingDeltas) {
+        const rounded = Math.round(delta);
+        const change =
+          rounded === 0
+            ? "changed slightly"
+            : `${rounded > 0 ? "went up" : "went down"} by ${Math.abs(rounded)}`;
+
+        await supabase.rpc("trigger_notification", {
+          p_user_id: playerId,
+          p_type: "rating_corrected",
+          p_title: "Rating Updated",
+          p_body: `Your rating ${change} because ${reasonText}`,
+          p_data: {
+            type: "rating_corrected",
+            match_id: matchId,
+            rating_delta: delta,
+            reason,
+          },
+        });
+      }
+    } catch (error) {
+      console.error("Failed to send rating corrected notifications:", error);
+    }
+  },
+
+  /**
+   * Trigger rating tier notifications
+   * Called when a rating change promotes or demotes players
+   */
+  async sendRatingTierNotifications(
+    tierChanges: Map<string, TierChange>,
+    matchId: string | null,
+  ) {
+    try {
+      for (const [playerId, change] of tierChanges) {
+        const promoted = change.direction === "promotion";
+
+        await supabase.rpc("trigger_notification", {
+          p_user_id: playerId,
+          p_type: "rating_tier_changed",
+          p_title: promoted ? "Promoted!" : "Tier Change",
+          p_body: promoted
+            ? `You moved up to ${change.to.name}`
+            : `You dropped to ${change.to.name}`,
+          p_data: {
+            type: "rating_tier_changed",
+            match_id: matchId,
+            from_tier: change.from?.id ?? null,
+            to_tier: change.to.id,
+            direction: change.direction,
+          },
+        });
+      }
+    } catch (error) {
+      console.error("Failed to send rating tier notifications:", error);
+    }
+  },
 };
@@ -0,0 +1,369 @@
+import { supabase } from "@/config/supabase";
+import { PAIR_RATING_CONFIG } from "@/constants/pair-rating";
+import { RATING_CONFIG } from "@/constants/rating";
+import { GlickoRating } from "@/lib/glicko";
+import { toRatedMatch } from "@/lib/match-outcome";
+import {
+  PairChemistry,
+  PairRatingChange,
+  getPairChemistry,
+  getPairId,
+  getPairKey,
+  planPairCascade,
+  rateMatchPairs,
+  seedPairRating,
+} from "@/lib/pair-rating";
+import { getDefaultRating, parseStoredRating } from "@/lib/rating-engine";
+import { ReplayMatch } from "@/lib/rating-replay";
+import { RatingPeriodService } from "@/services/rating-period.service";
+
+export interface PairRating {
+  player1_id: string;
+  player2_id: string;
+  rating: number;
+  rd: number;
+  vol: number;
+  matches_played: number;
+  wins: number;
+  losses: number;
+}
+
+export interface PairPlayer {
+  id: string;
+  full_name: string | null;
+  email: string;
+  avatar_url: string | null;
+  glicko_rating: string | null;
+}
+
+export interface PairRanking extends PairRating {
+  player1: PairPlayer;
+  player2: PairPlayer;
+  chemistry: PairChemistry | null;
+}
+
+const MATCH_COLUMNS =
+  "id, player1_id, player2_id, player3_id, player4_id, team1_score_set1, team2_score_set1, team1_score_set2, team2_score_set2, team1_score_set3, team2_score_set3, super_tiebreak, match_format, winner_team, rating_weight, end_reason";
+
+const PLAYER_COLUMNS = "id, full_name, email, avatar_url, glicko_rating";
+
+const CHANGE_COLUMNS =
+  "match_id, player1_id, player2_id, rating_before, rd_before, vol_before, rating_after, rd_after, vol_after, won";
+
+const toPairRating = (row: any): PairRating => ({
+  player1_id: row.player1_id,
+  player2_id: row.player2_id,
+  rating: Number(row.rating),
+  rd: Number(row.rd),
+  vol: Number(row.vol),
+  matches_played: row.matches_played || 0,
+  wins: row.wins || 0,
+  losses: row.losses || 0,
+});
+
+/**
+ * Pair Rating Service
+ *
+ * Every two players who have played on the same team get a row in
+ * `pair_ratings`. The pair is rated as one entity against the opposing pair
+ * on each rated match, next to the individual ratings on `profiles`, and
+ * every update is recorded in `pair_rating_changes` so it can be corrected.
+ */
+export class PairRatingService {
+  /**
+   * Rate both pairs of a rated match
+   *
+   * @param matchId - UUID of the rated match
+   * @param playerRatings - Individual ratings going into the match, new
+   * pairs are seeded from them. Defaults to the current profile ratings.
+   */
+  static async applyMatchToPairs(
+    matchId: string,
+    playerRatings?: Map<string, GlickoRating>,
+  ): Promise<void> {
+    const { data: match, error: matchError } = await supabase
+      .from("matches")
+      .select(MATCH_COLUMNS)
+      .eq("id", matchId)
+      .single();
+
+    if (matchError || !match) {
+      throw new Error(
+        `Pair match fetch failed: ${matchError?.message || "not found"}`,
+      );
+    }
+
+    const rated = toRatedMatch(match);
+    if (!rated) return;
+
+    const pairs = [
+      getPairKey(rated.team1[0], rated.team1[1]),
+      getPairKey(rated.team2[0], rated.team2[1]),
+    ];
+    const existing = await this.getPairs(pairs);
+    const seeds =
+      playerRatings ??
+      (await RatingPeriodService.getPlayerRatings([
+        ...rated.team1,
+        ...rated.team2,
+      ]));
+
+    const changes = rateMatchPairs(rated, match.winner_team, (pair) =>
+      this.ratingOf(pair, existing, seeds),
+    );
+    const now = new Date().toISOString();
+
+    const { error: upsertError } = await supabase.from("pair_ratings").upsert(
+      changes.map((change) => {
+        const before = this.ratingOf(
+          [change.player1_id, change.player2_id],
+          existing,
+          seeds,
+        );
+        return {
+          player1_id: change.player1_id,
+          player2_id: change.player2_id,
+          rating: change.rating_after,
+          rd: change.rd_after,
+          vol: change.vol_after,
+          matches_played: before.matches_played + 1,
+          wins: before.wins + (change.won ? 1 : 0),
+          losses: before.losses + (change.won ? 0 : 1),
+          last_match_id: matchId,
+          updated_at: now,
+        };
+      }),
+      { onConflict: "player1_id,player2_id" },
+    );
+
+    if (upsertError) {
+      throw new Error(`Pair rating update failed: ${upsertError.message}`);
+    }
+
+    const { error: auditError } = await supabase
+      .from("pair_rating_changes")
+      .insert(changes.map((change) => ({ ...change, applied_at: now })));
+
+    if (auditError) {
+      console.warn(`⚠️ [PAIR] Failed to record pair changes:`, auditError);
+    }
+
+    console.log(`🤝 [PAIR] Match ${matchId} rated for both partnerships`);
+  }
+
+  /**
+   * Correct pair ratings after a rated match was disputed (removed) or
+   * edited (re-rated), cascading through the downstream matches
+   *
+   * @param trigger - The disputed or edited match
+   * @param downstream - Later validated matches affected by the correction, in
+   * chronological order (see findAffectedMatches)
+   */
+  static async correctFromMatch(
+    trigger: ReplayMatch,
+    downstream: ReplayMatch[],
+    rerateTrigger: boolean,
+  ): Promise<void> {
+    const sequenceIds = [trigger.id, ...downstream.map((match) => match.id)];
+
+    const { data: stored, error: storedError } = await supabase
+      .from("pair_rating_changes")
+      .select(CHANGE_COLUMNS)
+      .in("match_id", sequenceIds)
+      .eq("is_reverted", false);
+
+    if (storedError) {
+      throw new Error(`Pair audit fetch failed: ${storedError.message}`);
+    }
+
+    const storedChanges = (stored || []) as PairRatingChange[];
+    if (!storedChanges.some((change) => change.match_id === trigger.id)) {
+      console.log(`ℹ️ [PAIR] Match ${trigger.id} has no applied pair ratings`);
+      return;
+    }
+
+    // Stored rating of every pair the chain could touch, for pairs that
+    // only get rated by the correction
+    const pairs = new Map<string, [string, string]>();
+    for (const match of [trigger, ...downstream]) {
+      const rated = toRatedMatch(match);
+      if (!rated) continue;
+      for (const team of [rated.team1, rated.team2]) {
+        const pair = getPairKey(team[0], team[1]);
+        pairs.set(getPairId(pair[0], pair[1]), pair);
+      }
+    }
+    for (const change of storedChanges) {
+      pairs.set(getPairId(change.player1_id, change.player2_id), [
+        change.player1_id,
+        change.player2_id,
+      ]);
+    }
+
+    const [existing, playerRatings] = await Promise.all([
+      this.getPairs(Array.from(pairs.values())),
+      RatingPeriodService.getPlayerRatings(
+        Array.from(new Set(Array.from(pairs.values()).flat())),
+      ),
+    ]);
+
+    const plan = planPairCascade(trigger, downstream, storedChanges, {
+      rerateTrigger,
+      currentRatingOf: (pair) => this.ratingOf(pair, existing, playerRatings),
+    });
+
+    const now = new Date().toISOString();
+    const { error: revertError } = await supabase
+      .from("pair_rating_changes")
+      .update({ is_reverted: true, reverted_at: now })
+      .in("match_id", sequenceIds)
+      .eq("is_reverted", false);
+
+    if (revertError) {
+      throw new Error(`Pair audit revert failed: ${revertError.message}`);
+    }
+
+    if (plan.changes.length > 0) {
+      const { error: insertError } = await supabase
+        .from("pair_rating_changes")
+        .insert(plan.changes.map((change) => ({ ...change, applied_at: now })));
+
+      if (insertError) {
+        throw new Error(`Pair audit insert failed: ${insertError.message}`);
+      }
+    }
+
+    const rows = Array.from(plan.adjustments, ([pairId, delta]) => {
+      const current = this.ratingOf(
+        pairs.get(pairId)!,
+        existing,
+        playerRatings,
+      );
+      return {
+        player1_id: current.player1_id,
+        player2_id: current.player2_id,
+        rating: current.rating + delta.rating,
+        rd: Math.min(RATING_CONFIG.MAX_RD, Math.max(0, current.rd + delta.rd)),
+        vol: current.vol + delta.vol,
+        matches_played: Math.max(
+          0,
+          current.matches_played + delta.matches_played,
+        ),
+        wins: Math.max(0, current.wins + delta.wins),
+        losses: Math.max(0, current.losses + delta.losses),
+        updated_at: now,
+      };
+    });
+
+    const { error: upsertError } = await supabase
+      .from("pair_ratings")
+      .upsert(rows, { onConflict: "player1_id,player2_id" });
+
+    if (upsertError) {
+      throw new Error(`Pair rating correction failed: ${upsertError.message}`);
+    }
+
+    console.log(
+      `🤝 [PAIR] Corrected ${rows.length} partnership(s) across ${downstream.length + 1} match(es)`,
+    );
+  }
+
+  /**
+   * Pair rating of two players, null if they never played together
+   */
+  static async getPair(
+    playerA: string,
+    playerB: string,
+  ): Promise<PairRating | null> {
+    const [pair] = await this.getPairs([getPairKey(playerA, playerB)]);
+    return pair ?? null;
+  }
+
+  /**
+   * One page of the best partnerships, with their chemistry
+   */
+  static async getPairRankings(
+    pageIndex: number,
+    pageSize: number,
+  ): Promise<PairRanking[]> {
+    const { data, error } = await supabase
+      .from("pair_ratings")
+      .select(
+        `player1_id, player2_id, rating, rd, vol, matches_played, wins, losses,
+        player1:profiles!player1_id(${PLAYER_COLUMNS}),
+        player2:profiles!player2_id(${PLAYER_COLUMNS})`,
+      )
+      .gte("matches_played", PAIR_RATING_CONFIG.LEADERBOARD_MIN_MATCHES)
+      .order("rating", { ascending: false })
+      .range(pageIndex * pageSize, (pageIndex + 1) * pageSize - 1);
+
+    if (error) throw new Error(`Pair ranking fetch failed: ${error.message}`);
+
+    return (data || [])
+      .filter((row: any) => row.player1 && row.player2)
+      .map((row: any) => {
+        const pair = toPairRating(row);
+        return {
+          ...pair,
+          player1: row.player1,
+          player2: row.player2,
+          chemistry: getPairChemistry(
+            pair.rating,
+            [
+              parseStoredRating(row.player1).rating,
+              parseStoredRating(row.player2).rating,
+            ],
+            pair.matches_played,
+          ),
+        };
+      });
+  }
+
+  /**
+   * Stored pair, or a fresh seed from the players' ratings
+   */
+  private static ratingOf(
+    [playerA, playerB]: [string, string],
+    existing: PairRating[],
+    playerRatings: Map<string, GlickoRating>,
+  ): PairRating {
+    const row = existing.find(
+      (pair) => pair.player1_id === playerA && pair.player2_id === playerB,
+    );
+    if (row) return row;
+
+    return {
+      player1_id: playerA,
+      player2_id: playerB,
+      ...seedPairRating(
+        playerRatings.get(playerA) ?? getDefaultRating(),
+        playerRatings.get(playerB) ?? getDefaultRating(),
+      ),
+      matches_played: 0,
+      wins: 0,
+      losses: 0,
+    };
+  }
+
+  private static async getPairs(
+    pairs: [string, string][],
+  ): Promise<PairRating[]> {
+    const filter = pairs
+      .map(
+        ([playerA, playerB]) =>
+          `and(player1_id.eq.${playerA},player2_id.eq.${playerB})`,
+      )
+      .join(",");
+
+    const { data, error } = await supabase
+      .from("pair_ratings")
+      .select(
+        "player1_id, player2_id, rating, rd, vol, matches_played, wins, losses",
+      )
+      .or(filter);
+
+    if (error) throw new Error(`Pair rating fetch failed: ${error.message}`);
+
+    return (data || []).map(toPairRating);
+  }
+}
@@ -0,0 +1,116 @@
+import { supabase } from "@/config/supabase";
+import { RATING_CONFIG } from "@/constants/rating";
+import { isProvisionalRating } from "@/lib/glicko";
+
+// Rows per page when counting the rated matches of several players
+const PAGE_SIZE = 1000;
+
+export interface PlacementStatus {
+  provisional: boolean;
+  rated_matches: number;
+  matches_required: number;
+}
+
+/**
+ * Provisional Rating Service
+ *
+ * New players start at the default rating with a high RD. Until they have
+ * played enough validated matches (or their RD has settled) their rating is
+ * provisional and shown with a "?" everywhere.
+ */
+export class ProvisionalRatingService {
+  /**
+   * Count the validated matches that have been applied to a player's rating
+   * Throws when the count fails, rather than reporting a brand new player
+   */
+  static async getRatedMatchCount(playerId: string): Promise<number> {
+    const { count, error } = await supabase
+      .from("match_rating_changes")
+      .select("id", { count: "exact", head: true })
+      .eq("player_id", playerId)
+      .eq("is_reverted", false)
+      .not("applied_at", "is", null);
+
+    if (error) {
+      throw new Error(
+        `Rated match count failed for ${playerId}: ${error.message}`,
+      );
+    }
+
+    return count || 0;
+  }
+
+  /**
+   * Placement status of a single player
+   */
+  static async getPlacementStatus(player: {
+    id: string;
+    glicko_rd: string | number | null;
+  }): Promise<PlacementStatus> {
+    const ratedMatches = await this.getRatedMatchCount(player.id);
+
+    return {
+      provisional: isProvisionalRating(player.glicko_rd, ratedMatches),
+      rated_matches: ratedMatches,
+      matches_required: RATING_CONFIG.PLACEMENT_MATCHES,
+    };
+  }
+
+  /**
+   * Count the rated matches of several players in one paged query
+   * Throws when the count fails, like getRatedMatchCount
+   */
+  static async getRatedMatchCounts(
+    playerIds: string[],
+  ): Promise<Map<string, number>> {
+    const counts = new Map<string, number>(playerIds.map((id) => [id, 0]));
+    if (playerIds.length === 0) return counts;
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from("match_rating_changes")
+        .select("id, player_id")
+        .in("player_id", playerIds)
+        .eq("is_reverted", false)
+        .not("applied_at", "is", null)
+        .order("id", { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Rated match counts failed: ${error.message}`);
+      }
+
+      for (const row of data || []) {
+        counts.set(row.player_id, (counts.get(row.player_id) ?? 0) + 1);
+      }
+
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return counts;
+  }
+
+  /**
+   * Find the provisional players in a list. Only players whose RD is still
+   * above the threshold need their matches counted.
+   */
+  static async getProvisionalPlayerIds(
+    players: { id: string; glicko_rd: string | number | null }[],
+  ): Promise<Set<string>> {
+    const candidates = players.filter((player) =>
+      isProvisionalRating(player.glicko_rd),
+    );
+
+    const counts = await this.getRatedMatchCounts(
+      candidates.map((player) => player.id),
+    );
+
+    return new Set(
+      candidates
+        .filter((player) =>
+          isProvisionalRating(player.glicko_rd, counts.get(player.id)),
+        )
+        .map((player) => player.id),
+    );
+  }
+}
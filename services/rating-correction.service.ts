@@ -0,0 +1,448 @@
+import { supabase } from "@/config/supabase";
+import { RATING_CONFIG } from "@/constants/rating";
+import { toRatedMatch } from "@/lib/match-outcome";
+import {
+  StoredRatingChange,
+  findAffectedMatches,
+  planRatingCascade,
+} from "@/lib/rating-correction";
+import {
+  TeamRatings,
+  getDefaultRating,
+  getRatingAlgorithm,
+} from "@/lib/rating-engine";
+import { ReplayMatch } from "@/lib/rating-replay";
+import { LadderRatingService } from "@/services/ladder-rating.service";
+import { NotificationHelpers } from "@/services/notificationHelpers";
+import { PairRatingService } from "@/services/pair-rating.service";
+import { RatingPeriodService } from "@/services/rating-period.service";
+import { RatingTierService } from "@/services/rating-tier.service";
+import {
+  RatingReplayService,
+  SupabaseRatingStore,
+} from "@/services/rating-replay.service";
+
+export type RatingCorrectionReason = "disputed" | "edited";
+
+export interface RatingCorrectionResult {
+  success: boolean;
+  message: string;
+  error?: string;
+  correction_id?: string;
+  affected_matches?: number;
+  affected_players?: number;
+}
+
+const MATCH_COLUMNS =
+  "id, start_time, player1_id, player2_id, player3_id, player4_id, team1_score_set1, team2_score_set1, team1_score_set2, team2_score_set2, team1_score_set3, team2_score_set3, super_tiebreak, match_format, winner_team, rating_weight, end_reason, rating_applied, rating_period_id";
+
+// Rating moves smaller than this are not worth a notification
+const NOTIFY_THRESHOLD = 1;
+
+/**
+ * Rating Correction Service
+ *
+ * When a match whose ratings were already applied is disputed or edited,
+ * every later match involving the affected players was rated on top of the
+ * wrong numbers. This service finds those downstream matches, recalculates
+ * them in order, rewrites their audit rows and notifies every player whose
+ * rating moved.
+ */
+export class RatingCorrectionService {
+  /**
+   * Correct ratings after a match was disputed (removed from rating) or its
+   * score was edited (re-rated with the new score)
+   *
+   * @param matchId - UUID of the disputed or edited match
+   * @param reason - Whether the match is removed or re-rated
+   * @returns Promise<RatingCorrectionResult>
+   */
+  static async correctFromMatch(
+    matchId: string,
+    reason: RatingCorrectionReason,
+  ): Promise<RatingCorrectionResult> {
+    try {
+      console.log(
+        `🔧 [CORRECTION] Starting ${reason} correction for match: ${matchId}`,
+      );
+
+      // STEP 1: Fetch the corrected match
+      const { data: trigger, error: triggerError } = await supabase
+        .from("matches")
+        .select(MATCH_COLUMNS)
+        .eq("id", matchId)
+        .single();
+
+      if (triggerError || !trigger) {
+        return {
+          success: false,
+          message: "Failed to fetch match for correction",
+          error: triggerError?.message || "Match not found",
+        };
+      }
+
+      // STEP 1.1: Category ladders are rated on validation even when the
+      // overall rating waits for a period, so they are always corrected
+      await this.correctLadders(trigger as ReplayMatch, reason === "edited");
+
+      // STEP 2: Not applied yet - only the previews need refreshing
+      if (!trigger.rating_applied) {
+        return await this.refreshPreview(trigger, reason);
+      }
+
+      // STEP 3: Batched periods cannot be unpicked per match - replay instead
+      if (RATING_CONFIG.RATING_PERIODS_ENABLED && trigger.rating_period_id) {
+        return await this.correctByReplay(matchId, reason);
+      }
+
+      // STEP 4: Find every downstream match touched by the correction,
+      // leaving out other disputed matches that are still flagged as applied
+      const { data: laterMatches, error: laterError } = await supabase
+        .from("matches")
+        .select(MATCH_COLUMNS)
+        .eq("validation_status", "validated")
+        .eq("rating_applied", true)
+        .gte("start_time", trigger.start_time)
+        .neq("id", matchId)
+        .order("start_time", { ascending: true });
+
+      if (laterError) {
+        throw new Error(`Downstream fetch failed: ${laterError.message}`);
+      }
+
+      const downstream = findAffectedMatches(
+        trigger as ReplayMatch,
+        (laterMatches || []) as ReplayMatch[],
+      );
+      const sequenceIds = [matchId, ...downstream.map((match) => match.id)];
+
+      console.log(
+        `📊 [CORRECTION] ${downstream.length} downstream match(es) affected`,
+      );
+
+      // STEP 5: Load the applied audit rows for the whole chain
+      const { data: storedChanges, error: changesError } = await supabase
+        .from("match_rating_changes")
+        .select(
+          "id, match_id, player_id, rating_before, rd_before, vol_before, rating_after, rd_after, vol_after",
+        )
+        .in("match_id", sequenceIds)
+        .eq("is_reverted", false);
+
+      if (changesError) {
+        throw new Error(`Audit fetch failed: ${changesError.message}`);
+      }
+
+      // STEP 6: Recalculate the chain from the pre-correction baselines
+      const plan = planRatingCascade(
+        trigger as ReplayMatch,
+        downstream,
+        (storedChanges || []) as StoredRatingChange[],
+        { rerateTrigger: reason === "edited" },
+      );
+
+      // STEP 7: Record the correction for the audit trail
+      const { data: correction, error: correctionError } = await supabase
+        .from("rating_corrections")
+        .insert({
+          trigger_match_id: matchId,
+          reason,
+          algorithm: RATING_CONFIG.ALGORITHM,
+          affected_match_ids: plan.downstreamMatchIds,
+          affected_player_count: plan.adjustments.size,
+        })
+        .select("id")
+        .single();
+
+      if (correctionError || !correction) {
+        throw new Error(
+          `Correction record failed: ${correctionError?.message || "unknown"}`,
+        );
+      }
+
+      // STEP 8: Revert the old rows and store the recalculated ones
+      const now = new Date().toISOString();
+      const { error: revertError } = await supabase
+        .from("match_rating_changes")
+        .update({ is_reverted: true, reverted_at: now })
+        .in("match_id", sequenceIds)
+        .eq("is_reverted", false);
+
+      if (revertError) {
+        throw new Error(`Audit revert failed: ${revertError.message}`);
+      }
+
+      if (plan.changes.length > 0) {
+        const { error: insertError } = await supabase
+          .from("match_rating_changes")
+          .insert(
+            plan.changes.map((change) => ({
+              ...change,
+              applied_at: now,
+              correction_id: correction.id,
+            })),
+          );
+
+        if (insertError) {
+          throw new Error(`Audit insert failed: ${insertError.message}`);
+        }
+      }
+
+      // STEP 9: Shift each profile by its correction, keeping any changes
+      // applied outside the chain (e.g. inactivity decay)
+      const ratingDeltas = await this.applyAdjustments(plan.adjustments);
+
+      if (reason === "disputed") {
+        await this.removeFromRatings(matchId);
+      }
+
+      // STEP 10: Correct the partnerships over the same chain
+      await this.correctPairs(
+        trigger as ReplayMatch,
+        downstream,
+        reason === "edited",
+      );
+      await RatingTierService.updatePlayerTiers(
+        Array.from(plan.adjustments.keys()),
+        matchId,
+      );
+
+      await NotificationHelpers.sendRatingCorrectedNotifications(
+        ratingDeltas,
+        matchId,
+        reason,
+      );
+
+      console.log(
+        `✅ [CORRECTION] Corrected ${plan.adjustments.size} player(s) across ${downstream.length + 1} match(es)`,
+      );
+
+      return {
+        success: true,
+        message: `Ratings corrected for ${plan.adjustments.size} players across ${downstream.length} later matches`,
+        correction_id: correction.id,
+        affected_matches: downstream.length,
+        affected_players: plan.adjustments.size,
+      };
+    } catch (error) {
+      console.error(`💥 [CORRECTION] Critical error in correction:`, error);
+      return {
+        success: false,
+        message: "Critical error during rating correction",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Correct the category ladder ratings. Failures are logged and do not
+   * undo the individual correction.
+   */
+  private static async correctLadders(
+    trigger: ReplayMatch,
+    rerateTrigger: boolean,
+  ): Promise<void> {
+    try {
+      await LadderRatingService.correctFromMatch(trigger, rerateTrigger);
+    } catch (error) {
+      console.warn(`⚠️ [CORRECTION] Ladder rating correction failed:`, error);
+    }
+  }
+
+  /**
+   * Correct the pair ratings of the chain. Failures are logged and do not
+   * undo the individual correction.
+   */
+  private static async correctPairs(
+    trigger: ReplayMatch,
+    downstream: ReplayMatch[],
+    rerateTrigger: boolean,
+  ): Promise<void> {
+    try {
+      await PairRatingService.correctFromMatch(
+        trigger,
+        downstream,
+        rerateTrigger,
+      );
+    } catch (error) {
+      console.warn(`⚠️ [CORRECTION] Pair rating correction failed:`, error);
+    }
+  }
+
+  /**
+   * Add rating adjustments to the stored profile ratings
+   * @returns Rating delta per player that moved noticeably
+   */
+  private static async applyAdjustments(
+    adjustments: Map<string, { rating: number; rd: number; vol: number }>,
+  ): Promise<Map<string, number>> {
+    const moved = new Map<string, number>();
+    const current = await RatingPeriodService.getPlayerRatings(
+      Array.from(adjustments.keys()),
+    );
+
+    for (const [playerId, delta] of adjustments) {
+      const before = current.get(playerId) ?? getDefaultRating();
+
+      const { error } = await supabase
+        .from("profiles")
+        .update({
+          glicko_rating: (before.rating + delta.rating).toString(),
+          glicko_rd: Math.min(
+            RATING_CONFIG.MAX_RD,
+            Math.max(0, before.rd + delta.rd),
+          ).toString(),
+          glicko_vol: (before.vol + delta.vol).toString(),
+        })
+        .eq("id", playerId);
+
+      if (error) {
+        throw new Error(
+          `Rating update failed for player ${playerId}: ${error.message}`,
+        );
+      }
+
+      if (Math.abs(delta.rating) >= NOTIFY_THRESHOLD) {
+        moved.set(playerId, delta.rating);
+      }
+    }
+
+    return moved;
+  }
+
+  /**
+   * Mark a disputed match as no longer applied, so later corrections and
+   * replays starting from an earlier match don't rate it again
+   */
+  private static async removeFromRatings(matchId: string): Promise<void> {
+    const { error } = await supabase
+      .from("matches")
+      .update({ rating_applied: false })
+      .eq("id", matchId);
+
+    if (error) {
+      throw new Error(`Match rating flag update failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Replace the preview rows of a match whose ratings were not applied yet
+   */
+  private static async refreshPreview(
+    trigger: ReplayMatch,
+    reason: RatingCorrectionReason,
+  ): Promise<RatingCorrectionResult> {
+    const now = new Date().toISOString();
+
+    const { error: revertError } = await supabase
+      .from("match_rating_changes")
+      .update({ is_reverted: true, reverted_at: now })
+      .eq("match_id", trigger.id)
+      .eq("is_reverted", false);
+
+    if (revertError) {
+      throw new Error(`Preview revert failed: ${revertError.message}`);
+    }
+
+    const rated = reason === "edited" ? toRatedMatch(trigger) : null;
+    if (rated) {
+      const playerIds = [...rated.team1, ...rated.team2];
+      const ratings = await RatingPeriodService.getPlayerRatings(playerIds);
+      const ratingOf = (playerId: string) =>
+        ratings.get(playerId) ?? getDefaultRating();
+
+      const team1: TeamRatings = [
+        ratingOf(rated.team1[0]),
+        ratingOf(rated.team1[1]),
+      ];
+      const team2: TeamRatings = [
+        ratingOf(rated.team2[0]),
+        ratingOf(rated.team2[1]),
+      ];
+      const updated = getRatingAlgorithm().rateMatch({
+        team1,
+        team2,
+        team1Result: rated.team1Result,
+        weight: rated.weight,
+      });
+      const before = [...team1, ...team2];
+      const after = [...updated.team1, ...updated.team2];
+
+      const { error: insertError } = await supabase
+        .from("match_rating_changes")
+        .insert(
+          playerIds.map((playerId, index) => ({
+            match_id: trigger.id,
+            player_id: playerId,
+            rating_before: before[index].rating,
+            rd_before: before[index].rd,
+            vol_before: before[index].vol,
+            rating_after: after[index].rating,
+            rd_after: after[index].rd,
+            vol_after: after[index].vol,
+            is_provisional: RATING_CONFIG.RATING_PERIODS_ENABLED,
+          })),
+        );
+
+      if (insertError) {
+        throw new Error(`Preview insert failed: ${insertError.message}`);
+      }
+    }
+
+    console.log(`ℹ️ [CORRECTION] Ratings not applied yet, preview refreshed`);
+
+    return {
+      success: true,
+      message: "Ratings were not applied yet. Preview updated",
+      affected_matches: 0,
+      affected_players: 0,
+    };
+  }
+
+  /**
+   * Fall back to a full replay when the match was rated inside a closed
+   * rating period
+   */
+  private static async correctByReplay(
+    matchId: string,
+    reason: RatingCorrectionReason,
+  ): Promise<RatingCorrectionResult> {
+    console.log(
+      `🔁 [CORRECTION] Match was rated in a closed period, replaying history`,
+    );
+
+    const report = await RatingReplayService.replay(
+      new SupabaseRatingStore(supabase),
+      { dryRun: false },
+    );
+
+    if (reason === "disputed") {
+      await this.removeFromRatings(matchId);
+    }
+
+    await RatingTierService.updatePlayerTiers(
+      report.diffs.map((diff) => diff.player_id),
+      matchId,
+    );
+
+    const ratingDeltas = new Map<string, number>();
+    for (const diff of report.diffs) {
+      if (Math.abs(diff.rating_delta) >= NOTIFY_THRESHOLD) {
+        ratingDeltas.set(diff.player_id, diff.rating_delta);
+      }
+    }
+
+    await NotificationHelpers.sendRatingCorrectedNotifications(
+      ratingDeltas,
+      matchId,
+      reason,
+    );
+
+    return {
+      success: true,
+      message: `Ratings replayed, ${report.diffs.length} players changed`,
+      affected_matches: report.replayed_matches,
+      affected_players: report.diffs.length,
+    };
+  }
+}
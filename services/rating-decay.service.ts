@@ -0,0 +1,225 @@
+import { supabase } from "@/config/supabase";
+import { decayRatingDeviation } from "@/lib/glicko";
+import { parseStoredRating } from "@/lib/rating-engine";
+import { countPeriodsBetween } from "@/lib/rating-periods";
+import { RatingPeriodService } from "@/services/rating-period.service";
+
+export interface RatingDecayResult {
+  success: boolean;
+  message: string;
+  error?: string;
+  checked: number;
+  decayed: number;
+  failed: number;
+}
+
+// Profiles are decayed in pages, with one match lookup per page
+const PROFILE_PAGE_SIZE = 100;
+const MATCH_PAGE_SIZE = 1000;
+
+/**
+ * Rating Decay Service
+ *
+ * Applies the Glicko-2 "no games played" step to idle players: every full
+ * rating period a player sits out grows their RD (capped at MAX_RD) so their
+ * rating becomes uncertain again. Each adjustment is logged in
+ * rating_decay_log. Runs as a scheduled job, see ScheduledJobService.
+ */
+export class RatingDecayService {
+  /**
+   * Decay RD for every player not yet checked for the current period
+   */
+  static async applyInactivityDecay(
+    now: Date = new Date(),
+  ): Promise<RatingDecayResult> {
+    const counts = { checked: 0, decayed: 0, failed: 0 };
+    const currentPeriod = RatingPeriodService.getPeriodBounds(now);
+    const periodStart = currentPeriod.start.toISOString();
+
+    try {
+      // Keyset pages, as every decayed profile drops out of the filter
+      let lastId: string | null = null;
+
+      while (true) {
+        let query = supabase
+          .from("profiles")
+          .select(
+            "id, glicko_rating, glicko_rd, glicko_vol, rd_decayed_through",
+          )
+          .or(`rd_decayed_through.is.null,rd_decayed_through.lt.${periodStart}`)
+          .order("id", { ascending: true })
+          .limit(PROFILE_PAGE_SIZE);
+        if (lastId) query = query.gt("id", lastId);
+
+        const { data: profiles, error } = await query;
+        if (error) {
+          throw new Error(`Profile fetch failed: ${error.message}`);
+        }
+        if (!profiles || profiles.length === 0) break;
+
+        const lastMatchTimes = await this.getLastMatchTimes(
+          profiles.map((profile) => profile.id),
+        );
+
+        for (const profile of profiles) {
+          counts.checked++;
+
+          try {
+            const decayed = await this.decayPlayer(
+              profile,
+              lastMatchTimes.get(profile.id) ?? null,
+              currentPeriod.start,
+            );
+            if (decayed) counts.decayed++;
+          } catch (playerError) {
+            counts.failed++;
+            console.error(
+              `❌ [RATING-DECAY] Failed to decay player ${profile.id}:`,
+              playerError,
+            );
+          }
+        }
+
+        if (profiles.length < PROFILE_PAGE_SIZE) break;
+        lastId = profiles[profiles.length - 1].id;
+      }
+
+      const message = `Checked ${counts.checked}, decayed ${counts.decayed}, failed ${counts.failed}`;
+      console.log(`✅ [RATING-DECAY] ${message}`);
+      return { success: counts.failed === 0, message, ...counts };
+    } catch (error) {
+      console.error(`💥 [RATING-DECAY] Critical error in decay job:`, error);
+      return {
+        success: false,
+        message: "Rating decay failed",
+        error: error instanceof Error ? error.message : "Unknown error",
+        ...counts,
+      };
+    }
+  }
+
+  /**
+   * Start time of each player's last rated match, from one query over the
+   * matches of all the given players, newest first
+   */
+  private static async getLastMatchTimes(
+    playerIds: string[],
+  ): Promise<Map<string, string>> {
+    const lastMatchTimes = new Map<string, string>();
+    const remaining = new Set(playerIds);
+    const ids = playerIds.join(",");
+
+    for (let from = 0; remaining.size > 0; from += MATCH_PAGE_SIZE) {
+      const { data: matches, error } = await supabase
+        .from("matches")
+        .select(
+          "id, start_time, player1_id, player2_id, player3_id, player4_id",
+        )
+        .or(
+          `player1_id.in.(${ids}),player2_id.in.(${ids}),player3_id.in.(${ids}),player4_id.in.(${ids})`,
+        )
+        .eq("rating_applied", true)
+        .order("start_time", { ascending: false })
+        .order("id", { ascending: true })
+        .range(from, from + MATCH_PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Match fetch failed: ${error.message}`);
+      }
+
+      for (const match of matches || []) {
+        for (const playerId of [
+          match.player1_id,
+          match.player2_id,
+          match.player3_id,
+          match.player4_id,
+        ]) {
+          // The first match seen for a player is their latest
+          if (playerId && remaining.delete(playerId)) {
+            lastMatchTimes.set(playerId, match.start_time);
+          }
+        }
+      }
+
+      if (!matches || matches.length < MATCH_PAGE_SIZE) break;
+    }
+
+    return lastMatchTimes;
+  }
+
+  /**
+   * Decay a single player up to the start of the current period
+   * @returns Whether the player's RD was changed
+   */
+  private static async decayPlayer(
+    profile: {
+      id: string;
+      glicko_rating: string | null;
+      glicko_rd: string | null;
+      glicko_vol: string | null;
+      rd_decayed_through: string | null;
+    },
+    lastMatchStart: string | null,
+    currentPeriodStart: Date,
+  ): Promise<boolean> {
+    // Idle time starts after the period of the last rated match, or after
+    // the last decay, whichever is later
+    const idleSince = Math.max(
+      lastMatchStart
+        ? RatingPeriodService.getPeriodBounds(
+            new Date(lastMatchStart),
+          ).end.getTime()
+        : 0,
+      profile.rd_decayed_through
+        ? new Date(profile.rd_decayed_through).getTime()
+        : 0,
+    );
+
+    const idlePeriods =
+      idleSince > 0
+        ? countPeriodsBetween(new Date(idleSince), currentPeriodStart)
+        : 0;
+
+    const before = parseStoredRating(profile);
+    const after = decayRatingDeviation(before, idlePeriods);
+    const changed = after.rd !== before.rd;
+
+    const { error: updateError } = await supabase
+      .from("profiles")
+      .update({
+        ...(changed && { glicko_rd: after.rd.toString() }),
+        rd_decayed_through: currentPeriodStart.toISOString(),
+      })
+      .eq("id", profile.id);
+
+    if (updateError) {
+      throw new Error(`Profile update failed: ${updateError.message}`);
+    }
+
+    if (changed) {
+      const { error: logError } = await supabase
+        .from("rating_decay_log")
+        .insert({
+          player_id: profile.id,
+          idle_periods: idlePeriods,
+          idle_since: new Date(idleSince).toISOString(),
+          decayed_through: currentPeriodStart.toISOString(),
+          rd_before: before.rd,
+          rd_after: after.rd,
+        });
+
+      if (logError) {
+        console.warn(
+          `⚠️ [RATING-DECAY] Failed to log decay for ${profile.id}:`,
+          logError,
+        );
+      }
+
+      console.log(
+        `📉 [RATING-DECAY] ${profile.id.substring(0, 8)}: RD ${before.rd.toFixed(1)} → ${after.rd.toFixed(1)} after ${idlePeriods} idle period(s)`,
+      );
+    }
+
+    return changed;
+  }
+}
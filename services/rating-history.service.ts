@@ -0,0 +1,118 @@
+import { supabase } from "@/config/supabase";
+import { RatingHistoryPoint, addDecayToHistory } from "@/lib/rating-history";
+
+/**
+ * Rating History Service
+ *
+ * A player's rating over time. Matches rated one by one come from the
+ * applied rows in match_rating_changes, matches rated at a period close
+ * from the player's batched update in rating_period_changes, as the per
+ * match rows of those stay previews. Reverted changes are left out, so
+ * a corrected match shows its replayed values. RD growth from inactivity is
+ * added from rating_decay_log.
+ */
+export class RatingHistoryService {
+  /**
+   * Every applied rating change of a player, oldest first
+   */
+  static async getRatingHistory(
+    playerId: string,
+  ): Promise<RatingHistoryPoint[]> {
+    const [matchPoints, periodPoints, decays] = await Promise.all([
+      this.getMatchPoints(playerId),
+      this.getPeriodPoints(playerId),
+      this.getDecays(playerId),
+    ]);
+
+    return addDecayToHistory([...matchPoints, ...periodPoints], decays);
+  }
+
+  /**
+   * Changes of matches that were rated on their own
+   */
+  private static async getMatchPoints(
+    playerId: string,
+  ): Promise<RatingHistoryPoint[]> {
+    const { data, error } = await supabase
+      .from("match_rating_changes")
+      .select(
+        "match_id, rating_before, rating_after, rd_after, applied_at, match:matches!match_id(start_time, player1_id, player2_id, winner_team)",
+      )
+      .eq("player_id", playerId)
+      .eq("is_reverted", false)
+      .eq("is_provisional", false)
+      .not("applied_at", "is", null);
+
+    if (error) {
+      throw new Error(`Rating history fetch failed: ${error.message}`);
+    }
+
+    return (data || []).map((row: any) => {
+      const onTeam1 =
+        row.match?.player1_id === playerId ||
+        row.match?.player2_id === playerId;
+
+      return {
+        matchId: row.match_id,
+        date: row.match?.start_time || row.applied_at,
+        rating: Number(row.rating_after),
+        rd: Number(row.rd_after),
+        change: Number(row.rating_after) - Number(row.rating_before),
+        won: row.match?.winner_team
+          ? row.match.winner_team === (onTeam1 ? 1 : 2)
+          : null,
+      };
+    });
+  }
+
+  /**
+   * One point per closed rating period the player played in, dated at the
+   * end of the period
+   */
+  private static async getPeriodPoints(
+    playerId: string,
+  ): Promise<RatingHistoryPoint[]> {
+    const { data, error } = await supabase
+      .from("rating_period_changes")
+      .select(
+        "period_id, rating_before, rating_after, rd_after, match_count, period:rating_periods!period_id(ends_at)",
+      )
+      .eq("player_id", playerId);
+
+    if (error) {
+      throw new Error(`Rating period history fetch failed: ${error.message}`);
+    }
+
+    return (data || [])
+      .filter((row: any) => row.period?.ends_at)
+      .map((row: any) => ({
+        matchId: null,
+        periodId: row.period_id,
+        matchCount: row.match_count ?? 0,
+        date: row.period.ends_at,
+        rating: Number(row.rating_after),
+        rd: Number(row.rd_after),
+        change: Number(row.rating_after) - Number(row.rating_before),
+        won: null,
+      }));
+  }
+
+  /**
+   * RD after each inactivity decay of the player
+   */
+  private static async getDecays(playerId: string) {
+    const { data, error } = await supabase
+      .from("rating_decay_log")
+      .select("decayed_through, rd_after")
+      .eq("player_id", playerId);
+
+    if (error) {
+      throw new Error(`Rating decay history fetch failed: ${error.message}`);
+    }
+
+    return (data || []).map((row) => ({
+      date: row.decayed_through,
+      rd: Number(row.rd_after),
+    }));
+  }
+}
@@ -0,0 +1,384 @@
+import { supabase } from "@/config/supabase";
+import { MATCH_END_REASONS } from "@/constants/match-ending";
+import { RATING_CONFIG } from "@/constants/rating";
+import { toRatedMatch } from "@/lib/match-outcome";
+import {
+  RatedMatch,
+  getDefaultRating,
+  getRatingAlgorithm,
+  parseStoredRating,
+} from "@/lib/rating-engine";
+import { GlickoRating } from "@/lib/glicko";
+import {
+  RatingPeriodBounds,
+  getPeriodBounds,
+  isPeriodDue,
+} from "@/lib/rating-periods";
+import { RatingTierService } from "@/services/rating-tier.service";
+
+export interface RatingPeriodResult {
+  success: boolean;
+  message: string;
+  error?: string;
+  period_id?: string;
+  rated_matches?: number;
+  rated_players?: number;
+}
+
+// Friendly matches are validated but never rated, so never wait for a period
+const RATED_WEIGHT_FILTER = "rating_weight.is.null,rating_weight.neq.friendly";
+
+// Neither do walkovers and other matches that never reached a result
+const RATED_END_REASONS = MATCH_END_REASONS.filter((reason) => reason.rated)
+  .map((reason) => reason.id)
+  .join(",");
+const RATED_ENDING_FILTER = `end_reason.is.null,end_reason.in.(${RATED_END_REASONS})`;
+
+/**
+ * Rating Period Service
+ *
+ * Implements Glicko-2 rating periods: every validated match inside a period
+ * is collected and each player is updated exactly once from their
+ * pre-period rating. The per-match rows in match_rating_changes stay
+ * previews, the applied change is the player's row in rating_period_changes.
+ */
+export class RatingPeriodService {
+  /**
+   * Get the rating period that contains the given instant
+   */
+  static getPeriodBounds(date: Date = new Date()): RatingPeriodBounds {
+    return getPeriodBounds(date);
+  }
+
+  /**
+   * Close every rating period that is due and not closed yet
+   * Runs as the rating_period_close scheduled job
+   */
+  static async closeDuePeriods(): Promise<{
+    closed: number;
+    rated_matches: number;
+    failed: number;
+  }> {
+    const summary = { closed: 0, rated_matches: 0, failed: 0 };
+
+    if (!RATING_CONFIG.RATING_PERIODS_ENABLED) {
+      return summary;
+    }
+
+    try {
+      // Start after the last closed period, or at the oldest waiting match
+      const { data: lastPeriod } = await supabase
+        .from("rating_periods")
+        .select("ends_at")
+        .eq("status", "closed")
+        .order("ends_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      let cursor: Date;
+      if (lastPeriod) {
+        cursor = new Date(lastPeriod.ends_at);
+      } else {
+        const { data: oldestMatch } = await supabase
+          .from("matches")
+          .select("start_time")
+          .eq("validation_status", "validated")
+          .eq("rating_applied", false)
+          .or(RATED_WEIGHT_FILTER)
+          .or(RATED_ENDING_FILTER)
+          .order("start_time", { ascending: true })
+          .limit(1)
+          .maybeSingle();
+
+        if (!oldestMatch) {
+          return summary;
+        }
+        cursor = new Date(oldestMatch.start_time);
+      }
+
+      let period = this.getPeriodBounds(cursor);
+      while (isPeriodDue(period)) {
+        const result = await this.closePeriod(period);
+
+        if (result.success) {
+          summary.closed++;
+          summary.rated_matches += result.rated_matches || 0;
+        } else {
+          summary.failed++;
+          break; // Periods must close in order
+        }
+
+        period = this.getPeriodBounds(period.end);
+      }
+
+      console.log(
+        `✅ [RATING-PERIOD] Closed ${summary.closed} period(s), rated ${summary.rated_matches} match(es)`,
+      );
+      return summary;
+    } catch (error) {
+      console.error(`💥 [RATING-PERIOD] Failed to close due periods:`, error);
+      return { ...summary, failed: summary.failed + 1 };
+    }
+  }
+
+  /**
+   * Close a single rating period and apply batched rating updates
+   *
+   * Every validated match that has not been rated yet and was played before
+   * the end of the period is included, so stragglers confirmed after an
+   * earlier period closed are picked up by the next one.
+   */
+  static async closePeriod(
+    period: RatingPeriodBounds,
+  ): Promise<RatingPeriodResult> {
+    console.log(
+      `🗓️ [RATING-PERIOD] Closing period ${period.start.toISOString()} → ${period.end.toISOString()}`,
+    );
+
+    // STEP 1: Claim the period so concurrent workers do not double-apply
+    const { data: claimed, error: claimError } = await supabase
+      .from("rating_periods")
+      .insert({
+        starts_at: period.start.toISOString(),
+        ends_at: period.end.toISOString(),
+        status: "closing",
+        algorithm: RATING_CONFIG.ALGORITHM,
+      })
+      .select("id")
+      .single();
+
+    if (claimError || !claimed) {
+      console.log(
+        `ℹ️ [RATING-PERIOD] Period already claimed by another worker`,
+        claimError,
+      );
+      return {
+        success: false,
+        message: "Rating period already being processed",
+        error: claimError?.message,
+      };
+    }
+
+    const periodId = claimed.id as string;
+    // Once a profile is written the period can't simply be retried, the next
+    // run would rate the same matches on top of the new ratings
+    let profilesWritten = false;
+
+    try {
+      // STEP 2: Collect validated matches waiting for this period
+      const { data: matches, error: matchesError } = await supabase
+        .from("matches")
+        .select(
+          "id, start_time, player1_id, player2_id, player3_id, player4_id, team1_score_set1, team2_score_set1, team1_score_set2, team2_score_set2, team1_score_set3, team2_score_set3, super_tiebreak, match_format, winner_team, rating_weight, end_reason",
+        )
+        .eq("validation_status", "validated")
+        .eq("rating_applied", false)
+        .or(RATED_WEIGHT_FILTER)
+        .or(RATED_ENDING_FILTER)
+        .lt("start_time", period.end.toISOString())
+        .order("start_time", { ascending: true });
+
+      if (matchesError) {
+        throw new Error(`Match fetch failed: ${matchesError.message}`);
+      }
+
+      const ratedMatches = (matches || [])
+        .map((match) => toRatedMatch(match))
+        .filter((match): match is RatedMatch => match !== null);
+
+      // STEP 3: Load pre-period ratings for every participant
+      const playerIds = Array.from(
+        new Set(
+          ratedMatches.flatMap((match) => [...match.team1, ...match.team2]),
+        ),
+      );
+      const ratings = await this.getPlayerRatings(playerIds);
+
+      // STEP 4: One batched update per player
+      const updated = getRatingAlgorithm().ratePeriod(ratedMatches, ratings);
+
+      for (const [playerId, after] of updated) {
+        const before = ratings.get(playerId) ?? getDefaultRating();
+
+        const { error: profileError } = await supabase
+          .from("profiles")
+          .update({
+            glicko_rating: after.rating.toString(),
+            glicko_rd: after.rd.toString(),
+            glicko_vol: after.vol.toString(),
+          })
+          .eq("id", playerId);
+
+        if (profileError) {
+          throw new Error(
+            `Rating update failed for player ${playerId}: ${profileError.message}`,
+          );
+        }
+        profilesWritten = true;
+
+        const { error: auditError } = await supabase
+          .from("rating_period_changes")
+          .insert({
+            period_id: periodId,
+            player_id: playerId,
+            rating_before: before.rating,
+            rd_before: before.rd,
+            vol_before: before.vol,
+            rating_after: after.rating,
+            rd_after: after.rd,
+            vol_after: after.vol,
+            match_count: ratedMatches.filter(
+              (match) =>
+                match.team1.includes(playerId) ||
+                match.team2.includes(playerId),
+            ).length,
+          });
+
+        if (auditError) {
+          console.warn(
+            `⚠️ [RATING-PERIOD] Failed to record period change for ${playerId}:`,
+            auditError,
+          );
+        }
+      }
+
+      // STEP 5: Finalise matches and link their previews to the period.
+      // The previews keep is_provisional, their one-match-at-a-time numbers
+      // were never applied to the profiles.
+      // Matches that can't be rated (missing players, bad scores) are closed
+      // with the period too, otherwise every later period fetches them again.
+      const matchIds = ratedMatches.map((match) => match.id);
+      const closedMatchIds = (matches || []).map((match) => match.id);
+      if (closedMatchIds.length > matchIds.length) {
+        console.log(
+          `ℹ️ [RATING-PERIOD] ${closedMatchIds.length - matchIds.length} match(es) could not be rated and are skipped`,
+        );
+      }
+
+      if (closedMatchIds.length > 0) {
+        const appliedAt = new Date().toISOString();
+
+        const { error: matchUpdateError } = await supabase
+          .from("matches")
+          .update({ rating_applied: true, rating_period_id: periodId })
+          .in("id", closedMatchIds);
+
+        if (matchUpdateError) {
+          throw new Error(
+            `Match finalization failed: ${matchUpdateError.message}`,
+          );
+        }
+
+        await supabase
+          .from("match_rating_changes")
+          .update({
+            rating_period_id: periodId,
+            applied_at: appliedAt,
+          })
+          .in("match_id", matchIds)
+          .eq("is_reverted", false);
+      }
+
+      // STEP 6: Rate the partnerships match by match, seeding new pairs
+      // from the pre-period ratings like the match previews
+      await this.applyPairRatings(matchIds, ratings);
+
+      await RatingTierService.updatePlayerTiers(Array.from(updated.keys()));
+
+      await supabase
+        .from("rating_periods")
+        .update({
+          status: "closed",
+          closed_at: new Date().toISOString(),
+          match_count: ratedMatches.length,
+          player_count: updated.size,
+        })
+        .eq("id", periodId);
+
+      console.log(
+        `🎉 [RATING-PERIOD] Period closed: ${ratedMatches.length} matches, ${updated.size} players`,
+      );
+
+      return {
+        success: true,
+        message: "Rating period closed",
+        period_id: periodId,
+        rated_matches: ratedMatches.length,
+        rated_players: updated.size,
+      };
+    } catch (error) {
+      console.error(`💥 [RATING-PERIOD] Failed to close period:`, error);
+
+      if (profilesWritten) {
+        // Keep the claim so the period is never applied twice. Later periods
+        // wait behind it until it is repaired, e.g. with a rating replay.
+        await supabase
+          .from("rating_periods")
+          .update({
+            status: "failed",
+            closed_at: new Date().toISOString(),
+          })
+          .eq("id", periodId);
+      } else {
+        // Nothing written yet, release the claim so the period is retried
+        await supabase.from("rating_periods").delete().eq("id", periodId);
+      }
+
+      return {
+        success: false,
+        message: "Failed to close rating period",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Rate the partnerships of each closed match in order. Failures are logged
+   * and do not undo the period.
+   */
+  private static async applyPairRatings(
+    matchIds: string[],
+    ratings: Map<string, GlickoRating>,
+  ): Promise<void> {
+    // Loaded lazily, the pair service depends on this one
+    const { PairRatingService } = await import(
+      "@/services/pair-rating.service"
+    );
+
+    for (const matchId of matchIds) {
+      try {
+        await PairRatingService.applyMatchToPairs(matchId, ratings);
+      } catch (error) {
+        console.warn(
+          `⚠️ [RATING-PERIOD] Pair rating update failed for ${matchId}:`,
+          error,
+        );
+      }
+    }
+  }
+
+  /**
+   * Load current ratings from profiles keyed by player id
+   */
+  static async getPlayerRatings(
+    playerIds: string[],
+  ): Promise<Map<string, GlickoRating>> {
+    const ratings = new Map<string, GlickoRating>();
+    if (playerIds.length === 0) return ratings;
+
+    const { data: profiles, error } = await supabase
+      .from("profiles")
+      .select("id, glicko_rating, glicko_rd, glicko_vol")
+      .in("id", playerIds);
+
+    if (error) {
+      throw new Error(`Profile fetch failed: ${error.message}`);
+    }
+
+    for (const profile of profiles || []) {
+      ratings.set(profile.id, parseStoredRating(profile));
+    }
+
+    return ratings;
+  }
+}
@@ -0,0 +1,488 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { GlickoRating } from "@/lib/glicko";
+import {
+  PairRatingChange,
+  PairRecord,
+  getPairId,
+  replayPairRatings,
+} from "@/lib/pair-rating";
+import {
+  RatingAlgorithm,
+  getDefaultRating,
+  getRatingAlgorithm,
+  parseStoredRating,
+} from "@/lib/rating-engine";
+import {
+  SkillAssessmentAnswers,
+  isAssessmentComplete,
+  seedRatingFromAssessment,
+} from "@/lib/skill-assessment";
+import {
+  RatingDiff,
+  ReplayMatch,
+  ReplayRatingChange,
+  diffRatings,
+  replayRatings,
+} from "@/lib/rating-replay";
+
+const MATCH_COLUMNS =
+  "id, start_time, player1_id, player2_id, player3_id, player4_id, team1_score_set1, team2_score_set1, team1_score_set2, team2_score_set2, team1_score_set3, team2_score_set3, super_tiebreak, match_format, winner_team, rating_weight, end_reason";
+
+const PAGE_SIZE = 1000;
+
+const STALE_PAIR_BATCH = 50;
+
+/**
+ * Storage used by the replay. Implemented over Supabase (hosted or a local
+ * `supabase start` Postgres) and over plain in-memory tables.
+ */
+export interface RatingStore {
+  getValidatedMatches(): Promise<ReplayMatch[]>;
+  getCurrentRatings(): Promise<Map<string, GlickoRating>>;
+  // Rating each player starts from, players not listed start at the default
+  getStartingRatings(): Promise<Map<string, GlickoRating>>;
+  writeProfileRatings(ratings: Map<string, GlickoRating>): Promise<void>;
+  // Rows of matches not in appliedMatchIds are stored without applied_at
+  replaceRatingChanges(
+    matchIds: string[],
+    changes: ReplayRatingChange[],
+    appliedMatchIds: string[],
+  ): Promise<void>;
+  replacePairRatings(
+    matchIds: string[],
+    pairs: StoredPairRating[],
+    changes: PairRatingChange[],
+  ): Promise<void>;
+}
+
+export interface StoredPairRating extends PairRecord {
+  player1_id: string;
+  player2_id: string;
+}
+
+interface StoredProfile {
+  id: string;
+  glicko_rating: string | null;
+  glicko_rd: string | null;
+  glicko_vol: string | null;
+  skill_assessment?: SkillAssessmentAnswers | null;
+}
+
+/**
+ * Starting rating a player was seeded with from the onboarding
+ * self-assessment, which is only stored when it seeded the rating
+ */
+const getSeededRating = (profile: StoredProfile): GlickoRating | null =>
+  profile.skill_assessment && isAssessmentComplete(profile.skill_assessment)
+    ? seedRatingFromAssessment(profile.skill_assessment)
+    : null;
+
+interface StoredMatch extends ReplayMatch {
+  validation_status?: string | null;
+}
+
+export interface InMemoryTables {
+  matches: StoredMatch[];
+  profiles: StoredProfile[];
+  match_rating_changes: (ReplayRatingChange & Record<string, any>)[];
+  // Optional so dumps taken before partnerships existed still load
+  pair_ratings?: (StoredPairRating & Record<string, any>)[];
+  pair_rating_changes?: (PairRatingChange & Record<string, any>)[];
+}
+
+export class SupabaseRatingStore implements RatingStore {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async getValidatedMatches(): Promise<ReplayMatch[]> {
+    const matches: ReplayMatch[] = [];
+
+    for (let page = 0; ; page++) {
+      const { data, error } = await this.client
+        .from("matches")
+        .select(MATCH_COLUMNS)
+        .eq("validation_status", "validated")
+        .order("start_time", { ascending: true })
+        .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+      if (error) throw new Error(`Match fetch failed: ${error.message}`);
+
+      matches.push(...((data || []) as ReplayMatch[]));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return matches;
+  }
+
+  async getCurrentRatings(): Promise<Map<string, GlickoRating>> {
+    const ratings = new Map<string, GlickoRating>();
+
+    for (let page = 0; ; page++) {
+      const { data, error } = await this.client
+        .from("profiles")
+        .select("id, glicko_rating, glicko_rd, glicko_vol")
+        .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+      if (error) throw new Error(`Profile fetch failed: ${error.message}`);
+
+      for (const profile of (data || []) as StoredProfile[]) {
+        ratings.set(profile.id, parseStoredRating(profile));
+      }
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return ratings;
+  }
+
+  async getStartingRatings(): Promise<Map<string, GlickoRating>> {
+    const ratings = new Map<string, GlickoRating>();
+
+    for (let page = 0; ; page++) {
+      const { data, error } = await this.client
+        .from("profiles")
+        .select("id, skill_assessment")
+        .not("skill_assessment", "is", null)
+        .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+      if (error) throw new Error(`Seed fetch failed: ${error.message}`);
+
+      for (const profile of (data || []) as StoredProfile[]) {
+        const seed = getSeededRating(profile);
+        if (seed) ratings.set(profile.id, seed);
+      }
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return ratings;
+  }
+
+  async writeProfileRatings(ratings: Map<string, GlickoRating>): Promise<void> {
+    for (const [playerId, rating] of ratings) {
+      const { error } = await this.client
+        .from("profiles")
+        .update({
+          glicko_rating: rating.rating.toString(),
+          glicko_rd: rating.rd.toString(),
+          glicko_vol: rating.vol.toString(),
+        })
+        .eq("id", playerId);
+
+      if (error) {
+        throw new Error(
+          `Rating update failed for player ${playerId}: ${error.message}`,
+        );
+      }
+    }
+  }
+
+  async replaceRatingChanges(
+    matchIds: string[],
+    changes: ReplayRatingChange[],
+    appliedMatchIds: string[],
+  ): Promise<void> {
+    const applied = new Set(appliedMatchIds);
+    const appliedAt = new Date().toISOString();
+
+    for (let i = 0; i < matchIds.length; i += PAGE_SIZE) {
+      const { error } = await this.client
+        .from("match_rating_changes")
+        .delete()
+        .in("match_id", matchIds.slice(i, i + PAGE_SIZE))
+        .eq("is_reverted", false);
+
+      if (error) throw new Error(`Audit cleanup failed: ${error.message}`);
+    }
+
+    for (let i = 0; i < changes.length; i += PAGE_SIZE) {
+      const { error } = await this.client.from("match_rating_changes").insert(
+        changes.slice(i, i + PAGE_SIZE).map((change) => ({
+          ...change,
+          applied_at: applied.has(change.match_id) ? appliedAt : null,
+        })),
+      );
+
+      if (error) throw new Error(`Audit insert failed: ${error.message}`);
+    }
+  }
+
+  async replacePairRatings(
+    matchIds: string[],
+    pairs: StoredPairRating[],
+    changes: PairRatingChange[],
+  ): Promise<void> {
+    const appliedAt = new Date().toISOString();
+
+    for (let i = 0; i < matchIds.length; i += PAGE_SIZE) {
+      const { error } = await this.client
+        .from("pair_rating_changes")
+        .delete()
+        .in("match_id", matchIds.slice(i, i + PAGE_SIZE))
+        .eq("is_reverted", false);
+
+      if (error) {
+        throw new Error(`Pair audit cleanup failed: ${error.message}`);
+      }
+    }
+
+    for (let i = 0; i < changes.length; i += PAGE_SIZE) {
+      const { error } = await this.client.from("pair_rating_changes").insert(
+        changes.slice(i, i + PAGE_SIZE).map((change) => ({
+          ...change,
+          applied_at: appliedAt,
+        })),
+      );
+
+      if (error) throw new Error(`Pair audit insert failed: ${error.message}`);
+    }
+
+    // Pairs that no longer have a rated match together are removed
+    const replayed = new Set(
+      pairs.map((pair) => getPairId(pair.player1_id, pair.player2_id)),
+    );
+    const stale: { player1_id: string; player2_id: string }[] = [];
+
+    for (let page = 0; ; page++) {
+      const { data, error } = await this.client
+        .from("pair_ratings")
+        .select("player1_id, player2_id")
+        .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+      if (error) throw new Error(`Pair fetch failed: ${error.message}`);
+
+      stale.push(
+        ...(data || []).filter(
+          (pair) => !replayed.has(getPairId(pair.player1_id, pair.player2_id)),
+        ),
+      );
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    // Keep the or() filter short enough for the request URL
+    for (let i = 0; i < stale.length; i += STALE_PAIR_BATCH) {
+      const { error } = await this.client
+        .from("pair_ratings")
+        .delete()
+        .or(
+          stale
+            .slice(i, i + STALE_PAIR_BATCH)
+            .map(
+              (pair) =>
+                `and(player1_id.eq.${pair.player1_id},player2_id.eq.${pair.player2_id})`,
+            )
+            .join(","),
+        );
+
+      if (error) throw new Error(`Pair cleanup failed: ${error.message}`);
+    }
+
+    for (let i = 0; i < pairs.length; i += PAGE_SIZE) {
+      const { error } = await this.client.from("pair_ratings").upsert(
+        pairs.slice(i, i + PAGE_SIZE).map((pair) => ({
+          ...pair,
+          updated_at: appliedAt,
+        })),
+        { onConflict: "player1_id,player2_id" },
+      );
+
+      if (error) throw new Error(`Pair rating update failed: ${error.message}`);
+    }
+  }
+}
+
+export class InMemoryRatingStore implements RatingStore {
+  constructor(readonly tables: InMemoryTables) {}
+
+  async getValidatedMatches(): Promise<ReplayMatch[]> {
+    return this.tables.matches.filter(
+      (match) =>
+        !match.validation_status || match.validation_status === "validated",
+    );
+  }
+
+  async getCurrentRatings(): Promise<Map<string, GlickoRating>> {
+    return new Map(
+      this.tables.profiles.map((profile) => [
+        profile.id,
+        parseStoredRating(profile),
+      ]),
+    );
+  }
+
+  async getStartingRatings(): Promise<Map<string, GlickoRating>> {
+    const ratings = new Map<string, GlickoRating>();
+
+    for (const profile of this.tables.profiles) {
+      const seed = getSeededRating(profile);
+      if (seed) ratings.set(profile.id, seed);
+    }
+
+    return ratings;
+  }
+
+  async writeProfileRatings(ratings: Map<string, GlickoRating>): Promise<void> {
+    for (const profile of this.tables.profiles) {
+      const rating = ratings.get(profile.id);
+      if (!rating) continue;
+
+      profile.glicko_rating = rating.rating.toString();
+      profile.glicko_rd = rating.rd.toString();
+      profile.glicko_vol = rating.vol.toString();
+    }
+  }
+
+  async replaceRatingChanges(
+    matchIds: string[],
+    changes: ReplayRatingChange[],
+    appliedMatchIds: string[],
+  ): Promise<void> {
+    const replaced = new Set(matchIds);
+    const applied = new Set(appliedMatchIds);
+    const appliedAt = new Date().toISOString();
+
+    this.tables.match_rating_changes = [
+      ...this.tables.match_rating_changes.filter(
+        (row) => !replaced.has(row.match_id) || row.is_reverted,
+      ),
+      ...changes.map((change) => ({
+        ...change,
+        is_reverted: false,
+        applied_at: applied.has(change.match_id) ? appliedAt : null,
+      })),
+    ];
+  }
+
+  async replacePairRatings(
+    matchIds: string[],
+    pairs: StoredPairRating[],
+    changes: PairRatingChange[],
+  ): Promise<void> {
+    const replaced = new Set(matchIds);
+    const appliedAt = new Date().toISOString();
+
+    this.tables.pair_ratings = pairs.map((pair) => ({
+      ...pair,
+      updated_at: appliedAt,
+    }));
+    this.tables.pair_rating_changes = [
+      ...(this.tables.pair_rating_changes || []).filter(
+        (row) => !replaced.has(row.match_id) || row.is_reverted,
+      ),
+      ...changes.map((change) => ({
+        ...change,
+        is_reverted: false,
+        applied_at: appliedAt,
+      })),
+    ];
+  }
+}
+
+export interface RatingReplayReport {
+  dry_run: boolean;
+  algorithm: string;
+  replayed_matches: number;
+  skipped_match_ids: string[];
+  diffs: RatingDiff[];
+  changes: ReplayRatingChange[];
+}
+
+/**
+ * Rating Replay Service
+ *
+ * Rebuilds every player's rating from the full validated match history,
+ * e.g. after a disputed match is removed or the algorithm changes. A dry
+ * run only reports the differences; otherwise profiles, pair ratings and
+ * their audit rows are rewritten.
+ */
+export class RatingReplayService {
+  static async replay(
+    store: RatingStore,
+    options: {
+      dryRun?: boolean;
+      algorithm?: RatingAlgorithm;
+      usePeriods?: boolean;
+    } = {},
+  ): Promise<RatingReplayReport> {
+    const dryRun = options.dryRun ?? true;
+    const algorithm = options.algorithm ?? getRatingAlgorithm();
+
+    console.log(
+      `🔁 [RATING-REPLAY] Starting ${dryRun ? "dry run" : "replay"} with ${algorithm.name}...`,
+    );
+
+    const [matches, currentRatings, startingRatings] = await Promise.all([
+      store.getValidatedMatches(),
+      store.getCurrentRatings(),
+      store.getStartingRatings(),
+    ]);
+
+    // Seeded players start from their self-assessment, not the default
+    const result = replayRatings(matches, {
+      algorithm,
+      usePeriods: options.usePeriods,
+      initialRatings: startingRatings,
+    });
+
+    // Players without any validated match go back to their starting rating
+    const replayedRatings = new Map(result.ratings);
+    currentRatings.forEach((_, playerId) => {
+      if (!replayedRatings.has(playerId)) {
+        replayedRatings.set(
+          playerId,
+          startingRatings.get(playerId) ?? getDefaultRating(),
+        );
+      }
+    });
+
+    const diffs = diffRatings(currentRatings, replayedRatings);
+
+    // Partnerships are only rated on applied matches, new pairs start from
+    // their players' ratings going into the match, like the live services
+    const appliedMatchIds = new Set(result.appliedMatchIds);
+    const ratingsBefore = new Map(
+      result.changes.map((change) => [
+        `${change.match_id}:${change.player_id}`,
+        {
+          rating: change.rating_before,
+          rd: change.rd_before,
+          vol: change.vol_before,
+        },
+      ]),
+    );
+    const pairResult = replayPairRatings(
+      matches.filter((match) => appliedMatchIds.has(match.id)),
+      (matchId, playerId) =>
+        ratingsBefore.get(`${matchId}:${playerId}`) ?? getDefaultRating(),
+    );
+
+    console.log(
+      `📊 [RATING-REPLAY] Replayed ${result.replayedMatches} matches, ${diffs.length} players differ, ${result.skippedMatchIds.length} matches skipped`,
+    );
+
+    if (!dryRun) {
+      await store.writeProfileRatings(replayedRatings);
+      await store.replaceRatingChanges(
+        matches.map((match) => match.id),
+        result.changes,
+        result.appliedMatchIds,
+      );
+      await store.replacePairRatings(
+        matches.map((match) => match.id),
+        Array.from(pairResult.pairs, ([pairId, pair]) => {
+          const [player1Id, player2Id] = pairId.split(":");
+          return { player1_id: player1Id, player2_id: player2Id, ...pair };
+        }),
+        pairResult.changes,
+      );
+      console.log(`✅ [RATING-REPLAY] Ratings and audit rows rewritten`);
+    }
+
+    return {
+      dry_run: dryRun,
+      algorithm: algorithm.id,
+      replayed_matches: result.replayedMatches,
+      skipped_match_ids: result.skippedMatchIds,
+      diffs,
+      changes: result.changes,
+    };
+  }
+}
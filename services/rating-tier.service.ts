@@ -0,0 +1,136 @@
+import { supabase } from "@/config/supabase";
+import { RATING_TIER_CONFIG } from "@/constants/rating-tiers";
+import {
+  TierChange,
+  getRatingTiers,
+  getTierChange,
+  resolveRatingTier,
+} from "@/lib/rating-tiers";
+import { NotificationHelpers } from "@/services/notificationHelpers";
+
+export interface RatingTierEvent {
+  id: string;
+  player_id: string;
+  from_tier: string | null;
+  to_tier: string;
+  direction: "promotion" | "demotion";
+  rating: number;
+  match_id: string | null;
+  created_at: string;
+}
+
+/**
+ * Rating Tier Service
+ *
+ * Keeps the tier stored on `profiles.rating_tier` in line with the rating,
+ * applying the demotion hysteresis from constants/rating-tiers.ts. Every
+ * promotion or demotion is stored in rating_tier_events and notified.
+ */
+export class RatingTierService {
+  /**
+   * Re-evaluate the tiers of players whose rating just changed
+   *
+   * @param playerIds - Players to check
+   * @param matchId - Match that caused the change, if any
+   * @returns The tier changes that were recorded
+   */
+  static async updatePlayerTiers(
+    playerIds: string[],
+    matchId: string | null = null,
+  ): Promise<Map<string, TierChange>> {
+    const changes = new Map<string, TierChange>();
+    if (playerIds.length === 0) return changes;
+
+    const { data: profiles, error } = await supabase
+      .from("profiles")
+      .select("id, glicko_rating, rating_tier")
+      .in("id", playerIds);
+
+    // Tiers are cosmetic, a failure here never blocks the rating update
+    if (error) {
+      console.error(`❌ [TIER] Failed to fetch profiles:`, error);
+      return changes;
+    }
+
+    const tiers = getRatingTiers();
+
+    for (const profile of profiles || []) {
+      const current =
+        tiers.find((tier) => tier.id === profile.rating_tier) ?? null;
+      const next = resolveRatingTier(
+        profile.glicko_rating,
+        profile.rating_tier,
+      );
+      const change = getTierChange(current, next);
+      if (!change) continue;
+
+      const { error: updateError } = await supabase
+        .from("profiles")
+        .update({ rating_tier: change.to.id })
+        .eq("id", profile.id);
+
+      if (updateError) {
+        console.error(
+          `❌ [TIER] Failed to update tier for ${profile.id}:`,
+          updateError,
+        );
+        continue;
+      }
+
+      // The first tier a player gets is a placement, not a promotion
+      if (!change.from) continue;
+
+      const { error: eventError } = await supabase
+        .from("rating_tier_events")
+        .insert({
+          player_id: profile.id,
+          from_tier: change.from.id,
+          to_tier: change.to.id,
+          direction: change.direction,
+          rating: parseFloat(profile.glicko_rating),
+          match_id: matchId,
+        });
+
+      if (eventError) {
+        console.warn(
+          `⚠️ [TIER] Failed to record tier event for ${profile.id}:`,
+          eventError,
+        );
+      }
+
+      changes.set(profile.id, change);
+      console.log(
+        `🏅 [TIER] ${profile.id.substring(0, 8)}: ${change.from.name} → ${change.to.name}`,
+      );
+    }
+
+    const notified = new Map(
+      Array.from(changes).filter(
+        ([, change]) =>
+          change.divisionChanged || RATING_TIER_CONFIG.NOTIFY_SUB_LEVEL_CHANGES,
+      ),
+    );
+    await NotificationHelpers.sendRatingTierNotifications(notified, matchId);
+
+    return changes;
+  }
+
+  /**
+   * Promotion and demotion history of a player, newest first
+   */
+  static async getTierEvents(
+    playerId: string,
+    limit = 20,
+  ): Promise<RatingTierEvent[]> {
+    const { data, error } = await supabase
+      .from("rating_tier_events")
+      .select("*")
+      .eq("player_id", playerId)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (error) throw new Error(`Tier event fetch failed: ${error.message}`);
+
+    return data || [];
+  }
+}
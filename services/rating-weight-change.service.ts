@@ -0,0 +1,403 @@
+import { supabase } from "@/config/supabase";
+import { MatchRatingWeight, RATING_CONFIG } from "@/constants/rating";
+import { getRatingWeight, isRatedMatch } from "@/lib/rating-weight";
+
+export type RatingWeightChangeStatus =
+  | "pending"
+  | "applied"
+  | "rejected"
+  | "superseded";
+
+export interface RatingWeightChange {
+  id: string;
+  match_id: string;
+  from_weight: MatchRatingWeight;
+  to_weight: MatchRatingWeight;
+  requested_by: string;
+  approved_by: string[];
+  rejected_by: string | null;
+  status: RatingWeightChangeStatus;
+  deadline: string;
+  created_at: string;
+}
+
+export interface RatingWeightChangeResult {
+  success: boolean;
+  message: string;
+  error?: string;
+  applied?: boolean;
+}
+
+const CHANGE_COLUMNS =
+  "id, match_id, from_weight, to_weight, requested_by, approved_by, rejected_by, status, deadline, created_at";
+
+const playersOf = (match: {
+  player1_id: string;
+  player2_id: string | null;
+  player3_id: string | null;
+  player4_id: string | null;
+}): string[] =>
+  [
+    match.player1_id,
+    match.player2_id,
+    match.player3_id,
+    match.player4_id,
+  ].filter((id): id is string => !!id);
+
+/**
+ * Rating Weight Change Service
+ *
+ * Once a match is validated, its rating weight can no longer be changed by
+ * the creator alone. The change is stored in `rating_weight_changes` and
+ * re-validated by the other players: it takes effect when all of them
+ * approve, or when the window passes without an objection. Applying it
+ * goes through the regular rating paths.
+ */
+export class RatingWeightChangeService {
+  /**
+   * Propose a new rating weight for a validated match, replacing any
+   * proposal still waiting
+   */
+  static async requestChange(
+    matchId: string,
+    toWeight: MatchRatingWeight,
+    requestedBy: string,
+  ): Promise<RatingWeightChangeResult> {
+    try {
+      const { data: match, error: matchError } = await supabase
+        .from("matches")
+        .select("rating_weight")
+        .eq("id", matchId)
+        .single();
+
+      if (matchError || !match) {
+        return {
+          success: false,
+          message: "Match not found",
+          error: matchError?.message,
+        };
+      }
+
+      const fromWeight = getRatingWeight(match.rating_weight);
+      if (fromWeight === toWeight) {
+        return { success: true, message: "Rating weight unchanged" };
+      }
+
+      await supabase
+        .from("rating_weight_changes")
+        .update({ status: "superseded", resolved_at: new Date().toISOString() })
+        .eq("match_id", matchId)
+        .eq("status", "pending");
+
+      const deadline = new Date();
+      deadline.setHours(
+        deadline.getHours() + RATING_CONFIG.WEIGHT_CHANGE_APPROVAL_HOURS,
+      );
+
+      const { error: insertError } = await supabase
+        .from("rating_weight_changes")
+        .insert({
+          match_id: matchId,
+          from_weight: fromWeight,
+          to_weight: toWeight,
+          requested_by: requestedBy,
+          approved_by: [requestedBy],
+          status: "pending",
+          deadline: deadline.toISOString(),
+        });
+
+      if (insertError) {
+        return {
+          success: false,
+          message: "Failed to request the rating weight change",
+          error: insertError.message,
+        };
+      }
+
+      console.log(
+        `⚖️ [WEIGHT-CHANGE] ${fromWeight} → ${toWeight} requested for match ${matchId}`,
+      );
+
+      return {
+        success: true,
+        message: "The other players need to approve the new rating weight",
+      };
+    } catch (error) {
+      console.error(`💥 [WEIGHT-CHANGE] Request failed:`, error);
+      return {
+        success: false,
+        message: "Failed to request the rating weight change",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * The change waiting for approval on a match, if any
+   */
+  static async getPendingChange(
+    matchId: string,
+  ): Promise<RatingWeightChange | null> {
+    const { data, error } = await supabase
+      .from("rating_weight_changes")
+      .select(CHANGE_COLUMNS)
+      .eq("match_id", matchId)
+      .eq("status", "pending")
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Weight change fetch failed: ${error.message}`);
+    }
+
+    return data as RatingWeightChange | null;
+  }
+
+  /**
+   * Approve a pending change. It applies once every player approved.
+   */
+  static async approveChange(
+    changeId: string,
+    playerId: string,
+  ): Promise<RatingWeightChangeResult> {
+    try {
+      const { change, players } = await this.getChangeWithPlayers(changeId);
+
+      if (!players.includes(playerId)) {
+        return {
+          success: false,
+          message: "You are not a participant in this match",
+        };
+      }
+      if (change.status !== "pending") {
+        return {
+          success: false,
+          message: `This change is already ${change.status}`,
+        };
+      }
+
+      const approvedBy = Array.from(
+        new Set([...(change.approved_by || []), playerId]),
+      );
+
+      const { error: updateError } = await supabase
+        .from("rating_weight_changes")
+        .update({ approved_by: approvedBy })
+        .eq("id", changeId)
+        .eq("status", "pending");
+
+      if (updateError) {
+        return {
+          success: false,
+          message: "Failed to approve the change",
+          error: updateError.message,
+        };
+      }
+
+      if (players.every((id) => approvedBy.includes(id))) {
+        const applied = await this.applyChange(change);
+        return {
+          success: true,
+          message: "All players approved, the new rating weight applies",
+          applied,
+        };
+      }
+
+      return {
+        success: true,
+        message: `Change approved (${approvedBy.length}/${players.length})`,
+      };
+    } catch (error) {
+      console.error(`💥 [WEIGHT-CHANGE] Approval failed:`, error);
+      return {
+        success: false,
+        message: "Failed to approve the change",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Object to a pending change, the match keeps its current weight
+   */
+  static async rejectChange(
+    changeId: string,
+    playerId: string,
+  ): Promise<RatingWeightChangeResult> {
+    try {
+      const { change, players } = await this.getChangeWithPlayers(changeId);
+
+      if (!players.includes(playerId)) {
+        return {
+          success: false,
+          message: "You are not a participant in this match",
+        };
+      }
+
+      const { data: rejected, error } = await supabase
+        .from("rating_weight_changes")
+        .update({
+          status: "rejected",
+          rejected_by: playerId,
+          resolved_at: new Date().toISOString(),
+        })
+        .eq("id", change.id)
+        .eq("status", "pending")
+        .select("id");
+
+      if (error) {
+        return {
+          success: false,
+          message: "Failed to reject the change",
+          error: error.message,
+        };
+      }
+      if (!rejected || rejected.length === 0) {
+        return { success: false, message: "This change is no longer pending" };
+      }
+
+      console.log(
+        `🚫 [WEIGHT-CHANGE] Change ${change.id} rejected by ${playerId}`,
+      );
+      return {
+        success: true,
+        message: "Change rejected, the rating weight stays the same",
+      };
+    } catch (error) {
+      console.error(`💥 [WEIGHT-CHANGE] Rejection failed:`, error);
+      return {
+        success: false,
+        message: "Failed to reject the change",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Apply every pending change whose window passed without an objection
+   * This should be called periodically by a background worker
+   */
+  static async processDueChanges(now: Date = new Date()): Promise<number> {
+    const { data, error } = await supabase
+      .from("rating_weight_changes")
+      .select(CHANGE_COLUMNS)
+      .eq("status", "pending")
+      .lte("deadline", now.toISOString());
+
+    if (error) {
+      console.error(`❌ [WEIGHT-CHANGE] Due change fetch failed:`, error);
+      return 0;
+    }
+
+    let applied = 0;
+    for (const change of (data || []) as RatingWeightChange[]) {
+      try {
+        if (await this.applyChange(change)) applied++;
+      } catch (applyError) {
+        console.error(
+          `💥 [WEIGHT-CHANGE] Failed to apply change ${change.id}:`,
+          applyError,
+        );
+      }
+    }
+
+    return applied;
+  }
+
+  /**
+   * Write the new weight and re-rate the match
+   * @returns Whether this call applied the change
+   */
+  private static async applyChange(
+    change: RatingWeightChange,
+  ): Promise<boolean> {
+    // Claim the change so a concurrent approval or worker skips it
+    const { data: claimed, error: claimError } = await supabase
+      .from("rating_weight_changes")
+      .update({ status: "applied", resolved_at: new Date().toISOString() })
+      .eq("id", change.id)
+      .eq("status", "pending")
+      .select("id");
+
+    if (claimError || !claimed || claimed.length === 0) return false;
+
+    const { error: matchError } = await supabase
+      .from("matches")
+      .update({ rating_weight: change.to_weight })
+      .eq("id", change.match_id);
+
+    if (matchError) {
+      throw new Error(`Weight update failed: ${matchError.message}`);
+    }
+
+    if (!isRatedMatch(change.from_weight) && isRatedMatch(change.to_weight)) {
+      // A friendly never went through the rating engine, rate it now the
+      // way any validated match is rated
+      const { EnhancedRatingService } = await import(
+        "@/services/enhanced-rating.service"
+      );
+
+      const calculated = await EnhancedRatingService.calculateAndStoreRatings(
+        change.match_id,
+      );
+      if (!calculated.success) {
+        throw new Error(calculated.error || calculated.message);
+      }
+
+      const applied = await EnhancedRatingService.applyValidatedRatings(
+        change.match_id,
+      );
+      if (!applied.success) {
+        throw new Error(applied.error || applied.message);
+      }
+    } else {
+      // Re-rate (or remove) the match and everything played after it
+      const { RatingCorrectionService } = await import(
+        "@/services/rating-correction.service"
+      );
+
+      const correction = await RatingCorrectionService.correctFromMatch(
+        change.match_id,
+        "edited",
+      );
+      if (!correction.success) {
+        throw new Error(correction.error || correction.message);
+      }
+    }
+
+    console.log(
+      `✅ [WEIGHT-CHANGE] Match ${change.match_id} is now ${change.to_weight}`,
+    );
+    return true;
+  }
+
+  private static async getChangeWithPlayers(changeId: string): Promise<{
+    change: RatingWeightChange;
+    players: string[];
+  }> {
+    const { data: change, error: changeError } = await supabase
+      .from("rating_weight_changes")
+      .select(CHANGE_COLUMNS)
+      .eq("id", changeId)
+      .single();
+
+    if (changeError || !change) {
+      throw new Error(
+        `Weight change fetch failed: ${changeError?.message || "not found"}`,
+      );
+    }
+
+    const { data: match, error: matchError } = await supabase
+      .from("matches")
+      .select("player1_id, player2_id, player3_id, player4_id")
+      .eq("id", change.match_id)
+      .single();
+
+    if (matchError || !match) {
+      throw new Error(
+        `Match fetch failed: ${matchError?.message || "not found"}`,
+      );
+    }
+
+    return { change: change as RatingWeightChange, players: playersOf(match) };
+  }
+}
@@ -0,0 +1,112 @@
+import { supabase } from "@/config/supabase";
+import { INTEGRITY_CONFIG } from "@/constants/integrity";
+import { RATING_CONFIG } from "@/constants/rating";
+import { IntegrityService } from "@/services/integrity.service";
+import { RatingDecayService } from "@/services/rating-decay.service";
+import { RatingPeriodService } from "@/services/rating-period.service";
+
+export interface ScheduledJobResult {
+  success: boolean;
+  message: string;
+  error?: string;
+}
+
+interface ScheduledJob {
+  id: string;
+  // The job runs at most once per window of this many hours
+  intervalHours: number;
+  run: (now: Date) => Promise<ScheduledJobResult>;
+}
+
+const SCHEDULED_JOBS: ScheduledJob[] = [
+  {
+    id: "integrity_analysis",
+    intervalHours: INTEGRITY_CONFIG.ANALYSIS_INTERVAL_HOURS,
+    run: (now) => IntegrityService.runAnalysis(now),
+  },
+  {
+    id: "rating_period_close",
+    intervalHours: RATING_CONFIG.RATING_PERIOD_CLOSE_INTERVAL_HOURS,
+    run: async () => {
+      const summary = await RatingPeriodService.closeDuePeriods();
+      return {
+        success: summary.failed === 0,
+        message: `Closed ${summary.closed} period(s), rated ${summary.rated_matches} match(es)`,
+      };
+    },
+  },
+  {
+    id: "rating_decay",
+    intervalHours: RATING_CONFIG.DECAY_INTERVAL_HOURS,
+    run: (now) => RatingDecayService.applyInactivityDecay(now),
+  },
+];
+
+/**
+ * Scheduled Job Service
+ *
+ * Runs background jobs from the app without every client repeating them.
+ * Each job runs at most once per window: the first client to claim the
+ * window in scheduled_job_runs runs it, every other client skips it.
+ */
+export class ScheduledJobService {
+  /**
+   * Start of the window that contains the given instant
+   */
+  static getWindowStart(intervalHours: number, now: Date = new Date()): Date {
+    const intervalMs = intervalHours * 60 * 60 * 1000;
+    return new Date(Math.floor(now.getTime() / intervalMs) * intervalMs);
+  }
+
+  /**
+   * Run every job whose current window has not been claimed yet
+   * This should be called periodically by a background worker
+   */
+  static async runDueJobs(now: Date = new Date()): Promise<void> {
+    for (const job of SCHEDULED_JOBS) {
+      try {
+        await this.runOnce(job, now);
+      } catch (error) {
+        console.error(`💥 [SCHEDULED-JOB] ${job.id} crashed:`, error);
+      }
+    }
+  }
+
+  /**
+   * Claim the job's current window and run it
+   * @returns Whether this client ran the job
+   */
+  private static async runOnce(job: ScheduledJob, now: Date): Promise<boolean> {
+    const windowStart = this.getWindowStart(job.intervalHours, now);
+
+    // The unique (job, window_start) key lets only one client through
+    const { data: claimed, error: claimError } = await supabase
+      .from("scheduled_job_runs")
+      .insert({
+        job: job.id,
+        window_start: windowStart.toISOString(),
+        status: "running",
+        started_at: now.toISOString(),
+      })
+      .select("id")
+      .single();
+
+    if (claimError || !claimed) {
+      return false;
+    }
+
+    console.log(`⏰ [SCHEDULED-JOB] Running ${job.id}`);
+    const result = await job.run(now);
+
+    await supabase
+      .from("scheduled_job_runs")
+      .update({
+        status: result.success ? "completed" : "failed",
+        finished_at: new Date().toISOString(),
+        message: result.error ?? result.message,
+      })
+      .eq("id", claimed.id);
+
+    return true;
+  }
+}
@@ -0,0 +1,144 @@
+import { supabase } from "@/config/supabase";
+import { MatchEvent } from "@/lib/match-events";
+import {
+  ShotStats,
+  createShotStats,
+  getPlayerShotStats,
+  mergeShotStats,
+} from "@/lib/shot-stats";
+
+export interface CareerShotStats extends ShotStats {
+  // Matches with at least one point tagged to the player
+  matches: number;
+}
+
+// Game and set markers are not needed to tell which tagged points stand
+const STATS_EVENT_TYPES = [
+  "match_started",
+  "point",
+  "timeout",
+  "match_ended",
+  "correction",
+  "undo",
+  "redo",
+];
+
+interface StatsMatch {
+  id: string;
+  player1_id: string;
+  player2_id: string | null;
+  player3_id: string | null;
+  player4_id: string | null;
+}
+
+const PAGE_SIZE = 1000;
+
+// Keeps the match id filter of the event query short enough for the URL
+const MATCH_BATCH_SIZE = 100;
+
+/**
+ * Shot Stats Service
+ *
+ * Career shot and error stats of a player, added up from the tagged points
+ * in the event logs of their matches.
+ */
+export class ShotStatsService {
+  static async getCareerStats(playerId: string): Promise<CareerShotStats> {
+    const matches = await this.getScoredMatches(playerId);
+    if (matches.length === 0) {
+      return { ...createShotStats(), matches: 0 };
+    }
+
+    const perMatch: ShotStats[] = [];
+
+    // Event logs are loaded a batch of matches at a time
+    for (let i = 0; i < matches.length; i += MATCH_BATCH_SIZE) {
+      const batch = matches.slice(i, i + MATCH_BATCH_SIZE);
+      const eventsByMatch = await this.getStatsEvents(
+        batch.map((match) => match.id),
+      );
+
+      for (const match of batch) {
+        const stats = getPlayerShotStats(
+          eventsByMatch.get(match.id) ?? [],
+          {
+            1: match.player1_id,
+            2: match.player2_id,
+            3: match.player3_id,
+            4: match.player4_id,
+          },
+          playerId,
+        );
+        if (stats && stats.tagged > 0) perMatch.push(stats);
+      }
+    }
+
+    console.log(
+      `📊 [SHOT-STATS] ${perMatch.length} tagged matches for ${playerId}`,
+    );
+
+    return { ...mergeShotStats(...perMatch), matches: perMatch.length };
+  }
+
+  /**
+   * Every scored match of a player, one page at a time
+   */
+  private static async getScoredMatches(
+    playerId: string,
+  ): Promise<StatsMatch[]> {
+    const matches: StatsMatch[] = [];
+
+    for (let page = 0; ; page++) {
+      const { data, error } = await supabase
+        .from("matches")
+        .select("id, player1_id, player2_id, player3_id, player4_id")
+        .or(
+          `player1_id.eq.${playerId},player2_id.eq.${playerId},player3_id.eq.${playerId},player4_id.eq.${playerId}`,
+        )
+        .not("team1_score_set1", "is", null)
+        .order("id", { ascending: true })
+        .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+      if (error) throw new Error(`Shot stats fetch failed: ${error.message}`);
+
+      matches.push(...((data || []) as StatsMatch[]));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return matches;
+  }
+
+  /**
+   * Stats-relevant events of some matches in log order, grouped by match
+   */
+  private static async getStatsEvents(
+    matchIds: string[],
+  ): Promise<Map<string, MatchEvent[]>> {
+    const eventsByMatch = new Map<string, MatchEvent[]>();
+
+    for (let page = 0; ; page++) {
+      const { data, error } = await supabase
+        .from("match_events")
+        .select(
+          "match_id, sequence, type, team, payload, created_by, created_at",
+        )
+        .in("match_id", matchIds)
+        .in("type", STATS_EVENT_TYPES)
+        .order("match_id", { ascending: true })
+        .order("sequence", { ascending: true })
+        .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+      if (error) throw new Error(`Shot stats fetch failed: ${error.message}`);
+
+      for (const event of (data || []) as MatchEvent[]) {
+        eventsByMatch.set(event.match_id, [
+          ...(eventsByMatch.get(event.match_id) ?? []),
+          event,
+        ]);
+      }
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return eventsByMatch;
+  }
+}
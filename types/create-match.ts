@@ -1,3 +1,7 @@
+import { MatchRatingWeight } from "@/constants/rating";
+import { MatchEndReason } from "@/constants/match-ending";
+import { DeuceRule, MatchFormatId } from "@/constants/scoring";
+
 // ENHANCEMENT: Add validation status enum
 export enum ValidationStatus {
   PENDING = "pending",
@@ -58,13 +62,24 @@ export interface MatchData {
   team2_score_set2: number | null;
   team1_score_set3: number | null;
   team2_score_set3: number | null;
+  team1_tiebreak_set1: number | null;
+  team2_tiebreak_set1: number | null;
+  team1_tiebreak_set2: number | null;
+  team2_tiebreak_set2: number | null;
+  team1_tiebreak_set3: number | null;
+  team2_tiebreak_set3: number | null;
+  super_tiebreak: boolean;
   winner_team: number | null;
+  end_reason?: MatchEndReason | null;
   start_time: string;
   end_time: string | null;
   region: string | null;
   court: string | null;
   is_public: boolean;
   description?: string;
+  rating_weight?: MatchRatingWeight;
+  match_format?: MatchFormatId;
+  deuce_rule?: DeuceRule;
   updated_by?: string;
   validation_deadline?: string;
   validation_status?: string;
@@ -29,6 +29,7 @@ export interface MatchData {
   team1_score_set3: number | null;
   team2_score_set3: number | null;
   winner_team: number | null;
+  end_reason?: string | null;
   is_public: boolean;
   description: string | null;
   validation_status?: string;
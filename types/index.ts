@@ -14,6 +14,9 @@ export interface Friend {
   preferred_hand: string | null;
   court_playing_side: string | null;
   glicko_rating: number | null;
+  glicko_rd?: number | null;
+  glicko_vol?: number | null;
+  rating_tier?: string | null;
   avatar_url?: string | null;
 }
 
@@ -8,12 +8,15 @@ import {
 } from "@/types/create-match";
 import { VALIDATION_CONFIG } from "@/constants/create-match";
 import { FEATURE_FLAGS } from "@/constants/features";
+import { MatchRatingWeight } from "@/constants/rating";
+import { MatchEndReason } from "@/constants/match-ending";
+import { CLASSIC_MATCH_FORMAT, MatchFormat } from "@/constants/scoring";
 import { NotificationHelpers } from "@/services/notificationHelpers";
+import { SetScore, toMatchScoreColumns } from "@/lib/padel-scoring";
+import { MatchEndingValidation } from "@/lib/match-ending";
+import { getMaxSets, toMatchFormatColumns } from "@/lib/match-format";
 
-export interface SetScore {
-  team1: number;
-  team2: number;
-}
+export type { SetScore } from "@/lib/padel-scoring";
 
 export interface ValidationResult {
   isValid: boolean;
@@ -48,49 +51,13 @@ export const handleBackspaceNavigation = (
   }
 };
 
-// Winner determination
-export const determineWinnerTeam = (
-  set1Score: SetScore,
-  set2Score: SetScore,
-  set3Score: SetScore,
-  showSet3: boolean,
-): number => {
-  let team1Sets = 0;
-  let team2Sets = 0;
-
-  if (set1Score.team1 > set1Score.team2) team1Sets++;
-  else if (set1Score.team2 > set1Score.team1) team2Sets++;
-
-  if (set2Score.team1 > set2Score.team2) team1Sets++;
-  else if (set2Score.team2 > set2Score.team1) team2Sets++;
-
-  if (showSet3) {
-    if (set3Score.team1 > set3Score.team2) team1Sets++;
-    else if (set3Score.team2 > set3Score.team1) team2Sets++;
-  }
-
-  if (team1Sets > team2Sets) return 1;
-  if (team2Sets > team1Sets) return 2;
-  return 0;
-};
-
-// Score validation
-export const validateSetScore = (score: SetScore): boolean => {
-  return (
-    score.team1 >= 0 && score.team2 >= 0 && (score.team1 > 0 || score.team2 > 0)
-  );
-};
-
 // Final match validation
 export const validateFinalMatch = (
   endDateTime: Date,
   startDateTime: Date,
   isPastMatch: boolean,
   selectedPlayers: any[],
-  isSet1Valid: boolean,
-  isSet2Valid: boolean,
-  isSet3Valid: boolean,
-  showSet3: boolean,
+  scoreValidation: MatchEndingValidation,
   isPublicMatch: boolean,
   selectedCourt: any,
   region: string,
@@ -109,12 +76,7 @@ export const validateFinalMatch = (
 
   // Essential score validation for past matches
   if (isPastMatch) {
-    if (!isSet1Valid || !isSet2Valid) {
-      errors.push("Please enter valid scores for both sets");
-    }
-    if (showSet3 && !isSet3Valid) {
-      errors.push("Please enter a valid score for the third set");
-    }
+    errors.push(...scoreValidation.errors);
   }
 
   // Public match location requirement
@@ -235,19 +197,30 @@ export const createMatchData = (
   matchDescription: string,
   isPastMatch: boolean,
   isPublicMatch: boolean,
+  ratingWeight: MatchRatingWeight = "standard",
+  superTiebreak = false,
+  matchFormat: MatchFormat = CLASSIC_MATCH_FORMAT,
+  endReason: MatchEndReason = "completed",
 ): MatchData => {
+  const sets = showSet3
+    ? [set1Score, set2Score, set3Score]
+    : [set1Score, set2Score];
+  const scoreColumns = toMatchScoreColumns(
+    sets.slice(0, getMaxSets(matchFormat)),
+    { superTiebreak },
+  );
+
   return {
     player1_id: sessionUserId,
     player2_id: selectedFriends[0] || null,
     player3_id: selectedFriends[1] || null,
     player4_id: selectedFriends[2] || null,
-    team1_score_set1: isPastMatch ? set1Score.team1 : null,
-    team2_score_set1: isPastMatch ? set1Score.team2 : null,
-    team1_score_set2: isPastMatch ? set2Score.team1 : null,
-    team2_score_set2: isPastMatch ? set2Score.team2 : null,
-    team1_score_set3: isPastMatch && showSet3 ? set3Score.team1 : null,
-    team2_score_set3: isPastMatch && showSet3 ? set3Score.team2 : null,
-    winner_team: isPastMatch ? winnerTeam : null,
+    ...(isPastMatch
+      ? scoreColumns
+      : toMatchScoreColumns([], { superTiebreak: false })),
+    // Abandoned matches end without a winner
+    winner_team: isPastMatch ? winnerTeam || null : null,
+    end_reason: isPastMatch ? endReason : null,
     status: isPastMatch ? MatchStatus.COMPLETED : MatchStatus.PENDING,
     completed_at: isPastMatch ? new Date().toISOString() : null,
     start_time: startDateTime.toISOString(),
@@ -256,6 +229,8 @@ export const createMatchData = (
     court: court.trim() || null,
     is_public: isPublicMatch,
     description: matchDescription.trim() || null,
+    rating_weight: ratingWeight,
+    ...toMatchFormatColumns(matchFormat),
     rating_applied: false,
   };
 };